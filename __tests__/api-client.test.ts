@@ -0,0 +1,28 @@
+import { requestJson } from '@/lib/api/client';
+import { ApiCancelledError } from '@/lib/api/errors';
+
+const unavailable = () => ({ ok: false, status: 503, text: async () => '' }) as Response;
+
+beforeEach(() => {
+  jest.mocked(global.fetch).mockClear();
+  jest.mocked(global.fetch).mockImplementation(async () => unavailable());
+});
+
+test('cancelling during the backoff delay settles the request at once', async () => {
+  const controller = new AbortController();
+  jest.mocked(global.fetch).mockImplementationOnce(async () => {
+    // The user cancels while the failed attempt waits for its retry
+    setTimeout(() => controller.abort(), 0);
+    return unavailable();
+  });
+
+  const started = Date.now();
+  const request = requestJson('/predict', { signal: controller.signal }, (data) => data, {
+    retries: 2,
+    retryBaseDelayMs: 60_000,
+  });
+
+  await expect(request).rejects.toBeInstanceOf(ApiCancelledError);
+  expect(Date.now() - started).toBeLessThan(5_000);
+  expect(global.fetch).toHaveBeenCalledTimes(1);
+});
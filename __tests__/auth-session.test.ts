@@ -0,0 +1,43 @@
+import { InsecureAuthError } from '@/lib/auth/backend';
+import { createServerAuthBackend } from '@/lib/auth/server-backend';
+import { activateAuthBackend, apiAuthFor } from '@/lib/auth/session';
+import { createSupabaseAuthBackend } from '@/lib/auth/supabase-backend';
+import { DEFAULT_PROFILES } from '@/lib/server-profiles';
+
+const onServer = (baseUrl: string) => createServerAuthBackend({ ...DEFAULT_PROFILES[0], baseUrl });
+
+const supabase = createSupabaseAuthBackend({
+  url: 'https://project.supabase.co',
+  anonKey: 'anon',
+  audience: ['https://api.example.com'],
+});
+
+test('Supabase tokens only go to the configured prediction servers', async () => {
+  await activateAuthBackend(supabase);
+
+  expect(apiAuthFor('https://api.example.com')).not.toBeNull();
+  expect(apiAuthFor('https://API.example.com/')).not.toBeNull();
+  expect(apiAuthFor('https://third-party.example.org')).toBeNull();
+});
+
+test('bearer tokens never travel over plain HTTP to another host', async () => {
+  await activateAuthBackend(onServer('http://10.1.2.3:5000'));
+
+  expect(apiAuthFor('http://10.1.2.3:5000')).toBeNull();
+});
+
+test('loopback servers may use plain HTTP', async () => {
+  await activateAuthBackend(onServer('http://localhost:5000'));
+
+  expect(apiAuthFor('http://localhost:5000')).not.toBeNull();
+});
+
+test('passwords are not sent to servers without HTTPS', async () => {
+  const backend = onServer('http://10.1.2.3:5000');
+
+  const signIn = backend.signInWithPassword('grower@example.com', 'secret');
+  await expect(signIn).rejects.toBeInstanceOf(InsecureAuthError);
+  const magicLink = backend.completeMagicLink('app://auth/callback?token=abc');
+  await expect(magicLink).rejects.toBeInstanceOf(InsecureAuthError);
+  expect(global.fetch).not.toHaveBeenCalled();
+});
@@ -0,0 +1,124 @@
+import { runWithConcurrency, summarizeBatch, type BatchItem } from '@/lib/batch';
+import { DEFAULT_CONFIDENCE_THRESHOLDS } from '@/lib/confidence';
+import type { PredictionResult } from '@/lib/inference/predictor';
+
+/** A worker whose calls finish only when the test says so */
+function createControlledWorker() {
+  const running = new Map<number, () => void>();
+  const started: number[] = [];
+  let maxRunning = 0;
+
+  const worker = (item: number) =>
+    new Promise<void>((resolve) => {
+      started.push(item);
+      running.set(item, () => {
+        running.delete(item);
+        resolve();
+      });
+      maxRunning = Math.max(maxRunning, running.size);
+    });
+
+  /** Finish a running item and let the queue start the next one */
+  const finish = async (item: number) => {
+    running.get(item)!();
+    await new Promise((resolve) => setImmediate(resolve));
+  };
+
+  return { worker, finish, started, running, maxRunning: () => maxRunning };
+}
+
+test('runs every item once with at most the limit in flight', async () => {
+  const { worker, finish, started, running, maxRunning } = createControlledWorker();
+
+  const run = runWithConcurrency([1, 2, 3, 4, 5], 2, worker);
+
+  expect([...running.keys()]).toEqual([1, 2]);
+  // A free lane picks up the next item, whichever one finished
+  await finish(2);
+  expect([...running.keys()]).toEqual([1, 3]);
+  await finish(1);
+  await finish(3);
+  await finish(4);
+  await finish(5);
+  await run;
+
+  expect(started).toEqual([1, 2, 3, 4, 5]);
+  expect(maxRunning()).toBe(2);
+});
+
+test('stopping lets running items finish but starts no more', async () => {
+  const { worker, finish, started } = createControlledWorker();
+  let stopped = false;
+
+  const run = runWithConcurrency([1, 2, 3, 4, 5], 3, worker, () => stopped);
+  stopped = true;
+  await finish(1);
+  await finish(2);
+  await finish(3);
+  await run;
+
+  expect(started).toEqual([1, 2, 3]);
+});
+
+test('an empty batch finishes at once', async () => {
+  const worker = jest.fn(async () => undefined);
+  await runWithConcurrency([], 3, worker);
+  expect(worker).not.toHaveBeenCalled();
+});
+
+const result = (
+  prediction: string,
+  confidence: number | null,
+  outOfDistribution = false
+): PredictionResult => ({
+  prediction,
+  confidence,
+  topK: null,
+  gradcamBase64: null,
+  gradcamGrid: null,
+  outOfDistribution,
+});
+
+const item = (
+  id: string,
+  status: BatchItem['status'],
+  prediction: PredictionResult | null = null
+): BatchItem => ({
+  id,
+  uri: `file:///picked/${id}.jpg`,
+  fileSize: null,
+  status,
+  result: prediction,
+  recordId: prediction ? `record-${id}` : null,
+  error: status === 'error' ? 'Server error' : null,
+});
+
+test('the summary counts outcomes, labels and the results that need a closer look', () => {
+  const items = [
+    item('a', 'done', result('tomato_early_blight', 0.9)),
+    item('b', 'done', result('tomato_early_blight', 0.5)),
+    item('c', 'done', result('tomato_healthy', 0.7)),
+    item('d', 'done', result('tomato_healthy', null)),
+    item('e', 'done', result('tomato_late_blight', 0.95, true)),
+    item('f', 'queued'),
+    item('g', 'error'),
+    item('h', 'waiting'),
+  ];
+
+  const summary = summarizeBatch(items, DEFAULT_CONFIDENCE_THRESHOLDS);
+
+  expect(summary).toMatchObject({ total: 8, diagnosed: 5, queued: 1, failed: 1 });
+  // Photos that are not leaves count as diagnosed but have no label and no confidence
+  expect(summary.labelCounts).toEqual([
+    { label: 'tomato_early_blight', count: 2 },
+    { label: 'tomato_healthy', count: 2 },
+  ]);
+  expect(summary.meanConfidencePct).toBeCloseTo(70);
+  expect(summary.uncertain.map((i) => i.id)).toEqual(['b', 'c', 'd', 'e']);
+});
+
+test('a batch without diagnosed leaves has no mean confidence', () => {
+  const summary = summarizeBatch([item('a', 'error'), item('b', 'queued')], DEFAULT_CONFIDENCE_THRESHOLDS);
+
+  expect(summary).toMatchObject({ diagnosed: 0, labelCounts: [], meanConfidencePct: null, uncertain: [] });
+});
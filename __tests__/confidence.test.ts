@@ -0,0 +1,74 @@
+import {
+  bandAdvice,
+  confidenceBand,
+  DEFAULT_CONFIDENCE_THRESHOLDS,
+  resultTitle,
+  validateConfidenceThresholds,
+  type BandInput,
+} from '@/lib/confidence';
+import { getTranslator } from '@/lib/i18n';
+
+const i18n = getTranslator('en');
+
+const result = (confidence: number | null, outOfDistribution = false): BandInput => ({
+  prediction: 'tomato_early_blight',
+  confidence,
+  outOfDistribution,
+});
+
+const band = (confidence: number | null, outOfDistribution = false) =>
+  confidenceBand(result(confidence, outOfDistribution), DEFAULT_CONFIDENCE_THRESHOLDS);
+
+test('results are banded at the thresholds, whichever scale the server reports', () => {
+  // Defaults: confident from 75 %, rejected below 40 %
+  expect([band(0.9), band(0.75), band(0.7499), band(0.4), band(0.3999), band(0)]).toEqual([
+    'confident',
+    'confident',
+    'uncertain',
+    'uncertain',
+    'reject',
+    'reject',
+  ]);
+  expect([band(75), band(74), band(39)]).toEqual(['confident', 'uncertain', 'reject']);
+});
+
+test('a missing confidence is uncertain and a photo that is not a leaf is always rejected', () => {
+  expect(band(null)).toBe('uncertain');
+  expect(band(0.99, true)).toBe('reject');
+});
+
+test('custom thresholds move the bands', () => {
+  const strict = { confidentFromPct: 95, rejectBelowPct: 80 };
+
+  expect(confidenceBand(result(0.9), strict)).toBe('uncertain');
+  expect(confidenceBand(result(0.7), strict)).toBe('reject');
+  // Equal thresholds leave no uncertain band
+  expect(confidenceBand(result(0.5), { confidentFromPct: 50, rejectBelowPct: 50 })).toBe('confident');
+});
+
+test('rejected results never show a disease name', () => {
+  const confident = result(0.9);
+  const rejected = result(0.1);
+  const notALeaf = result(0.9, true);
+
+  expect(resultTitle(confident, 'confident', i18n)).toBe(i18n.labelName('tomato_early_blight'));
+  expect(resultTitle(result(0.6), 'uncertain', i18n)).toBe(i18n.labelName('tomato_early_blight'));
+  expect(resultTitle(rejected, 'reject', i18n)).toBe(i18n.t('band.reject'));
+  expect(resultTitle(notALeaf, 'reject', i18n)).toBe(i18n.t('result.notAPlant'));
+
+  expect(bandAdvice(confident, 'confident', i18n)).toBeNull();
+  expect(bandAdvice(result(0.6), 'uncertain', i18n)).toBe(i18n.t('advice.uncertain'));
+  expect(bandAdvice(rejected, 'reject', i18n)).toBe(i18n.t('advice.reject'));
+  expect(bandAdvice(notALeaf, 'reject', i18n)).toBe(i18n.t('advice.notAPlant'));
+});
+
+test('thresholds are validated before they are saved', () => {
+  const validate = (confidentFromPct: number, rejectBelowPct: number) =>
+    validateConfidenceThresholds({ confidentFromPct, rejectBelowPct }, i18n);
+
+  expect(validate(75, 40)).toBeNull();
+  expect(validate(60, 60)).toBeNull();
+  expect(validate(101, 40)).toBe('Thresholds must be between 0 and 100.');
+  expect(validate(75, Number.NaN)).toBe('Thresholds must be between 0 and 100.');
+  expect(validate(50, 60)).toBe('The reject threshold must not be above the confident one.');
+});
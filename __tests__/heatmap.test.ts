@@ -0,0 +1,43 @@
+import { zlibSync } from 'fflate';
+
+import { bytesToBase64 } from '@/lib/base64';
+import { describeHeatmap, heatmapFromPng, renderHeatmapPng } from '@/lib/heatmap';
+import { decodePngBase64 } from '@/lib/png';
+
+/** 10×10 activations with a hot spot in the lower-left corner */
+const lowerLeftSpot = () =>
+  Array.from({ length: 10 }, (_, y) => Array.from({ length: 10 }, (_, x) => (y >= 7 && x <= 2 ? 1 : 0)));
+
+test('a rendered heatmap reads back to the same region', () => {
+  const grid = heatmapFromPng(`data:image/png;base64,${renderHeatmapPng(lowerLeftSpot())}`);
+
+  expect(grid).not.toBeNull();
+  expect(describeHeatmap(grid!)).toMatchObject({ area: 'lowerLeft' });
+  expect(describeHeatmap(grid!)).toEqual(describeHeatmap(lowerLeftSpot()));
+});
+
+test('compressed, filtered RGB PNGs decode like the server sends them', () => {
+  // 2×1 RGB image, one scanline with the "sub" filter: red, then blue stored as its difference from red
+  const header = [0, 0, 0, 2, 0, 0, 0, 1, 8, 2, 0, 0, 0];
+  const idat = Array.from(zlibSync(new Uint8Array([1, 255, 0, 0, 1, 0, 255])));
+  const chunk = (type: string, data: number[]) => [
+    ...[24, 16, 8, 0].map((shift) => (data.length >>> shift) & 0xff),
+    ...Array.from(type, (c) => c.charCodeAt(0)),
+    ...data,
+    0,
+    0,
+    0,
+    0,
+  ];
+  const signature = [137, 80, 78, 71, 13, 10, 26, 10];
+  const png = [...signature, ...chunk('IHDR', header), ...chunk('IDAT', idat), ...chunk('IEND', [])];
+
+  const image = decodePngBase64(bytesToBase64(new Uint8Array(png)));
+
+  expect(image.width).toBe(2);
+  expect(Array.from(image.data)).toEqual([255, 0, 0, 255, 0, 0, 255, 255]);
+});
+
+test('images that are not PNGs give no grid', () => {
+  expect(heatmapFromPng('bGVhZg==')).toBeNull();
+});
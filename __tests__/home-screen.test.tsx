@@ -0,0 +1,172 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as ImagePicker from 'expo-image-picker';
+import { Slot } from 'expo-router';
+import { renderRouter, screen, userEvent } from 'expo-router/testing-library';
+
+import HomeScreen from '@/app/(tabs)/index';
+import { findMockScenario } from '@/constants/mock-predictions';
+import { AuthProvider } from '@/hooks/use-auth';
+import { DiagnosisHistoryProvider } from '@/hooks/use-diagnosis-history';
+import { DiagnosisSettingsProvider } from '@/hooks/use-diagnosis-settings';
+import { FeedbackProvider } from '@/hooks/use-feedback';
+import { I18nProvider } from '@/hooks/use-i18n';
+import { KnowledgeBaseProvider } from '@/hooks/use-knowledge-base';
+import { OutboxProvider } from '@/hooks/use-outbox';
+import { PlantProfilesProvider } from '@/hooks/use-plant-profiles';
+import { RemindersProvider } from '@/hooks/use-reminders';
+import { ServerProfilesProvider } from '@/hooks/use-server-profiles';
+import { ThemePreferenceProvider } from '@/hooks/use-theme-preference';
+import { DEFAULT_DIAGNOSIS_SETTINGS } from '@/lib/diagnosis-settings';
+
+/**
+ * Home screen flows driven by the mock predictor's fixtures (constants/mock-predictions.ts):
+ * the gallery returns one photo, preprocessing is stubbed, everything after it is the app's own.
+ */
+
+jest.mock('expo-image-picker', () => ({
+  MediaTypeOptions: { Images: 'Images' },
+  requestMediaLibraryPermissionsAsync: jest.fn(async () => ({ granted: true })),
+  launchImageLibraryAsync: jest.fn(async () => ({
+    canceled: false,
+    assets: [{ uri: 'file:///leaf.jpg', fileSize: 2_000_000 }],
+  })),
+}));
+
+jest.mock('@/lib/image-preprocessing', () => ({
+  ...jest.requireActual('@/lib/image-preprocessing'),
+  preprocessImage: jest.fn(async () => ({
+    uri: 'file:///leaf-small.jpg',
+    base64: 'bGVhZg==',
+    width: 1024,
+    height: 1024,
+    quality: 0.85,
+    originalBytes: 2_000_000,
+    processedBytes: 300_000,
+  })),
+}));
+
+/** The app's providers around the routes, without the navigators */
+function Providers() {
+  return (
+    <ThemePreferenceProvider>
+      <I18nProvider>
+        <ServerProfilesProvider>
+          <AuthProvider>
+            <DiagnosisSettingsProvider>
+              <KnowledgeBaseProvider>
+                <DiagnosisHistoryProvider>
+                  <OutboxProvider>
+                    <FeedbackProvider>
+                      <PlantProfilesProvider>
+                        <RemindersProvider>
+                          <Slot />
+                        </RemindersProvider>
+                      </PlantProfilesProvider>
+                    </FeedbackProvider>
+                  </OutboxProvider>
+                </DiagnosisHistoryProvider>
+              </KnowledgeBaseProvider>
+            </DiagnosisSettingsProvider>
+          </AuthProvider>
+        </ServerProfilesProvider>
+      </I18nProvider>
+    </ThemePreferenceProvider>
+  );
+}
+
+/**
+ * Render the home screen with the mock predictor answering from the scenario's fixture
+ */
+async function renderWithScenario(scenario: string) {
+  await AsyncStorage.setItem(
+    'diagnosisSettings.v1',
+    JSON.stringify({ ...DEFAULT_DIAGNOSIS_SETTINGS, mockScenario: scenario })
+  );
+  renderRouter({ _layout: Providers, index: HomeScreen }, { initialUrl: '/' });
+  await screen.findByText(`Server: Mock (${findMockScenario(scenario)?.title})`);
+}
+
+async function pickImage() {
+  await userEvent.press(screen.getByRole('button', { name: 'Pick an image' }));
+}
+
+beforeEach(async () => {
+  jest.clearAllMocks();
+  await AsyncStorage.clear();
+});
+
+test('shows a confident result with its differential diagnosis', async () => {
+  await renderWithScenario('healthy');
+  await pickImage();
+
+  expect(await screen.findByText('Differential diagnosis', {}, { timeout: 3000 })).toBeTruthy();
+  expect(screen.getByText('Tomato – healthy')).toBeTruthy();
+  expect(screen.getAllByText('97%').length).toBeGreaterThan(0);
+});
+
+test('asks for a better photo when the model is unsure', async () => {
+  await renderWithScenario('low-confidence');
+  await pickImage();
+
+  expect(await screen.findByText(/The model is unsure/, {}, { timeout: 3000 })).toBeTruthy();
+});
+
+test('flags photos that are not a plant leaf', async () => {
+  await renderWithScenario('not-a-plant');
+  await pickImage();
+
+  expect(await screen.findByText('Not a plant leaf', {}, { timeout: 3000 })).toBeTruthy();
+});
+
+test('shows server errors with a retry for the same photo', async () => {
+  await renderWithScenario('server-error');
+  await pickImage();
+
+  expect(await screen.findByText('Server Error', {}, { timeout: 3000 })).toBeTruthy();
+  expect(screen.getByText('Model failed to load')).toBeTruthy();
+
+  await userEvent.press(screen.getByRole('button', { name: 'Retry' }));
+  expect(await screen.findByText('Running prediction…')).toBeTruthy();
+  expect(await screen.findByText('Server Error', {}, { timeout: 3000 })).toBeTruthy();
+  expect(ImagePicker.launchImageLibraryAsync).toHaveBeenCalledTimes(1);
+});
+
+test('reports payloads the app does not understand', async () => {
+  await renderWithScenario('malformed');
+  await pickImage();
+
+  expect(await screen.findByText('Unexpected Response', {}, { timeout: 3000 })).toBeTruthy();
+});
+
+test('cancels a slow prediction and keeps the photo', async () => {
+  await renderWithScenario('slow');
+  await pickImage();
+
+  await userEvent.press(await screen.findByRole('button', { name: 'Cancel' }));
+  expect(await screen.findByText('Prediction cancelled')).toBeTruthy();
+  expect(screen.getByText('Selected image')).toBeTruthy();
+  expect(screen.getByRole('button', { name: 'Retry' })).toBeTruthy();
+});
+
+test('does not wait for sign-in on a server without HTTPS', async () => {
+  const server = {
+    id: 'farm',
+    name: 'Farm server',
+    baseUrl: 'http://10.1.2.3:5000',
+    apiKey: null,
+    includeGradcam: false,
+  };
+  await AsyncStorage.setItem('serverProfiles.v1', JSON.stringify({ profiles: [server], activeId: server.id }));
+  // The server asks for a token, which the app never sends over plain HTTP
+  jest.mocked(global.fetch).mockImplementation(async (url) => {
+    if (!String(url).endsWith('/predict')) throw new TypeError('Network request failed');
+    return { ok: false, status: 401, text: async () => '{"error":"Unauthorized"}' } as Response;
+  });
+
+  renderRouter({ _layout: Providers, index: HomeScreen }, { initialUrl: '/' });
+  await screen.findByText('Server: Farm server');
+  await pickImage();
+
+  expect(await screen.findByText('Insecure Server', {}, { timeout: 3000 })).toBeTruthy();
+  expect(screen.queryByText('Sign in to diagnose this photo')).toBeNull();
+});
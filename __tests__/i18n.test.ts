@@ -0,0 +1,27 @@
+import { ApiHttpError, describeApiError } from '@/lib/api/errors';
+import { getTranslator, type Message } from '@/lib/i18n';
+import { en } from '@/lib/i18n/messages/en';
+import { si } from '@/lib/i18n/messages/si';
+import { ta } from '@/lib/i18n/messages/ta';
+
+/** `{param}` names a message uses, across all its plural forms */
+const params = (message: Message) =>
+  [...new Set((typeof message === 'string' ? [message] : Object.values(message)).join(' ').match(/\{\w+\}/g))].sort();
+
+test.each([
+  ['si', si],
+  ['ta', ta],
+])('%s messages use the same params as English', (_locale, catalog) => {
+  for (const [key, message] of Object.entries(en)) {
+    expect([key, params(catalog[key as keyof typeof en])]).toEqual([key, params(message)]);
+  }
+});
+
+test('API errors are described in the chosen language', () => {
+  const error = new ApiHttpError(502, null);
+
+  expect(describeApiError(error, getTranslator('en')).message).toBe(
+    'The server failed to process the image (HTTP 502).'
+  );
+  expect(describeApiError(error, getTranslator('ta')).title).toBe('சேவையகப் பிழை');
+});
@@ -0,0 +1,109 @@
+import { ImageManipulator } from 'expo-image-manipulator';
+
+import { encodePng } from '@/lib/png';
+import { preprocessImage } from '@/lib/image-preprocessing';
+
+type Size = { width: number; height: number };
+
+// The manipulator only tracks image sizes; sources are named after their size, e.g. photo-4000x3000.jpg
+jest.mock('expo-image-manipulator', () => {
+  const operations: Record<string, unknown>[] = [];
+
+  const imageRef = ({ width, height }: Size) => ({
+    width,
+    height,
+    saveAsync: async () => ({ uri: 'file:///cache/upload.jpg', width, height, base64: `${width}x${height}` }),
+  });
+
+  const sizeOf = (uri: string): Size => {
+    const match = /(\d+)x(\d+)/.exec(uri);
+    if (match) return { width: Number(match[1]), height: Number(match[2]) };
+    // The letterbox canvas rendered back from its PNG
+    const [width, height] = jest.mocked(jest.requireMock('@/lib/png').encodePng).mock.calls.at(-1);
+    return { width, height };
+  };
+
+  const manipulate = (source: string | Size) => {
+    let size = typeof source === 'string' ? sizeOf(source) : { width: source.width, height: source.height };
+    const context = {
+      crop: (rect: Size) => {
+        operations.push({ crop: rect });
+        size = { width: rect.width, height: rect.height };
+        return context;
+      },
+      resize: (next: Size) => {
+        operations.push({ resize: next });
+        size = next;
+        return context;
+      },
+      renderAsync: async () => imageRef(size),
+    };
+    return context;
+  };
+
+  return { operations, SaveFormat: { JPEG: 'jpeg' }, ImageManipulator: { manipulate: jest.fn(manipulate) } };
+});
+
+// The "JPEG" saved by the manipulator mock is its size; decoding gives a white photo of that size
+jest.mock('@/lib/image/pixels', () => ({
+  decodeJpegBase64: (base64: string) => {
+    const [width, height] = base64.split('x').map(Number);
+    return { width, height, data: new Uint8Array(width * height * 4).fill(255) };
+  },
+}));
+
+jest.mock('@/lib/png', () => ({
+  encodePng: jest.fn(() => new Uint8Array(0)),
+}));
+
+const operations: Record<string, unknown>[] = jest.requireMock('expo-image-manipulator').operations;
+
+beforeEach(() => {
+  operations.length = 0;
+  jest.mocked(encodePng).mockClear();
+  jest.mocked(ImageManipulator.manipulate).mockClear();
+});
+
+test('crops the centered square of a landscape photo and scales it to the upload size', async () => {
+  const result = await preprocessImage({ uri: 'file:///photo-4000x3000.jpg' }, { maxDimension: 512 });
+
+  expect(operations).toEqual([
+    { crop: { originX: 500, originY: 0, width: 3000, height: 3000 } },
+    { resize: { width: 512, height: 512 } },
+  ]);
+  expect(result).toMatchObject({ width: 512, height: 512 });
+});
+
+test('crops a portrait photo to a wider model aspect ratio', async () => {
+  const result = await preprocessImage({ uri: 'file:///photo-300x600.jpg' }, { aspectRatio: 1.5 });
+
+  expect(operations[0]).toEqual({ crop: { originX: 0, originY: 200, width: 300, height: 200 } });
+  // Small photos are never upscaled
+  expect(result).toMatchObject({ width: 300, height: 200 });
+});
+
+test('leaves photos that already have the model aspect ratio uncropped', async () => {
+  await preprocessImage({ uri: 'file:///photo-800x800.jpg' });
+
+  expect(operations).toEqual([{ resize: { width: 800, height: 800 } }]);
+});
+
+test('letterboxes on the device by centering the scaled photo on a black canvas', async () => {
+  const result = await preprocessImage(
+    { uri: 'file:///photo-400x200.jpg' },
+    { fit: 'letterbox', maxDimension: 100 }
+  );
+
+  // Scaled so the padded square fits the upload size, before any padding is added
+  expect(operations[0]).toEqual({ resize: { width: 100, height: 50 } });
+
+  const [width, height, rgba] = jest.mocked(encodePng).mock.calls[0];
+  expect([width, height]).toEqual([100, 100]);
+  const pixel = (x: number, y: number) => Array.from(rgba.subarray((y * width + x) * 4, (y * width + x) * 4 + 4));
+  expect(pixel(50, 24)).toEqual([0, 0, 0, 255]);
+  expect(pixel(0, 25)).toEqual([255, 255, 255, 255]);
+  expect(pixel(99, 74)).toEqual([255, 255, 255, 255]);
+  expect(pixel(50, 75)).toEqual([0, 0, 0, 255]);
+
+  expect(result).toMatchObject({ width: 100, height: 100 });
+});
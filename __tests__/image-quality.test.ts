@@ -0,0 +1,95 @@
+import { getTranslator } from '@/lib/i18n';
+import {
+  assessImageQuality,
+  DEFAULT_QUALITY_THRESHOLDS,
+  findQualityIssues,
+  validateQualityThresholds,
+  type ImageQuality,
+} from '@/lib/image/quality';
+import type { RgbaImage } from '@/lib/image/pixels';
+
+type Rgb = [number, number, number];
+
+const LEAF: Rgb = [60, 140, 40];
+const DARK_LEAF: Rgb = [20, 70, 15];
+const SOIL: Rgb = [110, 80, 60];
+
+function image(width: number, height: number, colour: (x: number, y: number) => Rgb): RgbaImage {
+  const data = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      data.set([...colour(x, y), 255], (y * width + x) * 4);
+    }
+  }
+  return { width, height, data };
+}
+
+/** Leaf with sharp-edged veins every few pixels */
+const checkerboard = (size: number, a: Rgb, b: Rgb) => (x: number, y: number) =>
+  (Math.floor(x / size) + Math.floor(y / size)) % 2 === 0 ? a : b;
+
+const checks = (quality: ImageQuality) =>
+  findQualityIssues(quality, DEFAULT_QUALITY_THRESHOLDS).map((issue) => issue.check);
+
+test('a sharp, well exposed close-up of a leaf passes every check', () => {
+  const quality = assessImageQuality(image(120, 120, checkerboard(4, LEAF, DARK_LEAF)));
+
+  expect(quality.leafCoverage).toBe(1);
+  expect(quality.darkFraction).toBe(0);
+  expect(quality.brightFraction).toBe(0);
+  expect(checks(quality)).toEqual([]);
+});
+
+test('a featureless photo counts as blurred', () => {
+  const quality = assessImageQuality(image(120, 120, () => LEAF));
+
+  expect(quality.sharpness).toBe(0);
+  expect(quality.brightness).toBeCloseTo(0.299 * 60 + 0.587 * 140 + 0.114 * 40);
+  expect(checks(quality)).toEqual(['blur']);
+});
+
+test('crushed and blown-out photos fail the exposure checks', () => {
+  const dark = assessImageQuality(image(60, 60, checkerboard(4, [0, 0, 0], [5, 15, 3])));
+  const bright = assessImageQuality(image(60, 60, checkerboard(4, [255, 255, 255], [235, 255, 230])));
+
+  expect(dark.darkFraction).toBe(1);
+  expect(checks(dark)).toEqual(['underexposed', 'leaf-coverage']);
+  expect(bright.brightFraction).toBe(1);
+  expect(checks(bright)).toEqual(['overexposed', 'leaf-coverage']);
+});
+
+test('leaf coverage is the share of foliage-coloured pixels', () => {
+  // Leaf in the left tenth of the frame, soil elsewhere
+  const leaf = checkerboard(2, LEAF, DARK_LEAF);
+  const quality = assessImageQuality(image(100, 100, (x, y) => (x < 10 ? leaf(x, y) : SOIL)));
+
+  expect(quality.leafCoverage).toBeCloseTo(0.1);
+  expect(checks(quality)).toContain('leaf-coverage');
+});
+
+test('large photos are sampled down without hiding their detail', () => {
+  const quality = assessImageQuality(image(800, 600, checkerboard(8, LEAF, DARK_LEAF)));
+
+  expect(quality.sharpness).toBeGreaterThan(DEFAULT_QUALITY_THRESHOLDS.minSharpness);
+});
+
+test('no checks fail when they are turned off', () => {
+  const quality = assessImageQuality(image(20, 20, () => [0, 0, 0]));
+
+  expect(findQualityIssues(quality, { ...DEFAULT_QUALITY_THRESHOLDS, enabled: false })).toEqual([]);
+});
+
+test('thresholds are validated before they are saved', () => {
+  const i18n = getTranslator('en');
+  const validate = (changes: Partial<typeof DEFAULT_QUALITY_THRESHOLDS>) =>
+    validateQualityThresholds({ ...DEFAULT_QUALITY_THRESHOLDS, ...changes }, i18n);
+
+  expect(validate({})).toBeNull();
+  expect(validate({ minSharpness: -1 })).toBe('Thresholds must be non-negative numbers.');
+  expect(validate({ minLeafCoverage: Number.NaN })).toBe('Thresholds must be non-negative numbers.');
+  expect(validate({ minBrightness: 200, maxBrightness: 100 })).toBe(
+    'Minimum brightness must be below maximum brightness.'
+  );
+  expect(validate({ maxBrightness: 300 })).toBe('Brightness is measured from 0 to 255.');
+  expect(validate({ maxClippedFraction: 20 })).toBe('Fractions must be between 0 and 1.');
+});
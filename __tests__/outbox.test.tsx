@@ -0,0 +1,103 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo, { type NetInfoState } from '@react-native-community/netinfo';
+import { act, renderHook, waitFor } from '@testing-library/react-native';
+import type { PropsWithChildren } from 'react';
+
+import { DiagnosisHistoryProvider } from '@/hooks/use-diagnosis-history';
+import { DiagnosisSettingsProvider } from '@/hooks/use-diagnosis-settings';
+import { I18nProvider } from '@/hooks/use-i18n';
+import { OutboxProvider, useOutbox } from '@/hooks/use-outbox';
+import { ServerProfilesProvider } from '@/hooks/use-server-profiles';
+import { retryDelay } from '@/lib/outbox';
+import { DEFAULT_PROFILES } from '@/lib/server-profiles';
+
+const wrapper = ({ children }: PropsWithChildren) => (
+  <I18nProvider>
+    <ServerProfilesProvider>
+      <DiagnosisSettingsProvider>
+        <DiagnosisHistoryProvider>
+          <OutboxProvider>{children}</OutboxProvider>
+        </DiagnosisHistoryProvider>
+      </DiagnosisSettingsProvider>
+    </ServerProfilesProvider>
+  </I18nProvider>
+);
+
+// One upload is the first request plus the API client's own two retries, 0.8 s and 1.6 s apart
+const REQUESTS_PER_UPLOAD = 3;
+const UPLOAD_MS = 2_400;
+
+/** Report a connectivity change the way NetInfo does */
+const setConnected = (isConnected: boolean) => {
+  const listener = jest.mocked(NetInfo.addEventListener).mock.calls.at(-1)![0];
+  act(() => listener({ isConnected, isInternetReachable: isConnected } as NetInfoState));
+};
+
+const advance = (ms: number) => act(() => jest.advanceTimersByTimeAsync(ms));
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  jest.mocked(global.fetch).mockClear();
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+test('the retry delay doubles from 5 seconds up to 5 minutes, give or take a quarter', () => {
+  jest.spyOn(Math, 'random').mockReturnValue(0.5);
+  expect([1, 2, 3, 4, 6, 7, 30].map(retryDelay)).toEqual([
+    5_000, 10_000, 20_000, 40_000, 160_000, 300_000, 300_000,
+  ]);
+
+  jest.spyOn(Math, 'random').mockReturnValue(0);
+  expect(retryDelay(2)).toBe(7_500);
+  jest.spyOn(Math, 'random').mockReturnValue(0.999_999);
+  expect(retryDelay(2)).toBeCloseTo(12_500, 0);
+});
+
+describe('a capture that cannot reach the server', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    // No jitter: backoff steps of exactly 5 s, 10 s…
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+  });
+
+  const enqueueOffline = async () => {
+    const hook = renderHook(() => useOutbox(), { wrapper });
+    // Let the providers load from storage, as they have long before a photo is taken
+    await advance(0);
+    await act(() => hook.result.current.enqueue('aW1hZ2U=', DEFAULT_PROFILES[0], 3));
+    await advance(UPLOAD_MS);
+    expect(hook.result.current.items[0]).toMatchObject({ status: 'queued', attempts: 1 });
+    expect(hook.result.current.items[0].lastError).toBeTruthy();
+    expect(global.fetch).toHaveBeenCalledTimes(REQUESTS_PER_UPLOAD);
+    return hook;
+  };
+
+  test('is tried again after a delay that grows with each failure', async () => {
+    const { result } = await enqueueOffline();
+    expect(result.current.items[0].nextAttemptAt - Date.now()).toBe(5_000);
+
+    await advance(4_900);
+    expect(global.fetch).toHaveBeenCalledTimes(REQUESTS_PER_UPLOAD);
+
+    await advance(100 + UPLOAD_MS);
+    expect(global.fetch).toHaveBeenCalledTimes(2 * REQUESTS_PER_UPLOAD);
+    expect(result.current.items[0]).toMatchObject({ status: 'queued', attempts: 2 });
+    expect(result.current.items[0].nextAttemptAt - Date.now()).toBe(10_000);
+  });
+
+  test('is tried again at once when the connection comes back', async () => {
+    const { result } = await enqueueOffline();
+
+    setConnected(false);
+    setConnected(true);
+    await advance(UPLOAD_MS);
+
+    expect(global.fetch).toHaveBeenCalledTimes(2 * REQUESTS_PER_UPLOAD);
+    expect(result.current.items[0]).toMatchObject({ status: 'queued', attempts: 2 });
+  });
+});
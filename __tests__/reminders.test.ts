@@ -0,0 +1,83 @@
+import * as Notifications from 'expo-notifications';
+
+import { getTranslator } from '@/lib/i18n';
+import { MAX_SCHEDULED_NOTIFICATIONS, syncReminderNotifications } from '@/lib/reminder-notifications';
+import {
+  createTreatmentDraft,
+  createTreatmentPlan,
+  reminderOccurrences,
+  type Reminder,
+  type TreatmentPlanInput,
+} from '@/lib/reminders';
+
+const i18n = getTranslator('en');
+
+const startsAt = new Date(2030, 2, 1, 8, 0);
+
+const plan = (overrides: Partial<TreatmentPlanInput> = {}): Reminder[] =>
+  createTreatmentPlan(
+    {
+      recordId: 'diagnosis-1',
+      diseaseName: 'Early blight',
+      treatments: [{ ...createTreatmentDraft('spray'), intervalDays: 7, occurrences: 12 }],
+      followUpDays: null,
+      startsAt,
+      ...overrides,
+    },
+    i18n
+  );
+
+beforeEach(() => {
+  let id = 0;
+  jest.mocked(Notifications.scheduleNotificationAsync).mockReset();
+  jest.mocked(Notifications.scheduleNotificationAsync).mockImplementation(async () => `notification-${++id}`);
+  jest.mocked(Notifications.cancelScheduledNotificationAsync).mockClear();
+});
+
+test('a plan has one reminder per action and a follow-up after the first treatment', () => {
+  const reminders = plan({
+    treatments: [
+      { ...createTreatmentDraft('spray'), intervalDays: 7, occurrences: 3 },
+      { ...createTreatmentDraft('other'), notes: ' Copper soap ', intervalDays: 90, occurrences: 40 },
+    ],
+    followUpDays: 10,
+  });
+
+  expect(reminders.map((r) => [r.kind, r.title, r.intervalDays, r.occurrences])).toEqual([
+    ['treatment', 'Spray: Early blight', 7, 3],
+    // Out of range values are clamped
+    ['treatment', 'Copper soap: Early blight', 60, 12],
+    ['follow-up', 'Re-photograph: Early blight', 1, 1],
+  ]);
+  expect(reminderOccurrences(reminders[0]).map((o) => new Date(o.at).getDate())).toEqual([1, 8, 15]);
+  expect(new Date(reminders[2].startsAt).getDate()).toBe(11);
+});
+
+test('only the soonest occurrences across all plans get a notification', async () => {
+  const reminders = [...plan(), ...plan(), ...plan(), ...plan(), ...plan(), ...plan()];
+
+  const synced = await syncReminderNotifications(reminders, i18n);
+
+  const scheduled = synced.flatMap((r) => r.notifications);
+  expect(scheduled).toHaveLength(MAX_SCHEDULED_NOTIFICATIONS);
+  expect(Notifications.scheduleNotificationAsync).toHaveBeenCalledTimes(MAX_SCHEDULED_NOTIFICATIONS);
+  // 6 × 12 occurrences: the last two weekly rounds wait until earlier ones have fired
+  const latest = reminderOccurrences(reminders[0])[9].at;
+  expect(scheduled.every((n) => n.at <= latest)).toBe(true);
+});
+
+test('syncing again keeps scheduled notifications and moves a done occurrence to a later one', async () => {
+  const reminders = [...plan(), ...plan(), ...plan(), ...plan(), ...plan(), ...plan()];
+  const synced = await syncReminderNotifications(reminders, i18n);
+  jest.mocked(Notifications.scheduleNotificationAsync).mockClear();
+
+  const first = synced[0].notifications[0];
+  const withDone = synced.map((r, i) => (i === 0 ? { ...r, completed: [first.at] } : r));
+  const resynced = await syncReminderNotifications(withDone, i18n);
+
+  expect(Notifications.cancelScheduledNotificationAsync).toHaveBeenCalledTimes(1);
+  expect(Notifications.cancelScheduledNotificationAsync).toHaveBeenCalledWith(first.id);
+  expect(Notifications.scheduleNotificationAsync).toHaveBeenCalledTimes(1);
+  expect(resynced.flatMap((r) => r.notifications)).toHaveLength(MAX_SCHEDULED_NOTIFICATIONS);
+  expect(resynced[0].notifications.map((n) => n.at)).not.toContain(first.at);
+});
@@ -0,0 +1,134 @@
+import { File } from 'expo-file-system';
+
+import { confirmFeedback, correctionFeedback } from '@/lib/feedback';
+import { UNSYNCED, type DiagnosisRecord } from '@/lib/history';
+import { getTranslator } from '@/lib/i18n';
+import type { KnowledgeEntry } from '@/lib/knowledge-base';
+import type { PlantProfile } from '@/lib/plants';
+import { buildReportHtml } from '@/lib/report';
+
+const i18n = getTranslator('en');
+
+const record = (overrides: Partial<DiagnosisRecord> = {}): DiagnosisRecord => ({
+  id: 'leaf',
+  createdAt: '2026-10-01T08:00:00.000Z',
+  modifiedAt: '2026-10-01T08:00:00.000Z',
+  imageUri: 'data:image/jpeg;base64,cGhvdG8=',
+  gradcamUri: 'file:///history/leaf/gradcam.png',
+  prediction: 'tomato_early_blight',
+  confidence: 0.91,
+  topK: [
+    { label: 'tomato_early_blight', probability: 0.91 },
+    { label: 'tomato_late_blight', probability: 0.06 },
+  ],
+  serverProfile: { id: 'production', name: 'Production' },
+  outOfDistribution: false,
+  plantId: 'row-3',
+  followUpOf: null,
+  notes: 'Lower leaves <b>only</b> & spreading',
+  quality: null,
+  feedback: confirmFeedback(),
+  sync: UNSYNCED,
+  ...overrides,
+});
+
+const entry: KnowledgeEntry = {
+  name: 'Early blight',
+  crop: 'Tomato',
+  pathogenType: 'fungal',
+  symptoms: ['Brown spots with rings'],
+  treatment: { organic: ['Remove infected leaves'], chemical: ['Copper fungicide'] },
+  prevention: ['Mulch the soil'],
+  severity: 'Spreads in warm, wet weather.',
+};
+
+const plant: PlantProfile = {
+  id: 'row-3',
+  name: 'Row 3, plant 12',
+  species: 'Tomato',
+  location: 'Greenhouse B',
+  photoUri: null,
+  notes: '',
+  createdAt: '2026-09-01T08:00:00.000Z',
+};
+
+const earlyBlight = i18n.labelName('tomato_early_blight');
+
+beforeEach(() => {
+  new File('file:///history/leaf/gradcam.png').write('aGVhdG1hcA==');
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+test('a confident result shows the diagnosis, both images, the differential and the guidance', async () => {
+  const html = await buildReportHtml({ record: record(), entry, plant, band: 'confident' });
+
+  expect(html).toContain(`<h1 class="confident">${earlyBlight}</h1>`);
+  expect(html).toContain('<strong>Confidence:</strong> 91% (Confident)');
+  expect(html).toContain('<strong>Plant:</strong> Row 3, plant 12 • Tomato • Greenhouse B');
+  // Images are embedded so the file stands alone
+  expect(html).toContain('src="data:image/jpeg;base64,cGhvdG8="');
+  expect(html).toContain('src="data:image/png;base64,aGVhdG1hcA=="');
+  expect(html).toContain(`<td>2. ${i18n.labelName('tomato_late_blight')}</td><td class="num">6%</td>`);
+  expect(html).toContain('<h2>About Early blight</h2>');
+  expect(html).toContain('<li>Copper fungicide</li>');
+  expect(html).not.toContain('class="corrected"');
+});
+
+test('user text is escaped', async () => {
+  const html = await buildReportHtml({
+    record: record({ serverProfile: { id: 'lab', name: 'Lab "A"' } }),
+    entry: null,
+    plant: null,
+    band: 'confident',
+  });
+
+  expect(html).toContain('Lower leaves &lt;b&gt;only&lt;/b&gt; &amp; spreading');
+  expect(html).toContain('Lab &quot;A&quot;');
+  expect(html).not.toContain('<b>only</b>');
+});
+
+test('a rejected result names no disease', async () => {
+  const html = await buildReportHtml({
+    record: record({ confidence: 0.2 }),
+    entry,
+    plant: null,
+    band: 'reject',
+  });
+
+  expect(html).toContain(`<h1 class="reject">${i18n.t('band.reject')}</h1>`);
+  expect(html).not.toContain(earlyBlight);
+  expect(html).not.toContain('Early blight');
+  expect(html).not.toContain('Differential diagnosis');
+});
+
+test('a correction by the user is called out', async () => {
+  const feedback = correctionFeedback('tomato_late_blight', false);
+  const html = await buildReportHtml({
+    record: record({ feedback }),
+    entry: null,
+    plant: null,
+    band: 'confident',
+  });
+
+  expect(html).toContain(
+    `<p class="corrected">Corrected by the user to ${i18n.labelName('tomato_late_blight')}.</p>`
+  );
+});
+
+test('an image that cannot be read is left out instead of failing the report', async () => {
+  const html = await buildReportHtml({
+    record: record({ gradcamUri: 'file:///history/leaf/missing.png', topK: null }),
+    entry: null,
+    plant: null,
+    band: 'uncertain',
+  });
+
+  expect(html).toContain('<h1 class="uncertain">');
+  expect(html).toContain('alt="Leaf photo"');
+  expect(html).not.toContain('<figcaption>Grad-CAM');
+  expect(html).not.toContain('Differential diagnosis');
+});
@@ -0,0 +1,45 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { DEFAULT_PROFILES, loadProfiles, saveProfiles } from '@/lib/server-profiles';
+
+jest.mock('expo-secure-store', () => {
+  const items = new Map<string, string>();
+  return {
+    items,
+    getItemAsync: jest.fn(async (key: string) => items.get(key) ?? null),
+    setItemAsync: jest.fn(async (key: string, value: string) => void items.set(key, value)),
+    deleteItemAsync: jest.fn(async (key: string) => void items.delete(key)),
+  };
+});
+
+const keychain: Map<string, string> = jest.requireMock('expo-secure-store').items;
+
+const savedList = async () => JSON.parse((await AsyncStorage.getItem('serverProfiles.v1')) ?? 'null');
+
+const withKey = { ...DEFAULT_PROFILES[0], apiKey: 'secret-key' };
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+});
+
+test('API keys are kept in the secure store, not in the saved profile list', async () => {
+  await saveProfiles({ profiles: [withKey, DEFAULT_PROFILES[1]], activeId: withKey.id });
+
+  expect(JSON.stringify(await savedList())).not.toContain('secret-key');
+  expect([...keychain.values()]).toEqual(['secret-key']);
+  expect((await loadProfiles()).profiles[0].apiKey).toBe('secret-key');
+
+  await saveProfiles({ profiles: [DEFAULT_PROFILES[1]], activeId: DEFAULT_PROFILES[1].id });
+  expect(keychain.size).toBe(0);
+});
+
+test('API keys saved in the profile list by earlier versions are moved to the secure store', async () => {
+  const legacy = { profiles: [withKey], activeId: withKey.id };
+  await AsyncStorage.setItem('serverProfiles.v1', JSON.stringify(legacy));
+
+  const loaded = await loadProfiles();
+
+  expect(loaded.profiles[0].apiKey).toBe('secret-key');
+  expect(JSON.stringify(await savedList())).not.toContain('secret-key');
+  expect([...keychain.values()]).toEqual(['secret-key']);
+});
@@ -0,0 +1,247 @@
+import type { DiagnosisRecord, HistoryTombstone } from '@/lib/history';
+import {
+  SyncConflictError,
+  type DiagnosisPayload,
+  type RemoteDiagnosis,
+  type SyncStorageAdapter,
+} from '@/lib/sync/adapter';
+import { runSync, type SyncLocalStore } from '@/lib/sync/engine';
+
+const PAGE_SIZE = 2;
+
+/**
+ * Backend with the same versioning as the real adapters and small pages, so paging is exercised
+ */
+function createFakeAdapter() {
+  const records = new Map<string, RemoteDiagnosis & { seq: number }>();
+  const files = new Map<string, string>();
+  let seq = 0;
+
+  const strip = ({ seq: _seq, ...record }: RemoteDiagnosis & { seq: number }): RemoteDiagnosis => record;
+
+  const adapter: SyncStorageAdapter = {
+    id: 'fake',
+    uploadFile: async (path, base64) => {
+      files.set(path, base64);
+      return path;
+    },
+    downloadFile: async (path) => {
+      const data = files.get(path);
+      if (data === undefined) throw new Error(`File not found: ${path}`);
+      return data;
+    },
+    deleteFile: async (path) => void files.delete(path),
+    putRecord: jest.fn(async (write, expectedVersion) => {
+      const existing = records.get(write.id);
+      if ((existing?.version ?? null) !== expectedVersion) {
+        throw new SyncConflictError(existing ? strip(existing) : null);
+      }
+      const stored = { ...write, version: (existing?.version ?? 0) + 1, seq: ++seq };
+      records.set(write.id, stored);
+      return strip(stored);
+    }),
+    pullChanges: jest.fn(async (cursor) => {
+      const changed = [...records.values()].filter((r) => r.seq > Number(cursor ?? 0));
+      const page = changed.slice(0, PAGE_SIZE);
+      return {
+        records: page.map(strip),
+        cursor: page.length > 0 ? String(page[page.length - 1].seq) : cursor,
+        hasMore: changed.length > page.length,
+      };
+    }),
+  };
+
+  /** A write made by another device */
+  const remoteWrite = (id: string, modifiedAt: string, data: DiagnosisPayload | null) => {
+    const version = (records.get(id)?.version ?? 0) + 1;
+    if (data) files.set(`${id}/image.jpg`, 'aW1hZ2U=');
+    records.set(id, {
+      id,
+      version,
+      modifiedAt,
+      deleted: data === null,
+      imagePath: data ? `${id}/image.jpg` : null,
+      gradcamPath: null,
+      data,
+      seq: ++seq,
+    });
+  };
+
+  return { adapter, records, files, remoteWrite };
+}
+
+function createLocalStore(initial: DiagnosisRecord[] = [], initialTombstones: HistoryTombstone[] = []) {
+  let records = initial;
+  let tombstones = initialTombstones;
+  let cursor: string | null = null;
+
+  const store: SyncLocalStore = {
+    records: () => records,
+    tombstones: () => tombstones,
+    patch: async (id, patch) => {
+      records = records.map((r) => (r.id === id ? { ...r, ...patch } : r));
+    },
+    insert: async (record) => {
+      records = [record, ...records];
+    },
+    remove: async (id) => {
+      records = records.filter((r) => r.id !== id);
+    },
+    dropTombstone: async (id) => {
+      tombstones = tombstones.filter((t) => t.id !== id);
+    },
+    cursor: () => cursor,
+    setCursor: async (next) => {
+      cursor = next;
+    },
+  };
+  return store;
+}
+
+const payload = (notes: string, modifiedAt: string): DiagnosisPayload => ({
+  createdAt: '2026-05-01T08:00:00.000Z',
+  prediction: 'Tomato___Early_blight',
+  confidence: 0.91,
+  topK: null,
+  serverProfile: { id: 'production', name: 'Production' },
+  outOfDistribution: false,
+  plantId: null,
+  followUpOf: null,
+  notes,
+  quality: null,
+  feedback: null,
+  modifiedAt,
+});
+
+/** Local copy of a record last synced at version 1 and edited since */
+const editedLocally = (id: string, notes: string, modifiedAt: string): DiagnosisRecord => ({
+  ...payload(notes, modifiedAt),
+  id,
+  imageUri: 'data:image/jpeg;base64,aW1hZ2U=',
+  gradcamUri: null,
+  sync: { status: 'pending', remoteVersion: 1, imagePath: 'leaf/image.jpg', gradcamPath: null, error: null },
+});
+
+const T1 = '2026-05-01T09:00:00.000Z';
+const T2 = '2026-05-01T10:00:00.000Z';
+const T3 = '2026-05-01T11:00:00.000Z';
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+test('a local edit newer than the remote change overwrites it', async () => {
+  const { adapter, records, remoteWrite } = createFakeAdapter();
+  remoteWrite('leaf', T1, payload('first', T1));
+  remoteWrite('leaf', T2, payload('edited on the tablet', T2));
+  const store = createLocalStore([editedLocally('leaf', 'edited on the phone', T3)]);
+
+  const report = await runSync(store, adapter);
+
+  expect(report).toMatchObject({ pushed: 1, conflicts: 1, failed: 0 });
+  expect(records.get('leaf')).toMatchObject({ version: 3, data: { notes: 'edited on the phone' } });
+  expect(store.records()[0]).toMatchObject({
+    notes: 'edited on the phone',
+    sync: { status: 'synced', remoteVersion: 3 },
+  });
+});
+
+test('a remote change newer than the local edit replaces the local copy', async () => {
+  const { adapter, records, remoteWrite } = createFakeAdapter();
+  remoteWrite('leaf', T1, payload('first', T1));
+  remoteWrite('leaf', T3, payload('edited on the tablet', T3));
+  const store = createLocalStore([editedLocally('leaf', 'edited on the phone', T2)]);
+
+  const report = await runSync(store, adapter);
+
+  expect(report).toMatchObject({ pushed: 0, conflicts: 1, failed: 0 });
+  expect(records.get('leaf')).toMatchObject({ version: 2, data: { notes: 'edited on the tablet' } });
+  expect(store.records()[0]).toMatchObject({
+    notes: 'edited on the tablet',
+    sync: { status: 'synced', remoteVersion: 2 },
+  });
+});
+
+test('a remote deletion after the local edit removes the record', async () => {
+  const { adapter, records, remoteWrite } = createFakeAdapter();
+  remoteWrite('leaf', T1, payload('first', T1));
+  remoteWrite('leaf', T3, null);
+  const store = createLocalStore([editedLocally('leaf', 'edited on the phone', T2)]);
+
+  const report = await runSync(store, adapter);
+
+  expect(report).toMatchObject({ pushed: 0, conflicts: 1, failed: 0 });
+  expect(store.records()).toEqual([]);
+  expect(records.get('leaf')).toMatchObject({ version: 2, deleted: true });
+});
+
+test('a local edit after the remote deletion brings the record back', async () => {
+  const { adapter, records, remoteWrite } = createFakeAdapter();
+  remoteWrite('leaf', T1, payload('first', T1));
+  remoteWrite('leaf', T2, null);
+  const store = createLocalStore([editedLocally('leaf', 'edited on the phone', T3)]);
+
+  const report = await runSync(store, adapter);
+
+  expect(report).toMatchObject({ pushed: 1, conflicts: 1, failed: 0 });
+  expect(records.get('leaf')).toMatchObject({
+    version: 3,
+    deleted: false,
+    data: { notes: 'edited on the phone' },
+  });
+  expect(store.records()[0].sync).toMatchObject({ status: 'synced', remoteVersion: 3 });
+});
+
+test('a local deletion is pushed as a tombstone unless the remote copy changed later', async () => {
+  const { adapter, records, files, remoteWrite } = createFakeAdapter();
+  remoteWrite('old', T1, payload('old', T1));
+  remoteWrite('kept', T1, payload('kept', T1));
+  remoteWrite('kept', T3, payload('edited on the tablet', T3));
+  const tombstone = (id: string): HistoryTombstone => ({
+    id,
+    remoteVersion: 1,
+    deletedAt: T2,
+    imagePath: `${id}/image.jpg`,
+    gradcamPath: null,
+  });
+  const store = createLocalStore([], [tombstone('old'), tombstone('kept')]);
+
+  const report = await runSync(store, adapter);
+
+  expect(report).toMatchObject({ deleted: 1, conflicts: 1, failed: 0 });
+  expect(records.get('old')).toMatchObject({ deleted: true });
+  expect(files.has('old/image.jpg')).toBe(false);
+  expect(store.tombstones()).toEqual([]);
+  expect(store.records().map((r) => r.notes)).toEqual(['edited on the tablet']);
+});
+
+test('pulls every page and keeps the cursor of the last complete page when a download fails', async () => {
+  const { adapter, files, remoteWrite } = createFakeAdapter();
+  for (const id of ['a', 'b', 'c', 'd', 'e']) remoteWrite(id, T1, payload(id, T1));
+  const store = createLocalStore();
+
+  expect(await runSync(store, adapter)).toMatchObject({ pulled: 5, failed: 0 });
+  expect(adapter.pullChanges).toHaveBeenCalledTimes(3);
+  expect(store.records().map((r) => r.id).sort()).toEqual(['a', 'b', 'c', 'd', 'e']);
+  expect(store.cursor()).toBe('5');
+
+  // Only changes after the cursor are pulled next time; a failed page is pulled again
+  remoteWrite('f', T2, payload('f', T2));
+  remoteWrite('g', T2, payload('g', T2));
+  remoteWrite('h', T2, payload('h', T2));
+  files.delete('g/image.jpg');
+  jest.mocked(adapter.pullChanges).mockClear();
+
+  expect(await runSync(store, adapter)).toMatchObject({ pulled: 1, failed: 1 });
+  expect(jest.mocked(adapter.pullChanges).mock.calls).toEqual([['5']]);
+  expect(store.cursor()).toBe('5');
+
+  files.set('g/image.jpg', 'aW1hZ2U=');
+  expect(await runSync(store, adapter)).toMatchObject({ pulled: 2, failed: 0 });
+  expect(store.records()).toHaveLength(8);
+  expect(store.cursor()).toBe('8');
+});
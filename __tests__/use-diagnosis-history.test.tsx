@@ -0,0 +1,52 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { act, renderHook, waitFor } from '@testing-library/react-native';
+import type { PropsWithChildren } from 'react';
+
+import { DiagnosisHistoryProvider, useDiagnosisHistory } from '@/hooks/use-diagnosis-history';
+import { loadHistory, type NewDiagnosis } from '@/lib/history';
+
+const wrapper = ({ children }: PropsWithChildren) => (
+  <DiagnosisHistoryProvider>{children}</DiagnosisHistoryProvider>
+);
+
+const diagnosis = (prediction: string): NewDiagnosis => ({
+  imageBase64: 'bGVhZg==',
+  gradcamBase64: null,
+  prediction,
+  confidence: 0.9,
+  topK: null,
+  serverProfile: { id: 'default', name: 'Default' },
+  outOfDistribution: false,
+});
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+});
+
+test('parallel adds keep every record, in memory and in storage', async () => {
+  const { result } = renderHook(() => useDiagnosisHistory(), { wrapper });
+  await waitFor(() => expect(result.current.loaded).toBe(true));
+
+  const labels = Array.from({ length: 6 }, (_, i) => `tomato_label_${i}`);
+  await act(() => Promise.all(labels.map((label) => result.current.add(diagnosis(label)))));
+
+  expect(result.current.records.map((r) => r.prediction).sort()).toEqual(labels);
+  expect((await loadHistory()).map((r) => r.prediction).sort()).toEqual(labels);
+});
+
+test('edits made while an add is saving are kept', async () => {
+  const { result } = renderHook(() => useDiagnosisHistory(), { wrapper });
+  await waitFor(() => expect(result.current.loaded).toBe(true));
+  const first = await act(() => result.current.add(diagnosis('tomato_early_blight')));
+
+  await act(() =>
+    Promise.all([
+      result.current.add(diagnosis('tomato_late_blight')),
+      result.current.update(first.id, { notes: 'Lower leaves only' }),
+    ])
+  );
+
+  const saved = await loadHistory();
+  expect(saved).toHaveLength(2);
+  expect(saved.find((r) => r.id === first.id)?.notes).toBe('Lower leaves only');
+});
@@ -0,0 +1,118 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { renderHook, waitFor } from '@testing-library/react-native';
+import type { PropsWithChildren } from 'react';
+
+import { DiagnosisHistoryProvider, useDiagnosisHistory } from '@/hooks/use-diagnosis-history';
+import { DiagnosisSettingsProvider } from '@/hooks/use-diagnosis-settings';
+import { FeedbackProvider } from '@/hooks/use-feedback';
+import { I18nProvider } from '@/hooks/use-i18n';
+import { OutboxProvider } from '@/hooks/use-outbox';
+import { ServerProfilesProvider } from '@/hooks/use-server-profiles';
+import { DEFAULT_DIAGNOSIS_SETTINGS } from '@/lib/diagnosis-settings';
+import { confirmFeedback } from '@/lib/feedback';
+import { saveHistory, UNSYNCED, type DiagnosisRecord } from '@/lib/history';
+import { DEFAULT_PROFILES } from '@/lib/server-profiles';
+
+const wrapper = ({ children }: PropsWithChildren) => (
+  <I18nProvider>
+    <ServerProfilesProvider>
+      <DiagnosisSettingsProvider>
+        <DiagnosisHistoryProvider>
+          <OutboxProvider>
+            <FeedbackProvider>{children}</FeedbackProvider>
+          </OutboxProvider>
+        </DiagnosisHistoryProvider>
+      </DiagnosisSettingsProvider>
+    </ServerProfilesProvider>
+  </I18nProvider>
+);
+
+const record = (id: string, serverProfile: DiagnosisRecord['serverProfile']): DiagnosisRecord => ({
+  id,
+  createdAt: '2026-10-01T08:00:00.000Z',
+  modifiedAt: '2026-10-01T08:00:00.000Z',
+  imageUri: `file:///history/${id}/image.jpg`,
+  gradcamUri: null,
+  prediction: 'tomato_early_blight',
+  confidence: 0.9,
+  topK: null,
+  serverProfile,
+  outOfDistribution: false,
+  plantId: null,
+  followUpOf: null,
+  notes: '',
+  quality: null,
+  feedback: confirmFeedback(),
+  sync: UNSYNCED,
+});
+
+const production = { id: DEFAULT_PROFILES[0].id, name: DEFAULT_PROFILES[0].name };
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  jest.mocked(global.fetch).mockClear();
+  // The server refuses feedback on "refused" and accepts the rest
+  jest.mocked(global.fetch).mockImplementation(async (_url, init) => {
+    const refused = JSON.parse(String(init?.body)).diagnosis_id === 'refused';
+    return {
+      ok: !refused,
+      status: refused ? 400 : 200,
+      text: async () => (refused ? '{"error":"Unknown diagnosis"}' : '{"id":"fb-1"}'),
+    } as Response;
+  });
+});
+
+test('refused feedback is marked and does not hold back the rest', async () => {
+  await saveHistory([record('refused', production), record('accepted', production)]);
+
+  const { result } = renderHook(() => useDiagnosisHistory(), { wrapper });
+
+  const feedbackOf = (id: string) => result.current.records.find((r) => r.id === id)?.feedback;
+  await waitFor(() => expect(feedbackOf('accepted')?.sentAt).toBeTruthy());
+  const refused = feedbackOf('refused');
+  expect(refused?.rejectedAt).toBeTruthy();
+  expect(refused?.sentAt).toBeNull();
+});
+
+test('feedback for a deleted server profile is not sent to another server', async () => {
+  await saveHistory([record('orphaned', { id: 'deleted', name: 'Old server' })]);
+
+  const { result } = renderHook(() => useDiagnosisHistory(), { wrapper });
+
+  await waitFor(() => expect(result.current.records[0]?.feedback?.rejectedAt).toBeTruthy());
+  expect(global.fetch).not.toHaveBeenCalled();
+});
+
+test('feedback on a diagnosis that was never synced carries its photo', async () => {
+  const synced = { ...UNSYNCED, status: 'synced' as const, remoteVersion: 1, imagePath: 'synced/image.jpg' };
+  await saveHistory([
+    { ...record('local', production), imageUri: 'data:image/jpeg;base64,bGVhZg==' },
+    { ...record('synced', production), sync: synced },
+  ]);
+
+  const { result } = renderHook(() => useDiagnosisHistory(), { wrapper });
+
+  const sent = () => result.current.records.filter((r) => r.feedback?.sentAt);
+  await waitFor(() => expect(sent()).toHaveLength(2));
+  const bodies = jest.mocked(global.fetch).mock.calls.map(([, init]) => JSON.parse(String(init?.body)));
+  expect(bodies.find((b) => b.diagnosis_id === 'local')).toMatchObject({ image_path: null, image: 'bGVhZg==' });
+  expect(bodies.find((b) => b.diagnosis_id === 'synced')).toMatchObject({
+    image_path: 'synced/image.jpg',
+    image: null,
+  });
+});
+
+test('feedback stays on the device while the mock predictor is active', async () => {
+  await AsyncStorage.setItem(
+    'diagnosisSettings.v1',
+    JSON.stringify({ ...DEFAULT_DIAGNOSIS_SETTINGS, mockScenario: 'healthy' })
+  );
+  await saveHistory([record('mocked', production)]);
+
+  const { result } = renderHook(() => useDiagnosisHistory(), { wrapper });
+
+  await waitFor(() => expect(result.current.records).toHaveLength(1));
+  await new Promise((resolve) => setTimeout(resolve, 50));
+  expect(global.fetch).not.toHaveBeenCalled();
+  expect(result.current.records[0].feedback?.sentAt).toBeNull();
+});
@@ -0,0 +1,320 @@
+import { Link } from 'expo-router';
+import { useMemo, useState } from 'react';
+import {
+  Alert,
+  FlatList,
+  Image,
+  Pressable,
+  ScrollView,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+import { toneColors, type Tone } from '@/constants/theme';
+import { useDiagnosisHistory } from '@/hooks/use-diagnosis-history';
+import { useDiagnosisSettings } from '@/hooks/use-diagnosis-settings';
+import { useHistorySync } from '@/hooks/use-history-sync';
+import { useI18n } from '@/hooks/use-i18n';
+import { createThemedStyles, useThemeColors } from '@/hooks/use-theme-color';
+import { BAND_TONES, confidenceBand, resultTitle } from '@/lib/confidence';
+import { correctedLabelName } from '@/lib/feedback';
+import type { DiagnosisRecord, SyncStatus } from '@/lib/history';
+import type { MessageKey } from '@/lib/i18n';
+import { confidenceToPercent } from '@/lib/labels';
+
+/**
+ * History tab - saved diagnoses with search, disease filter, delete and clear-all
+ */
+export default function HistoryScreen() {
+  const styles = useStyles();
+  const colors = useThemeColors();
+  const { records, loaded, remove, clear } = useDiagnosisHistory();
+  const sync = useHistorySync();
+  const i18n = useI18n();
+  const { t } = i18n;
+
+  // Free-text search over label and server name
+  const [query, setQuery] = useState('');
+
+  // Raw label to filter by, or null for all diseases
+  const [diseaseFilter, setDiseaseFilter] = useState<string | null>(null);
+
+  // Distinct labels present in history, for the filter chips
+  const diseases = useMemo(
+    () => Array.from(new Set(records.map((r) => r.prediction))).sort(),
+    [records]
+  );
+
+  const visible = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    return records.filter((r) => {
+      if (diseaseFilter && r.prediction !== diseaseFilter) return false;
+      if (!q) return true;
+      return (
+        i18n.labelName(r.prediction).toLowerCase().includes(q) ||
+        r.serverProfile.name.toLowerCase().includes(q)
+      );
+    });
+  }, [records, query, diseaseFilter, i18n]);
+
+  const confirmDelete = (record: DiagnosisRecord) => {
+    const label = i18n.labelName(record.prediction);
+    Alert.alert(t('history.deleteTitle'), t('history.deleteMessage', { label }), [
+      { text: t('history.cancel'), style: 'cancel' },
+      { text: t('history.delete'), style: 'destructive', onPress: () => remove(record.id) },
+    ]);
+  };
+
+  const confirmClear = () => {
+    Alert.alert(t('history.clearTitle'), t('history.clearMessage'), [
+      { text: t('history.cancel'), style: 'cancel' },
+      {
+        text: t('history.clearAll'),
+        style: 'destructive',
+        onPress: () => {
+          setDiseaseFilter(null);
+          clear();
+        },
+      },
+    ]);
+  };
+
+  return (
+    <SafeAreaView style={styles.screen} edges={['top']}>
+      <View style={styles.header}>
+        <Text style={styles.title}>{t('history.title')}</Text>
+        <View style={styles.headerActions}>
+          {sync.enabled && (
+            <Pressable onPress={sync.syncNow} disabled={sync.syncing} hitSlop={10}>
+              <Text style={styles.link}>{sync.syncing ? t('history.syncing') : t('history.syncNow')}</Text>
+            </Pressable>
+          )}
+          {records.length > 0 && (
+            <Pressable onPress={confirmClear} hitSlop={10}>
+              <Text style={styles.danger}>{t('history.clearAll')}</Text>
+            </Pressable>
+          )}
+        </View>
+      </View>
+
+      <View style={styles.filters}>
+        <TextInput
+          value={query}
+          onChangeText={setQuery}
+          placeholder={t('history.search')}
+          placeholderTextColor={colors.placeholder}
+          autoCorrect={false}
+          style={styles.search}
+        />
+
+        {/* Disease filter chips */}
+        {diseases.length > 1 && (
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chips}>
+            <FilterChip
+              label={t('history.allDiseases')}
+              selected={diseaseFilter === null}
+              onPress={() => setDiseaseFilter(null)}
+            />
+            {diseases.map((d) => (
+              <FilterChip
+                key={d}
+                label={i18n.labelName(d)}
+                selected={diseaseFilter === d}
+                onPress={() => setDiseaseFilter(diseaseFilter === d ? null : d)}
+              />
+            ))}
+          </ScrollView>
+        )}
+      </View>
+
+      <FlatList
+        data={visible}
+        keyExtractor={(r) => r.id}
+        contentContainerStyle={styles.list}
+        renderItem={({ item }) => (
+          <HistoryRow record={item} showSync={sync.enabled} onLongPress={() => confirmDelete(item)} />
+        )}
+        ListEmptyComponent={
+          <Text style={styles.empty}>
+            {!loaded
+              ? t('history.loading')
+              : records.length === 0
+                ? t('history.empty')
+                : t('history.noMatches')}
+          </Text>
+        }
+      />
+    </SafeAreaView>
+  );
+}
+
+function FilterChip({ label, selected, onPress }: { label: string; selected: boolean; onPress: () => void }) {
+  const styles = useStyles();
+  return (
+    <Pressable onPress={onPress} style={[styles.chip, selected && styles.chipSelected]}>
+      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+    </Pressable>
+  );
+}
+
+const SYNC_LABELS: Record<SyncStatus, { text: MessageKey; tone: Tone }> = {
+  pending: { text: 'history.sync.pending', tone: 'warning' },
+  syncing: { text: 'history.sync.syncing', tone: 'info' },
+  synced: { text: 'history.sync.synced', tone: 'success' },
+  error: { text: 'history.sync.error', tone: 'danger' },
+};
+
+function HistoryRow({
+  record,
+  showSync,
+  onLongPress,
+}: {
+  record: DiagnosisRecord;
+  showSync: boolean;
+  onLongPress: () => void;
+}) {
+  const styles = useStyles();
+  const colors = useThemeColors();
+  const { settings } = useDiagnosisSettings();
+  const i18n = useI18n();
+  const pct = confidenceToPercent(record.confidence);
+  const band = confidenceBand(record, settings.confidence);
+  const bandColor = toneColors(colors, BAND_TONES[band]).text;
+  const syncLabel = SYNC_LABELS[record.sync.status];
+  const syncColor = toneColors(colors, syncLabel.tone).text;
+  const corrected = record.feedback && correctedLabelName(record.feedback, i18n);
+
+  return (
+    <Link href={{ pathname: '/history/[id]', params: { id: record.id } }} asChild>
+      <Pressable onLongPress={onLongPress} style={styles.row}>
+        <Image source={{ uri: record.imageUri }} style={styles.thumbnail} />
+        <View style={{ flex: 1, gap: 2 }}>
+          <Text style={[styles.rowLabel, band !== 'confident' && { color: bandColor }]}>
+            {resultTitle(record, band, i18n)}
+          </Text>
+          <Text style={styles.rowMeta}>
+            {pct === null
+              ? i18n.t('history.noConfidence')
+              : i18n.t('history.confidence', { pct: i18n.formatPercent(pct) })}{' '}
+            • {record.serverProfile.name}
+          </Text>
+          <Text style={styles.rowMeta}>{i18n.formatDate(record.createdAt)}</Text>
+          {corrected && (
+            <Text style={[styles.rowMeta, { color: colors.danger, fontWeight: '700' }]}>
+              {i18n.t('feedback.corrected', { label: corrected })}
+            </Text>
+          )}
+          {showSync && (
+            <Text style={[styles.rowMeta, { color: syncColor, fontWeight: '700' }]}>
+              {i18n.t(syncLabel.text)}
+            </Text>
+          )}
+        </View>
+      </Pressable>
+    </Link>
+  );
+}
+
+const useStyles = createThemedStyles((c) => ({
+  screen: {
+    flex: 1,
+    backgroundColor: c.screen,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingTop: 16,
+  },
+  title: {
+    fontSize: 26,
+    fontWeight: '800',
+    color: c.text,
+  },
+  headerActions: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  link: {
+    color: c.link,
+    fontWeight: '800',
+  },
+  danger: {
+    color: c.danger,
+    fontWeight: '800',
+  },
+  filters: {
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    gap: 10,
+  },
+  search: {
+    backgroundColor: c.card,
+    borderWidth: 1,
+    borderColor: c.border,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    color: c.text,
+  },
+  chips: {
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: c.border,
+    backgroundColor: c.card,
+  },
+  chipSelected: {
+    backgroundColor: c.successBackground,
+    borderColor: c.successBorder,
+  },
+  chipText: {
+    color: c.textMuted,
+    fontWeight: '700',
+    fontSize: 12,
+  },
+  chipTextSelected: {
+    color: c.success,
+  },
+  list: {
+    padding: 16,
+    gap: 10,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: c.card,
+    borderRadius: 14,
+    padding: 10,
+    borderWidth: 1,
+    borderColor: c.border,
+  },
+  thumbnail: {
+    width: 64,
+    height: 64,
+    borderRadius: 10,
+    backgroundColor: c.muted,
+  },
+  rowLabel: {
+    color: c.text,
+    fontWeight: '800',
+  },
+  rowMeta: {
+    color: c.textSubtle,
+    fontSize: 12,
+  },
+  empty: {
+    color: c.textSubtle,
+    textAlign: 'center',
+    marginTop: 32,
+    lineHeight: 18,
+  },
+}));
@@ -1,161 +1,590 @@
-import React, { useMemo, useState } from "react";
+import React, { useEffect, useMemo, useReducer, useRef, useState } from "react";
 import {
   View,
   Text,
   Image,
   Pressable,
   ActivityIndicator,
+  AccessibilityInfo,
   Alert,
+  Platform,
   ScrollView,
   StatusBar,
+  useWindowDimensions,
 } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
+import { Link, useLocalSearchParams, useRouter } from "expo-router";
 import * as ImagePicker from "expo-image-picker";
-import * as ImageManipulator from "expo-image-manipulator";
+import { useCameraPermissions, type CameraCapturedPicture } from "expo-camera";
 
-// Backend API endpoint for plant disease prediction
-const API_URL = "http://13.62.8.232:5000/predict";
+import { LeafCameraModal } from "@/components/leaf-camera-modal";
+import { ImageDropZone } from "@/components/image-drop-zone";
+import { RankedPredictions } from "@/components/ranked-predictions";
+import { KnowledgeBaseLink } from "@/components/knowledge-base-link";
+import { AttachToPlant } from "@/components/attach-to-plant";
+import { BeforeAfter } from "@/components/before-after";
+import { TreatmentPlanLink } from "@/components/treatment-plan-link";
+import { ShareReportButton } from "@/components/share-report";
+import { PredictionFeedback } from "@/components/prediction-feedback";
+import { GradcamViewer } from "@/components/gradcam-viewer";
+import { OutboxIndicator } from "@/components/outbox-indicator";
+import { QualityWarning } from "@/components/quality-check";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ProgressBar } from "@/components/ui/progress-bar";
+import { SectionHeader } from "@/components/ui/section-header";
+import { toneColors } from "@/constants/theme";
+import {
+  formatBytes,
+  isObjectUrl,
+  preprocessImage,
+  releaseObjectUrl,
+  type PreprocessResult,
+  type PreprocessSource,
+} from "@/lib/image-preprocessing";
+import {
+  ApiCancelledError,
+  describeApiError,
+  isAuthError,
+  isConnectivityError,
+} from "@/lib/api/errors";
+import { apiAuthFor } from "@/lib/auth/session";
+import { confidenceToPercent } from "@/lib/labels";
+import {
+  BAND_TONES,
+  bandAdvice,
+  bandLabel,
+  confidenceBand,
+  resultTitle,
+} from "@/lib/confidence";
+import {
+  diagnosisReducer,
+  INITIAL_DIAGNOSIS_STATE,
+  visibleDiagnosis,
+  type PreparedImage,
+} from "@/lib/diagnosis-flow";
+import { gradcamDescription, heatmapFromPng } from "@/lib/heatmap";
+import { readDiagnosisImage } from "@/lib/history";
+import { decodeJpegBase64 } from "@/lib/image/pixels";
+import {
+  assessImageQuality,
+  findQualityIssues,
+  type ImageQuality,
+} from "@/lib/image/quality";
+import { createRemotePredictor } from "@/lib/inference/remote-predictor";
+import { createMockPredictor } from "@/lib/inference/mock-predictor";
+import { findMockScenario } from "@/constants/mock-predictions";
+import { useServerProfiles } from "@/hooks/use-server-profiles";
+import { useAuth } from "@/hooks/use-auth";
+import { useDiagnosisHistory } from "@/hooks/use-diagnosis-history";
+import { useOutbox } from "@/hooks/use-outbox";
+import { useDiagnosisSettings } from "@/hooks/use-diagnosis-settings";
+import { useColorScheme } from "@/hooks/use-color-scheme";
+import { useThemeColors } from "@/hooks/use-theme-color";
+import { useI18n } from "@/hooks/use-i18n";
+
+// Number of ranked labels requested for the differential diagnosis
+const TOP_K = 3;
 
 /**
  * HomeScreen component - main interface for plant disease detection
  * Allows users to select leaf images and receive AI-powered diagnosis with visual explanations
  */
 export default function HomeScreen() {
-  // Selected image URI from device gallery
-  const [pickedUri, setPickedUri] = useState<string | null>(null);
-  
-  // API request loading state
-  const [loading, setLoading] = useState(false);
+  // Where the current image is in the diagnosis: picking, preprocessing, uploading, done, …
+  const [diagnosis, dispatch] = useReducer(diagnosisReducer, INITIAL_DIAGNOSIS_STATE);
+  const current = visibleDiagnosis(diagnosis);
+
+  // Number of the newest run and the controller that aborts its request
+  const runRef = useRef(0);
+  const controllerRef = useRef(new AbortController());
+
+  // Photos dropped or pasted on the web, diagnosed one after another
+  const dropQueueRef = useRef<PreprocessSource[]>([]);
+  const dropRunningRef = useRef(false);
+  const [dropWaiting, setDropWaiting] = useState(0);
+  const [dropRunning, setDropRunning] = useState(false);
+
+  // Whether the camera viewfinder modal is open
+  const [cameraOpen, setCameraOpen] = useState(false);
+
+  // Camera permission request handle (status itself is re-read on each request)
+  const [, requestCameraPermission] = useCameraPermissions();
+
+  // Earlier diagnosis the next photo re-checks (opened from a follow-up reminder)
+  const [followUpOf, setFollowUpOf] = useState<string | null>(null);
+
+  // Values of the current run for the cards below
+  const image = "image" in current ? current.image : null;
+  // Dropped photos are shown from the prepared copy once their object URL is released
+  const pickedUri =
+    current.phase === "idle" ? null : image && isObjectUrl(current.uri) ? image.stats.uri : current.uri;
+  const uploadStats = image?.stats ?? null;
+  const result = current.phase === "done" ? current.result : null;
+  const prediction = result?.prediction ?? null;
+  const confidence = result?.confidence ?? null;
+  const topK = result?.topK ?? null;
+  const gradcamBase64 = result?.gradcamBase64 ?? null;
+  const gradcamGrid = result?.gradcamGrid ?? null;
+  const outOfDistribution = result?.outOfDistribution ?? false;
+  const recordId = result?.recordId ?? null;
+
+  // Light or dark palette, following the device or the override in Settings
+  const colors = useThemeColors();
+  const colorScheme = useColorScheme();
+
+  // Messages, label names and number formats in the chosen language
+  const i18n = useI18n();
+  const { t } = i18n;
+
+  // Stack side-by-side buttons when the system text size is large
+  const { fontScale } = useWindowDimensions();
+  const largeText = fontScale >= 1.3;
+
+  // Quality thresholds chosen in Settings
+  const { settings: diagnosisSettings } = useDiagnosisSettings();
+
+  // Server profile chosen in Settings (base URL, API key, Grad-CAM flag)
+  const { activeProfile } = useServerProfiles();
 
-  // Model prediction result (disease name)
-  const [prediction, setPrediction] = useState<string | null>(null);
-  
-  // Model confidence score (0-1 or 0-100)
-  const [confidence, setConfidence] = useState<number | null>(null);
+  // Saved diagnoses (History tab)
+  const history = useDiagnosisHistory();
 
-  // Grad-CAM visualization as base64 string from API
-  const [gradcamBase64, setGradcamBase64] = useState<string | null>(null);
+  // Captures waiting for connectivity
+  const outbox = useOutbox();
 
-  // Flag to request Grad-CAM heatmap from server
-  const includeGradcam = true;
+  // Signed-in account whose token is sent with every request
+  const { session } = useAuth();
+
+  // Follow-up reminders link here with the diagnosis to re-photograph
+  const params = useLocalSearchParams<{ followUp?: string }>();
+  const router = useRouter();
+  const followUpRecord = followUpOf ? history.records.find((r) => r.id === followUpOf) : undefined;
+
+  // Saved record of the current result and, for a follow-up, the diagnosis it re-checks
+  const currentRecord = recordId ? history.records.find((r) => r.id === recordId) : undefined;
+  const beforeRecord = currentRecord?.followUpOf
+    ? history.records.find((r) => r.id === currentRecord.followUpOf)
+    : undefined;
+
+  // Outbox item of the current image when it could not be diagnosed right away
+  const queuedId = current.phase === "queued" ? current.outboxId : null;
+  const queuedItem = outbox.items.find((item) => item.id === queuedId) ?? null;
+
+  // Fill in the result once the queued capture has been diagnosed
+  const queuedRecordId = queuedItem?.status === "done" ? queuedItem.recordId : null;
+  const queuedRecord = queuedRecordId
+    ? history.records.find((r) => r.id === queuedRecordId)
+    : undefined;
+  useEffect(() => {
+    if (!queuedRecord || !queuedId) return;
+    dispatch({
+      type: "queued-done",
+      outboxId: queuedId,
+      result: {
+        prediction: queuedRecord.prediction,
+        confidence: queuedRecord.confidence,
+        topK: queuedRecord.topK,
+        gradcamBase64: queuedRecord.gradcamUri,
+        gradcamGrid: null,
+        outOfDistribution: queuedRecord.outOfDistribution,
+        recordId: queuedRecord.id,
+      },
+    });
+  }, [queuedRecord, queuedId]);
 
   // Normalize confidence to percentage (0-100) and clamp to valid range
-  const confidencePct = useMemo(() => {
-    if (confidence === null || Number.isNaN(confidence)) return null;
-    const c = confidence > 1 ? confidence : confidence * 100;
-    return Math.max(0, Math.min(100, c));
-  }, [confidence]);
+  const confidencePct = useMemo(() => confidenceToPercent(confidence), [confidence]);
+
+  // Confident / uncertain / reject, with the thresholds chosen in Settings
+  const bandInput = prediction ? { prediction, confidence, outOfDistribution } : null;
+  const band = bandInput ? confidenceBand(bandInput, diagnosisSettings.confidence) : null;
+  const bandColors = band ? toneColors(colors, BAND_TONES[band]) : null;
+  const advice = bandInput && band ? bandAdvice(bandInput, band, i18n) : null;
 
   // Convert base64 Grad-CAM data to data URI for Image component
+  // (some servers already send one; results from the outbox point at the stored file)
   const gradcamUri = useMemo(() => {
     if (!gradcamBase64) return null;
+    if (/^(data:image|file:)/.test(gradcamBase64)) return gradcamBase64;
     return `data:image/png;base64,${gradcamBase64}`;
   }, [gradcamBase64]);
 
-  // Format disease labels: replace underscores with spaces and capitalize each word
-  const prettyLabel = (s: string) =>
-    s.replaceAll("_", " ").replace(/\b\w/g, (c) => c.toUpperCase());
+  // Activations to describe; servers that only send the PNG (and saved results) are read back from it
+  const [pngGrid, setPngGrid] = useState<number[][] | null>(null);
+  useEffect(() => {
+    setPngGrid(null);
+    if (gradcamGrid || !gradcamUri) return;
+    let current = true;
+    readDiagnosisImage(gradcamUri)
+      .then((png) => current && setPngGrid(heatmapFromPng(png)))
+      .catch((e) => console.log("Could not read Grad-CAM image:", e?.message || e));
+    return () => {
+      current = false;
+    };
+  }, [gradcamGrid, gradcamUri]);
+
+  // Screen reader text for the heatmap, e.g. "concentrated along the lower-left leaf edge"
+  const gradcamText = useMemo(
+    () => t("a11y.gradcamImage", { description: gradcamDescription(gradcamGrid ?? pngGrid, i18n) }),
+    [gradcamGrid, pngGrid, i18n, t]
+  );
+
+  // Spoken summary of the result, e.g. "Late blight, 87 percent confidence"
+  const resultAnnouncement = bandInput && band
+    ? confidencePct === null
+      ? resultTitle(bandInput, band, i18n)
+      : t("a11y.result", { title: resultTitle(bandInput, band, i18n), pct: Math.round(confidencePct) })
+    : null;
+
+  // Android and the web read the live region around the result; iOS has no live regions
+  useEffect(() => {
+    if (resultAnnouncement && Platform.OS === "ios") {
+      AccessibilityInfo.announceForAccessibility(resultAnnouncement);
+    }
+  }, [resultAnnouncement]);
+
+  /**
+   * Start a new run for the next image; the request still running for the previous one is aborted
+   * so its late answer cannot replace the new result
+   * @returns Number of the new run
+   */
+  const startRun = () => {
+    controllerRef.current.abort();
+    controllerRef.current = new AbortController();
+    return ++runRef.current;
+  };
+
+  /**
+   * Reset previous results, preprocess a freshly selected or captured image and send it to the API
+   * @param uri - Local URI of the image for preview
+   * @param fileSize - Original file size in bytes, if the source reported it
+   * @returns Whether the image was diagnosed or queued (see sendToApi)
+   */
+  const handleSelectedImage = async (uri: string, fileSize?: number | null) => {
+    const run = startRun();
+    dispatch({ type: "select", run, uri, fileSize: fileSize ?? null });
+    return prepareAndSend(run, uri, fileSize ?? null);
+  };
+  // The drop queue outlives the render that started it; each photo uses the latest settings
+  const handleSelectedImageRef = useRef(handleSelectedImage);
+  handleSelectedImageRef.current = handleSelectedImage;
+
+  /**
+   * Diagnose dropped or pasted photos one at a time, each through the same pipeline as a gallery pick.
+   * The queue pauses when a photo needs the user or another image is picked; Continue resumes it.
+   * @param images - Photos to add to the end of the queue
+   */
+  const diagnoseInSequence = async (images: PreprocessSource[]) => {
+    dropQueueRef.current.push(...images);
+    setDropWaiting(dropQueueRef.current.length);
+    if (dropRunningRef.current) return;
+
+    dropRunningRef.current = true;
+    setDropRunning(true);
+    try {
+      for (let next = dropQueueRef.current.shift(); next; next = dropQueueRef.current.shift()) {
+        setDropWaiting(dropQueueRef.current.length);
+        if (!(await handleSelectedImageRef.current(next.uri, next.fileSize))) break;
+      }
+    } finally {
+      dropRunningRef.current = false;
+      setDropRunning(false);
+    }
+  };
+
+  /**
+   * Forget the dropped photos not diagnosed yet; the one on screen is kept
+   */
+  const clearDropQueue = () => {
+    dropQueueRef.current.forEach((source) => releaseObjectUrl(source.uri));
+    dropQueueRef.current = [];
+    setDropWaiting(0);
+  };
+
+  /**
+   * Fix orientation, crop, downsize and re-encode, check the photo quality, then send it
+   * @param run - Run the image belongs to
+   * @returns Whether the image was diagnosed or queued (see sendToApi)
+   */
+  const prepareAndSend = async (run: number, uri: string, fileSize: number | null): Promise<boolean> => {
+    let processed: PreprocessResult;
+    try {
+      processed = await preprocessImage(
+        { uri, fileSize },
+        { maxDimension: diagnosisSettings.upload.maxDimension }
+      );
+    } catch (e: any) {
+      console.log("Preprocessing error:", e?.message || e);
+      dispatch({ type: "failed", run, title: t("alert.error"), message: t("alert.prepareFailed") });
+      return false;
+    }
+    // The full-size original of a dropped photo is no longer needed
+    releaseObjectUrl(uri);
+
+    // A newer image was picked in the meantime
+    if (run !== runRef.current) return false;
+
+    // Blurry, badly exposed or off-target photos get confident-looking wrong answers
+    let quality: ImageQuality | null = null;
+    try {
+      quality = assessImageQuality(decodeJpegBase64(processed.base64));
+    } catch (e: any) {
+      console.log("Quality check skipped:", e?.message || e);
+    }
+
+    const prepared: PreparedImage = { base64: processed.base64, quality, stats: processed };
+    const issues = quality ? findQualityIssues(quality, diagnosisSettings.quality) : [];
+    if (quality && issues.length > 0) {
+      dispatch({ type: "hold-quality", run, image: prepared, issues });
+      return false;
+    }
+
+    return sendToApi(run, prepared);
+  };
+
+  /**
+   * Send the photo held back by the quality gate as it is
+   */
+  const overrideQualityCheck = async () => {
+    if (current.phase !== "held") return;
+    await sendToApi(current.run, current.image);
+  };
+
+  /**
+   * Stop the running prediction; the image stays so it can be sent again
+   */
+  const cancelPrediction = () => {
+    if (current.phase !== "uploading") return;
+    controllerRef.current.abort();
+    dispatch({ type: "cancel", run: current.run });
+  };
+
+  /**
+   * Run the failed or cancelled image again, from preprocessing if it never got that far
+   */
+  const retry = async () => {
+    if (current.phase !== "error") return;
+    const run = startRun();
+    dispatch({ type: "retry", run: current.run, nextRun: run });
+    if (current.image) await sendToApi(run, current.image);
+    else await prepareAndSend(run, current.uri, current.fileSize);
+  };
 
   /**
    * Handle image selection from device gallery
    * Requests permissions, launches picker, and sends selected image to API
    */
   const pickImage = async () => {
+    dispatch({ type: "pick" });
+
     // Request media library permissions
     const perm = await ImagePicker.requestMediaLibraryPermissionsAsync();
     if (!perm.granted) {
-      Alert.alert("Permission needed", "Please allow photo access.");
+      dispatch({ type: "pick-cancelled" });
+      Alert.alert(t("alert.permissionNeeded"), t("alert.photoPermission"));
       return;
     }
 
-    // Launch image picker with base64 encoding enabled
-    const result = await ImagePicker.launchImageLibraryAsync({
+    // Launch image picker at full quality; preprocessing handles compression
+    const picked = await ImagePicker.launchImageLibraryAsync({
       mediaTypes: ImagePicker.MediaTypeOptions.Images,
-      quality: 0.85,
-      base64: true,
+      quality: 1,
     });
 
-    if (result.canceled) return;
+    if (picked.canceled) {
+      dispatch({ type: "pick-cancelled" });
+      return;
+    }
 
-    const asset = result.assets[0];
+    const asset = picked.assets[0];
+    await handleSelectedImage(asset.uri, asset.fileSize);
+  };
 
-    // Update UI and clear previous results
-    setPickedUri(asset.uri);
-    setPrediction(null);
-    setConfidence(null);
-    setGradcamBase64(null);
+  /**
+   * Open the in-app camera with the leaf framing guide
+   * Requests camera permission first; the capture is handled by handleCapture
+   */
+  const openCamera = async () => {
+    const perm = await requestCameraPermission();
+    if (!perm.granted) {
+      Alert.alert(t("alert.permissionNeeded"), t("alert.cameraPermission"));
+      return;
+    }
+
+    dispatch({ type: "pick" });
+    setCameraOpen(true);
+  };
+
+  /**
+   * Close the camera without a photo and go back to what was on screen
+   */
+  const closeCamera = () => {
+    setCameraOpen(false);
+    dispatch({ type: "pick-cancelled" });
+  };
+
+  /**
+   * Close the camera and run the captured photo through the same pipeline as gallery picks
+   * @param picture - Photo returned by the camera viewfinder
+   */
+  const handleCapture = async (picture: CameraCapturedPicture) => {
+    setCameraOpen(false);
+    await handleSelectedImage(picture.uri);
+  };
+
+  // Open the camera straight away for a follow-up, once per reminder tap
+  // (through a ref, so a new render's openCamera does not open it again)
+  const openCameraRef = useRef(openCamera);
+  openCameraRef.current = openCamera;
+  useEffect(() => {
+    if (!params.followUp) return;
+    setFollowUpOf(params.followUp);
+    router.setParams({ followUp: undefined });
+    openCameraRef.current();
+  }, [params.followUp, router]);
 
-    if (!asset.base64) {
-      Alert.alert("Error", "Could not read image as base64.");
+  /**
+   * Let the user choose between camera and gallery when replacing the current image.
+   * react-native-web has no alert dialogs, so the web goes straight to the file picker.
+   */
+  const chooseImageSource = () => {
+    if (Platform.OS === "web") {
+      pickImage();
       return;
     }
+    Alert.alert(t("alert.replaceTitle"), t("alert.replaceMessage"), [
+      { text: t("home.takePhoto"), onPress: openCamera },
+      { text: t("alert.chooseFromGallery"), onPress: pickImage },
+      { text: t("alert.cancel"), style: "cancel" },
+    ]);
+  };
+
+  /**
+   * Keep the prepared image in the outbox; it is diagnosed once the server is reachable
+   * @param run - Run the image belongs to
+   * @param prepared - Preprocessed image and its quality scores
+   * @returns Whether the image was queued
+   */
+  const queueForLater = async (run: number, prepared: PreparedImage) => {
+    try {
+      const item = await outbox.enqueue(prepared.base64, activeProfile, TOP_K, prepared.quality, followUpOf);
+      dispatch({ type: "queued", run, outboxId: item.id });
+      setFollowUpOf(null);
+      return true;
+    } catch (e: any) {
+      console.log("Could not queue image:", e?.message || e);
+      return false;
+    }
+  };
 
-    await sendToApi(asset.base64);
+  /**
+   * Queue an image that got no answer; the error card offers a retry if even that fails
+   * @returns Whether the image was queued
+   */
+  const queueOrFail = async (run: number, prepared: PreparedImage) => {
+    if (await queueForLater(run, prepared)) return true;
+    dispatch({ type: "failed", run, title: t("alert.error"), message: t("alert.queueFailed") });
+    return false;
   };
 
   /**
    * Send image to prediction API and handle response
-   * @param imageBase64 - Base64 encoded image data
+   * @param run - Run the image belongs to; answers for superseded runs are dropped
+   * @param prepared - Preprocessed image and its quality scores
+   * @returns Whether the image got a result or was queued; false if it was cancelled, superseded,
+   * failed or waits for sign-in
    */
-  const sendToApi = async (imageBase64: string) => {
+  const sendToApi = async (run: number, prepared: PreparedImage): Promise<boolean> => {
+    if (run !== runRef.current) return false;
+    const { signal } = controllerRef.current;
+    dispatch({ type: "upload", run, image: prepared });
+
     try {
-      setLoading(true);
-
-      // Send POST request with image data and Grad-CAM flag
-      const res = await fetch(API_URL, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          image: imageBase64,
-          include_gradcam: includeGradcam,
-        }),
-      });
-
-      const data = await res.json();
-      
-      // Debug logging for Grad-CAM response
-      console.log("gradcam head:", data.gradcam_png_base64?.slice(0, 30));
-      console.log("gradcam has data uri:", data.gradcam_png_base64?.startsWith("data:image"));
-      console.log("gradcam length:", data.gradcam_png_base64?.length);
-
-      // Handle API errors
-      if (!res.ok) {
-        console.log("API error:", data);
-        Alert.alert("API Error", data?.error || "Server error");
-        return;
-      }
+      // Developer settings can swap the server for a mock scenario
+      const remote = diagnosisSettings.mockScenario
+        ? createMockPredictor(diagnosisSettings.mockScenario)
+        : createRemotePredictor(activeProfile);
 
-      // Update state with prediction results
-      setPrediction(data.prediction ?? null);
-      setConfidence(typeof data.confidence === "number" ? data.confidence : null);
-
-      // Store Grad-CAM base64 if present and valid
-      if (
-        typeof data.gradcam_png_base64 === "string" &&
-        data.gradcam_png_base64.length > 0
-      ) {
-        setGradcamBase64(data.gradcam_png_base64);
-      } else {
-        setGradcamBase64(null);
+      // Without a connection there is no point in waiting for a timeout
+      if (!outbox.online) return queueOrFail(run, prepared);
+      const predicted = await remote.predict({ imageBase64: prepared.base64, topK: TOP_K, signal });
+
+      // Cancelled, or replaced by a newer image while the server was answering
+      if (signal.aborted) return false;
+      dispatch({ type: "result", run, result: { ...predicted, recordId: null } });
+
+      // Keep every diagnosis on the device; a storage failure must not hide the result
+      const record = await history
+        .add({
+          imageBase64: prepared.base64,
+          gradcamBase64: predicted.gradcamBase64,
+          prediction: predicted.prediction,
+          confidence: predicted.confidence,
+          topK: predicted.topK,
+          serverProfile: { id: activeProfile.id, name: activeProfile.name },
+          outOfDistribution: predicted.outOfDistribution,
+          quality: prepared.quality,
+          followUpOf,
+        })
+        .catch((e) => {
+          console.log("Could not save diagnosis:", e?.message || e);
+          return null;
+        });
+
+      if (record) {
+        dispatch({ type: "saved", run, recordId: record.id });
+        setFollowUpOf(null);
       }
+      return true;
     } catch (e: any) {
-      // Handle network connectivity errors
-      console.log("Network error:", e?.message || e);
-      Alert.alert(
-        "Network Error",
-        "Could not reach the server. Check EC2 IP, port 5000, and that the server is running."
-      );
-    } finally {
-      setLoading(false);
+      // The user cancelled or moved on to another image; the state already reflects that
+      if (e instanceof ApiCancelledError || signal.aborted) return false;
+      console.log("Prediction error:", e?.message || e);
+
+      // No signal or a dropped connection: retry from the outbox instead of losing the capture
+      if (isConnectivityError(e)) return queueOrFail(run, prepared);
+
+      // Signing in cannot help when tokens may not be sent to this server (no HTTPS)
+      if (isAuthError(e) && !diagnosisSettings.mockScenario && !apiAuthFor(activeProfile.baseUrl)) {
+        dispatch({ type: "failed", run, title: t("apiError.insecureTitle"), message: t("apiError.insecure") });
+        return false;
+      }
+
+      // Not signed in or session ended: the sign-in screen opens on top, the photo waits here
+      if (isAuthError(e)) {
+        dispatch({ type: "hold-sign-in", run, image: prepared });
+        return false;
+      }
+
+      // HTTP status and malformed payload each get their own message
+      const { title, message } = describeApiError(e, i18n);
+      dispatch({ type: "failed", run, title, message });
+      return false;
     }
   };
 
+  // Back from signing in: send the held photo without making the user pick it again.
+  // Only a new session triggers this; the screen state is read through a ref
+  const resumeAfterSignIn = () => {
+    if (current.phase !== "held" || current.reason !== "sign-in") return;
+    sendToApi(current.run, current.image);
+  };
+  const resumeAfterSignInRef = useRef(resumeAfterSignIn);
+  resumeAfterSignInRef.current = resumeAfterSignIn;
+  useEffect(() => {
+    if (session) resumeAfterSignInRef.current();
+  }, [session]);
+
   // Check if prediction results are available for display
   const hasResult = Boolean(prediction) || confidencePct !== null;
 
   return (
-    <SafeAreaView style={{ flex: 1, backgroundColor: "#F8FAFC" }}>
-      <StatusBar barStyle="dark-content" backgroundColor="#F8FAFC" />
+    <SafeAreaView style={{ flex: 1, backgroundColor: colors.screen }}>
+      <StatusBar
+        barStyle={colorScheme === "dark" ? "light-content" : "dark-content"}
+        backgroundColor={colors.screen}
+      />
 
       {/* Main scrollable content container with consistent padding */}
       <ScrollView
@@ -164,252 +593,473 @@ export default function HomeScreen() {
           paddingTop: 16,
           paddingBottom: 28,
           gap: 14,
-          backgroundColor: "#F8FAFC",
+          backgroundColor: colors.screen,
           flexGrow: 1,
         }}
       >
         {/* App title and description */}
         <View style={{ gap: 6 }}>
-          <Text style={{ fontSize: 26, fontWeight: "800", color: "#0F172A" }}>
-            Plant Whisperer 🌱
+          <View
+            style={{
+              flexDirection: "row",
+              justifyContent: "space-between",
+              alignItems: "center",
+              flexWrap: "wrap",
+              gap: 8,
+            }}
+          >
+            <Text
+              accessibilityRole="header"
+              style={{ fontSize: 26, fontWeight: "800", color: colors.text, flexShrink: 1 }}
+            >
+              {t("home.title")}
+            </Text>
+            <Link href="/settings" asChild>
+              <Pressable hitSlop={10} accessibilityRole="link">
+                <Text style={{ color: colors.link, fontWeight: "800" }}>{t("home.settings")}</Text>
+              </Pressable>
+            </Link>
+          </View>
+          <Text style={{ color: colors.textMuted, lineHeight: 18 }}>
+            {t("home.subtitle")}
           </Text>
-          <Text style={{ color: "#475569", lineHeight: 18 }}>
-            Upload a leaf photo to get a quick diagnosis + Grad-CAM explainability.
+          <Text style={{ color: colors.textSubtle, fontSize: 12 }}>
+            {diagnosisSettings.mockScenario
+              ? t("home.serverMock", { title: findMockScenario(diagnosisSettings.mockScenario)?.title ?? "" })
+              : t("home.server", { name: activeProfile.name })}
           </Text>
         </View>
 
+        {/* Captures waiting for connectivity */}
+        <OutboxIndicator />
+
         {/* Image upload and preview card */}
-        <View
-          style={{
-            backgroundColor: "white",
-            borderRadius: 18,
-            padding: 14,
-            borderWidth: 1,
-            borderColor: "#E5E7EB",
-            gap: 12,
-            shadowColor: "#000",
-            shadowOpacity: 0.06,
-            shadowRadius: 10,
-            shadowOffset: { width: 0, height: 6 },
-            elevation: 2,
-          }}
-        >
-          {/* Initial state: image picker button */}
-          {!pickedUri ? (
-            <Pressable
-              onPress={pickImage}
-              style={({ pressed }) => ({
-                backgroundColor: pressed ? "white" : "white",
-                borderRadius: 14,
-                paddingVertical: 14,
+        <Card>
+          {/* Follow-up photo linked to an earlier diagnosis */}
+          {followUpRecord && (
+            <View
+              style={{
+                flexDirection: "row",
                 alignItems: "center",
-                borderColor: "#0B1220",
-              })}
+                gap: 10,
+                padding: 10,
+                borderRadius: 12,
+                backgroundColor: colors.infoBackground,
+                borderWidth: 1,
+                borderColor: colors.infoBorder,
+              }}
             >
-              <Text style={{ color: "#0B1220", fontWeight: "700", fontSize: 16 }}>
-                Pick an image
-              </Text>
-              <Text style={{ color: "#0F172A", marginTop: 6, fontSize: 12 }}>
-                JPG / PNG • From your gallery
-              </Text>
-            </Pressable>
-          ) : (
-            /* After image selected: show preview with replace option */
+              <Image
+                source={{ uri: followUpRecord.imageUri }}
+                style={{ width: 44, height: 44, borderRadius: 8, backgroundColor: colors.muted }}
+              />
+              <View style={{ flex: 1, gap: 2 }}>
+                <Text style={{ color: colors.info, fontWeight: "800" }}>{t("home.followUpTitle")}</Text>
+                <Text style={{ color: colors.textMuted, fontSize: 12, lineHeight: 16 }}>
+                  {t("home.followUpOf", {
+                    title: resultTitle(
+                      followUpRecord,
+                      confidenceBand(followUpRecord, diagnosisSettings.confidence),
+                      i18n
+                    ),
+                    date: i18n.formatDate(followUpRecord.createdAt),
+                  })}
+                </Text>
+              </View>
+              <Pressable onPress={() => setFollowUpOf(null)} accessibilityRole="button" hitSlop={10}>
+                <Text style={{ color: colors.link, fontWeight: "800" }}>{t("home.followUpUnlink")}</Text>
+              </Pressable>
+            </View>
+          )}
+
+          {/* Initial state: camera and gallery buttons */}
+          {!pickedUri ? (
             <View style={{ gap: 10 }}>
-              <View
-                style={{
-                  flexDirection: "row",
-                  justifyContent: "space-between",
+              <Pressable
+                onPress={openCamera}
+                accessibilityRole="button"
+                accessibilityLabel={t("home.takePhoto")}
+                accessibilityHint={t("home.takePhotoHint")}
+                style={({ pressed }) => ({
+                  backgroundColor: pressed ? colors.successBorder : colors.successBackground,
+                  borderRadius: 14,
+                  paddingVertical: 14,
                   alignItems: "center",
-                }}
+                  borderWidth: 1,
+                  borderColor: colors.successBorder,
+                })}
+              >
+                <Text style={{ color: colors.success, fontWeight: "700", fontSize: 16 }}>
+                  {t("home.takePhoto")}
+                </Text>
+                <Text style={{ color: colors.success, marginTop: 6, fontSize: 12 }}>
+                  {t("home.takePhotoHint")}
+                </Text>
+              </Pressable>
+
+              <Pressable
+                onPress={pickImage}
+                accessibilityRole="button"
+                accessibilityLabel={t("home.pickImage")}
+                accessibilityHint={t("home.pickImageHint")}
+                style={({ pressed }) => ({
+                  backgroundColor: pressed ? colors.muted : colors.card,
+                  borderRadius: 14,
+                  paddingVertical: 14,
+                  alignItems: "center",
+                  borderColor: colors.text,
+                })}
               >
-                <Text style={{ color: "#0F172A", fontWeight: "700", fontSize: 14 }}>
-                  Selected image
+                <Text style={{ color: colors.text, fontWeight: "700", fontSize: 16 }}>
+                  {t("home.pickImage")}
+                </Text>
+                <Text style={{ color: colors.text, marginTop: 6, fontSize: 12 }}>
+                  {t("home.pickImageHint")}
                 </Text>
-                <Pressable onPress={pickImage} hitSlop={10}>
-                  <Text style={{ color: "#2563EB", fontWeight: "800" }}>
-                    Replace
+              </Pressable>
+
+              {/* Many photos from one scouting round */}
+              <Link href="/batch" asChild>
+                <Pressable hitSlop={10} accessibilityRole="link" style={{ alignItems: "center" }}>
+                  <Text style={{ color: colors.link, fontWeight: "800" }}>
+                    {t("home.batch")}
                   </Text>
                 </Pressable>
-              </View>
+              </Link>
+            </View>
+          ) : (
+            /* After image selected: show preview with replace option */
+            <View style={{ gap: 10 }}>
+              <SectionHeader
+                title={t("home.selectedImage")}
+                right={
+                  <Pressable
+                    onPress={chooseImageSource}
+                    hitSlop={10}
+                    accessibilityRole="button"
+                    accessibilityLabel={t("alert.replaceTitle")}
+                    accessibilityHint={t("alert.replaceMessage")}
+                  >
+                    <Text style={{ color: colors.link, fontWeight: "800" }}>
+                      {t("home.replace")}
+                    </Text>
+                  </Pressable>
+                }
+              />
 
               <Image
                 source={{ uri: pickedUri }}
+                accessible
+                accessibilityLabel={t("a11y.selectedImage")}
                 style={{
                   width: "100%",
                   height: 280,
                   borderRadius: 14,
-                  backgroundColor: "#F1F5F9",
+                  backgroundColor: colors.muted,
                 }}
                 resizeMode="cover"
               />
             </View>
           )}
 
-          {/* Show loading spinner during API request */}
-          {loading && (
-            <View style={{ flexDirection: "row", alignItems: "center", gap: 10 }}>
-              <ActivityIndicator />
-              <Text style={{ color: "#0F172A", fontWeight: "600" }}>
-                Running prediction…
+          {/* Original vs. uploaded size after preprocessing */}
+          {uploadStats && (
+            <Text style={{ color: colors.textSubtle, fontSize: 12 }}>
+              {t("home.uploadSize", {
+                size:
+                  (uploadStats.originalBytes !== null
+                    ? `${formatBytes(uploadStats.originalBytes)} → `
+                    : "") + formatBytes(uploadStats.processedBytes),
+                width: uploadStats.width,
+                height: uploadStats.height,
+              })}
+            </Text>
+          )}
+
+          {/* Show spinner while the image is being prepared for upload */}
+          {current.phase === "preprocessing" && (
+            <View
+              accessibilityLiveRegion="polite"
+              style={{ flexDirection: "row", alignItems: "center", gap: 10 }}
+            >
+              <ActivityIndicator color={colors.textSubtle} />
+              <Text style={{ color: colors.text, fontWeight: "600" }}>
+                {t("home.preparing")}
               </Text>
             </View>
           )}
-        </View>
 
-        {/* Prediction results display card */}
-        <View
-          style={{
-            backgroundColor: "white",
-            borderRadius: 18,
-            padding: 14,
-            borderWidth: 1,
-            borderColor: "#E5E7EB",
-            gap: 12,
-            shadowColor: "#000",
-            shadowOpacity: 0.06,
-            shadowRadius: 10,
-            shadowOffset: { width: 0, height: 6 },
-            elevation: 2,
-            opacity: hasResult ? 1 : 0.95,
-          }}
-        >
-          <View
-            style={{
-              flexDirection: "row",
-              justifyContent: "space-between",
-              alignItems: "center",
-            }}
-          >
-            <Text style={{ color: "#0F172A", fontWeight: "800", fontSize: 16 }}>
-              Result
-            </Text>
+          {/* Failed quality checks: retake, or diagnose anyway */}
+          {current.phase === "held" && current.reason === "quality" && (
+            <QualityWarning
+              issues={current.issues}
+              onRetake={chooseImageSource}
+              onSendAnyway={overrideQualityCheck}
+            />
+          )}
 
-            {/* Disease label badge */}
+          {/* Refused by the server until the user signs in */}
+          {current.phase === "held" && current.reason === "sign-in" && !session && (
             <View
+              accessibilityLiveRegion="polite"
               style={{
-                paddingVertical: 6,
-                paddingHorizontal: 10,
-                borderRadius: 999,
-                backgroundColor: "#DCFCE7",
+                gap: 8,
+                padding: 12,
+                borderRadius: 12,
                 borderWidth: 1,
-                borderColor: "#86EFAC",
+                borderColor: colors.warningBorder,
+                backgroundColor: colors.warningBackground,
               }}
             >
-              <Text style={{ color: "#166534", fontWeight: "800", fontSize: 12 }}>
-                {prediction ? prettyLabel(prediction) : "—"}
-              </Text>
+              <Text style={{ color: colors.warning, fontWeight: "800" }}>{t("home.signInTitle")}</Text>
+              <Text style={{ color: colors.text, lineHeight: 18 }}>{t("home.signInMessage")}</Text>
+              <Link href="/sign-in" asChild>
+                <Pressable accessibilityRole="link" hitSlop={10}>
+                  <Text style={{ color: colors.link, fontWeight: "800" }}>{t("home.signIn")}</Text>
+                </Pressable>
+              </Link>
             </View>
-          </View>
+          )}
 
-          {/* Confidence score with progress bar */}
-          <View style={{ gap: 8 }}>
-            <View style={{ flexDirection: "row", justifyContent: "space-between" }}>
-              <Text style={{ color: "#475569", fontWeight: "700" }}>
-                Confidence
-              </Text>
-              <Text style={{ color: "#0F172A", fontWeight: "900" }}>
-                {confidencePct === null ? "—" : `${confidencePct.toFixed(0)}%`}
+          {/* Show loading spinner during API request, with a way out of a slow one */}
+          {current.phase === "uploading" && (
+            <View
+              accessibilityLiveRegion="polite"
+              style={{ flexDirection: "row", alignItems: "center", gap: 10 }}
+            >
+              <ActivityIndicator color={colors.textSubtle} />
+              <Text style={{ color: colors.text, fontWeight: "600", flex: 1 }}>
+                {t("home.predicting")}
               </Text>
+              <Pressable
+                onPress={cancelPrediction}
+                accessibilityRole="button"
+                accessibilityHint={t("home.cancelHint")}
+                hitSlop={10}
+              >
+                <Text style={{ color: colors.danger, fontWeight: "800" }}>{t("home.cancel")}</Text>
+              </Pressable>
             </View>
+          )}
 
-            {/* Visual progress bar for confidence percentage */}
+          {/* Failed or cancelled: try the same image again */}
+          {current.phase === "error" && (
             <View
+              accessibilityLiveRegion="polite"
               style={{
-                height: 10,
-                borderRadius: 999,
-                backgroundColor: "#E5E7EB",
-                overflow: "hidden",
+                gap: 8,
+                padding: 12,
+                borderRadius: 12,
+                borderWidth: 1,
+                borderColor: current.cancelled ? colors.border : colors.dangerBorder,
+                backgroundColor: current.cancelled ? colors.muted : colors.dangerBackground,
               }}
             >
-              <View
-                style={{
-                  width: `${confidencePct ?? 0}%`,
-                  height: "100%",
-                  borderRadius: 999,
-                  backgroundColor: "#2563EB",
-                }}
-              />
+              <Text style={{ color: current.cancelled ? colors.text : colors.danger, fontWeight: "800" }}>
+                {current.cancelled ? t("home.cancelled") : current.title}
+              </Text>
+              {!current.cancelled && (
+                <Text style={{ color: colors.text, lineHeight: 18 }}>{current.message}</Text>
+              )}
+              <Pressable
+                onPress={retry}
+                accessibilityRole="button"
+                accessibilityHint={t("home.retryHint")}
+                style={({ pressed }) => ({
+                  alignSelf: "flex-start",
+                  backgroundColor: pressed ? colors.successBorder : colors.successBackground,
+                  borderRadius: 12,
+                  borderWidth: 1,
+                  borderColor: colors.successBorder,
+                  paddingVertical: 8,
+                  paddingHorizontal: 16,
+                })}
+              >
+                <Text style={{ color: colors.success, fontWeight: "800" }}>{t("home.retry")}</Text>
+              </Pressable>
             </View>
+          )}
 
-            <Text style={{ color: "#64748B", fontSize: 12, lineHeight: 16 }}>
-              Tip: use a clear leaf close-up with good lighting.
+          {/* Queued in the outbox until the server can be reached */}
+          {queuedItem && (
+            <Text
+              accessibilityLiveRegion="polite"
+              style={{ color: colors.warning, fontWeight: "600", lineHeight: 18 }}
+            >
+              {queuedItem.status === "failed"
+                ? t("home.queuedFailed")
+                : outbox.online
+                  ? t("home.queuedUnreachable")
+                  : t("home.queuedOffline")}
             </Text>
-          </View>
-        </View>
+          )}
 
-        {/* Grad-CAM explainability visualization card */}
-        <View
-          style={{
-            backgroundColor: "white",
-            borderRadius: 18,
-            padding: 14,
-            borderWidth: 1,
-            borderColor: "#E5E7EB",
-            gap: 12,
-            shadowColor: "#000",
-            shadowOpacity: 0.06,
-            shadowRadius: 10,
-            shadowOffset: { width: 0, height: 6 },
-            elevation: 2,
-            opacity: gradcamUri ? 1 : 0.95,
-          }}
-        >
+          {/* Web only: drag-and-drop, paste and image address input */}
+          <ImageDropZone onImages={diagnoseInSequence} />
+
+          {/* Dropped photos still to diagnose; paused while one needs the user */}
+          {dropWaiting > 0 && (
+            <View style={{ flexDirection: "row", alignItems: "center", gap: 12 }}>
+              <Text style={{ flex: 1, color: colors.textMuted }}>
+                {t("home.dropWaiting", { count: dropWaiting })}
+              </Text>
+              {!dropRunning && (
+                <Pressable onPress={() => diagnoseInSequence([])} accessibilityRole="button" hitSlop={10}>
+                  <Text style={{ color: colors.link, fontWeight: "800" }}>{t("home.dropContinue")}</Text>
+                </Pressable>
+              )}
+              <Pressable onPress={clearDropQueue} accessibilityRole="button" hitSlop={10}>
+                <Text style={{ color: colors.danger, fontWeight: "800" }}>{t("home.dropClear")}</Text>
+              </Pressable>
+            </View>
+          )}
+        </Card>
+
+        {/* Prediction results display card */}
+        <Card style={{ opacity: hasResult ? 1 : 0.95 }}>
+          {/* Disease label badge, coloured by confidence band; read out as one sentence when it changes */}
           <View
-            style={{
-              flexDirection: "row",
-              justifyContent: "space-between",
-              alignItems: "center",
-            }}
+            accessible={Boolean(resultAnnouncement)}
+            accessibilityLabel={resultAnnouncement ?? undefined}
+            accessibilityLiveRegion="polite"
           >
-            <Text style={{ color: "#0F172A", fontWeight: "800", fontSize: 16 }}>
-              Grad-CAM Explainability
+            <SectionHeader
+              title={t("home.result")}
+              right={
+                <Badge
+                  label={bandInput && band ? resultTitle(bandInput, band, i18n) : "—"}
+                  tone={band ? BAND_TONES[band] : "neutral"}
+                />
+              }
+            />
+          </View>
+
+          {/* Confidence score with progress bar */}
+          <View style={{ gap: 8 }}>
+            <View style={{ flexDirection: "row", justifyContent: "space-between", flexWrap: "wrap" }}>
+              <Text style={{ color: colors.textMuted, fontWeight: "700" }}>
+                {t("home.confidence")}
+              </Text>
+              <Text style={{ color: colors.text, fontWeight: "900" }}>
+                {confidencePct === null ? "—" : i18n.formatPercent(confidencePct)}
+              </Text>
+            </View>
+
+            {/* Visual progress bar for confidence percentage */}
+            <ProgressBar
+              value={confidencePct ?? 0}
+              tone={band ? BAND_TONES[band] : "info"}
+              label={t("home.confidence")}
+            />
+
+            <Text style={{ color: colors.textSubtle, fontSize: 12, lineHeight: 16 }}>
+              {t("home.tip")}
             </Text>
+          </View>
 
+          {/* Uncertain or rejected result: ask for a better photo instead of trusting it */}
+          {band && bandColors && advice && (
             <View
               style={{
-                paddingVertical: 6,
-                paddingHorizontal: 10,
-                borderRadius: 999,
-                backgroundColor: "#EFF6FF",
+                gap: 8,
+                padding: 12,
+                borderRadius: 14,
+                backgroundColor: bandColors.background,
                 borderWidth: 1,
-                borderColor: "#BFDBFE",
+                borderColor: bandColors.border,
               }}
             >
-              <Text style={{ color: "#1D4ED8", fontWeight: "800", fontSize: 12 }}>
-                Heatmap
+              <Text style={{ color: bandColors.text, fontWeight: "800" }}>{bandLabel(band, i18n)}</Text>
+              <Text style={{ color: colors.textMuted, lineHeight: 18 }}>{advice}</Text>
+              <View style={{ flexDirection: largeText ? "column" : "row", gap: 10 }}>
+                <Pressable
+                  onPress={openCamera}
+                  accessibilityRole="button"
+                  style={{
+                    flex: largeText ? undefined : 1,
+                    backgroundColor: bandColors.text,
+                    borderRadius: 12,
+                    paddingVertical: 10,
+                    alignItems: "center",
+                  }}
+                >
+                  <Text style={{ color: colors.onTone, fontWeight: "800" }}>{t("home.retake")}</Text>
+                </Pressable>
+                <Pressable
+                  onPress={pickImage}
+                  accessibilityRole="button"
+                  style={{
+                    flex: largeText ? undefined : 1,
+                    borderWidth: 1,
+                    borderColor: bandColors.text,
+                    borderRadius: 12,
+                    paddingVertical: 10,
+                    alignItems: "center",
+                  }}
+                >
+                  <Text style={{ color: bandColors.text, fontWeight: "800" }}>{t("home.tryAnother")}</Text>
+                </Pressable>
+              </View>
+            </View>
+          )}
+
+          {/* Differential diagnosis when the server returns several candidates */}
+          {topK && topK.length > 1 && band !== "reject" && (
+            <View style={{ gap: 8 }}>
+              <Text style={{ color: colors.textMuted, fontWeight: "700" }}>
+                {t("home.differential")}
               </Text>
+              <RankedPredictions entries={topK} />
             </View>
-          </View>
+          )}
+
+          {/* Symptoms, treatment and prevention for the predicted label */}
+          {prediction && band !== "reject" && <KnowledgeBaseLink label={prediction} />}
+
+          {/* Follow-up photo next to the diagnosis it re-checks */}
+          {currentRecord && beforeRecord && <BeforeAfter before={beforeRecord} after={currentRecord} />}
+
+          {/* Treatment reminders and a follow-up photo */}
+          {recordId && band !== "reject" && <TreatmentPlanLink recordId={recordId} />}
+
+          {/* "Was this correct?" so misclassifications reach the team */}
+          {recordId && <PredictionFeedback recordId={recordId} />}
+
+          {/* Follow this diagnosis as part of a plant's timeline */}
+          {recordId && <AttachToPlant recordId={recordId} />}
+
+          {/* Report for extension officers and clients */}
+          {recordId && <ShareReportButton recordId={recordId} />}
+        </Card>
+
+        {/* Grad-CAM explainability visualization card */}
+        <Card style={{ opacity: gradcamUri ? 1 : 0.95 }}>
+          <SectionHeader
+            title={t("home.gradcamTitle")}
+            right={<Badge label={t("home.heatmap")} tone="info" />}
+          />
 
-          {/* Show placeholder or heatmap image based on availability */}
-          {!gradcamUri ? (
-            <Text style={{ color: "#64748B", lineHeight: 18 }}>
-              Pick an image to generate a Grad-CAM heatmap overlay.
+          {/* Show placeholder or the interactive viewer over the uploaded (cropped) image */}
+          {!gradcamUri || !uploadStats ? (
+            <Text style={{ color: colors.textSubtle, lineHeight: 18 }}>
+              {t("home.gradcamEmpty")}
             </Text>
           ) : (
-            <Image
-              source={{ uri: gradcamUri }}
-              style={{
-                width: "100%",
-                height: 280,
-                borderRadius: 14,
-                backgroundColor: "#F1F5F9",
-              }}
-              resizeMode="cover"
-            />
+            <GradcamViewer originalUri={uploadStats.uri} heatmapUri={gradcamUri} description={gradcamText} />
           )}
 
-          <Text style={{ color: "#64748B", fontSize: 12, lineHeight: 16 }}>
-            Grad-CAM highlights regions that influenced the model’s prediction.
+          <Text style={{ color: colors.textSubtle, fontSize: 12, lineHeight: 16 }}>
+            {t("home.gradcamHint")}
           </Text>
-        </View>
-
-        {/* Future development note */}
-        <Text style={{ color: "#64748B", lineHeight: 18 }}>
-          Next: We can save prediction history using Supabase (Storage + Postgres).
-        </Text>
+        </Card>
       </ScrollView>
+
+      {/* Camera viewfinder with leaf framing guide */}
+      <LeafCameraModal
+        visible={cameraOpen}
+        onCapture={handleCapture}
+        onClose={closeCamera}
+      />
     </SafeAreaView>
   );
 }
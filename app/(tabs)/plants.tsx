@@ -0,0 +1,130 @@
+import { Link } from 'expo-router';
+import { FlatList, Image, Pressable, Text, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+import { useDiagnosisHistory } from '@/hooks/use-diagnosis-history';
+import { useI18n } from '@/hooks/use-i18n';
+import { usePlantProfiles } from '@/hooks/use-plant-profiles';
+import { createThemedStyles } from '@/hooks/use-theme-color';
+import type { DiagnosisRecord } from '@/lib/history';
+import type { PlantProfile } from '@/lib/plants';
+
+/**
+ * Plants tab - profiles of individual plants and beds with their latest diagnosis
+ */
+export default function PlantsScreen() {
+  const styles = useStyles();
+  const { plants, loaded } = usePlantProfiles();
+  const { records } = useDiagnosisHistory();
+  const { t } = useI18n();
+
+  return (
+    <SafeAreaView style={styles.screen} edges={['top']}>
+      <View style={styles.header}>
+        <Text style={styles.title}>{t('plants.title')}</Text>
+        <Link href="/plants/edit" asChild>
+          <Pressable hitSlop={10}>
+            <Text style={styles.link}>{t('plants.add')}</Text>
+          </Pressable>
+        </Link>
+      </View>
+
+      <FlatList
+        data={plants}
+        keyExtractor={(p) => p.id}
+        contentContainerStyle={styles.list}
+        renderItem={({ item }) => (
+          <PlantRow plant={item} records={records.filter((r) => r.plantId === item.id)} />
+        )}
+        ListEmptyComponent={
+          <Text style={styles.empty}>
+            {loaded ? t('plants.empty') : t('plants.loading')}
+          </Text>
+        }
+      />
+    </SafeAreaView>
+  );
+}
+
+function PlantRow({ plant, records }: { plant: PlantProfile; records: DiagnosisRecord[] }) {
+  const styles = useStyles();
+  const i18n = useI18n();
+  // History is sorted newest first
+  const latest = records[0];
+  const details = [plant.species, plant.location].filter(Boolean).join(' • ');
+  const count = i18n.t('plants.diagnoses', { count: records.length });
+
+  return (
+    <Link href={{ pathname: '/plants/[id]', params: { id: plant.id } }} asChild>
+      <Pressable style={styles.row}>
+        <Image source={plant.photoUri ? { uri: plant.photoUri } : undefined} style={styles.thumbnail} />
+        <View style={{ flex: 1, gap: 2 }}>
+          <Text style={styles.rowLabel}>{plant.name}</Text>
+          <Text style={styles.rowMeta}>{details || '—'}</Text>
+          <Text style={styles.rowMeta}>
+            {latest
+              ? i18n.t('plants.latest', { diagnoses: count, label: i18n.labelName(latest.prediction) })
+              : i18n.t('plants.noDiagnoses')}
+          </Text>
+        </View>
+      </Pressable>
+    </Link>
+  );
+}
+
+const useStyles = createThemedStyles((c) => ({
+  screen: {
+    flex: 1,
+    backgroundColor: c.screen,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingTop: 16,
+  },
+  title: {
+    fontSize: 26,
+    fontWeight: '800',
+    color: c.text,
+  },
+  link: {
+    color: c.link,
+    fontWeight: '800',
+  },
+  list: {
+    padding: 16,
+    gap: 10,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: c.card,
+    borderRadius: 14,
+    padding: 10,
+    borderWidth: 1,
+    borderColor: c.border,
+  },
+  thumbnail: {
+    width: 64,
+    height: 64,
+    borderRadius: 10,
+    backgroundColor: c.successBackground,
+  },
+  rowLabel: {
+    color: c.text,
+    fontWeight: '800',
+  },
+  rowMeta: {
+    color: c.textSubtle,
+    fontSize: 12,
+  },
+  empty: {
+    color: c.textSubtle,
+    textAlign: 'center',
+    marginTop: 32,
+    lineHeight: 18,
+  },
+}));
@@ -0,0 +1,431 @@
+import { Link, type Href } from 'expo-router';
+import { useMemo, useState } from 'react';
+import { Alert, Pressable, ScrollView, Text, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+import { useDiagnosisHistory } from '@/hooks/use-diagnosis-history';
+import { useI18n } from '@/hooks/use-i18n';
+import { useReminders } from '@/hooks/use-reminders';
+import { createThemedStyles } from '@/hooks/use-theme-color';
+import type { MessageKey } from '@/lib/i18n';
+import { reminderUrl } from '@/lib/reminder-notifications';
+import {
+  addDays,
+  dayKey,
+  occurrencesBetween,
+  startOfDay,
+  type ReminderOccurrence,
+} from '@/lib/reminders';
+
+// Weeks start on Monday
+const WEEKDAYS: MessageKey[] = [
+  'reminders.weekday.mon',
+  'reminders.weekday.tue',
+  'reminders.weekday.wed',
+  'reminders.weekday.thu',
+  'reminders.weekday.fri',
+  'reminders.weekday.sat',
+  'reminders.weekday.sun',
+];
+
+const firstOfMonth = (date: Date) => new Date(date.getFullYear(), date.getMonth(), 1);
+
+/**
+ * Reminders tab - month calendar of treatment and follow-up reminders with the selected day's list
+ */
+export default function RemindersScreen() {
+  const styles = useStyles();
+  const { reminders, loaded } = useReminders();
+  const { locale, t } = useI18n();
+
+  const today = dayKey(new Date());
+  const [month, setMonth] = useState(() => firstOfMonth(new Date()));
+  const [selected, setSelected] = useState(today);
+
+  // Whole weeks covering the month, Monday first
+  const days = useMemo(() => {
+    const lead = (month.getDay() + 6) % 7;
+    const daysInMonth = new Date(month.getFullYear(), month.getMonth() + 1, 0).getDate();
+    const start = addDays(month, -lead);
+    const count = Math.ceil((lead + daysInMonth) / 7) * 7;
+    return Array.from({ length: count }, (_, i) => addDays(start, i));
+  }, [month]);
+
+  // Occurrences in the visible weeks, by day
+  const byDay = useMemo(() => {
+    const map = new Map<string, ReminderOccurrence[]>();
+    for (const o of occurrencesBetween(reminders, days[0], addDays(days[days.length - 1], 1))) {
+      const key = dayKey(new Date(o.at));
+      map.set(key, [...(map.get(key) ?? []), o]);
+    }
+    return map;
+  }, [reminders, days]);
+
+  // Selected day may be outside the visible month after paging
+  const selectedDate = new Date(`${selected}T00:00:00`);
+  const selectedOccurrences =
+    byDay.get(selected) ??
+    occurrencesBetween(reminders, startOfDay(selectedDate), addDays(startOfDay(selectedDate), 1));
+
+  const next = useMemo(() => {
+    const now = new Date();
+    return occurrencesBetween(reminders, now, addDays(now, 366)).find((o) => !o.done) ?? null;
+  }, [reminders]);
+
+  const page = (delta: number) => setMonth(new Date(month.getFullYear(), month.getMonth() + delta, 1));
+
+  return (
+    <SafeAreaView style={styles.screen} edges={['top']}>
+      <ScrollView contentContainerStyle={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.title} accessibilityRole="header">
+            {t('reminders.title')}
+          </Text>
+          <Pressable
+            onPress={() => {
+              setMonth(firstOfMonth(new Date()));
+              setSelected(today);
+            }}
+            accessibilityRole="button"
+            hitSlop={10}>
+            <Text style={styles.link}>{t('reminders.today')}</Text>
+          </Pressable>
+        </View>
+
+        <View style={styles.card}>
+          <View style={styles.monthRow}>
+            <Pressable
+              onPress={() => page(-1)}
+              accessibilityRole="button"
+              accessibilityLabel={t('reminders.previousMonth')}
+              hitSlop={10}>
+              <Text style={styles.chevron}>‹</Text>
+            </Pressable>
+            <Text style={styles.monthTitle}>
+              {month.toLocaleDateString(locale, { month: 'long', year: 'numeric' })}
+            </Text>
+            <Pressable
+              onPress={() => page(1)}
+              accessibilityRole="button"
+              accessibilityLabel={t('reminders.nextMonth')}
+              hitSlop={10}>
+              <Text style={styles.chevron}>›</Text>
+            </Pressable>
+          </View>
+
+          <View style={styles.grid}>
+            {WEEKDAYS.map((d) => (
+              <Text key={d} style={styles.weekday} importantForAccessibility="no">
+                {t(d)}
+              </Text>
+            ))}
+            {days.map((day) => {
+              const key = dayKey(day);
+              const entries = byDay.get(key) ?? [];
+              const open = entries.filter((o) => !o.done);
+              return (
+                <Pressable
+                  key={key}
+                  onPress={() => setSelected(key)}
+                  accessibilityRole="button"
+                  accessibilityState={{ selected: key === selected }}
+                  accessibilityLabel={[
+                    day.toLocaleDateString(locale, { day: 'numeric', month: 'long' }),
+                    entries.length > 0 ? t('reminders.count', { count: entries.length }) : '',
+                  ]
+                    .filter(Boolean)
+                    .join(', ')}
+                  style={[styles.day, key === selected && styles.daySelected]}>
+                  <Text
+                    style={[
+                      styles.dayNumber,
+                      day.getMonth() !== month.getMonth() && styles.dayOutside,
+                      key === today && styles.dayToday,
+                    ]}>
+                    {day.getDate()}
+                  </Text>
+                  <View style={styles.dots}>
+                    {entries.slice(0, 3).map((o) => (
+                      <View
+                        key={`${o.reminder.id}-${o.index}`}
+                        style={[
+                          styles.dot,
+                          o.reminder.kind === 'follow-up' ? styles.dotFollowUp : styles.dotTreatment,
+                          o.done && open.length === 0 && styles.dotDone,
+                        ]}
+                      />
+                    ))}
+                  </View>
+                </Pressable>
+              );
+            })}
+          </View>
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>
+            {selectedDate.toLocaleDateString(locale, { weekday: 'long', day: 'numeric', month: 'long' })}
+          </Text>
+          {selectedOccurrences.length === 0 && (
+            <Text style={styles.muted}>
+              {!loaded
+                ? t('reminders.loading')
+                : reminders.length === 0
+                  ? t('reminders.empty')
+                  : t('reminders.nothingPlanned')}
+            </Text>
+          )}
+          {selectedOccurrences.map((o) => (
+            <OccurrenceRow key={`${o.reminder.id}-${o.index}`} occurrence={o} />
+          ))}
+        </View>
+
+        {next && dayKey(new Date(next.at)) !== selected && (
+          <Pressable
+            onPress={() => {
+              const at = new Date(next.at);
+              setMonth(firstOfMonth(at));
+              setSelected(dayKey(at));
+            }}
+            accessibilityRole="button"
+            style={styles.next}>
+            <Text style={styles.muted}>
+              {t('reminders.next', {
+                title: next.reminder.title,
+                date: new Date(next.at).toLocaleDateString(locale, { day: 'numeric', month: 'short' }),
+              })}
+            </Text>
+          </Pressable>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+function OccurrenceRow({ occurrence }: { occurrence: ReminderOccurrence }) {
+  const styles = useStyles();
+  const i18n = useI18n();
+  const { t } = i18n;
+  const { records } = useDiagnosisHistory();
+  const { setOccurrenceDone, removeReminder } = useReminders();
+  const { reminder, at, index, done } = occurrence;
+  const record = records.find((r) => r.id === reminder.recordId);
+
+  const confirmDelete = () => {
+    Alert.alert(t('reminders.deleteTitle'), t('reminders.deleteMessage', { title: reminder.title }), [
+      { text: t('reminders.cancel'), style: 'cancel' },
+      { text: t('reminders.delete'), style: 'destructive', onPress: () => removeReminder(reminder.id) },
+    ]);
+  };
+
+  const time = new Date(at).toLocaleTimeString(i18n.locale, { hour: '2-digit', minute: '2-digit' });
+  const details = [
+    reminder.kind === 'treatment' && reminder.occurrences > 1
+      ? t('reminders.progress', { index, count: reminder.occurrences })
+      : '',
+    reminder.notes,
+  ]
+    .filter(Boolean)
+    .join(' • ');
+
+  return (
+    <Pressable onLongPress={confirmDelete} style={styles.entry}>
+      <Pressable
+        onPress={() => setOccurrenceDone(reminder.id, at, !done)}
+        accessibilityRole="checkbox"
+        accessibilityState={{ checked: done }}
+        accessibilityLabel={`${reminder.title}, ${time}`}
+        hitSlop={8}
+        style={[styles.check, done && styles.checkDone]}>
+        {done && <Text style={styles.checkMark}>✓</Text>}
+      </Pressable>
+
+      <View style={{ flex: 1, gap: 2 }}>
+        <Text style={[styles.entryTitle, done && styles.entryDone]}>{reminder.title}</Text>
+        <Text style={styles.muted}>
+          {time}
+          {details ? ` • ${details}` : ''}
+        </Text>
+        {record ? (
+          <Link href={{ pathname: '/history/[id]', params: { id: record.id } }} asChild>
+            <Pressable accessibilityRole="link" hitSlop={6}>
+              <Text style={styles.subtleLink}>
+                {t('reminders.diagnosisOf', { date: i18n.formatDate(record.createdAt) })}
+              </Text>
+            </Pressable>
+          </Link>
+        ) : (
+          <Text style={styles.muted}>{t('reminders.diagnosisDeleted')}</Text>
+        )}
+      </View>
+
+      {reminder.kind === 'follow-up' && record && !done && (
+        <Link href={reminderUrl(reminder) as Href} asChild>
+          <Pressable accessibilityRole="button" style={styles.photoButton}>
+            <Text style={styles.photoButtonText}>{t('reminders.takePhoto')}</Text>
+          </Pressable>
+        </Link>
+      )}
+    </Pressable>
+  );
+}
+
+const useStyles = createThemedStyles((c) => ({
+  screen: {
+    flex: 1,
+    backgroundColor: c.screen,
+  },
+  container: {
+    padding: 16,
+    gap: 14,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 26,
+    fontWeight: '800',
+    color: c.text,
+  },
+  link: {
+    color: c.link,
+    fontWeight: '800',
+  },
+  subtleLink: {
+    color: c.link,
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  card: {
+    backgroundColor: c.card,
+    borderRadius: 18,
+    padding: 14,
+    borderWidth: 1,
+    borderColor: c.border,
+    gap: 10,
+  },
+  cardTitle: {
+    color: c.text,
+    fontWeight: '800',
+    fontSize: 16,
+  },
+  muted: {
+    color: c.textSubtle,
+    lineHeight: 18,
+  },
+  monthRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  monthTitle: {
+    color: c.text,
+    fontWeight: '800',
+    fontSize: 16,
+  },
+  chevron: {
+    color: c.link,
+    fontSize: 26,
+    fontWeight: '800',
+    paddingHorizontal: 8,
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  weekday: {
+    width: `${100 / 7}%`,
+    textAlign: 'center',
+    color: c.textSubtle,
+    fontSize: 12,
+    fontWeight: '700',
+    paddingBottom: 6,
+  },
+  day: {
+    width: `${100 / 7}%`,
+    alignItems: 'center',
+    paddingVertical: 6,
+    borderRadius: 10,
+    gap: 3,
+  },
+  daySelected: {
+    backgroundColor: c.infoBackground,
+  },
+  dayNumber: {
+    color: c.text,
+    fontWeight: '600',
+  },
+  dayOutside: {
+    color: c.placeholder,
+  },
+  dayToday: {
+    color: c.link,
+    fontWeight: '900',
+  },
+  dots: {
+    flexDirection: 'row',
+    gap: 2,
+    height: 6,
+  },
+  dot: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+  },
+  dotTreatment: {
+    backgroundColor: c.successFill,
+  },
+  dotFollowUp: {
+    backgroundColor: c.infoFill,
+  },
+  dotDone: {
+    backgroundColor: c.border,
+  },
+  entry: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 6,
+  },
+  check: {
+    width: 26,
+    height: 26,
+    borderRadius: 8,
+    borderWidth: 2,
+    borderColor: c.successBorder,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  checkDone: {
+    backgroundColor: c.successFill,
+    borderColor: c.successFill,
+  },
+  checkMark: {
+    color: c.onTone,
+    fontWeight: '900',
+  },
+  entryTitle: {
+    color: c.text,
+    fontWeight: '800',
+  },
+  entryDone: {
+    color: c.textSubtle,
+    textDecorationLine: 'line-through',
+  },
+  photoButton: {
+    backgroundColor: c.infoFill,
+    borderRadius: 10,
+    paddingVertical: 8,
+    paddingHorizontal: 10,
+  },
+  photoButtonText: {
+    color: c.onTone,
+    fontWeight: '800',
+    fontSize: 12,
+  },
+  next: {
+    alignItems: 'center',
+  },
+}));
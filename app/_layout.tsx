@@ -1,24 +1,85 @@
 import { DarkTheme, DefaultTheme, ThemeProvider } from '@react-navigation/native';
 import { Stack } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
+import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import 'react-native-reanimated';
 
+import { AuthProvider } from '@/hooks/use-auth';
 import { useColorScheme } from '@/hooks/use-color-scheme';
+import { DiagnosisHistoryProvider } from '@/hooks/use-diagnosis-history';
+import { DiagnosisSettingsProvider } from '@/hooks/use-diagnosis-settings';
+import { FeedbackProvider } from '@/hooks/use-feedback';
+import { HistorySyncProvider } from '@/hooks/use-history-sync';
+import { I18nProvider, useI18n } from '@/hooks/use-i18n';
+import { KnowledgeBaseProvider } from '@/hooks/use-knowledge-base';
+import { OutboxProvider } from '@/hooks/use-outbox';
+import { PlantProfilesProvider } from '@/hooks/use-plant-profiles';
+import { RemindersProvider } from '@/hooks/use-reminders';
+import { ServerProfilesProvider } from '@/hooks/use-server-profiles';
+import { ThemePreferenceProvider } from '@/hooks/use-theme-preference';
 
 export const unstable_settings = {
   anchor: '(tabs)',
 };
 
 export default function RootLayout() {
+  return (
+    <ThemePreferenceProvider>
+      <I18nProvider>
+        <RootNavigator />
+      </I18nProvider>
+    </ThemePreferenceProvider>
+  );
+}
+
+/**
+ * App providers and screens, themed with the colour scheme chosen in Settings
+ */
+function RootNavigator() {
   const colorScheme = useColorScheme();
+  const { t } = useI18n();
 
   return (
-    <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
-      <Stack>
-        <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-        <Stack.Screen name="modal" options={{ presentation: 'modal', title: 'Modal' }} />
-      </Stack>
-      <StatusBar style="auto" />
-    </ThemeProvider>
+    <GestureHandlerRootView style={{ flex: 1 }}>
+      <ServerProfilesProvider>
+        <AuthProvider>
+          <DiagnosisSettingsProvider>
+            <KnowledgeBaseProvider>
+              <DiagnosisHistoryProvider>
+                <HistorySyncProvider>
+                  <OutboxProvider>
+                    <FeedbackProvider>
+                      <PlantProfilesProvider>
+                        <RemindersProvider>
+                          <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
+                            <Stack>
+                              <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+                              <Stack.Screen
+                                name="modal"
+                                options={{ presentation: 'modal', title: t('nav.modal') }}
+                              />
+                              <Stack.Screen name="settings" options={{ title: t('nav.settings') }} />
+                              <Stack.Screen name="batch" options={{ title: t('nav.batch') }} />
+                              <Stack.Screen name="history/[id]" options={{ title: t('nav.diagnosis') }} />
+                              <Stack.Screen name="disease/[label]" options={{ title: t('nav.diseaseInfo') }} />
+                              <Stack.Screen name="plants/[id]" options={{ title: t('nav.plant') }} />
+                              <Stack.Screen name="plants/edit" options={{ title: t('nav.plant') }} />
+                              <Stack.Screen name="reminders/new" options={{ title: t('nav.treatmentPlan') }} />
+                              <Stack.Screen name="sign-in" options={{ title: t('nav.account') }} />
+                              <Stack.Screen name="auth/callback" options={{ title: t('nav.signingIn') }} />
+                            </Stack>
+                            <StatusBar style={colorScheme === 'dark' ? 'light' : 'dark'} />
+                          </ThemeProvider>
+                        </RemindersProvider>
+                      </PlantProfilesProvider>
+                    </FeedbackProvider>
+                  </OutboxProvider>
+                </HistorySyncProvider>
+              </DiagnosisHistoryProvider>
+            </KnowledgeBaseProvider>
+          </DiagnosisSettingsProvider>
+        </AuthProvider>
+      </ServerProfilesProvider>
+    </GestureHandlerRootView>
   );
 }
@@ -0,0 +1,79 @@
+import * as Linking from 'expo-linking';
+import { Link, useRouter } from 'expo-router';
+import { useEffect, useRef, useState } from 'react';
+import { ActivityIndicator, Text, View } from 'react-native';
+
+import { useAuth } from '@/hooks/use-auth';
+import { useI18n } from '@/hooks/use-i18n';
+import { createThemedStyles, useThemeColors } from '@/hooks/use-theme-color';
+import { describeAuthError } from '@/lib/auth/backend';
+
+/**
+ * Target of the emailed magic link. Exchanges the link for a session and returns to the
+ * screens underneath, so a photo waiting on the home screen is sent as soon as this closes.
+ */
+export default function AuthCallbackScreen() {
+  const router = useRouter();
+  const i18n = useI18n();
+  const styles = useStyles();
+  const colors = useThemeColors();
+  const { loaded, completeMagicLink } = useAuth();
+
+  // Full link including the fragment, which route params do not expose
+  const url = Linking.useLinkingURL();
+  const [error, setError] = useState<string | null>(null);
+  const handledRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!url || !loaded || handledRef.current === url) return;
+    handledRef.current = url;
+
+    completeMagicLink(url)
+      .then((signedIn) => {
+        if (!signedIn) {
+          setError(i18n.t('signIn.noToken'));
+          return;
+        }
+        router.dismissTo('/');
+      })
+      .catch((e) => {
+        console.log('Magic link sign-in failed:', e?.message || e);
+        setError(describeAuthError(e, i18n));
+      });
+  }, [url, loaded, completeMagicLink, router, i18n]);
+
+  return (
+    <View style={styles.container}>
+      {error ? (
+        <>
+          <Text style={styles.error}>{error}</Text>
+          <Link href="/sign-in" replace style={styles.link}>
+            {i18n.t('signIn.back')}
+          </Link>
+        </>
+      ) : (
+        <ActivityIndicator color={colors.link} />
+      )}
+    </View>
+  );
+}
+
+const useStyles = createThemedStyles((c) => ({
+  container: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 12,
+    padding: 20,
+    backgroundColor: c.screen,
+  },
+  error: {
+    color: c.danger,
+    fontWeight: '700',
+    textAlign: 'center',
+  },
+  link: {
+    color: c.link,
+    fontWeight: '800',
+  },
+}));
@@ -0,0 +1,455 @@
+import * as ImagePicker from 'expo-image-picker';
+import { Link } from 'expo-router';
+import { useMemo, useRef, useState } from 'react';
+import { ActivityIndicator, Alert, Image, Pressable, ScrollView, Text, View } from 'react-native';
+
+import { toneColors, type Tone } from '@/constants/theme';
+import { useDiagnosisHistory } from '@/hooks/use-diagnosis-history';
+import { useDiagnosisSettings } from '@/hooks/use-diagnosis-settings';
+import { useI18n } from '@/hooks/use-i18n';
+import { useOutbox } from '@/hooks/use-outbox';
+import { useServerProfiles } from '@/hooks/use-server-profiles';
+import { createThemedStyles, useThemeColors } from '@/hooks/use-theme-color';
+import { describeApiError, isConnectivityError } from '@/lib/api/errors';
+import {
+  BATCH_CONCURRENCY,
+  BATCH_SELECTION_LIMIT,
+  runWithConcurrency,
+  summarizeBatch,
+  type BatchItem,
+  type BatchItemStatus,
+} from '@/lib/batch';
+import { BAND_TONES, confidenceBand, resultTitle } from '@/lib/confidence';
+import type { MessageKey } from '@/lib/i18n';
+import { createId } from '@/lib/id';
+import { preprocessImage } from '@/lib/image-preprocessing';
+import { createMockPredictor } from '@/lib/inference/mock-predictor';
+import { createRemotePredictor } from '@/lib/inference/remote-predictor';
+import { confidenceToPercent } from '@/lib/labels';
+
+// Same number of ranked labels as single diagnoses
+const TOP_K = 3;
+
+const STATUS: Record<BatchItemStatus, { label: MessageKey; tone: Tone; progress: number }> = {
+  waiting: { label: 'batch.status.waiting', tone: 'neutral', progress: 0 },
+  preparing: { label: 'batch.status.preparing', tone: 'info', progress: 0.25 },
+  uploading: { label: 'batch.status.uploading', tone: 'info', progress: 0.6 },
+  done: { label: 'batch.status.done', tone: 'success', progress: 1 },
+  queued: { label: 'batch.status.queued', tone: 'warning', progress: 1 },
+  error: { label: 'batch.status.error', tone: 'danger', progress: 1 },
+};
+
+/**
+ * Batch mode - diagnose many leaf photos from one scouting round, a few at a time
+ */
+export default function BatchScreen() {
+  const styles = useStyles();
+  const { activeProfile } = useServerProfiles();
+  const history = useDiagnosisHistory();
+  const outbox = useOutbox();
+
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [running, setRunning] = useState(false);
+  const stopRef = useRef(false);
+
+  const { settings } = useDiagnosisSettings();
+  const i18n = useI18n();
+  const { t } = i18n;
+  const summary = useMemo(() => summarizeBatch(items, settings.confidence), [items, settings.confidence]);
+  const waiting = items.filter((item) => item.status === 'waiting').length;
+  const finished = items.length > 0 && !running && items.every((item) => item.status !== 'waiting');
+
+  const updateItem = (id: string, patch: Partial<BatchItem>) =>
+    setItems((prev) => prev.map((item) => (item.id === id ? { ...item, ...patch } : item)));
+
+  const pickImages = async () => {
+    const perm = await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (!perm.granted) {
+      Alert.alert(t('alert.permissionNeeded'), t('alert.photoPermission'));
+      return;
+    }
+
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ImagePicker.MediaTypeOptions.Images,
+      allowsMultipleSelection: true,
+      selectionLimit: BATCH_SELECTION_LIMIT,
+      quality: 1,
+    });
+    if (result.canceled) return;
+
+    setItems(
+      result.assets.map((asset) => ({
+        id: createId(),
+        uri: asset.uri,
+        fileSize: asset.fileSize ?? null,
+        status: 'waiting',
+        result: null,
+        recordId: null,
+        error: null,
+      }))
+    );
+  };
+
+  /**
+   * Preprocess, predict and save one photo; connectivity failures go to the outbox
+   */
+  const diagnose = async (item: BatchItem) => {
+    updateItem(item.id, { status: 'preparing' });
+    let imageBase64: string;
+    try {
+      const source = { uri: item.uri, fileSize: item.fileSize };
+      imageBase64 = (await preprocessImage(source, { maxDimension: settings.upload.maxDimension })).base64;
+    } catch (e) {
+      console.log('Batch preprocessing error:', e instanceof Error ? e.message : e);
+      updateItem(item.id, { status: 'error', error: t('alert.prepareFailed') });
+      return;
+    }
+
+    updateItem(item.id, { status: 'uploading' });
+    try {
+      const predictor = settings.mockScenario
+        ? createMockPredictor(settings.mockScenario)
+        : createRemotePredictor(activeProfile);
+      const result = await predictor.predict({ imageBase64, topK: TOP_K });
+      const record = await history.add({
+        imageBase64,
+        gradcamBase64: result.gradcamBase64,
+        prediction: result.prediction,
+        confidence: result.confidence,
+        topK: result.topK,
+        serverProfile: { id: activeProfile.id, name: activeProfile.name },
+        outOfDistribution: result.outOfDistribution,
+      });
+      updateItem(item.id, { status: 'done', result, recordId: record.id });
+    } catch (e) {
+      console.log('Batch prediction error:', e instanceof Error ? e.message : e);
+      if (isConnectivityError(e)) {
+        await queueForLater(item, imageBase64);
+      } else {
+        updateItem(item.id, { status: 'error', error: describeApiError(e, i18n).message });
+      }
+    }
+  };
+
+  /**
+   * Keep a photo that got no answer in the outbox; if even that fails it is marked failed
+   * and the other photos carry on
+   */
+  const queueForLater = async (item: BatchItem, imageBase64: string) => {
+    try {
+      await outbox.enqueue(imageBase64, activeProfile, TOP_K);
+      updateItem(item.id, { status: 'queued' });
+    } catch (e) {
+      console.log('Could not queue batch image:', e instanceof Error ? e.message : e);
+      updateItem(item.id, { status: 'error', error: t('alert.queueFailed') });
+    }
+  };
+
+  const start = async () => {
+    stopRef.current = false;
+    setRunning(true);
+    try {
+      await runWithConcurrency(
+        items.filter((item) => item.status === 'waiting'),
+        BATCH_CONCURRENCY,
+        diagnose,
+        () => stopRef.current
+      );
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const retryFailed = () => {
+    setItems((prev) =>
+      prev.map((item) => (item.status === 'error' ? { ...item, status: 'waiting', error: null } : item))
+    );
+  };
+
+  const progress = items.filter((item) => !['waiting', 'preparing', 'uploading'].includes(item.status)).length;
+
+  return (
+    <ScrollView contentContainerStyle={styles.container}>
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>{t('batch.title')}</Text>
+        <Text style={styles.muted}>
+          {t('batch.intro', {
+            limit: BATCH_SELECTION_LIMIT,
+            concurrency: BATCH_CONCURRENCY,
+            server: activeProfile.name,
+          })}
+        </Text>
+
+        <View style={styles.buttonRow}>
+          <Pressable
+            onPress={pickImages}
+            disabled={running}
+            style={[styles.secondaryButton, running && styles.disabled]}
+          >
+            <Text style={styles.secondaryButtonText}>
+              {items.length > 0 ? t('batch.pickOther') : t('batch.pick')}
+            </Text>
+          </Pressable>
+          {running ? (
+            <Pressable onPress={() => (stopRef.current = true)} style={styles.dangerButton}>
+              <Text style={styles.primaryButtonText}>{t('batch.stop')}</Text>
+            </Pressable>
+          ) : (
+            <Pressable
+              onPress={start}
+              disabled={waiting === 0}
+              style={[styles.primaryButton, waiting === 0 && styles.disabled]}
+            >
+              <Text style={styles.primaryButtonText}>
+                {waiting > 0 ? t('batch.diagnoseCount', { count: waiting }) : t('batch.diagnose')}
+              </Text>
+            </Pressable>
+          )}
+        </View>
+
+        {items.length > 0 && (
+          <View style={{ gap: 6 }}>
+            <Text style={styles.muted}>{t('batch.processed', { done: progress, count: items.length })}</Text>
+            <View style={styles.track}>
+              <View style={[styles.fill, { width: `${(progress / items.length) * 100}%` }]} />
+            </View>
+          </View>
+        )}
+      </View>
+
+      {/* Per-image progress and results */}
+      {items.length > 0 && (
+        <View style={styles.grid}>
+          {items.map((item) => (
+            <BatchTile key={item.id} item={item} />
+          ))}
+        </View>
+      )}
+
+      {finished && (
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>{t('batch.summary')}</Text>
+          <Text style={styles.muted}>
+            {t('batch.totals', {
+              diagnosed: summary.diagnosed,
+              queued: summary.queued,
+              failed: summary.failed,
+            })}
+          </Text>
+          <Text style={styles.muted}>
+            {t('batch.meanConfidence', {
+              pct: summary.meanConfidencePct === null ? '—' : i18n.formatPercent(summary.meanConfidencePct),
+            })}
+          </Text>
+
+          {summary.labelCounts.map(({ label, count }) => (
+            <View key={label} style={styles.countRow}>
+              <Text style={styles.countLabel}>{i18n.labelName(label)}</Text>
+              <Text style={styles.countValue}>{count}</Text>
+            </View>
+          ))}
+
+          <Text style={styles.sectionTitle}>
+            {t('batch.uncertain', {
+              pct: i18n.formatPercent(settings.confidence.confidentFromPct),
+              count: summary.uncertain.length,
+            })}
+          </Text>
+          {summary.uncertain.length > 0 && (
+            <View style={styles.grid}>
+              {summary.uncertain.map((item) => (
+                <BatchTile key={item.id} item={item} />
+              ))}
+            </View>
+          )}
+
+          {summary.failed > 0 && (
+            <Pressable onPress={retryFailed} hitSlop={10}>
+              <Text style={styles.link}>{t('batch.retryFailed')}</Text>
+            </Pressable>
+          )}
+        </View>
+      )}
+    </ScrollView>
+  );
+}
+
+function BatchTile({ item }: { item: BatchItem }) {
+  const styles = useStyles();
+  const colors = useThemeColors();
+  const { settings } = useDiagnosisSettings();
+  const i18n = useI18n();
+  const status = STATUS[item.status];
+  const pct = item.result ? confidenceToPercent(item.result.confidence) : null;
+  const band = item.result ? confidenceBand(item.result, settings.confidence) : null;
+  const statusColors = toneColors(colors, status.tone);
+  const metaColor = band ? toneColors(colors, BAND_TONES[band]).text : statusColors.text;
+
+  const tile = (
+    <Pressable style={styles.tile} disabled={!item.recordId}>
+      <Image source={{ uri: item.uri }} style={styles.thumbnail} />
+      {(item.status === 'preparing' || item.status === 'uploading') && (
+        <View style={styles.spinner}>
+          <ActivityIndicator color="white" />
+        </View>
+      )}
+      <View style={styles.tileTrack}>
+        <View
+          style={[styles.tileFill, { width: `${status.progress * 100}%`, backgroundColor: statusColors.fill }]}
+        />
+      </View>
+      <Text style={styles.tileLabel} numberOfLines={1}>
+        {item.result && band ? resultTitle(item.result, band, i18n) : i18n.t(status.label)}
+      </Text>
+      <Text style={[styles.tileMeta, { color: metaColor }]} numberOfLines={1}>
+        {item.result ? (pct === null ? '—' : i18n.formatPercent(pct)) : (item.error ?? ' ')}
+      </Text>
+    </Pressable>
+  );
+
+  if (!item.recordId) return tile;
+  return (
+    <Link href={{ pathname: '/history/[id]', params: { id: item.recordId } }} asChild>
+      {tile}
+    </Link>
+  );
+}
+
+const useStyles = createThemedStyles((c) => ({
+  container: {
+    padding: 16,
+    gap: 14,
+    backgroundColor: c.screen,
+    flexGrow: 1,
+  },
+  card: {
+    backgroundColor: c.card,
+    borderRadius: 18,
+    padding: 14,
+    borderWidth: 1,
+    borderColor: c.border,
+    gap: 10,
+  },
+  cardTitle: {
+    color: c.text,
+    fontWeight: '800',
+    fontSize: 16,
+  },
+  sectionTitle: {
+    color: c.textMuted,
+    fontWeight: '700',
+    marginTop: 4,
+  },
+  muted: {
+    color: c.textSubtle,
+    lineHeight: 18,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  primaryButton: {
+    flex: 1,
+    backgroundColor: c.infoFill,
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  dangerButton: {
+    flex: 1,
+    backgroundColor: c.dangerFill,
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: c.onTone,
+    fontWeight: '800',
+  },
+  secondaryButton: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: c.link,
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    color: c.link,
+    fontWeight: '800',
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  track: {
+    height: 8,
+    borderRadius: 999,
+    backgroundColor: c.border,
+    overflow: 'hidden',
+  },
+  fill: {
+    height: '100%',
+    borderRadius: 999,
+    backgroundColor: c.infoFill,
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 10,
+  },
+  tile: {
+    width: '31%',
+    gap: 4,
+  },
+  thumbnail: {
+    width: '100%',
+    aspectRatio: 1,
+    borderRadius: 10,
+    backgroundColor: c.muted,
+  },
+  spinner: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    aspectRatio: 1,
+    borderRadius: 10,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(15, 23, 42, 0.35)',
+  },
+  tileTrack: {
+    height: 4,
+    borderRadius: 999,
+    backgroundColor: c.border,
+    overflow: 'hidden',
+  },
+  tileFill: {
+    height: '100%',
+  },
+  tileLabel: {
+    color: c.text,
+    fontWeight: '700',
+    fontSize: 12,
+  },
+  tileMeta: {
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  countRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  countLabel: {
+    color: c.text,
+    fontWeight: '600',
+  },
+  countValue: {
+    color: c.text,
+    fontWeight: '800',
+  },
+  link: {
+    color: c.link,
+    fontWeight: '800',
+  },
+}));
@@ -0,0 +1,123 @@
+import { Stack, useLocalSearchParams } from 'expo-router';
+import type { ReactNode } from 'react';
+import { ScrollView, Text, View } from 'react-native';
+
+import { useI18n } from '@/hooks/use-i18n';
+import { useKnowledgeBase } from '@/hooks/use-knowledge-base';
+import { createThemedStyles } from '@/hooks/use-theme-color';
+import { lookupEntry, PATHOGEN_LABELS } from '@/lib/knowledge-base';
+
+/**
+ * Knowledge base entry for a model label: symptoms, treatment options and prevention
+ */
+export default function DiseaseInfoScreen() {
+  const styles = useStyles();
+  const { label } = useLocalSearchParams<{ label: string }>();
+  const kb = useKnowledgeBase();
+  const i18n = useI18n();
+  const { t } = i18n;
+  const entry = label ? lookupEntry(kb, label) : null;
+
+  if (!entry) {
+    return (
+      <ScrollView contentContainerStyle={styles.container}>
+        <Stack.Screen options={{ title: label ? i18n.labelName(label) : t('nav.diseaseInfo') }} />
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>{t('disease.missingTitle')}</Text>
+          <Text style={styles.body}>
+            {t('disease.missing', {
+              version: kb.version,
+              label: label ? i18n.labelName(label) : t('disease.thisLabel'),
+            })}
+          </Text>
+        </View>
+      </ScrollView>
+    );
+  }
+
+  return (
+    <ScrollView contentContainerStyle={styles.container}>
+      <Stack.Screen options={{ title: `${entry.crop}: ${entry.name}` }} />
+
+      <View style={styles.card}>
+        <Text style={styles.title}>{entry.name}</Text>
+        <Text style={styles.meta}>
+          {t('disease.meta', { crop: entry.crop, cause: t(PATHOGEN_LABELS[entry.pathogenType]) })}
+        </Text>
+        <Text style={styles.severity}>{entry.severity}</Text>
+      </View>
+
+      <Section title={t('disease.symptoms')} items={entry.symptoms} />
+      <Section title={t('disease.organic')} items={entry.treatment.organic} />
+      <Section title={t('disease.chemical')} items={entry.treatment.chemical}>
+        <Text style={styles.note}>{t('disease.chemicalNote')}</Text>
+      </Section>
+      <Section title={t('disease.prevention')} items={entry.prevention} />
+
+      <Text style={styles.note}>
+        {kb.updatedAt
+          ? t('disease.versionUpdated', { version: kb.version, date: kb.updatedAt })
+          : t('disease.version', { version: kb.version })}
+      </Text>
+    </ScrollView>
+  );
+}
+
+function Section({ title, items, children }: { title: string; items: string[]; children?: ReactNode }) {
+  const styles = useStyles();
+  return (
+    <View style={styles.card}>
+      <Text style={styles.cardTitle}>{title}</Text>
+      {items.map((item) => (
+        <Text key={item} style={styles.body}>
+          • {item}
+        </Text>
+      ))}
+      {children}
+    </View>
+  );
+}
+
+const useStyles = createThemedStyles((c) => ({
+  container: {
+    padding: 16,
+    gap: 14,
+    backgroundColor: c.screen,
+    flexGrow: 1,
+  },
+  card: {
+    backgroundColor: c.card,
+    borderRadius: 18,
+    padding: 14,
+    borderWidth: 1,
+    borderColor: c.border,
+    gap: 6,
+  },
+  title: {
+    color: c.success,
+    fontWeight: '800',
+    fontSize: 20,
+  },
+  cardTitle: {
+    color: c.text,
+    fontWeight: '800',
+    fontSize: 16,
+  },
+  meta: {
+    color: c.textMuted,
+    fontWeight: '700',
+  },
+  severity: {
+    color: c.warning,
+    lineHeight: 18,
+  },
+  body: {
+    color: c.text,
+    lineHeight: 20,
+  },
+  note: {
+    color: c.textSubtle,
+    fontSize: 12,
+    lineHeight: 16,
+  },
+}));
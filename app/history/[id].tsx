@@ -0,0 +1,205 @@
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import { useEffect, useState } from 'react';
+import { Alert, Image, Pressable, ScrollView, Text, TextInput, View } from 'react-native';
+
+import { AttachToPlant } from '@/components/attach-to-plant';
+import { BeforeAfter } from '@/components/before-after';
+import { GradcamViewer } from '@/components/gradcam-viewer';
+import { KnowledgeBaseLink } from '@/components/knowledge-base-link';
+import { PredictionFeedback } from '@/components/prediction-feedback';
+import { QualitySummary } from '@/components/quality-check';
+import { RankedPredictions } from '@/components/ranked-predictions';
+import { ShareReportButton } from '@/components/share-report';
+import { TreatmentPlanLink } from '@/components/treatment-plan-link';
+import { Card } from '@/components/ui/card';
+import { toneColors } from '@/constants/theme';
+import { useDiagnosisHistory } from '@/hooks/use-diagnosis-history';
+import { useDiagnosisSettings } from '@/hooks/use-diagnosis-settings';
+import { useI18n } from '@/hooks/use-i18n';
+import { createThemedStyles, useThemeColors } from '@/hooks/use-theme-color';
+import { BAND_TONES, bandAdvice, confidenceBand, resultTitle } from '@/lib/confidence';
+import { confidenceToPercent } from '@/lib/labels';
+
+/**
+ * Detail view of one saved diagnosis
+ */
+export default function DiagnosisDetailScreen() {
+  const styles = useStyles();
+  const colors = useThemeColors();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const { records, loaded, remove, update } = useDiagnosisHistory();
+  const { settings } = useDiagnosisSettings();
+  const i18n = useI18n();
+  const { t } = i18n;
+
+  const record = records.find((r) => r.id === id);
+  const savedNotes = record?.notes ?? '';
+  const [notes, setNotes] = useState(savedNotes);
+
+  // Follow notes changed elsewhere (e.g. pulled by sync)
+  useEffect(() => setNotes(savedNotes), [savedNotes]);
+
+  if (!record) {
+    return (
+      <View style={styles.missing}>
+        <Stack.Screen options={{ title: t('nav.diagnosis') }} />
+        <Text style={styles.muted}>{loaded ? t('diagnosis.missing') : t('diagnosis.loading')}</Text>
+      </View>
+    );
+  }
+
+  const pct = confidenceToPercent(record.confidence);
+  const band = confidenceBand(record, settings.confidence);
+  const advice = bandAdvice(record, band, i18n);
+  const bandColor = toneColors(colors, BAND_TONES[band]).text;
+
+  // A follow-up is compared with its original; an original with its newest follow-up (history is newest first)
+  const original = record.followUpOf ? records.find((r) => r.id === record.followUpOf) : undefined;
+  const followUp = records.find((r) => r.followUpOf === record.id);
+  const comparison = original
+    ? { before: original, after: record }
+    : followUp
+      ? { before: record, after: followUp }
+      : null;
+
+  const confirmDelete = () => {
+    Alert.alert(t('diagnosis.deleteTitle'), t('diagnosis.deleteMessage'), [
+      { text: t('diagnosis.cancel'), style: 'cancel' },
+      {
+        text: t('diagnosis.delete'),
+        style: 'destructive',
+        onPress: async () => {
+          await remove(record.id);
+          router.back();
+        },
+      },
+    ]);
+  };
+
+  return (
+    <ScrollView contentContainerStyle={styles.container}>
+      <Stack.Screen options={{ title: resultTitle(record, band, i18n) }} />
+
+      <Card style={styles.card}>
+        <Text style={[styles.label, { color: bandColor }]}>{resultTitle(record, band, i18n)}</Text>
+        <Text style={styles.muted}>
+          {pct === null
+            ? t('history.noConfidence')
+            : t('history.confidence', { pct: i18n.formatPercent(pct) })}
+        </Text>
+        <Text style={styles.muted}>
+          {i18n.formatDate(record.createdAt)} • {record.serverProfile.name}
+        </Text>
+        {advice && <Text style={[styles.muted, { color: bandColor }]}>{advice}</Text>}
+        {record.quality && <QualitySummary quality={record.quality} />}
+        {band !== 'reject' && record.topK && record.topK.length > 1 && <RankedPredictions entries={record.topK} />}
+        {band !== 'reject' && <KnowledgeBaseLink label={record.prediction} />}
+        {comparison && <BeforeAfter before={comparison.before} after={comparison.after} />}
+        {band !== 'reject' && <TreatmentPlanLink recordId={record.id} />}
+        <PredictionFeedback recordId={record.id} />
+        <AttachToPlant recordId={record.id} />
+        <ShareReportButton recordId={record.id} />
+      </Card>
+
+      <Card style={styles.card}>
+        <Text style={styles.cardTitle}>{t('diagnosis.notes')}</Text>
+        <TextInput
+          value={notes}
+          onChangeText={setNotes}
+          placeholder={t('diagnosis.notesPlaceholder')}
+          placeholderTextColor={colors.placeholder}
+          multiline
+          style={styles.notes}
+        />
+        {notes !== record.notes && (
+          <Pressable onPress={() => update(record.id, { notes })} style={styles.saveButton}>
+            <Text style={styles.saveText}>{t('diagnosis.saveNotes')}</Text>
+          </Pressable>
+        )}
+      </Card>
+
+      <Card style={styles.card}>
+        <Text style={styles.cardTitle}>{t('diagnosis.photo')}</Text>
+        <Image source={{ uri: record.imageUri }} style={styles.image} resizeMode="cover" />
+      </Card>
+
+      <Card style={styles.card}>
+        <Text style={styles.cardTitle}>{t('diagnosis.gradcam')}</Text>
+        {record.gradcamUri ? (
+          <GradcamViewer originalUri={record.imageUri} heatmapUri={record.gradcamUri} />
+        ) : (
+          <Text style={styles.muted}>{t('diagnosis.noGradcam')}</Text>
+        )}
+      </Card>
+
+      <Pressable onPress={confirmDelete} hitSlop={10}>
+        <Text style={styles.danger}>{t('diagnosis.deleteButton')}</Text>
+      </Pressable>
+    </ScrollView>
+  );
+}
+
+const useStyles = createThemedStyles((c) => ({
+  container: {
+    padding: 16,
+    gap: 14,
+    backgroundColor: c.screen,
+    flexGrow: 1,
+  },
+  missing: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 20,
+    backgroundColor: c.screen,
+  },
+  card: {
+    gap: 8,
+  },
+  cardTitle: {
+    color: c.text,
+    fontWeight: '800',
+    fontSize: 16,
+  },
+  label: {
+    color: c.success,
+    fontWeight: '800',
+    fontSize: 20,
+  },
+  muted: {
+    color: c.textSubtle,
+    lineHeight: 18,
+  },
+  notes: {
+    minHeight: 80,
+    borderWidth: 1,
+    borderColor: c.border,
+    borderRadius: 12,
+    padding: 10,
+    color: c.text,
+    textAlignVertical: 'top',
+  },
+  saveButton: {
+    alignSelf: 'flex-end',
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 12,
+    backgroundColor: c.success,
+  },
+  saveText: {
+    color: c.onTone,
+    fontWeight: '800',
+  },
+  image: {
+    width: '100%',
+    height: 280,
+    borderRadius: 14,
+    backgroundColor: c.muted,
+  },
+  danger: {
+    color: c.danger,
+    fontWeight: '800',
+    textAlign: 'center',
+  },
+}));
@@ -0,0 +1,198 @@
+import { Link, Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import { useMemo } from 'react';
+import { Alert, Image, Pressable, ScrollView, Text, View } from 'react-native';
+
+import { HealthTrendChart } from '@/components/health-trend';
+import { useDiagnosisHistory } from '@/hooks/use-diagnosis-history';
+import { useDiagnosisSettings } from '@/hooks/use-diagnosis-settings';
+import { useI18n } from '@/hooks/use-i18n';
+import { usePlantProfiles } from '@/hooks/use-plant-profiles';
+import { createThemedStyles } from '@/hooks/use-theme-color';
+import { confidenceBand, resultTitle } from '@/lib/confidence';
+import { confidenceToPercent } from '@/lib/labels';
+import { healthPoints, healthTrend } from '@/lib/plants';
+
+/**
+ * Plant profile with its health trend and diagnosis timeline
+ */
+export default function PlantDetailScreen() {
+  const styles = useStyles();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const { plants, loaded, removePlant } = usePlantProfiles();
+  const { records } = useDiagnosisHistory();
+  const { settings } = useDiagnosisSettings();
+  const i18n = useI18n();
+  const { t } = i18n;
+
+  const plant = plants.find((p) => p.id === id);
+
+  // History is newest first, which is also the timeline order
+  const timeline = useMemo(() => records.filter((r) => r.plantId === id), [records, id]);
+  const points = useMemo(() => healthPoints(timeline), [timeline]);
+
+  if (!plant) {
+    return (
+      <View style={styles.missing}>
+        <Stack.Screen options={{ title: t('nav.plant') }} />
+        <Text style={styles.muted}>{loaded ? t('plant.missing') : t('plant.loading')}</Text>
+      </View>
+    );
+  }
+
+  const confirmDelete = () => {
+    Alert.alert(t('plant.deleteTitle'), t('plant.deleteMessage', { name: plant.name }), [
+      { text: t('plant.cancel'), style: 'cancel' },
+      {
+        text: t('plant.delete'),
+        style: 'destructive',
+        onPress: async () => {
+          router.back();
+          await removePlant(plant.id);
+        },
+      },
+    ]);
+  };
+
+  return (
+    <ScrollView contentContainerStyle={styles.container}>
+      <Stack.Screen options={{ title: plant.name }} />
+
+      <View style={[styles.card, styles.profile]}>
+        {plant.photoUri && <Image source={{ uri: plant.photoUri }} style={styles.photo} />}
+        <View style={{ flex: 1, gap: 4 }}>
+          <Text style={styles.name}>{plant.name}</Text>
+          {!!plant.species && <Text style={styles.muted}>{plant.species}</Text>}
+          {!!plant.location && <Text style={styles.muted}>{plant.location}</Text>}
+          <Link href={{ pathname: '/plants/edit', params: { id: plant.id } }} asChild>
+            <Pressable hitSlop={10}>
+              <Text style={styles.link}>{t('plant.edit')}</Text>
+            </Pressable>
+          </Link>
+        </View>
+      </View>
+
+      {!!plant.notes && (
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>{t('plant.notes')}</Text>
+          <Text style={styles.body}>{plant.notes}</Text>
+        </View>
+      )}
+
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>{t('plant.healthTrend')}</Text>
+        <HealthTrendChart points={points} trend={healthTrend(points)} />
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>{t('plant.timeline')}</Text>
+        {timeline.length === 0 && (
+          <Text style={styles.muted}>{t('plant.timelineEmpty')}</Text>
+        )}
+        {timeline.map((record) => {
+          const pct = confidenceToPercent(record.confidence);
+          return (
+            <Link key={record.id} href={{ pathname: '/history/[id]', params: { id: record.id } }} asChild>
+              <Pressable style={styles.entry}>
+                <Image source={{ uri: record.imageUri }} style={styles.thumbnail} />
+                <View style={{ flex: 1, gap: 2 }}>
+                  <Text style={styles.entryLabel}>
+                    {resultTitle(record, confidenceBand(record, settings.confidence), i18n)}
+                  </Text>
+                  <Text style={styles.muted}>
+                    {pct === null
+                      ? t('history.noConfidence')
+                      : t('history.confidence', { pct: i18n.formatPercent(pct) })}
+                  </Text>
+                  <Text style={styles.muted}>{i18n.formatDate(record.createdAt)}</Text>
+                </View>
+              </Pressable>
+            </Link>
+          );
+        })}
+      </View>
+
+      <Pressable onPress={confirmDelete} hitSlop={10}>
+        <Text style={styles.danger}>{t('plant.deleteButton')}</Text>
+      </Pressable>
+    </ScrollView>
+  );
+}
+
+const useStyles = createThemedStyles((c) => ({
+  container: {
+    padding: 16,
+    gap: 14,
+    backgroundColor: c.screen,
+    flexGrow: 1,
+  },
+  missing: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 20,
+    backgroundColor: c.screen,
+  },
+  card: {
+    backgroundColor: c.card,
+    borderRadius: 18,
+    padding: 14,
+    borderWidth: 1,
+    borderColor: c.border,
+    gap: 8,
+  },
+  profile: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 14,
+  },
+  photo: {
+    width: 88,
+    height: 88,
+    borderRadius: 44,
+    backgroundColor: c.muted,
+  },
+  name: {
+    color: c.text,
+    fontWeight: '800',
+    fontSize: 20,
+  },
+  cardTitle: {
+    color: c.text,
+    fontWeight: '800',
+    fontSize: 16,
+  },
+  body: {
+    color: c.text,
+    lineHeight: 20,
+  },
+  muted: {
+    color: c.textSubtle,
+    lineHeight: 18,
+  },
+  link: {
+    color: c.link,
+    fontWeight: '800',
+  },
+  entry: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 6,
+  },
+  thumbnail: {
+    width: 56,
+    height: 56,
+    borderRadius: 10,
+    backgroundColor: c.muted,
+  },
+  entryLabel: {
+    color: c.text,
+    fontWeight: '800',
+  },
+  danger: {
+    color: c.danger,
+    fontWeight: '800',
+    textAlign: 'center',
+  },
+}));
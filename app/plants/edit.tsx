@@ -0,0 +1,181 @@
+import * as ImagePicker from 'expo-image-picker';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import { useState } from 'react';
+import { Alert, Image, Pressable, ScrollView, Text, TextInput, View } from 'react-native';
+
+import { useDiagnosisHistory } from '@/hooks/use-diagnosis-history';
+import { useI18n } from '@/hooks/use-i18n';
+import { usePlantProfiles } from '@/hooks/use-plant-profiles';
+import { createThemedStyles, useThemeColors } from '@/hooks/use-theme-color';
+import type { MessageKey } from '@/lib/i18n';
+import { preprocessImage } from '@/lib/image-preprocessing';
+import { createPlant, storePlantPhoto, validatePlant, type PlantProfile } from '@/lib/plants';
+
+/**
+ * Create or edit a plant profile.
+ * `attachRecordId` attaches that diagnosis to a newly created plant (from the result card).
+ */
+export default function EditPlantScreen() {
+  const styles = useStyles();
+  const colors = useThemeColors();
+  const { id, attachRecordId } = useLocalSearchParams<{ id?: string; attachRecordId?: string }>();
+  const router = useRouter();
+  const { plants, upsertPlant } = usePlantProfiles();
+  const history = useDiagnosisHistory();
+  const i18n = useI18n();
+  const { t } = i18n;
+
+  const existing = id ? plants.find((p) => p.id === id) : undefined;
+  const [draft, setDraft] = useState<PlantProfile>(() => existing ?? createPlant());
+
+  const field = (key: 'name' | 'species' | 'location', label: MessageKey, placeholder: MessageKey) => (
+    <>
+      <Text style={styles.label}>{t(label)}</Text>
+      <TextInput
+        value={draft[key]}
+        onChangeText={(value) => setDraft({ ...draft, [key]: value })}
+        placeholder={t(placeholder)}
+        placeholderTextColor={colors.placeholder}
+        style={styles.input}
+      />
+    </>
+  );
+
+  const pickPhoto = async () => {
+    const perm = await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (!perm.granted) {
+      Alert.alert(t('alert.permissionNeeded'), t('alert.photoPermission'));
+      return;
+    }
+
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ImagePicker.MediaTypeOptions.Images,
+      quality: 1,
+    });
+    if (result.canceled) return;
+
+    try {
+      // Profile photos only need thumbnail quality
+      const photo = await preprocessImage({ uri: result.assets[0].uri }, { maxDimension: 512, maxBytes: 120_000 });
+      setDraft({ ...draft, photoUri: storePlantPhoto(draft.id, photo.base64) });
+    } catch (e: any) {
+      console.log('Plant photo error:', e?.message || e);
+      Alert.alert(t('alert.error'), t('plantEdit.photoFailed'));
+    }
+  };
+
+  const save = async () => {
+    const error = validatePlant(draft, i18n);
+    if (error) {
+      Alert.alert(t('plantEdit.checkTitle'), error);
+      return;
+    }
+
+    const plant = {
+      ...draft,
+      name: draft.name.trim(),
+      species: draft.species.trim(),
+      location: draft.location.trim(),
+    };
+    upsertPlant(plant);
+    if (attachRecordId) await history.update(attachRecordId, { plantId: plant.id });
+    router.back();
+  };
+
+  return (
+    <ScrollView contentContainerStyle={styles.container} keyboardShouldPersistTaps="handled">
+      <Stack.Screen options={{ title: existing ? t('plantEdit.titleEdit') : t('plantEdit.titleNew') }} />
+
+      <View style={styles.card}>
+        <Pressable onPress={pickPhoto} style={styles.photo}>
+          {draft.photoUri ? (
+            <Image source={{ uri: draft.photoUri }} style={styles.photoImage} />
+          ) : (
+            <Text style={styles.link}>{t('plantEdit.addPhoto')}</Text>
+          )}
+        </Pressable>
+
+        {field('name', 'plantEdit.name', 'plantEdit.namePlaceholder')}
+        {field('species', 'plantEdit.species', 'plantEdit.speciesPlaceholder')}
+        {field('location', 'plantEdit.location', 'plantEdit.locationPlaceholder')}
+
+        <Text style={styles.label}>{t('plantEdit.notes')}</Text>
+        <TextInput
+          value={draft.notes}
+          onChangeText={(notes) => setDraft({ ...draft, notes })}
+          placeholder={t('plantEdit.notesPlaceholder')}
+          placeholderTextColor={colors.placeholder}
+          multiline
+          style={[styles.input, { minHeight: 80, textAlignVertical: 'top' }]}
+        />
+
+        <Pressable onPress={save} style={styles.primaryButton}>
+          <Text style={styles.primaryButtonText}>
+            {attachRecordId ? t('plantEdit.saveAndAttach') : t('plantEdit.save')}
+          </Text>
+        </Pressable>
+      </View>
+    </ScrollView>
+  );
+}
+
+const useStyles = createThemedStyles((c) => ({
+  container: {
+    padding: 16,
+    gap: 14,
+    backgroundColor: c.screen,
+    flexGrow: 1,
+  },
+  card: {
+    backgroundColor: c.card,
+    borderRadius: 18,
+    padding: 14,
+    borderWidth: 1,
+    borderColor: c.border,
+    gap: 8,
+  },
+  photo: {
+    alignSelf: 'center',
+    width: 120,
+    height: 120,
+    borderRadius: 60,
+    backgroundColor: c.successBackground,
+    borderWidth: 1,
+    borderColor: c.successBorder,
+    alignItems: 'center',
+    justifyContent: 'center',
+    overflow: 'hidden',
+    marginBottom: 8,
+  },
+  photoImage: {
+    width: '100%',
+    height: '100%',
+  },
+  label: {
+    color: c.textMuted,
+    fontWeight: '700',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: c.border,
+    borderRadius: 10,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    color: c.text,
+  },
+  link: {
+    color: c.link,
+    fontWeight: '800',
+  },
+  primaryButton: {
+    backgroundColor: c.infoFill,
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  primaryButtonText: {
+    color: c.onTone,
+    fontWeight: '800',
+  },
+}));
@@ -0,0 +1,435 @@
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import { useState } from 'react';
+import { Alert, Image, Pressable, ScrollView, Switch, Text, TextInput, View } from 'react-native';
+
+import { useDiagnosisHistory } from '@/hooks/use-diagnosis-history';
+import { useDiagnosisSettings } from '@/hooks/use-diagnosis-settings';
+import { useI18n } from '@/hooks/use-i18n';
+import { useKnowledgeBase } from '@/hooks/use-knowledge-base';
+import { useReminders } from '@/hooks/use-reminders';
+import { createThemedStyles, useThemeColors } from '@/hooks/use-theme-color';
+import { confidenceBand, resultTitle } from '@/lib/confidence';
+import { correctedLabelName } from '@/lib/feedback';
+import type { MessageKey } from '@/lib/i18n';
+import { lookupEntry } from '@/lib/knowledge-base';
+import {
+  addDays,
+  createTreatmentDraft,
+  createTreatmentPlan,
+  MAX_INTERVAL_DAYS,
+  MAX_OCCURRENCES,
+  startOfDay,
+  TREATMENT_ACTIONS,
+  validateTreatmentPlan,
+  type TreatmentDraft,
+} from '@/lib/reminders';
+
+const START_DAYS: { offset: number; label: MessageKey }[] = [
+  { offset: 0, label: 'plan.today' },
+  { offset: 1, label: 'plan.tomorrow' },
+  { offset: 2, label: 'plan.inTwoDays' },
+];
+
+const isWeb = process.env.EXPO_OS === 'web';
+
+/**
+ * Treatment plan for a saved diagnosis: recurring actions (spray, prune, …) and an optional
+ * "re-photograph in N days" follow-up, all scheduled as local notifications
+ */
+export default function NewTreatmentPlanScreen() {
+  const { recordId } = useLocalSearchParams<{ recordId: string }>();
+  const router = useRouter();
+  const styles = useStyles();
+  const colors = useThemeColors();
+  const i18n = useI18n();
+  const { t } = i18n;
+  const { records } = useDiagnosisHistory();
+  const { settings } = useDiagnosisSettings();
+  const kb = useKnowledgeBase();
+  const { addPlan } = useReminders();
+
+  const [treatments, setTreatments] = useState<TreatmentDraft[]>(() => [createTreatmentDraft()]);
+  const [followUp, setFollowUp] = useState(true);
+  const [followUpDays, setFollowUpDays] = useState(14);
+  const [startOffset, setStartOffset] = useState(1);
+  const [hour, setHour] = useState(8);
+  const [saving, setSaving] = useState(false);
+
+  const record = records.find((r) => r.id === recordId);
+  if (!record) {
+    return (
+      <View style={styles.missing}>
+        <Stack.Screen options={{ title: t('plan.title') }} />
+        <Text style={styles.muted}>{t('plan.missing')}</Text>
+      </View>
+    );
+  }
+
+  // Plan for what the user says it is when they corrected the model
+  const diseaseName =
+    (record.feedback && correctedLabelName(record.feedback, i18n)) ?? i18n.labelName(record.prediction);
+  const entry = lookupEntry(kb, record.prediction);
+
+  const updateTreatment = (index: number, changes: Partial<TreatmentDraft>) =>
+    setTreatments(treatments.map((treatment, i) => (i === index ? { ...treatment, ...changes } : treatment)));
+
+  const save = async () => {
+    const startsAt = addDays(startOfDay(new Date()), startOffset);
+    startsAt.setHours(hour);
+
+    const input = {
+      recordId: record.id,
+      diseaseName,
+      treatments,
+      followUpDays: followUp ? followUpDays : null,
+      startsAt,
+    };
+    const error = validateTreatmentPlan(input, i18n);
+    if (error) {
+      Alert.alert(t('plan.checkTitle'), error);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const allowed = await addPlan(createTreatmentPlan(input, i18n));
+      if (!allowed && !isWeb) {
+        Alert.alert(t('plan.notificationsOffTitle'), t('plan.notificationsOff'));
+      }
+      router.back();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <ScrollView contentContainerStyle={styles.container} keyboardShouldPersistTaps="handled">
+      <Stack.Screen options={{ title: t('plan.title') }} />
+
+      <View style={[styles.card, styles.summary]}>
+        <Image source={{ uri: record.imageUri }} style={styles.thumbnail} />
+        <View style={{ flex: 1, gap: 2 }}>
+          <Text style={styles.cardTitle}>
+            {resultTitle(record, confidenceBand(record, settings.confidence), i18n)}
+          </Text>
+          <Text style={styles.muted}>{i18n.formatDate(record.createdAt)}</Text>
+        </View>
+      </View>
+
+      {/* Guidance from the knowledge base, to pick actions from */}
+      {entry && (
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>{t('plan.recommended')}</Text>
+          {[...entry.treatment.organic, ...entry.treatment.chemical].map((line) => (
+            <Text key={line} style={styles.body}>
+              • {line}
+            </Text>
+          ))}
+        </View>
+      )}
+
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>{t('plan.firstTreatment')}</Text>
+        <View style={styles.chips}>
+          {START_DAYS.map(({ offset, label }) => (
+            <Chip
+              key={offset}
+              label={t(label)}
+              selected={startOffset === offset}
+              onPress={() => setStartOffset(offset)}
+            />
+          ))}
+        </View>
+        <Stepper
+          label={t('plan.time')}
+          value={hour}
+          min={5}
+          max={21}
+          format={(h) => `${String(h).padStart(2, '0')}:00`}
+          onChange={setHour}
+        />
+      </View>
+
+      {treatments.map((treatment, index) => (
+        <View key={index} style={styles.card}>
+          <View style={styles.row}>
+            <Text style={styles.cardTitle}>{t('plan.action', { number: index + 1 })}</Text>
+            <Pressable
+              onPress={() => setTreatments(treatments.filter((_, i) => i !== index))}
+              accessibilityRole="button"
+              accessibilityLabel={t('plan.removeAction', { number: index + 1 })}
+              hitSlop={10}>
+              <Text style={styles.danger}>{t('plan.remove')}</Text>
+            </Pressable>
+          </View>
+          <View style={styles.chips}>
+            {TREATMENT_ACTIONS.map(({ value, label }) => (
+              <Chip
+                key={value}
+                label={t(label)}
+                selected={treatment.action === value}
+                onPress={() => updateTreatment(index, { action: value })}
+              />
+            ))}
+          </View>
+          <Stepper
+            label={t('plan.every')}
+            value={treatment.intervalDays}
+            min={1}
+            max={MAX_INTERVAL_DAYS}
+            format={(d) => t('plan.everyDays', { count: d })}
+            onChange={(intervalDays) => updateTreatment(index, { intervalDays })}
+          />
+          <Stepper
+            label={t('plan.times')}
+            value={treatment.occurrences}
+            min={1}
+            max={MAX_OCCURRENCES}
+            format={String}
+            onChange={(occurrences) => updateTreatment(index, { occurrences })}
+          />
+          <TextInput
+            value={treatment.notes}
+            onChangeText={(notes) => updateTreatment(index, { notes })}
+            placeholder={treatment.action === 'other' ? t('plan.notesOther') : t('plan.notes')}
+            placeholderTextColor={colors.placeholder}
+            style={styles.input}
+          />
+        </View>
+      ))}
+
+      <Pressable
+        onPress={() => setTreatments([...treatments, createTreatmentDraft('prune')])}
+        accessibilityRole="button"
+        hitSlop={10}>
+        <Text style={[styles.link, { textAlign: 'center' }]}>{t('plan.addAction')}</Text>
+      </Pressable>
+
+      <View style={styles.card}>
+        <View style={styles.row}>
+          <Text style={[styles.cardTitle, { flexShrink: 1 }]}>{t('plan.followUp')}</Text>
+          <Switch value={followUp} onValueChange={setFollowUp} accessibilityLabel={t('plan.followUp')} />
+        </View>
+        <Text style={styles.muted}>{t('plan.followUpHint')}</Text>
+        {followUp && (
+          <Stepper
+            label={t('plan.after')}
+            value={followUpDays}
+            min={1}
+            max={MAX_INTERVAL_DAYS}
+            format={(d) => t('plan.days', { count: d })}
+            onChange={setFollowUpDays}
+          />
+        )}
+      </View>
+
+      <Pressable
+        onPress={save}
+        disabled={saving}
+        accessibilityRole="button"
+        style={[styles.primaryButton, saving && { opacity: 0.6 }]}>
+        <Text style={styles.primaryButtonText}>{t('plan.save')}</Text>
+      </Pressable>
+    </ScrollView>
+  );
+}
+
+function Chip({ label, selected, onPress }: { label: string; selected: boolean; onPress: () => void }) {
+  const styles = useStyles();
+  return (
+    <Pressable
+      onPress={onPress}
+      accessibilityRole="button"
+      accessibilityState={{ selected }}
+      style={[styles.chip, selected && styles.chipSelected]}>
+      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+    </Pressable>
+  );
+}
+
+/**
+ * − value + control for a small whole number
+ */
+function Stepper({
+  label,
+  value,
+  min,
+  max,
+  format,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  format: (value: number) => string;
+  onChange: (value: number) => void;
+}) {
+  const styles = useStyles();
+
+  return (
+    <View
+      style={styles.row}
+      accessible
+      accessibilityRole="adjustable"
+      accessibilityLabel={label}
+      accessibilityValue={{ text: format(value) }}
+      accessibilityActions={[{ name: 'increment' }, { name: 'decrement' }]}
+      onAccessibilityAction={(e) =>
+        onChange(Math.min(max, Math.max(min, value + (e.nativeEvent.actionName === 'increment' ? 1 : -1))))
+      }>
+      <Text style={styles.label}>{label}</Text>
+      <View style={styles.stepper}>
+        <Pressable
+          onPress={() => onChange(Math.max(min, value - 1))}
+          disabled={value <= min}
+          style={styles.stepButton}
+          hitSlop={6}>
+          <Text style={[styles.stepText, value <= min && { opacity: 0.3 }]}>−</Text>
+        </Pressable>
+        <Text style={styles.stepValue}>{format(value)}</Text>
+        <Pressable
+          onPress={() => onChange(Math.min(max, value + 1))}
+          disabled={value >= max}
+          style={styles.stepButton}
+          hitSlop={6}>
+          <Text style={[styles.stepText, value >= max && { opacity: 0.3 }]}>+</Text>
+        </Pressable>
+      </View>
+    </View>
+  );
+}
+
+const useStyles = createThemedStyles((c) => ({
+  container: {
+    padding: 16,
+    gap: 14,
+    backgroundColor: c.screen,
+    flexGrow: 1,
+  },
+  missing: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 20,
+    backgroundColor: c.screen,
+  },
+  card: {
+    backgroundColor: c.card,
+    borderRadius: 18,
+    padding: 14,
+    borderWidth: 1,
+    borderColor: c.border,
+    gap: 10,
+  },
+  summary: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  thumbnail: {
+    width: 56,
+    height: 56,
+    borderRadius: 10,
+    backgroundColor: c.muted,
+  },
+  cardTitle: {
+    color: c.text,
+    fontWeight: '800',
+    fontSize: 16,
+  },
+  body: {
+    color: c.text,
+    lineHeight: 20,
+  },
+  muted: {
+    color: c.textSubtle,
+    lineHeight: 18,
+  },
+  label: {
+    color: c.textMuted,
+    fontWeight: '700',
+  },
+  link: {
+    color: c.link,
+    fontWeight: '800',
+  },
+  danger: {
+    color: c.danger,
+    fontWeight: '800',
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 10,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: c.border,
+    backgroundColor: c.card,
+  },
+  chipSelected: {
+    backgroundColor: c.successBackground,
+    borderColor: c.successBorder,
+  },
+  chipText: {
+    color: c.textMuted,
+    fontWeight: '700',
+    fontSize: 12,
+  },
+  chipTextSelected: {
+    color: c.success,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: c.border,
+    borderRadius: 10,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    color: c.text,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  stepButton: {
+    width: 34,
+    height: 34,
+    borderRadius: 17,
+    borderWidth: 1,
+    borderColor: c.border,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepText: {
+    color: c.link,
+    fontSize: 18,
+    fontWeight: '800',
+  },
+  stepValue: {
+    minWidth: 64,
+    textAlign: 'center',
+    color: c.text,
+    fontWeight: '800',
+  },
+  primaryButton: {
+    backgroundColor: c.infoFill,
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: c.onTone,
+    fontWeight: '800',
+  },
+}));
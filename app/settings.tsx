@@ -0,0 +1,852 @@
+import { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Pressable,
+  ScrollView,
+  Switch,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+
+import { Link } from 'expo-router';
+
+import { MOCK_SCENARIOS, type MockScenario } from '@/constants/mock-predictions';
+import { useAuth } from '@/hooks/use-auth';
+import { useDiagnosisSettings } from '@/hooks/use-diagnosis-settings';
+import { useHistorySync } from '@/hooks/use-history-sync';
+import { useI18n } from '@/hooks/use-i18n';
+import { useServerProfiles } from '@/hooks/use-server-profiles';
+import { createThemedStyles } from '@/hooks/use-theme-color';
+import { useThemePreference } from '@/hooks/use-theme-preference';
+import { checkHealth, type HealthCheckResult } from '@/lib/api/client';
+import { describeApiError } from '@/lib/api/errors';
+import { validateAuthSettings, type AuthBackendKind, type AuthSettings } from '@/lib/auth/settings';
+import { validateConfidenceThresholds, type ConfidenceThresholds } from '@/lib/confidence';
+import { validateUploadSettings } from '@/lib/diagnosis-settings';
+import { LOCALES } from '@/lib/i18n';
+import { validateQualityThresholds, type QualityThresholds } from '@/lib/image/quality';
+import {
+  createProfile,
+  profileApiOptions,
+  validateProfile,
+  type ServerProfile,
+} from '@/lib/server-profiles';
+import { validateSyncSettings, type SyncBackend, type SyncSettings } from '@/lib/sync/settings';
+import { THEME_PREFERENCES } from '@/lib/theme-preference';
+
+type ConnectionTest =
+  | { state: 'idle' }
+  | { state: 'running' }
+  | { state: 'ok'; result: HealthCheckResult }
+  | { state: 'failed'; message: string };
+
+/**
+ * Settings screen - appearance, language, prediction server profiles, account, upload size,
+ * photo quality checks, confidence bands, cloud sync and developer options
+ */
+export default function SettingsScreen() {
+  const styles = useStyles();
+  const i18n = useI18n();
+  const { profiles, activeId, setActiveProfile, upsertProfile, removeProfile } = useServerProfiles();
+
+  // Profile currently shown in the edit form (a draft until saved)
+  const [draft, setDraft] = useState<ServerProfile | null>(null);
+  const [test, setTest] = useState<ConnectionTest>({ state: 'idle' });
+
+  // Edit the active profile by default
+  useEffect(() => {
+    if (!draft) setDraft(profiles.find((p) => p.id === activeId) ?? null);
+  }, [draft, profiles, activeId]);
+
+  const isSaved = draft ? profiles.some((p) => p.id === draft.id) : false;
+
+  const editProfile = (profile: ServerProfile) => {
+    setDraft(profile);
+    setTest({ state: 'idle' });
+  };
+
+  const saveDraft = () => {
+    if (!draft) return;
+    const error = validateProfile(draft, i18n);
+    if (error) {
+      Alert.alert('Invalid profile', error);
+      return;
+    }
+    const profile = { ...draft, name: draft.name.trim(), baseUrl: draft.baseUrl.trim() };
+    upsertProfile(profile);
+    setDraft(profile);
+  };
+
+  const deleteDraft = () => {
+    if (!draft) return;
+    Alert.alert('Delete profile', `Remove "${draft.name}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () => {
+          removeProfile(draft.id);
+          setDraft(null);
+        },
+      },
+    ]);
+  };
+
+  const testConnection = async () => {
+    if (!draft) return;
+    const error = validateProfile(draft, i18n);
+    if (error) {
+      setTest({ state: 'failed', message: error });
+      return;
+    }
+
+    setTest({ state: 'running' });
+    try {
+      const result = await checkHealth(profileApiOptions(draft));
+      setTest({ state: 'ok', result });
+    } catch (e) {
+      const { title, message } = describeApiError(e, i18n);
+      setTest({ state: 'failed', message: `${title}: ${message}` });
+    }
+  };
+
+  return (
+    <ScrollView contentContainerStyle={styles.container}>
+      <AppearanceSettingsCard />
+
+      <LanguageSettingsCard />
+
+      {/* Profile list: tap to edit, "Use" to make active */}
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Servers</Text>
+        {profiles.map((profile) => {
+          const active = profile.id === activeId;
+          const editing = profile.id === draft?.id;
+          return (
+            <Pressable
+              key={profile.id}
+              onPress={() => editProfile(profile)}
+              style={[styles.profileRow, editing && styles.profileRowEditing]}>
+              <View style={{ flex: 1 }}>
+                <Text style={styles.profileName}>{profile.name}</Text>
+                <Text style={styles.profileUrl} numberOfLines={1}>
+                  {profile.baseUrl}
+                </Text>
+              </View>
+              {active ? (
+                <Text style={styles.activeBadge}>Active</Text>
+              ) : (
+                <Pressable onPress={() => setActiveProfile(profile.id)} hitSlop={10}>
+                  <Text style={styles.link}>Use</Text>
+                </Pressable>
+              )}
+            </Pressable>
+          );
+        })}
+        <Pressable onPress={() => editProfile(createProfile())} hitSlop={10}>
+          <Text style={styles.link}>+ Add server</Text>
+        </Pressable>
+      </View>
+
+      {/* Edit form for the selected profile */}
+      {draft && (
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>{isSaved ? 'Edit server' : 'New server'}</Text>
+
+          <Text style={styles.label}>Name</Text>
+          <TextInput
+            value={draft.name}
+            onChangeText={(name) => setDraft({ ...draft, name })}
+            style={styles.input}
+          />
+
+          <Text style={styles.label}>Base URL</Text>
+          <TextInput
+            value={draft.baseUrl}
+            onChangeText={(baseUrl) => setDraft({ ...draft, baseUrl })}
+            placeholder="http://192.168.1.10:5000"
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="url"
+            style={styles.input}
+          />
+
+          <Text style={styles.label}>API key (optional)</Text>
+          <TextInput
+            value={draft.apiKey ?? ''}
+            onChangeText={(apiKey) => setDraft({ ...draft, apiKey: apiKey || null })}
+            autoCapitalize="none"
+            autoCorrect={false}
+            secureTextEntry
+            style={styles.input}
+          />
+
+          <View style={styles.switchRow}>
+            <Text style={styles.label}>Grad-CAM heatmaps</Text>
+            <Switch
+              value={draft.includeGradcam}
+              onValueChange={(includeGradcam) => setDraft({ ...draft, includeGradcam })}
+            />
+          </View>
+
+          <View style={styles.actions}>
+            <Pressable onPress={saveDraft} style={styles.primaryButton}>
+              <Text style={styles.primaryButtonText}>Save</Text>
+            </Pressable>
+            <Pressable onPress={testConnection} style={styles.secondaryButton}>
+              <Text style={styles.secondaryButtonText}>Test connection</Text>
+            </Pressable>
+          </View>
+
+          {/* Health check result */}
+          {test.state === 'running' && (
+            <View style={styles.testRow}>
+              <ActivityIndicator />
+              <Text style={styles.testText}>Contacting server…</Text>
+            </View>
+          )}
+          {test.state === 'ok' && (
+            <Text style={[styles.testText, styles.testSuccess]}>
+              Connected • {test.result.latencyMs} ms • status {test.result.status}
+              {test.result.version ? ` • version ${test.result.version}` : ''}
+            </Text>
+          )}
+          {test.state === 'failed' && (
+            <Text style={[styles.testText, styles.testError]}>{test.message}</Text>
+          )}
+
+          {isSaved && profiles.length > 1 && (
+            <Pressable onPress={deleteDraft} hitSlop={10}>
+              <Text style={[styles.link, styles.dangerLink]}>Delete server</Text>
+            </Pressable>
+          )}
+        </View>
+      )}
+
+      <AccountSettingsCard />
+
+      <UploadSettingsCard />
+
+      <QualitySettingsCard />
+
+      <ConfidenceSettingsCard />
+
+      <SyncSettingsCard />
+
+      <DeveloperSettingsCard />
+    </ScrollView>
+  );
+}
+
+/**
+ * Light/dark override; applied right away and remembered on the device
+ */
+function AppearanceSettingsCard() {
+  const styles = useStyles();
+  const { preference, setPreference } = useThemePreference();
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.cardTitle}>Appearance</Text>
+      <View style={styles.actions}>
+        {THEME_PREFERENCES.map(({ value, label }) => (
+          <Pressable
+            key={value}
+            onPress={() => setPreference(value)}
+            style={[styles.segment, preference === value && styles.profileRowEditing]}>
+            <Text style={styles.profileName}>{label}</Text>
+          </Pressable>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+/**
+ * App language: follow the device or pick one of the supported locales
+ */
+function LanguageSettingsCard() {
+  const styles = useStyles();
+  const { preference, setPreference } = useI18n();
+  const options = [{ value: 'system' as const, name: 'System' }, ...LOCALES];
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.cardTitle}>Language</Text>
+      <View style={styles.actions}>
+        {options.map(({ value, name }) => (
+          <Pressable
+            key={value}
+            onPress={() => setPreference(value)}
+            style={[styles.segment, preference === value && styles.profileRowEditing]}>
+            <Text style={styles.profileName}>{name}</Text>
+          </Pressable>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+type NumericThreshold = Exclude<keyof QualityThresholds, 'enabled'>;
+
+const QUALITY_FIELDS: { key: NumericThreshold; label: string }[] = [
+  { key: 'minSharpness', label: 'Minimum sharpness' },
+  { key: 'minBrightness', label: 'Minimum brightness (0-255)' },
+  { key: 'maxBrightness', label: 'Maximum brightness (0-255)' },
+  { key: 'maxClippedFraction', label: 'Maximum dark or blown-out share (0-1)' },
+  { key: 'minLeafCoverage', label: 'Minimum leaf coverage (0-1)' },
+];
+
+const toQualityDraft = (t: QualityThresholds) =>
+  Object.fromEntries(QUALITY_FIELDS.map(({ key }) => [key, String(t[key])])) as Record<NumericThreshold, string>;
+
+/**
+ * Longest side of the photos sent for diagnosis
+ */
+function UploadSettingsCard() {
+  const styles = useStyles();
+  const { settings, updateSettings } = useDiagnosisSettings();
+  const i18n = useI18n();
+  const [draft, setDraft] = useState(() => String(settings.upload.maxDimension));
+
+  // Pick up settings once they have been loaded from storage
+  useEffect(() => setDraft(String(settings.upload.maxDimension)), [settings.upload]);
+
+  const save = () => {
+    const upload = { maxDimension: Number(draft) };
+    const error = validateUploadSettings(upload, i18n);
+    if (error) {
+      Alert.alert('Invalid upload size', error);
+      return;
+    }
+    updateSettings({ ...settings, upload });
+  };
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.cardTitle}>Upload size</Text>
+      <Text style={styles.testText}>
+        Photos are scaled down to this size before upload. Smaller photos upload faster on slow connections;
+        larger ones keep more detail of small spots.
+      </Text>
+
+      <Text style={styles.label}>Longest side (pixels)</Text>
+      <TextInput value={draft} onChangeText={setDraft} keyboardType="number-pad" style={styles.input} />
+
+      <Pressable onPress={save} style={styles.primaryButton}>
+        <Text style={styles.primaryButtonText}>Save</Text>
+      </Pressable>
+    </View>
+  );
+}
+
+/**
+ * Thresholds of the photo quality checks run before upload
+ */
+function QualitySettingsCard() {
+  const styles = useStyles();
+  const { settings, updateSettings } = useDiagnosisSettings();
+  const i18n = useI18n();
+  const [enabled, setEnabled] = useState(settings.quality.enabled);
+  const [draft, setDraft] = useState(() => toQualityDraft(settings.quality));
+
+  // Pick up settings once they have been loaded from storage
+  useEffect(() => {
+    setEnabled(settings.quality.enabled);
+    setDraft(toQualityDraft(settings.quality));
+  }, [settings.quality]);
+
+  const save = () => {
+    const quality: QualityThresholds = { ...settings.quality, enabled };
+    for (const { key } of QUALITY_FIELDS) quality[key] = Number(draft[key].replace(',', '.'));
+
+    const error = validateQualityThresholds(quality, i18n);
+    if (error) {
+      Alert.alert('Invalid thresholds', error);
+      return;
+    }
+    updateSettings({ ...settings, quality });
+  };
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.cardTitle}>Photo quality checks</Text>
+      <Text style={styles.testText}>
+        Photos that are blurry, badly exposed or show little leaf are held back with retake advice before
+        upload. You can still diagnose them anyway.
+      </Text>
+
+      <View style={styles.switchRow}>
+        <Text style={styles.label}>Check photos before upload</Text>
+        <Switch value={enabled} onValueChange={setEnabled} />
+      </View>
+
+      {enabled &&
+        QUALITY_FIELDS.map(({ key, label }) => (
+          <View key={key} style={{ gap: 6 }}>
+            <Text style={styles.label}>{label}</Text>
+            <TextInput
+              value={draft[key]}
+              onChangeText={(value) => setDraft({ ...draft, [key]: value })}
+              keyboardType="decimal-pad"
+              style={styles.input}
+            />
+          </View>
+        ))}
+
+      <Pressable onPress={save} style={styles.primaryButton}>
+        <Text style={styles.primaryButtonText}>Save</Text>
+      </Pressable>
+    </View>
+  );
+}
+
+const toConfidenceDraft = (t: ConfidenceThresholds) => ({
+  confidentFromPct: String(t.confidentFromPct),
+  rejectBelowPct: String(t.rejectBelowPct),
+});
+
+/**
+ * Thresholds between confident, uncertain and rejected results
+ */
+function ConfidenceSettingsCard() {
+  const styles = useStyles();
+  const { settings, updateSettings } = useDiagnosisSettings();
+  const i18n = useI18n();
+  const [draft, setDraft] = useState(() => toConfidenceDraft(settings.confidence));
+
+  // Pick up settings once they have been loaded from storage
+  useEffect(() => setDraft(toConfidenceDraft(settings.confidence)), [settings.confidence]);
+
+  const save = () => {
+    const confidence: ConfidenceThresholds = {
+      confidentFromPct: Number(draft.confidentFromPct.replace(',', '.')),
+      rejectBelowPct: Number(draft.rejectBelowPct.replace(',', '.')),
+    };
+    const error = validateConfidenceThresholds(confidence, i18n);
+    if (error) {
+      Alert.alert('Invalid thresholds', error);
+      return;
+    }
+    updateSettings({ ...settings, confidence });
+  };
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.cardTitle}>Confidence bands</Text>
+      <Text style={styles.testText}>
+        Results below the confident threshold ask for another photo. Results below the reject threshold, or
+        photos the server says are not a plant, never show a disease name.
+      </Text>
+
+      <Text style={styles.label}>Confident from (%)</Text>
+      <TextInput
+        value={draft.confidentFromPct}
+        onChangeText={(confidentFromPct) => setDraft({ ...draft, confidentFromPct })}
+        keyboardType="decimal-pad"
+        style={styles.input}
+      />
+
+      <Text style={styles.label}>Reject below (%)</Text>
+      <TextInput
+        value={draft.rejectBelowPct}
+        onChangeText={(rejectBelowPct) => setDraft({ ...draft, rejectBelowPct })}
+        keyboardType="decimal-pad"
+        style={styles.input}
+      />
+
+      <Pressable onPress={save} style={styles.primaryButton}>
+        <Text style={styles.primaryButtonText}>Save</Text>
+      </Pressable>
+    </View>
+  );
+}
+
+const AUTH_BACKENDS: { value: AuthBackendKind; label: string }[] = [
+  { value: 'server', label: 'Prediction server' },
+  { value: 'supabase', label: 'Supabase' },
+];
+
+/**
+ * Signed-in account and the service that issues the tokens sent to the prediction server
+ */
+function AccountSettingsCard() {
+  const styles = useStyles();
+  const { settings, updateSettings, backend, session, signOut } = useAuth();
+  const i18n = useI18n();
+  const [draft, setDraft] = useState<AuthSettings>(settings);
+
+  // Pick up settings once they have been loaded from storage
+  useEffect(() => setDraft(settings), [settings]);
+
+  const accountName = session?.user.email ?? session?.user.id;
+  const changed =
+    draft.backend !== settings.backend ||
+    draft.supabaseUrl !== settings.supabaseUrl ||
+    draft.supabaseAnonKey !== settings.supabaseAnonKey ||
+    draft.supabaseServers !== settings.supabaseServers;
+
+  const save = () => {
+    const error = validateAuthSettings(draft, i18n);
+    if (error) {
+      Alert.alert('Invalid account settings', error);
+      return;
+    }
+    updateSettings({
+      ...draft,
+      supabaseUrl: draft.supabaseUrl.trim(),
+      supabaseAnonKey: draft.supabaseAnonKey.trim(),
+      supabaseServers: draft.supabaseServers.trim(),
+    });
+  };
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.cardTitle}>Account</Text>
+      <Text style={styles.testText}>
+        {session
+          ? `Signed in to ${backend?.name ?? 'the account service'} as ${accountName}.`
+          : 'Not signed in. The server asks you to sign in before it runs a diagnosis.'}
+      </Text>
+
+      <View style={styles.actions}>
+        <Link href="/sign-in" asChild>
+          <Pressable style={styles.primaryButton}>
+            <Text style={styles.primaryButtonText}>{session ? 'Switch account' : 'Sign in'}</Text>
+          </Pressable>
+        </Link>
+        {session && (
+          <Pressable onPress={signOut} style={styles.secondaryButton}>
+            <Text style={styles.secondaryButtonText}>Sign out</Text>
+          </Pressable>
+        )}
+      </View>
+
+      <Text style={styles.label}>Accounts are managed by</Text>
+      <View style={styles.actions}>
+        {AUTH_BACKENDS.map(({ value, label }) => (
+          <Pressable
+            key={value}
+            onPress={() => setDraft({ ...draft, backend: value })}
+            style={[styles.segment, draft.backend === value && styles.profileRowEditing]}>
+            <Text style={styles.profileName}>{label}</Text>
+          </Pressable>
+        ))}
+      </View>
+
+      {draft.backend === 'supabase' && (
+        <>
+          <Text style={styles.label}>Project URL</Text>
+          <TextInput
+            value={draft.supabaseUrl}
+            onChangeText={(supabaseUrl) => setDraft({ ...draft, supabaseUrl })}
+            autoCapitalize="none"
+            autoCorrect={false}
+            style={styles.input}
+          />
+          <Text style={styles.label}>Anon key</Text>
+          <TextInput
+            value={draft.supabaseAnonKey}
+            onChangeText={(supabaseAnonKey) => setDraft({ ...draft, supabaseAnonKey })}
+            autoCapitalize="none"
+            autoCorrect={false}
+            secureTextEntry
+            style={styles.input}
+          />
+          <Text style={styles.label}>Prediction servers that accept these accounts</Text>
+          <Text style={styles.testText}>
+            One https:// URL per line. Sign-in tokens are only sent to these servers.
+          </Text>
+          <TextInput
+            value={draft.supabaseServers}
+            onChangeText={(supabaseServers) => setDraft({ ...draft, supabaseServers })}
+            autoCapitalize="none"
+            autoCorrect={false}
+            multiline
+            placeholder="https://api.example.com"
+            style={styles.input}
+          />
+        </>
+      )}
+
+      {changed && (
+        <View style={styles.actions}>
+          <Pressable onPress={save} style={styles.primaryButton}>
+            <Text style={styles.primaryButtonText}>Save</Text>
+          </Pressable>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const SYNC_BACKENDS: { value: SyncBackend; label: string }[] = [
+  { value: 'off', label: 'Off' },
+  { value: 'memory', label: 'Dev (memory)' },
+  { value: 'supabase', label: 'Supabase' },
+];
+
+/**
+ * Cloud sync backend selection and Supabase connection details
+ */
+function SyncSettingsCard() {
+  const styles = useStyles();
+  const { settings, updateSettings, syncing, lastSyncAt, lastReport, lastError, syncNow } = useHistorySync();
+  const i18n = useI18n();
+  const [draft, setDraft] = useState<SyncSettings>(settings);
+
+  // Pick up settings once they have been loaded from storage
+  useEffect(() => setDraft(settings), [settings]);
+
+  const field = (key: keyof SyncSettings, label: string, secure = false) => (
+    <>
+      <Text style={styles.label}>{label}</Text>
+      <TextInput
+        value={draft[key]}
+        onChangeText={(value) => setDraft({ ...draft, [key]: value })}
+        autoCapitalize="none"
+        autoCorrect={false}
+        secureTextEntry={secure}
+        style={styles.input}
+      />
+    </>
+  );
+
+  const save = () => {
+    const error = validateSyncSettings(draft, i18n);
+    if (error) {
+      Alert.alert('Invalid sync settings', error);
+      return;
+    }
+    updateSettings(draft);
+  };
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.cardTitle}>Cloud sync</Text>
+      <Text style={styles.testText}>
+        Sync diagnosis history and images across your devices. The dev backend keeps data in memory
+        until the app restarts.
+      </Text>
+
+      <View style={styles.actions}>
+        {SYNC_BACKENDS.map(({ value, label }) => (
+          <Pressable
+            key={value}
+            onPress={() => setDraft({ ...draft, backend: value })}
+            style={[styles.segment, draft.backend === value && styles.profileRowEditing]}>
+            <Text style={styles.profileName}>{label}</Text>
+          </Pressable>
+        ))}
+      </View>
+
+      {draft.backend === 'supabase' && (
+        <>
+          {field('supabaseUrl', 'Project URL')}
+          {field('supabaseAnonKey', 'Anon key', true)}
+          {field('ownerId', 'Sync ID (same on all your devices)')}
+          {field('table', 'Table')}
+          {field('bucket', 'Storage bucket')}
+        </>
+      )}
+
+      <View style={styles.actions}>
+        <Pressable onPress={save} style={styles.primaryButton}>
+          <Text style={styles.primaryButtonText}>Save</Text>
+        </Pressable>
+        <Pressable
+          onPress={syncNow}
+          disabled={settings.backend === 'off' || syncing}
+          style={[styles.secondaryButton, settings.backend === 'off' && { opacity: 0.5 }]}>
+          <Text style={styles.secondaryButtonText}>{syncing ? 'Syncing…' : 'Sync now'}</Text>
+        </Pressable>
+      </View>
+
+      {lastError ? (
+        <Text style={[styles.testText, styles.testError]}>Last sync failed: {lastError}</Text>
+      ) : lastSyncAt && lastReport ? (
+        <Text style={styles.testText}>
+          Last sync {lastSyncAt.toLocaleTimeString()} • {lastReport.pushed} uploaded • {lastReport.pulled}{' '}
+          downloaded • {lastReport.deleted} deleted
+          {lastReport.conflicts > 0 ? ` • ${lastReport.conflicts} conflicts resolved` : ''}
+          {lastReport.failed > 0 ? ` • ${lastReport.failed} failed` : ''}
+        </Text>
+      ) : null}
+    </View>
+  );
+}
+
+const isDiseaseScenario = (s: MockScenario) => s.id.startsWith('disease:');
+
+/**
+ * Developer options: answer predictions from bundled fixtures instead of the server
+ */
+function DeveloperSettingsCard() {
+  const styles = useStyles();
+  const { settings, updateSettings } = useDiagnosisSettings();
+  const { labelName } = useI18n();
+  const [showDiseases, setShowDiseases] = useState(false);
+
+  const selected = settings.mockScenario;
+  const select = (mockScenario: string | null) => updateSettings({ ...settings, mockScenario });
+
+  const row = (scenario: MockScenario, title: string) => (
+    <Pressable
+      key={scenario.id}
+      onPress={() => select(scenario.id)}
+      style={[styles.profileRow, scenario.id === selected && styles.profileRowEditing]}>
+      <Text style={styles.profileName}>{title}</Text>
+    </Pressable>
+  );
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.cardTitle}>Developer</Text>
+      <Text style={styles.testText}>
+        The mock predictor answers every prediction with a recorded response instead of calling the server, to
+        demo the app or try the error handling.
+      </Text>
+
+      <View style={styles.switchRow}>
+        <Text style={styles.label}>Mock predictor</Text>
+        <Switch value={selected !== null} onValueChange={(on) => select(on ? MOCK_SCENARIOS[0].id : null)} />
+      </View>
+
+      {selected !== null && (
+        <>
+          {MOCK_SCENARIOS.filter((s) => !isDiseaseScenario(s)).map((s) => row(s, s.title))}
+
+          <Pressable onPress={() => setShowDiseases(!showDiseases)} hitSlop={10}>
+            <Text style={styles.link}>{showDiseases ? 'Hide diseases' : 'Choose a disease…'}</Text>
+          </Pressable>
+          {showDiseases && MOCK_SCENARIOS.filter(isDiseaseScenario).map((s) => row(s, labelName(s.title)))}
+        </>
+      )}
+    </View>
+  );
+}
+
+const useStyles = createThemedStyles((c) => ({
+  container: {
+    padding: 16,
+    gap: 14,
+    backgroundColor: c.screen,
+    flexGrow: 1,
+  },
+  card: {
+    backgroundColor: c.card,
+    borderRadius: 18,
+    padding: 14,
+    borderWidth: 1,
+    borderColor: c.border,
+    gap: 10,
+  },
+  cardTitle: {
+    color: c.text,
+    fontWeight: '800',
+    fontSize: 16,
+  },
+  profileRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    padding: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: c.border,
+  },
+  profileRowEditing: {
+    borderColor: c.link,
+    backgroundColor: c.infoBackground,
+  },
+  profileName: {
+    color: c.text,
+    fontWeight: '700',
+  },
+  profileUrl: {
+    color: c.textSubtle,
+    fontSize: 12,
+  },
+  activeBadge: {
+    color: c.success,
+    fontWeight: '800',
+    fontSize: 12,
+  },
+  link: {
+    color: c.link,
+    fontWeight: '800',
+  },
+  dangerLink: {
+    color: c.danger,
+  },
+  label: {
+    color: c.textMuted,
+    fontWeight: '700',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: c.border,
+    borderRadius: 10,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    color: c.text,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  segment: {
+    flex: 1,
+    alignItems: 'center',
+    padding: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: c.border,
+  },
+  primaryButton: {
+    flex: 1,
+    backgroundColor: c.infoFill,
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: c.onTone,
+    fontWeight: '800',
+  },
+  secondaryButton: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: c.link,
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    color: c.link,
+    fontWeight: '800',
+  },
+  testRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  testText: {
+    color: c.text,
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  testSuccess: {
+    color: c.success,
+  },
+  testError: {
+    color: c.danger,
+  },
+}));
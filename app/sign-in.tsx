@@ -0,0 +1,308 @@
+import { Link, useRouter } from 'expo-router';
+import { useState } from 'react';
+import { ActivityIndicator, Pressable, ScrollView, Text, TextInput, View } from 'react-native';
+
+import { useAuth } from '@/hooks/use-auth';
+import { useI18n } from '@/hooks/use-i18n';
+import { createThemedStyles, useThemeColors } from '@/hooks/use-theme-color';
+import { describeAuthError, isCleartextUrl } from '@/lib/auth/backend';
+
+type Method = 'password' | 'link';
+
+/**
+ * Sign in with email and password or an emailed magic link.
+ * Opened from Settings, or on top of the screen whose request the server refused; going back
+ * afterwards returns to that screen with its photo still in place.
+ */
+export default function SignInScreen() {
+  const router = useRouter();
+  const i18n = useI18n();
+  const { t } = i18n;
+  const styles = useStyles();
+  const colors = useThemeColors();
+  const { backend, session, signInWithPassword, sendMagicLink, signOut } = useAuth();
+
+  const [method, setMethod] = useState<Method>('password');
+  const [email, setEmail] = useState(session?.user.email ?? '');
+  const [password, setPassword] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [linkSentTo, setLinkSentTo] = useState<string | null>(null);
+
+  const leave = () => (router.canGoBack() ? router.back() : router.replace('/'));
+
+  const submit = async () => {
+    if (!/^\S+@\S+\.\S+$/.test(email.trim())) {
+      setError(t('signIn.invalidEmail'));
+      return;
+    }
+    if (method === 'password' && !password) {
+      setError(t('signIn.missingPassword'));
+      return;
+    }
+
+    setBusy(true);
+    setError(null);
+    try {
+      if (method === 'password') {
+        await signInWithPassword(email, password);
+        leave();
+      } else {
+        await sendMagicLink(email);
+        setLinkSentTo(email.trim());
+      }
+    } catch (e) {
+      console.log('Sign-in failed:', (e as Error)?.message || e);
+      setError(describeAuthError(e, i18n));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (backend && isCleartextUrl(backend.url)) {
+    return (
+      <ScrollView contentContainerStyle={styles.container}>
+        <View style={styles.warning}>
+          <Text style={styles.cardTitle}>{t('signIn.insecureTitle')}</Text>
+          <Text style={styles.warningText}>{t('signIn.insecure', { server: backend.name })}</Text>
+        </View>
+      </ScrollView>
+    );
+  }
+
+  if (!backend) {
+    return (
+      <ScrollView contentContainerStyle={styles.container}>
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>{t('signIn.notSetUpTitle')}</Text>
+          <Text style={styles.muted}>{t('signIn.notSetUp')}</Text>
+          <Link href="/settings" style={styles.link}>
+            {t('signIn.openSettings')}
+          </Link>
+        </View>
+      </ScrollView>
+    );
+  }
+
+  return (
+    <ScrollView contentContainerStyle={styles.container} keyboardShouldPersistTaps="handled">
+      {session && (
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>{t('signIn.signedIn')}</Text>
+          <Text style={styles.body}>{session.user.email ?? session.user.id}</Text>
+          <View style={styles.actions}>
+            <Pressable
+              onPress={leave}
+              accessibilityRole="button"
+              style={[styles.primaryButton, styles.grow]}>
+              <Text style={styles.primaryButtonText}>{t('signIn.continue')}</Text>
+            </Pressable>
+            <Pressable
+              onPress={signOut}
+              accessibilityRole="button"
+              style={[styles.secondaryButton, styles.grow]}>
+              <Text style={styles.secondaryButtonText}>{t('signIn.signOut')}</Text>
+            </Pressable>
+          </View>
+        </View>
+      )}
+
+      <View style={styles.card}>
+        <Text style={styles.cardTitle} accessibilityRole="header">
+          {session ? t('signIn.switchAccount') : t('signIn.title')}
+        </Text>
+        <Text style={styles.muted}>{t('signIn.intro', { server: backend.name })}</Text>
+
+        <View style={styles.actions}>
+          {(
+            [
+              { value: 'password', label: 'signIn.password' },
+              { value: 'link', label: 'signIn.emailLink' },
+            ] as const
+          ).map(({ value, label }) => (
+            <Pressable
+              key={value}
+              onPress={() => {
+                setMethod(value);
+                setError(null);
+              }}
+              accessibilityRole="button"
+              accessibilityState={{ selected: method === value }}
+              style={[styles.segment, method === value && styles.segmentSelected]}>
+              <Text style={styles.segmentText}>{t(label)}</Text>
+            </Pressable>
+          ))}
+        </View>
+
+        <Text style={styles.label}>{t('signIn.email')}</Text>
+        <TextInput
+          value={email}
+          onChangeText={setEmail}
+          autoCapitalize="none"
+          autoCorrect={false}
+          autoComplete="email"
+          keyboardType="email-address"
+          textContentType="username"
+          placeholder="you@example.com"
+          placeholderTextColor={colors.placeholder}
+          accessibilityLabel={t('signIn.email')}
+          style={styles.input}
+        />
+
+        {method === 'password' && (
+          <>
+            <Text style={styles.label}>{t('signIn.password')}</Text>
+            <TextInput
+              value={password}
+              onChangeText={setPassword}
+              secureTextEntry
+              autoCapitalize="none"
+              autoComplete="current-password"
+              textContentType="password"
+              onSubmitEditing={submit}
+              accessibilityLabel={t('signIn.password')}
+              style={styles.input}
+            />
+          </>
+        )}
+
+        {error && (
+          <Text style={styles.error} accessibilityLiveRegion="polite">
+            {error}
+          </Text>
+        )}
+
+        {linkSentTo && method === 'link' && (
+          <Text style={styles.body} accessibilityLiveRegion="polite">
+            {t('signIn.linkSent', { email: linkSentTo })}
+          </Text>
+        )}
+
+        <Pressable
+          onPress={submit}
+          disabled={busy}
+          accessibilityRole="button"
+          accessibilityState={{ busy, disabled: busy }}
+          style={[styles.primaryButton, busy && { opacity: 0.6 }]}>
+          {busy ? (
+            <ActivityIndicator color={colors.onTone} />
+          ) : (
+            <Text style={styles.primaryButtonText}>
+              {method === 'password'
+                ? t('signIn.submit')
+                : linkSentTo
+                  ? t('signIn.sendAnotherLink')
+                  : t('signIn.sendLink')}
+            </Text>
+          )}
+        </Pressable>
+      </View>
+    </ScrollView>
+  );
+}
+
+const useStyles = createThemedStyles((c) => ({
+  container: {
+    padding: 16,
+    gap: 14,
+    backgroundColor: c.screen,
+    flexGrow: 1,
+  },
+  card: {
+    backgroundColor: c.card,
+    borderRadius: 18,
+    padding: 14,
+    borderWidth: 1,
+    borderColor: c.border,
+    gap: 10,
+  },
+  cardTitle: {
+    color: c.text,
+    fontWeight: '800',
+    fontSize: 16,
+  },
+  body: {
+    color: c.text,
+    lineHeight: 20,
+  },
+  muted: {
+    color: c.textSubtle,
+    lineHeight: 18,
+  },
+  label: {
+    color: c.textMuted,
+    fontWeight: '700',
+  },
+  link: {
+    color: c.link,
+    fontWeight: '800',
+  },
+  error: {
+    color: c.danger,
+    fontWeight: '700',
+  },
+  warning: {
+    gap: 6,
+    backgroundColor: c.warningBackground,
+    borderColor: c.warningBorder,
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 10,
+  },
+  warningText: {
+    color: c.warning,
+    lineHeight: 18,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: c.border,
+    borderRadius: 10,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    color: c.text,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  grow: {
+    flex: 1,
+  },
+  segment: {
+    flex: 1,
+    alignItems: 'center',
+    padding: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: c.border,
+  },
+  segmentSelected: {
+    backgroundColor: c.successBackground,
+    borderColor: c.successBorder,
+  },
+  segmentText: {
+    color: c.text,
+    fontWeight: '700',
+  },
+  primaryButton: {
+    backgroundColor: c.infoFill,
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: c.onTone,
+    fontWeight: '800',
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: c.infoFill,
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    color: c.link,
+    fontWeight: '800',
+  },
+}));
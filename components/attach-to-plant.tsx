@@ -0,0 +1,143 @@
+import { useRouter } from 'expo-router';
+import { useState } from 'react';
+import { FlatList, Modal, Pressable, Text, View } from 'react-native';
+
+import { useDiagnosisHistory } from '@/hooks/use-diagnosis-history';
+import { useI18n } from '@/hooks/use-i18n';
+import { usePlantProfiles } from '@/hooks/use-plant-profiles';
+import { createThemedStyles } from '@/hooks/use-theme-color';
+
+/**
+ * Shows which plant profile a saved diagnosis belongs to and lets the user (re)assign it
+ */
+export function AttachToPlant({ recordId }: { recordId: string }) {
+  const styles = useStyles();
+  const router = useRouter();
+  const { t } = useI18n();
+  const { records, update } = useDiagnosisHistory();
+  const { plants } = usePlantProfiles();
+  const [open, setOpen] = useState(false);
+
+  const record = records.find((r) => r.id === recordId);
+  if (!record) return null;
+  const plant = plants.find((p) => p.id === record.plantId) ?? null;
+
+  const choose = async (plantId: string | null) => {
+    setOpen(false);
+    await update(recordId, { plantId });
+  };
+
+  const addPlant = () => {
+    setOpen(false);
+    router.push({ pathname: '/plants/edit', params: { attachRecordId: recordId } });
+  };
+
+  return (
+    <>
+      <Pressable onPress={() => setOpen(true)} accessibilityRole="button" style={styles.container}>
+        <Text style={styles.title} numberOfLines={1}>
+          {plant ? t('attach.plant', { name: plant.name }) : t('attach.none')}
+        </Text>
+        <Text style={styles.link}>{plant ? t('attach.change') : t('attach.choose')}</Text>
+      </Pressable>
+
+      <Modal visible={open} animationType="slide" transparent onRequestClose={() => setOpen(false)}>
+        <View style={styles.backdrop}>
+          <View style={styles.sheet}>
+            <Text style={styles.sheetTitle}>{t('attach.title')}</Text>
+            <FlatList
+              data={plants}
+              keyExtractor={(p) => p.id}
+              style={{ maxHeight: 320 }}
+              renderItem={({ item }) => (
+                <Pressable onPress={() => choose(item.id)} accessibilityRole="button" style={styles.option}>
+                  <Text style={[styles.optionName, item.id === record.plantId && styles.selected]}>{item.name}</Text>
+                  <Text style={styles.muted}>{[item.species, item.location].filter(Boolean).join(' • ')}</Text>
+                </Pressable>
+              )}
+              ListEmptyComponent={<Text style={styles.muted}>{t('attach.empty')}</Text>}
+            />
+            <View style={styles.actions}>
+              <Pressable onPress={addPlant} accessibilityRole="button" hitSlop={10}>
+                <Text style={styles.link}>{t('attach.newPlant')}</Text>
+              </Pressable>
+              {plant && (
+                <Pressable onPress={() => choose(null)} accessibilityRole="button" hitSlop={10}>
+                  <Text style={styles.danger}>{t('attach.detach')}</Text>
+                </Pressable>
+              )}
+              <Pressable onPress={() => setOpen(false)} accessibilityRole="button" hitSlop={10}>
+                <Text style={styles.link}>{t('attach.cancel')}</Text>
+              </Pressable>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </>
+  );
+}
+
+const useStyles = createThemedStyles((c) => ({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    padding: 12,
+    borderRadius: 14,
+    backgroundColor: c.successBackground,
+    borderWidth: 1,
+    borderColor: c.successBorder,
+  },
+  title: {
+    flex: 1,
+    color: c.success,
+    fontWeight: '800',
+  },
+  link: {
+    color: c.link,
+    fontWeight: '800',
+  },
+  danger: {
+    color: c.danger,
+    fontWeight: '800',
+  },
+  backdrop: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(15, 23, 42, 0.4)',
+  },
+  sheet: {
+    backgroundColor: c.card,
+    borderTopLeftRadius: 18,
+    borderTopRightRadius: 18,
+    padding: 16,
+    paddingBottom: 32,
+    gap: 12,
+  },
+  sheetTitle: {
+    color: c.text,
+    fontWeight: '800',
+    fontSize: 16,
+  },
+  option: {
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: c.muted,
+    gap: 2,
+  },
+  optionName: {
+    color: c.text,
+    fontWeight: '700',
+  },
+  selected: {
+    color: c.success,
+  },
+  muted: {
+    color: c.textSubtle,
+    fontSize: 12,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+}));
@@ -0,0 +1,119 @@
+import { Link } from 'expo-router';
+import { Image, Pressable, Text, View } from 'react-native';
+
+import { Badge } from '@/components/ui/badge';
+import type { Tone } from '@/constants/theme';
+import { useDiagnosisSettings } from '@/hooks/use-diagnosis-settings';
+import { useI18n } from '@/hooks/use-i18n';
+import { createThemedStyles } from '@/hooks/use-theme-color';
+import { confidenceBand, resultTitle } from '@/lib/confidence';
+import type { DiagnosisRecord } from '@/lib/history';
+import type { MessageKey } from '@/lib/i18n';
+import { confidenceToPercent } from '@/lib/labels';
+import { healthPoints, healthTrend, type HealthTrend } from '@/lib/plants';
+
+const TREND_BADGES: Record<HealthTrend, { label: MessageKey; tone: Tone }> = {
+  improving: { label: 'beforeAfter.improving', tone: 'success' },
+  worsening: { label: 'beforeAfter.worsening', tone: 'danger' },
+  stable: { label: 'beforeAfter.stable', tone: 'neutral' },
+  unknown: { label: 'beforeAfter.unknown', tone: 'neutral' },
+};
+
+/**
+ * Original diagnosis next to its follow-up photo, with the change in health score
+ */
+export function BeforeAfter({ before, after }: { before: DiagnosisRecord; after: DiagnosisRecord }) {
+  const styles = useStyles();
+  const { t } = useI18n();
+  const trend = TREND_BADGES[healthTrend(healthPoints([before, after]))];
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title} accessibilityRole="header">
+          {t('beforeAfter.title')}
+        </Text>
+        <Badge label={t(trend.label)} tone={trend.tone} />
+      </View>
+      <View style={styles.row}>
+        <Side record={before} caption={t('beforeAfter.before')} />
+        <Side record={after} caption={t('beforeAfter.after')} />
+      </View>
+    </View>
+  );
+}
+
+function Side({ record, caption }: { record: DiagnosisRecord; caption: string }) {
+  const styles = useStyles();
+  const i18n = useI18n();
+  const { settings } = useDiagnosisSettings();
+  const title = resultTitle(record, confidenceBand(record, settings.confidence), i18n);
+  const pct = confidenceToPercent(record.confidence);
+
+  return (
+    <Link href={{ pathname: '/history/[id]', params: { id: record.id } }} asChild>
+      <Pressable
+        accessibilityRole="link"
+        accessibilityLabel={`${caption}: ${title}, ${i18n.formatDate(record.createdAt)}`}
+        style={styles.side}>
+        <Image source={{ uri: record.imageUri }} style={styles.image} />
+        <Text style={styles.caption}>{caption}</Text>
+        <Text style={styles.label}>{title}</Text>
+        <Text style={styles.meta}>
+          {pct === null ? '—' : i18n.formatPercent(pct)} • {i18n.formatDate(record.createdAt)}
+        </Text>
+      </Pressable>
+    </Link>
+  );
+}
+
+const useStyles = createThemedStyles((c) => ({
+  container: {
+    gap: 10,
+    padding: 12,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: c.border,
+    backgroundColor: c.muted,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  title: {
+    color: c.text,
+    fontWeight: '800',
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  side: {
+    flex: 1,
+    gap: 2,
+  },
+  image: {
+    width: '100%',
+    aspectRatio: 1,
+    borderRadius: 10,
+    backgroundColor: c.border,
+    marginBottom: 4,
+  },
+  caption: {
+    color: c.textSubtle,
+    fontSize: 12,
+    fontWeight: '800',
+    textTransform: 'uppercase',
+  },
+  label: {
+    color: c.text,
+    fontWeight: '700',
+  },
+  meta: {
+    color: c.textSubtle,
+    fontSize: 12,
+  },
+}));
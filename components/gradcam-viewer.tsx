@@ -0,0 +1,306 @@
+import Slider from '@react-native-community/slider';
+import { useState } from 'react';
+import { Image, Pressable, StyleSheet, Text, View, type LayoutChangeEvent } from 'react-native';
+import { Gesture, GestureDetector } from 'react-native-gesture-handler';
+import Animated, { useAnimatedStyle, useSharedValue, withTiming } from 'react-native-reanimated';
+
+import { useI18n } from '@/hooks/use-i18n';
+import { createThemedStyles, useThemeColors } from '@/hooks/use-theme-color';
+import type { MessageKey } from '@/lib/i18n';
+
+type ViewerMode = 'overlay' | 'side-by-side' | 'swipe';
+
+const MODES: { value: ViewerMode; label: MessageKey }[] = [
+  { value: 'overlay', label: 'gradcamViewer.overlay' },
+  { value: 'side-by-side', label: 'gradcamViewer.sideBySide' },
+  { value: 'swipe', label: 'gradcamViewer.swipe' },
+];
+
+const MAX_ZOOM = 5;
+
+type GradcamViewerProps = {
+  /** The image that was sent for prediction, so both layers line up */
+  originalUri: string;
+  /** Grad-CAM image (composited overlay or translucent heatmap) */
+  heatmapUri: string;
+  /** Spoken description of the highlighted regions, read in place of the images */
+  description?: string;
+};
+
+/**
+ * Compares a leaf photo with its Grad-CAM heatmap.
+ * Overlay blends the heatmap at an adjustable opacity, side by side shows both,
+ * swipe reveals the heatmap up to a draggable divider. Pinch and pan (once zoomed)
+ * move both layers together; double-tap resets the zoom.
+ */
+export function GradcamViewer({ originalUri, heatmapUri, description }: GradcamViewerProps) {
+  const styles = useStyles();
+  const colors = useThemeColors();
+  const { t, formatPercent } = useI18n();
+  const [mode, setMode] = useState<ViewerMode>('overlay');
+  const [opacity, setOpacity] = useState(0.6);
+
+  // Width of one image frame; frames are square like the uploaded image
+  const [frameWidth, setFrameWidth] = useState(0);
+  const frame = useSharedValue(0);
+
+  // Zoom and pan shared by every layer
+  const scale = useSharedValue(1);
+  const savedScale = useSharedValue(1);
+  const translateX = useSharedValue(0);
+  const translateY = useSharedValue(0);
+  const savedX = useSharedValue(0);
+  const savedY = useSharedValue(0);
+
+  // Swipe divider position as a fraction of the frame width
+  const divider = useSharedValue(0.5);
+  const dividerStart = useSharedValue(0.5);
+
+  const onFrameLayout = (e: LayoutChangeEvent) => {
+    const { width } = e.nativeEvent.layout;
+    setFrameWidth(width);
+    frame.value = width;
+  };
+
+  const pinch = Gesture.Pinch()
+    .onUpdate((e) => {
+      scale.value = Math.min(MAX_ZOOM, Math.max(1, savedScale.value * e.scale));
+    })
+    .onEnd(() => {
+      savedScale.value = scale.value;
+      // Pull the image back inside the frame after zooming out
+      const limit = ((scale.value - 1) * frame.value) / 2;
+      translateX.value = withTiming(Math.min(limit, Math.max(-limit, translateX.value)));
+      translateY.value = withTiming(Math.min(limit, Math.max(-limit, translateY.value)));
+      savedX.value = Math.min(limit, Math.max(-limit, savedX.value));
+      savedY.value = Math.min(limit, Math.max(-limit, savedY.value));
+    });
+
+  const dividerPan = Gesture.Pan()
+    .onStart(() => {
+      dividerStart.value = divider.value;
+    })
+    .onUpdate((e) => {
+      if (frame.value === 0) return;
+      divider.value = Math.min(1, Math.max(0, dividerStart.value + e.translationX / frame.value));
+    });
+
+  // Only claim one-finger drags while zoomed, so the surrounding screen can still scroll
+  const pan = Gesture.Pan()
+    .manualActivation(true)
+    .requireExternalGestureToFail(dividerPan)
+    .onTouchesMove((_e, state) => {
+      if (scale.value > 1) state.activate();
+      else state.fail();
+    })
+    .onUpdate((e) => {
+      const limit = ((scale.value - 1) * frame.value) / 2;
+      translateX.value = Math.min(limit, Math.max(-limit, savedX.value + e.translationX));
+      translateY.value = Math.min(limit, Math.max(-limit, savedY.value + e.translationY));
+    })
+    .onEnd(() => {
+      savedX.value = translateX.value;
+      savedY.value = translateY.value;
+    });
+
+  const resetZoom = Gesture.Tap()
+    .numberOfTaps(2)
+    .onEnd(() => {
+      scale.value = withTiming(1);
+      translateX.value = withTiming(0);
+      translateY.value = withTiming(0);
+      savedScale.value = 1;
+      savedX.value = 0;
+      savedY.value = 0;
+    });
+
+  const gestures = Gesture.Simultaneous(pinch, pan, resetZoom);
+
+  const zoomStyle = useAnimatedStyle(() => ({
+    transform: [{ translateX: translateX.value }, { translateY: translateY.value }, { scale: scale.value }],
+  }));
+
+  const clipStyle = useAnimatedStyle(() => ({ width: divider.value * frame.value }));
+  const handleStyle = useAnimatedStyle(() => ({ left: divider.value * frame.value - HANDLE_SIZE / 2 }));
+
+  const layer = (uri: string, extraStyle?: object) => (
+    <Animated.View style={[StyleSheet.absoluteFill, zoomStyle]}>
+      <Image source={{ uri }} style={[styles.image, extraStyle]} resizeMode="cover" />
+    </Animated.View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.segments}>
+        {MODES.map((m) => (
+          <Pressable
+            key={m.value}
+            onPress={() => setMode(m.value)}
+            accessibilityRole="button"
+            accessibilityState={{ selected: mode === m.value }}
+            style={[styles.segment, mode === m.value && styles.segmentSelected]}
+          >
+            <Text style={[styles.segmentText, mode === m.value && styles.segmentTextSelected]}>
+              {t(m.label)}
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+
+      <GestureDetector gesture={gestures}>
+        <View style={styles.row} accessible accessibilityRole="image" accessibilityLabel={description}>
+          {mode === 'overlay' && (
+            <View style={styles.frame} onLayout={onFrameLayout}>
+              {layer(originalUri)}
+              {layer(heatmapUri, { opacity })}
+            </View>
+          )}
+
+          {mode === 'side-by-side' && (
+            <>
+              <View style={styles.frame} onLayout={onFrameLayout}>
+                {layer(originalUri)}
+              </View>
+              <View style={styles.frame}>{layer(heatmapUri)}</View>
+            </>
+          )}
+
+          {mode === 'swipe' && (
+            <View style={styles.frame} onLayout={onFrameLayout}>
+              {layer(originalUri)}
+              <Animated.View style={[styles.clip, clipStyle]}>
+                {/* Keep the clipped layer at full frame width so it lines up with the one below */}
+                <View style={{ width: frameWidth, height: frameWidth }}>{layer(heatmapUri)}</View>
+              </Animated.View>
+              <GestureDetector gesture={dividerPan}>
+                <Animated.View style={[styles.handle, handleStyle]} hitSlop={12}>
+                  <View style={styles.handleLine} />
+                  <View style={styles.handleKnob} />
+                </Animated.View>
+              </GestureDetector>
+            </View>
+          )}
+        </View>
+      </GestureDetector>
+
+      {mode === 'overlay' && (
+        <View style={styles.sliderRow}>
+          <Text style={styles.muted}>{t('gradcamViewer.opacity')}</Text>
+          <Slider
+            style={{ flex: 1 }}
+            accessibilityLabel={t('gradcamViewer.opacity')}
+            minimumValue={0}
+            maximumValue={1}
+            value={opacity}
+            onValueChange={setOpacity}
+            minimumTrackTintColor={colors.link}
+            maximumTrackTintColor={colors.border}
+            thumbTintColor={colors.link}
+          />
+          <Text style={styles.value}>{formatPercent(opacity * 100)}</Text>
+        </View>
+      )}
+
+      <Text style={styles.hint}>{t('gradcamViewer.hint')}</Text>
+    </View>
+  );
+}
+
+const HANDLE_SIZE = 28;
+
+const useStyles = createThemedStyles((c) => ({
+  container: {
+    gap: 10,
+  },
+  segments: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  segment: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: c.border,
+    backgroundColor: c.card,
+    alignItems: 'center',
+  },
+  segmentSelected: {
+    backgroundColor: c.infoBackground,
+    borderColor: c.infoBorder,
+  },
+  segmentText: {
+    color: c.textMuted,
+    fontWeight: '700',
+    fontSize: 12,
+  },
+  segmentTextSelected: {
+    color: c.info,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  frame: {
+    flex: 1,
+    aspectRatio: 1,
+    borderRadius: 14,
+    overflow: 'hidden',
+    backgroundColor: c.muted,
+  },
+  image: {
+    width: '100%',
+    height: '100%',
+  },
+  clip: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    left: 0,
+    overflow: 'hidden',
+  },
+  handle: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    width: HANDLE_SIZE,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  handleLine: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    width: 2,
+    backgroundColor: 'white',
+  },
+  handleKnob: {
+    width: HANDLE_SIZE,
+    height: HANDLE_SIZE,
+    borderRadius: HANDLE_SIZE / 2,
+    backgroundColor: 'white',
+    borderWidth: 2,
+    borderColor: '#2563EB',
+  },
+  sliderRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  muted: {
+    color: c.textMuted,
+    fontWeight: '700',
+    fontSize: 12,
+  },
+  value: {
+    color: c.text,
+    fontWeight: '800',
+    fontSize: 12,
+    minWidth: 36,
+    textAlign: 'right',
+  },
+  hint: {
+    color: c.textSubtle,
+    fontSize: 12,
+  },
+}));
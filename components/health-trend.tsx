@@ -0,0 +1,98 @@
+import { Text, View } from 'react-native';
+
+import { toneColors, type Tone } from '@/constants/theme';
+import { useI18n } from '@/hooks/use-i18n';
+import { createThemedStyles, useThemeColors } from '@/hooks/use-theme-color';
+import type { MessageKey } from '@/lib/i18n';
+import type { HealthPoint, HealthTrend } from '@/lib/plants';
+
+const TREND_LABELS: Record<HealthTrend, { text: MessageKey; tone: Tone }> = {
+  improving: { text: 'trend.improving', tone: 'success' },
+  worsening: { text: 'trend.worsening', tone: 'danger' },
+  stable: { text: 'trend.stable', tone: 'neutral' },
+  unknown: { text: 'trend.unknown', tone: 'neutral' },
+};
+
+// Bars shown at most; older diagnoses still count towards the trend
+const MAX_BARS = 12;
+
+const scoreTone = (score: number): Tone => (score >= 67 ? 'success' : score >= 34 ? 'warning' : 'danger');
+
+/**
+ * Health score per diagnosis as a bar chart (oldest left) with the overall trend
+ */
+export function HealthTrendChart({ points, trend }: { points: HealthPoint[]; trend: HealthTrend }) {
+  const styles = useStyles();
+  const colors = useThemeColors();
+  const { locale, t } = useI18n();
+  const label = TREND_LABELS[trend];
+  const visible = points.slice(-MAX_BARS);
+
+  return (
+    <View style={styles.container}>
+      <Text style={[styles.trend, { color: toneColors(colors, label.tone).text }]}>{t(label.text)}</Text>
+      {visible.length > 0 && (
+        <>
+          <View style={styles.chart}>
+            {visible.map((p) => (
+              <View key={p.recordId} style={styles.column}>
+                <View
+                  style={[
+                    styles.bar,
+                    {
+                      height: `${Math.max(4, p.score)}%`,
+                      backgroundColor: toneColors(colors, scoreTone(p.score)).fill,
+                    },
+                  ]}
+                />
+              </View>
+            ))}
+          </View>
+          <View style={styles.axis}>
+            <Text style={styles.muted}>{new Date(visible[0].createdAt).toLocaleDateString(locale)}</Text>
+            <Text style={styles.muted}>
+              {new Date(visible[visible.length - 1].createdAt).toLocaleDateString(locale)}
+            </Text>
+          </View>
+        </>
+      )}
+      <Text style={styles.muted}>{t('trend.hint')}</Text>
+    </View>
+  );
+}
+
+const useStyles = createThemedStyles((c) => ({
+  container: {
+    gap: 8,
+  },
+  trend: {
+    fontWeight: '800',
+    fontSize: 16,
+  },
+  chart: {
+    height: 120,
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 6,
+    paddingVertical: 4,
+    borderBottomWidth: 1,
+    borderBottomColor: c.border,
+  },
+  column: {
+    flex: 1,
+    height: '100%',
+    justifyContent: 'flex-end',
+  },
+  bar: {
+    borderTopLeftRadius: 6,
+    borderTopRightRadius: 6,
+  },
+  axis: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  muted: {
+    color: c.textSubtle,
+    fontSize: 12,
+  },
+}));
@@ -0,0 +1,14 @@
+import type { PreprocessSource } from '@/lib/image-preprocessing';
+
+export type ImageDropZoneProps = {
+  /** Images in the order they were dropped, pasted or loaded */
+  onImages: (images: PreprocessSource[]) => void;
+};
+
+/**
+ * Drag-and-drop, paste and image address input for the upload card. Only the web has one
+ * (see image-drop-zone.web.tsx); phones use the camera and gallery buttons.
+ */
+export function ImageDropZone(_props: ImageDropZoneProps) {
+  return null;
+}
@@ -0,0 +1,262 @@
+import { useIsFocused } from '@react-navigation/native';
+import { useEffect, useRef, useState } from 'react';
+import { ActivityIndicator, Pressable, Text, TextInput, View } from 'react-native';
+
+import type { ImageDropZoneProps } from '@/components/image-drop-zone';
+import { useI18n } from '@/hooks/use-i18n';
+import { createThemedStyles, useThemeColors } from '@/hooks/use-theme-color';
+import type { PreprocessSource } from '@/lib/image-preprocessing';
+
+/**
+ * Drop target on the upload card for photos dragged from the desktop, a mail attachment or
+ * another tab. Images pasted anywhere on the page and image addresses entered in the field
+ * are accepted too, so photos growers emailed can be diagnosed without saving them first.
+ * Photos are handed over as object URLs, which the receiver revokes once it has prepared them.
+ */
+export function ImageDropZone({ onImages }: ImageDropZoneProps) {
+  const styles = useStyles();
+  const colors = useThemeColors();
+  const { t } = useI18n();
+  // Pastes while another screen is on top are meant for that screen
+  const focused = useIsFocused();
+
+  const [dragging, setDragging] = useState(false);
+  const [url, setUrl] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // react-native-web renders the View as a DOM element, which takes the drag and drop listeners
+  const zoneRef = useRef<View>(null);
+
+  // The DOM listeners are attached once and call the latest props through refs
+  const onImagesRef = useRef(onImages);
+  onImagesRef.current = onImages;
+  const tRef = useRef(t);
+  tRef.current = t;
+
+  /**
+   * Download images by address and hand over the ones that loaded
+   * @returns Whether any image loaded
+   */
+  const loadUrls = async (urls: string[]) => {
+    setLoading(true);
+    setError(null);
+    const images: PreprocessSource[] = [];
+    for (const address of urls) {
+      try {
+        images.push(await fetchImage(address));
+      } catch (e: any) {
+        console.log('Could not load image address:', e?.message || e);
+        setError(tRef.current('dropZone.urlFailed'));
+      }
+    }
+    setLoading(false);
+    if (images.length > 0) onImagesRef.current(images);
+    return images.length > 0;
+  };
+  const loadUrlsRef = useRef(loadUrls);
+  loadUrlsRef.current = loadUrls;
+
+  /**
+   * Image files of a drop or paste, otherwise the image addresses it carries
+   * @param acceptText - Whether plain text counts as an address (not when pasting into a field)
+   * @returns Whether the data held anything to diagnose
+   */
+  const receive = (data: DataTransfer, acceptText: boolean) => {
+    const files = Array.from(data.files);
+    const images = files.filter((file) => file.type.startsWith('image/'));
+    if (images.length > 0) {
+      setError(null);
+      onImagesRef.current(images.map((file) => ({ uri: URL.createObjectURL(file), fileSize: file.size })));
+      return true;
+    }
+    if (files.length > 0) {
+      setError(tRef.current('dropZone.notImage'));
+      return true;
+    }
+
+    const urls = imageUrls(data.getData('text/uri-list') || (acceptText ? data.getData('text/plain') : ''));
+    if (urls.length === 0) return false;
+    loadUrlsRef.current(urls);
+    return true;
+  };
+  const receiveRef = useRef(receive);
+  receiveRef.current = receive;
+
+  useEffect(() => {
+    const zone = zoneRef.current as unknown as HTMLElement | null;
+    if (!zone) return;
+
+    const onDragOver = (event: DragEvent) => {
+      event.preventDefault();
+      if (event.dataTransfer) event.dataTransfer.dropEffect = 'copy';
+      setDragging(true);
+    };
+    const onDragLeave = (event: DragEvent) => {
+      // Moving over the zone's own text fires leave events too
+      if (event.relatedTarget instanceof Node && zone.contains(event.relatedTarget)) return;
+      setDragging(false);
+    };
+    const onDrop = (event: DragEvent) => {
+      event.preventDefault();
+      setDragging(false);
+      if (event.dataTransfer) receiveRef.current(event.dataTransfer, true);
+    };
+
+    zone.addEventListener('dragenter', onDragOver);
+    zone.addEventListener('dragover', onDragOver);
+    zone.addEventListener('dragleave', onDragLeave);
+    zone.addEventListener('drop', onDrop);
+    return () => {
+      zone.removeEventListener('dragenter', onDragOver);
+      zone.removeEventListener('dragover', onDragOver);
+      zone.removeEventListener('dragleave', onDragLeave);
+      zone.removeEventListener('drop', onDrop);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!focused) return;
+
+    const onPaste = (event: ClipboardEvent) => {
+      if (!event.clipboardData) return;
+      const target = event.target as HTMLElement | null;
+      const editing =
+        target?.tagName === 'INPUT' || target?.tagName === 'TEXTAREA' || Boolean(target?.isContentEditable);
+      if (receiveRef.current(event.clipboardData, !editing)) event.preventDefault();
+    };
+
+    document.addEventListener('paste', onPaste);
+    return () => document.removeEventListener('paste', onPaste);
+  }, [focused]);
+
+  const submitUrl = async () => {
+    const urls = imageUrls(url);
+    if (urls.length === 0) {
+      setError(t('dropZone.invalidUrl'));
+      return;
+    }
+    if (await loadUrls(urls)) setUrl('');
+  };
+
+  return (
+    <View ref={zoneRef} style={[styles.zone, dragging && styles.zoneActive]}>
+      <Text style={[styles.title, dragging && styles.titleActive]}>
+        {dragging ? t('dropZone.release') : t('dropZone.title')}
+      </Text>
+      <Text style={styles.hint}>{t('dropZone.hint')}</Text>
+
+      <View style={styles.urlRow}>
+        <TextInput
+          value={url}
+          onChangeText={setUrl}
+          onSubmitEditing={submitUrl}
+          autoCapitalize="none"
+          autoCorrect={false}
+          inputMode="url"
+          placeholder={t('dropZone.urlPlaceholder')}
+          placeholderTextColor={colors.placeholder}
+          accessibilityLabel={t('dropZone.urlLabel')}
+          editable={!loading}
+          style={styles.input}
+        />
+        <Pressable
+          onPress={submitUrl}
+          disabled={loading || !url.trim()}
+          accessibilityRole="button"
+          accessibilityState={{ busy: loading, disabled: loading || !url.trim() }}
+          style={[styles.button, (loading || !url.trim()) && { opacity: 0.6 }]}>
+          {loading ? (
+            <ActivityIndicator color={colors.onTone} />
+          ) : (
+            <Text style={styles.buttonText}>{t('dropZone.load')}</Text>
+          )}
+        </Pressable>
+      </View>
+
+      {error && (
+        <Text style={styles.error} accessibilityLiveRegion="polite">
+          {error}
+        </Text>
+      )}
+    </View>
+  );
+}
+
+/**
+ * http(s) addresses in a text or `text/uri-list`, one per line; list comments are skipped
+ */
+function imageUrls(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => /^https?:\/\/\S+$/i.test(line));
+}
+
+/**
+ * Download an image into an object URL, so it is preprocessed like a dropped file and its
+ * size is known for the upload size line
+ * @throws If the site refuses the request (many block other pages) or does not return an image
+ */
+async function fetchImage(url: string): Promise<PreprocessSource> {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  const blob = await res.blob();
+  if (!blob.type.startsWith('image/')) throw new Error(`Not an image: ${blob.type || 'unknown type'}`);
+  return { uri: URL.createObjectURL(blob), fileSize: blob.size };
+}
+
+const useStyles = createThemedStyles((c) => ({
+  zone: {
+    gap: 8,
+    padding: 14,
+    borderRadius: 14,
+    borderWidth: 2,
+    borderStyle: 'dashed',
+    borderColor: c.border,
+  },
+  zoneActive: {
+    backgroundColor: c.successBackground,
+    borderColor: c.successBorder,
+  },
+  title: {
+    color: c.text,
+    fontWeight: '700',
+    textAlign: 'center',
+  },
+  titleActive: {
+    color: c.success,
+  },
+  hint: {
+    color: c.textSubtle,
+    fontSize: 12,
+    textAlign: 'center',
+  },
+  urlRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: c.border,
+    borderRadius: 10,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    color: c.text,
+  },
+  button: {
+    backgroundColor: c.infoFill,
+    borderRadius: 10,
+    paddingHorizontal: 16,
+    justifyContent: 'center',
+  },
+  buttonText: {
+    color: c.onTone,
+    fontWeight: '800',
+  },
+  error: {
+    color: c.danger,
+    fontWeight: '700',
+  },
+}));
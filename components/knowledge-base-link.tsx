@@ -0,0 +1,59 @@
+import { Link } from 'expo-router';
+import { Pressable, Text, View } from 'react-native';
+
+import { useI18n } from '@/hooks/use-i18n';
+import { useKnowledgeBase } from '@/hooks/use-knowledge-base';
+import { createThemedStyles } from '@/hooks/use-theme-color';
+import { lookupEntry } from '@/lib/knowledge-base';
+
+/**
+ * Result card footer linking a model label to its knowledge base entry
+ */
+export function KnowledgeBaseLink({ label }: { label: string }) {
+  const styles = useStyles();
+  const { t } = useI18n();
+  const entry = lookupEntry(useKnowledgeBase(), label);
+
+  return (
+    <Link href={{ pathname: '/disease/[label]', params: { label } }} asChild>
+      <Pressable accessibilityRole="link" style={({ pressed }) => [styles.container, pressed && { opacity: 0.8 }]}>
+        <View style={{ flex: 1, gap: 2 }}>
+          <Text style={styles.title}>
+            {entry ? t('kbLink.title') : t('kbLink.missingTitle')}
+          </Text>
+          <Text style={styles.subtitle} numberOfLines={2}>
+            {entry ? entry.severity : t('kbLink.missing')}
+          </Text>
+        </View>
+        <Text style={styles.chevron}>›</Text>
+      </Pressable>
+    </Link>
+  );
+}
+
+const useStyles = createThemedStyles((c) => ({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    padding: 12,
+    borderRadius: 14,
+    backgroundColor: c.infoBackground,
+    borderWidth: 1,
+    borderColor: c.infoBorder,
+  },
+  title: {
+    color: c.info,
+    fontWeight: '800',
+  },
+  subtitle: {
+    color: c.textMuted,
+    fontSize: 12,
+    lineHeight: 16,
+  },
+  chevron: {
+    color: c.info,
+    fontSize: 24,
+    fontWeight: '800',
+  },
+}));
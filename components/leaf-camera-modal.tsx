@@ -0,0 +1,168 @@
+import { CameraView, type CameraCapturedPicture } from 'expo-camera';
+import { useRef, useState } from 'react';
+import { ActivityIndicator, Alert, Modal, Pressable, StyleSheet, Text, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+import { useI18n } from '@/hooks/use-i18n';
+
+type Props = {
+  visible: boolean;
+  onCapture: (picture: CameraCapturedPicture) => void;
+  onClose: () => void;
+};
+
+/**
+ * Full-screen camera viewfinder with a leaf-shaped framing guide.
+ * Camera permission must already be granted before this modal is shown.
+ */
+export function LeafCameraModal({ visible, onCapture, onClose }: Props) {
+  const { t } = useI18n();
+  const cameraRef = useRef<CameraView>(null);
+  const [ready, setReady] = useState(false);
+  const [capturing, setCapturing] = useState(false);
+
+  const takePicture = async () => {
+    if (!cameraRef.current || !ready || capturing) return;
+
+    try {
+      setCapturing(true);
+      // Full quality: the preprocessing step re-encodes the photo for upload
+      const picture = await cameraRef.current.takePictureAsync({ quality: 1 });
+      if (picture) onCapture(picture);
+    } catch (e: any) {
+      console.log('Camera error:', e?.message || e);
+      Alert.alert(t('camera.errorTitle'), t('camera.error'));
+    } finally {
+      setCapturing(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="fullScreen"
+      onRequestClose={onClose}
+      onShow={() => setReady(false)}>
+      <View style={styles.container}>
+        <CameraView
+          ref={cameraRef}
+          style={StyleSheet.absoluteFill}
+          facing="back"
+          onCameraReady={() => setReady(true)}
+        />
+
+        {/* Framing overlay: leaf outline centered in the viewfinder */}
+        <View pointerEvents="none" style={styles.overlay}>
+          <View style={styles.leafGuide} />
+        </View>
+
+        <SafeAreaView style={styles.chrome} pointerEvents="box-none">
+          <View style={styles.tips}>
+            <Text style={styles.tipTitle}>{t('camera.tipTitle')}</Text>
+            <Text style={styles.tipText}>{t('camera.tipDistance')}</Text>
+            <Text style={styles.tipText}>{t('camera.tipLight')}</Text>
+            <Text style={styles.tipText}>{t('camera.tipFocus')}</Text>
+          </View>
+
+          <View style={styles.controls}>
+            <Pressable onPress={onClose} accessibilityRole="button" hitSlop={10} style={styles.sideButton}>
+              <Text style={styles.sideButtonText}>{t('camera.cancel')}</Text>
+            </Pressable>
+
+            <Pressable
+              onPress={takePicture}
+              disabled={!ready || capturing}
+              accessibilityRole="button"
+              accessibilityLabel={t('camera.shutter')}
+              accessibilityState={{ disabled: !ready || capturing, busy: capturing }}
+              style={({ pressed }) => [
+                styles.shutter,
+                { opacity: !ready || capturing ? 0.5 : pressed ? 0.8 : 1 },
+              ]}>
+              {capturing ? <ActivityIndicator color="#0F172A" /> : <View style={styles.shutterInner} />}
+            </Pressable>
+
+            {/* Spacer keeps the shutter centered */}
+            <View style={styles.sideButton} />
+          </View>
+        </SafeAreaView>
+      </View>
+    </Modal>
+  );
+}
+
+const LEAF_SIZE = 240;
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: 'black',
+  },
+  overlay: {
+    ...StyleSheet.absoluteFillObject,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  // A square with two opposite corners fully rounded, turned 45° so the tips point up and down
+  leafGuide: {
+    width: LEAF_SIZE,
+    height: LEAF_SIZE,
+    borderWidth: 3,
+    borderColor: 'rgba(134, 239, 172, 0.95)',
+    borderTopLeftRadius: LEAF_SIZE,
+    borderBottomRightRadius: LEAF_SIZE,
+    transform: [{ rotate: '45deg' }],
+  },
+  chrome: {
+    flex: 1,
+    justifyContent: 'space-between',
+  },
+  tips: {
+    margin: 16,
+    padding: 12,
+    gap: 4,
+    borderRadius: 14,
+    backgroundColor: 'rgba(15, 23, 42, 0.65)',
+  },
+  tipTitle: {
+    color: 'white',
+    fontWeight: '800',
+    fontSize: 15,
+  },
+  tipText: {
+    color: '#E2E8F0',
+    fontSize: 12,
+    lineHeight: 17,
+  },
+  controls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 24,
+    paddingBottom: 24,
+  },
+  sideButton: {
+    width: 72,
+  },
+  sideButtonText: {
+    color: 'white',
+    fontWeight: '700',
+    fontSize: 16,
+  },
+  shutter: {
+    width: 76,
+    height: 76,
+    borderRadius: 38,
+    borderWidth: 4,
+    borderColor: 'white',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  shutterInner: {
+    width: 58,
+    height: 58,
+    borderRadius: 29,
+    backgroundColor: 'white',
+  },
+});
@@ -0,0 +1,180 @@
+import { Link } from 'expo-router';
+import { useState } from 'react';
+import { Image, Pressable, Text, View } from 'react-native';
+
+import { toneColors, type Tone } from '@/constants/theme';
+import { useI18n } from '@/hooks/use-i18n';
+import { useOutbox } from '@/hooks/use-outbox';
+import { createThemedStyles, useThemeColors } from '@/hooks/use-theme-color';
+import type { OutboxItem, OutboxStatus } from '@/lib/outbox';
+
+const STATUS_TONES: Record<OutboxStatus, Tone> = {
+  queued: 'warning',
+  uploading: 'info',
+  failed: 'danger',
+  done: 'success',
+};
+
+/**
+ * Compact banner for the capture outbox; expands into a per-item list with cancel and retry.
+ * Renders nothing while the outbox is empty and the device is online.
+ */
+export function OutboxIndicator() {
+  const styles = useStyles();
+  const colors = useThemeColors();
+  const { t } = useI18n();
+  const { items, online, cancel, retry, clearFinished } = useOutbox();
+  const [expanded, setExpanded] = useState(false);
+
+  const pending = items.filter((item) => item.status !== 'done').length;
+  const finished = items.length - pending;
+
+  if (items.length === 0 && online) return null;
+
+  const summary = [
+    online ? null : t('outbox.offline'),
+    pending > 0 ? t('outbox.waiting', { count: pending }) : null,
+    finished > 0 ? t('outbox.diagnosed', { count: finished }) : null,
+  ]
+    .filter(Boolean)
+    .join(' • ');
+
+  return (
+    <View style={styles.container}>
+      <Pressable
+        onPress={() => setExpanded(!expanded)}
+        accessibilityRole="button"
+        accessibilityState={{ expanded, disabled: items.length === 0 }}
+        style={styles.header}
+        disabled={items.length === 0}>
+        <View style={[styles.dot, { backgroundColor: online ? colors.successFill : colors.warningFill }]} />
+        <Text style={styles.summary}>{summary || t('outbox.title')}</Text>
+        {items.length > 0 && <Text style={styles.link}>{expanded ? t('outbox.hide') : t('outbox.show')}</Text>}
+      </Pressable>
+
+      {!online && pending > 0 && !expanded && (
+        <Text style={styles.muted}>{t('outbox.offlineHint')}</Text>
+      )}
+
+      {expanded && (
+        <View style={styles.list}>
+          {items.map((item) => (
+            <OutboxRow key={item.id} item={item} onCancel={() => cancel(item.id)} onRetry={() => retry(item.id)} />
+          ))}
+          {finished > 0 && (
+            <Pressable onPress={clearFinished} accessibilityRole="button" hitSlop={10}>
+              <Text style={styles.link}>{t('outbox.clearFinished')}</Text>
+            </Pressable>
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
+
+function OutboxRow({ item, onCancel, onRetry }: { item: OutboxItem; onCancel: () => void; onRetry: () => void }) {
+  const styles = useStyles();
+  const colors = useThemeColors();
+  const { t, formatDate } = useI18n();
+
+  return (
+    <View style={styles.row}>
+      <Image source={{ uri: item.imageUri }} style={styles.thumbnail} />
+      <View style={{ flex: 1, gap: 2 }}>
+        <Text style={[styles.rowStatus, { color: toneColors(colors, STATUS_TONES[item.status]).text }]}>
+          {t(`outbox.status.${item.status}`)}
+          {item.attempts > 0 && item.status !== 'done' ? ` • ${t('outbox.tries', { count: item.attempts })}` : ''}
+        </Text>
+        <Text style={styles.muted}>
+          {formatDate(item.createdAt)} • {item.serverProfile.name}
+        </Text>
+        {item.lastError && item.status !== 'done' && (
+          <Text style={styles.muted} numberOfLines={2}>
+            {item.lastError}
+          </Text>
+        )}
+      </View>
+
+      <View style={styles.actions}>
+        {item.status === 'done' && item.recordId ? (
+          <Link href={{ pathname: '/history/[id]', params: { id: item.recordId } }} asChild>
+            <Pressable hitSlop={8} accessibilityRole="link">
+              <Text style={styles.link}>{t('outbox.view')}</Text>
+            </Pressable>
+          </Link>
+        ) : (
+          <>
+            {item.status !== 'uploading' && (
+              <Pressable onPress={onRetry} accessibilityRole="button" hitSlop={8}>
+                <Text style={styles.link}>{t('outbox.retry')}</Text>
+              </Pressable>
+            )}
+            <Pressable onPress={onCancel} accessibilityRole="button" hitSlop={8}>
+              <Text style={styles.danger}>{t('outbox.cancel')}</Text>
+            </Pressable>
+          </>
+        )}
+      </View>
+    </View>
+  );
+}
+
+const useStyles = createThemedStyles((c) => ({
+  container: {
+    backgroundColor: c.card,
+    borderRadius: 14,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: c.border,
+    gap: 8,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  dot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  summary: {
+    flex: 1,
+    color: c.text,
+    fontWeight: '700',
+  },
+  list: {
+    gap: 10,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  thumbnail: {
+    width: 44,
+    height: 44,
+    borderRadius: 8,
+    backgroundColor: c.muted,
+  },
+  rowStatus: {
+    fontWeight: '700',
+    fontSize: 13,
+  },
+  actions: {
+    alignItems: 'flex-end',
+    gap: 6,
+  },
+  muted: {
+    color: c.textSubtle,
+    fontSize: 12,
+  },
+  link: {
+    color: c.link,
+    fontWeight: '800',
+  },
+  danger: {
+    color: c.danger,
+    fontWeight: '800',
+  },
+}));
@@ -0,0 +1,208 @@
+import { useMemo, useState } from 'react';
+import { FlatList, Modal, Pressable, Text, TextInput, View } from 'react-native';
+
+import { MODEL_LABELS } from '@/constants/model';
+import { useDiagnosisHistory } from '@/hooks/use-diagnosis-history';
+import { useFeedback } from '@/hooks/use-feedback';
+import { useI18n } from '@/hooks/use-i18n';
+import { createThemedStyles, useThemeColors } from '@/hooks/use-theme-color';
+import { confirmFeedback, correctedLabelName, correctionFeedback } from '@/lib/feedback';
+
+/**
+ * "Was this correct?" control for a saved diagnosis; a "no" asks for the right label,
+ * picked from the model's labels or typed in
+ */
+export function PredictionFeedback({ recordId }: { recordId: string }) {
+  const styles = useStyles();
+  const colors = useThemeColors();
+  const i18n = useI18n();
+  const { t } = i18n;
+  const { records } = useDiagnosisHistory();
+  const { submit } = useFeedback();
+  const [picking, setPicking] = useState(false);
+  const [query, setQuery] = useState('');
+
+  const record = records.find((r) => r.id === recordId);
+
+  // The model's other candidates first, then every label it knows
+  const options = useMemo(() => {
+    const candidates = (record?.topK ?? []).map((t) => t.label).filter((l) => l !== record?.prediction);
+    const all = [...candidates, ...MODEL_LABELS.filter((l) => !candidates.includes(l))];
+    const q = query.trim().toLowerCase();
+    return q ? all.filter((l) => i18n.labelName(l).toLowerCase().includes(q)) : all;
+  }, [record?.topK, record?.prediction, query, i18n]);
+
+  if (!record) return null;
+  const feedback = record.feedback;
+
+  const choose = async (label: string, freeText: boolean) => {
+    setPicking(false);
+    setQuery('');
+    await submit(recordId, correctionFeedback(label, freeText));
+  };
+
+  return (
+    <>
+      {feedback ? (
+        <View style={styles.container}>
+          <View style={{ flex: 1, gap: 2 }}>
+            <Text style={styles.title}>
+              {feedback.correct
+                ? t('feedback.confirmed')
+                : t('feedback.corrected', { label: correctedLabelName(feedback, i18n) ?? '' })}
+            </Text>
+            <Text style={styles.muted}>
+              {feedback.sentAt
+                ? t('feedback.sent')
+                : feedback.rejectedAt
+                  ? t('feedback.rejected')
+                  : t('feedback.pending')}
+            </Text>
+          </View>
+          <Pressable onPress={() => setPicking(true)} accessibilityRole="button" hitSlop={10}>
+            <Text style={styles.link}>{t('feedback.change')}</Text>
+          </Pressable>
+        </View>
+      ) : (
+        <View style={styles.container}>
+          <Text style={[styles.title, { flex: 1 }]}>{t('feedback.question')}</Text>
+          <Pressable
+            onPress={() => submit(recordId, confirmFeedback())}
+            accessibilityRole="button"
+            style={styles.answer}>
+            <Text style={styles.link}>{t('feedback.yes')}</Text>
+          </Pressable>
+          <Pressable onPress={() => setPicking(true)} accessibilityRole="button" style={styles.answer}>
+            <Text style={styles.danger}>{t('feedback.no')}</Text>
+          </Pressable>
+        </View>
+      )}
+
+      <Modal visible={picking} animationType="slide" transparent onRequestClose={() => setPicking(false)}>
+        <View style={styles.backdrop}>
+          <View style={styles.sheet}>
+            <Text style={styles.sheetTitle}>{t('feedback.pickerTitle')}</Text>
+            <TextInput
+              value={query}
+              onChangeText={setQuery}
+              placeholder={t('feedback.search')}
+              placeholderTextColor={colors.placeholder}
+              autoCorrect={false}
+              style={styles.search}
+            />
+            {query.trim().length > 0 && (
+              <Pressable onPress={() => choose(query, true)} accessibilityRole="button" style={styles.option}>
+                <Text style={styles.optionName}>{t('feedback.useTyped', { label: query.trim() })}</Text>
+                <Text style={styles.muted}>{t('feedback.notInList')}</Text>
+              </Pressable>
+            )}
+            <FlatList
+              data={options}
+              keyExtractor={(label) => label}
+              keyboardShouldPersistTaps="handled"
+              style={{ maxHeight: 320 }}
+              renderItem={({ item }) => (
+                <Pressable onPress={() => choose(item, false)} accessibilityRole="button" style={styles.option}>
+                  <Text style={styles.optionName}>{i18n.labelName(item)}</Text>
+                </Pressable>
+              )}
+            />
+            <View style={styles.actions}>
+              {feedback && !feedback.correct && (
+                <Pressable
+                  onPress={() => {
+                    setPicking(false);
+                    submit(recordId, confirmFeedback());
+                  }}
+                  accessibilityRole="button"
+                  hitSlop={10}>
+                  <Text style={styles.link}>{t('feedback.wasCorrect')}</Text>
+                </Pressable>
+              )}
+              <Pressable onPress={() => setPicking(false)} accessibilityRole="button" hitSlop={10}>
+                <Text style={styles.link}>{t('feedback.cancel')}</Text>
+              </Pressable>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </>
+  );
+}
+
+const useStyles = createThemedStyles((c) => ({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    padding: 12,
+    borderRadius: 14,
+    backgroundColor: c.screen,
+    borderWidth: 1,
+    borderColor: c.border,
+  },
+  title: {
+    color: c.text,
+    fontWeight: '800',
+  },
+  answer: {
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: c.border,
+    backgroundColor: c.card,
+  },
+  link: {
+    color: c.link,
+    fontWeight: '800',
+  },
+  danger: {
+    color: c.danger,
+    fontWeight: '800',
+  },
+  muted: {
+    color: c.textSubtle,
+    fontSize: 12,
+  },
+  backdrop: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(15, 23, 42, 0.4)',
+  },
+  sheet: {
+    backgroundColor: c.card,
+    borderTopLeftRadius: 18,
+    borderTopRightRadius: 18,
+    padding: 16,
+    paddingBottom: 32,
+    gap: 12,
+  },
+  sheetTitle: {
+    color: c.text,
+    fontWeight: '800',
+    fontSize: 16,
+  },
+  search: {
+    borderWidth: 1,
+    borderColor: c.border,
+    borderRadius: 10,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    color: c.text,
+  },
+  option: {
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: c.muted,
+    gap: 2,
+  },
+  optionName: {
+    color: c.text,
+    fontWeight: '700',
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+}));
@@ -0,0 +1,118 @@
+import { Pressable, Text, View } from 'react-native';
+
+import { useI18n } from '@/hooks/use-i18n';
+import { createThemedStyles } from '@/hooks/use-theme-color';
+import type { ImageQuality, QualityIssue } from '@/lib/image/quality';
+
+/**
+ * Failed photo quality checks with retake advice; the user can retake or send anyway
+ */
+export function QualityWarning({
+  issues,
+  onRetake,
+  onSendAnyway,
+}: {
+  issues: QualityIssue[];
+  onRetake: () => void;
+  onSendAnyway: () => void;
+}) {
+  const styles = useStyles();
+  const { t } = useI18n();
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>{t('quality.title')}</Text>
+      {issues.map((issue) => (
+        <View key={issue.check} style={styles.issue}>
+          <Text style={styles.message}>{t(`quality.${issue.check}`)}</Text>
+          <Text style={styles.advice}>{t(`quality.${issue.check}.advice`)}</Text>
+        </View>
+      ))}
+      <View style={styles.actions}>
+        <Pressable onPress={onRetake} accessibilityRole="button" style={styles.primaryButton}>
+          <Text style={styles.primaryText}>{t('quality.retake')}</Text>
+        </Pressable>
+        <Pressable onPress={onSendAnyway} accessibilityRole="button" style={styles.secondaryButton}>
+          <Text style={styles.secondaryText}>{t('quality.sendAnyway')}</Text>
+        </Pressable>
+      </View>
+    </View>
+  );
+}
+
+/**
+ * One-line summary of stored quality scores
+ */
+export function QualitySummary({ quality }: { quality: ImageQuality }) {
+  const styles = useStyles();
+  const { t, formatPercent } = useI18n();
+
+  return (
+    <Text style={styles.summary}>
+      {t('quality.summary', {
+        sharpness: quality.sharpness.toFixed(0),
+        brightness: quality.brightness.toFixed(0),
+        leaf: formatPercent(quality.leafCoverage * 100),
+      })}
+    </Text>
+  );
+}
+
+const useStyles = createThemedStyles((c) => ({
+  container: {
+    gap: 8,
+    padding: 12,
+    borderRadius: 14,
+    backgroundColor: c.warningBackground,
+    borderWidth: 1,
+    borderColor: c.warningBorder,
+  },
+  title: {
+    color: c.warning,
+    fontWeight: '800',
+  },
+  issue: {
+    gap: 2,
+  },
+  message: {
+    color: c.text,
+    fontWeight: '700',
+  },
+  advice: {
+    color: c.textMuted,
+    lineHeight: 18,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 10,
+    marginTop: 4,
+  },
+  primaryButton: {
+    flex: 1,
+    backgroundColor: c.warning,
+    borderRadius: 12,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  primaryText: {
+    color: c.onTone,
+    fontWeight: '800',
+  },
+  secondaryButton: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: c.warning,
+    borderRadius: 12,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  secondaryText: {
+    color: c.warning,
+    fontWeight: '800',
+  },
+  summary: {
+    color: c.textSubtle,
+    fontSize: 12,
+    lineHeight: 16,
+  },
+}));
@@ -0,0 +1,75 @@
+import { Text, View } from 'react-native';
+
+import { ProgressBar } from '@/components/ui/progress-bar';
+import { useI18n } from '@/hooks/use-i18n';
+import { createThemedStyles } from '@/hooks/use-theme-color';
+import type { TopKEntry } from '@/lib/api/schema';
+import { confidenceToPercent } from '@/lib/labels';
+
+/**
+ * Differential diagnosis: one bar per candidate label, most likely first and highlighted
+ */
+export function RankedPredictions({ entries }: { entries: TopKEntry[] }) {
+  const styles = useStyles();
+  const { labelName, formatPercent } = useI18n();
+
+  return (
+    <View style={styles.list}>
+      {entries.map((entry, index) => {
+        const pct = confidenceToPercent(entry.probability) ?? 0;
+        const top = index === 0;
+
+        return (
+          <View key={entry.label} style={[styles.row, top && styles.topRow]}>
+            <View style={styles.labels}>
+              <Text style={[styles.label, top && styles.topLabel]}>
+                {index + 1}. {labelName(entry.label)}
+              </Text>
+              <Text style={[styles.pct, top && styles.topLabel]}>{formatPercent(pct)}</Text>
+            </View>
+            <ProgressBar
+              value={pct}
+              tone={top ? 'success' : 'neutral'}
+              height={8}
+              label={labelName(entry.label)}
+            />
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const useStyles = createThemedStyles((c) => ({
+  list: {
+    gap: 8,
+  },
+  row: {
+    gap: 6,
+    padding: 8,
+    borderRadius: 12,
+  },
+  topRow: {
+    backgroundColor: c.successBackground,
+    borderWidth: 1,
+    borderColor: c.successBorder,
+  },
+  labels: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  label: {
+    flex: 1,
+    color: c.textMuted,
+    fontWeight: '600',
+  },
+  topLabel: {
+    color: c.success,
+    fontWeight: '800',
+  },
+  pct: {
+    color: c.text,
+    fontWeight: '700',
+  },
+}));
@@ -0,0 +1,94 @@
+import { useState } from 'react';
+import { ActivityIndicator, Alert, Pressable, Text, View } from 'react-native';
+
+import { useDiagnosisHistory } from '@/hooks/use-diagnosis-history';
+import { useDiagnosisSettings } from '@/hooks/use-diagnosis-settings';
+import { useI18n } from '@/hooks/use-i18n';
+import { useKnowledgeBase } from '@/hooks/use-knowledge-base';
+import { usePlantProfiles } from '@/hooks/use-plant-profiles';
+import { createThemedStyles, useThemeColors } from '@/hooks/use-theme-color';
+import { confidenceBand } from '@/lib/confidence';
+import { lookupEntry } from '@/lib/knowledge-base';
+import { shareReport, type ReportFormat } from '@/lib/report';
+
+/**
+ * Exports a saved diagnosis as a PDF or HTML report through the share sheet
+ */
+export function ShareReportButton({ recordId }: { recordId: string }) {
+  const styles = useStyles();
+  const colors = useThemeColors();
+  const { t } = useI18n();
+  const { records } = useDiagnosisHistory();
+  const { plants } = usePlantProfiles();
+  const kb = useKnowledgeBase();
+  const { settings } = useDiagnosisSettings();
+  const [busy, setBusy] = useState(false);
+
+  const record = records.find((r) => r.id === recordId);
+  if (!record) return null;
+
+  const share = async (format: ReportFormat) => {
+    setBusy(true);
+    try {
+      await shareReport(
+        {
+          record,
+          entry: lookupEntry(kb, record.prediction),
+          plant: plants.find((p) => p.id === record.plantId) ?? null,
+          band: confidenceBand(record, settings.confidence),
+        },
+        format
+      );
+    } catch (e: any) {
+      Alert.alert(t('share.failed'), e?.message || String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <View style={styles.row}>
+      <Text style={styles.title}>{t('share.title')}</Text>
+      {busy ? (
+        <ActivityIndicator color={colors.link} />
+      ) : (
+        (['pdf', 'html'] as const).map((format) => (
+          <Pressable
+            key={format}
+            onPress={() => share(format)}
+            accessibilityRole="button"
+            accessibilityLabel={t('share.as', { format: format.toUpperCase() })}
+            style={styles.button}>
+            <Text style={styles.text}>{format.toUpperCase()}</Text>
+          </Pressable>
+        ))
+      )}
+    </View>
+  );
+}
+
+const useStyles = createThemedStyles((c) => ({
+  title: {
+    flex: 1,
+    color: c.text,
+    fontWeight: '800',
+  },
+  button: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: c.infoBorder,
+    backgroundColor: c.infoBackground,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingTop: 4,
+  },
+  text: {
+    color: c.link,
+    fontWeight: '800',
+  },
+}));
@@ -0,0 +1,66 @@
+import { Link } from 'expo-router';
+import { Pressable, Text, View } from 'react-native';
+
+import { useI18n } from '@/hooks/use-i18n';
+import { useReminders } from '@/hooks/use-reminders';
+import { createThemedStyles } from '@/hooks/use-theme-color';
+import { reminderOccurrences } from '@/lib/reminders';
+
+/**
+ * Result card link to plan treatment reminders and a follow-up photo for a saved diagnosis
+ */
+export function TreatmentPlanLink({ recordId }: { recordId: string }) {
+  const styles = useStyles();
+  const { t } = useI18n();
+  const { reminders } = useReminders();
+
+  const now = Date.now();
+  const upcoming = reminders
+    .filter((r) => r.recordId === recordId)
+    .flatMap(reminderOccurrences)
+    .filter((o) => !o.done && new Date(o.at).getTime() > now).length;
+
+  return (
+    <Link href={{ pathname: '/reminders/new', params: { recordId } }} asChild>
+      <Pressable
+        accessibilityRole="link"
+        style={({ pressed }) => [styles.container, pressed && { opacity: 0.8 }]}>
+        <View style={{ flex: 1, gap: 2 }}>
+          <Text style={styles.title}>
+            {upcoming > 0 ? t('planLink.upcoming', { count: upcoming }) : t('planLink.title')}
+          </Text>
+          <Text style={styles.subtitle}>{upcoming > 0 ? t('planLink.hintPlanned') : t('planLink.hint')}
+          </Text>
+        </View>
+        <Text style={styles.chevron}>›</Text>
+      </Pressable>
+    </Link>
+  );
+}
+
+const useStyles = createThemedStyles((c) => ({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    padding: 12,
+    borderRadius: 14,
+    backgroundColor: c.successBackground,
+    borderWidth: 1,
+    borderColor: c.successBorder,
+  },
+  title: {
+    color: c.success,
+    fontWeight: '800',
+  },
+  subtitle: {
+    color: c.textMuted,
+    fontSize: 12,
+    lineHeight: 16,
+  },
+  chevron: {
+    color: c.success,
+    fontSize: 24,
+    fontWeight: '800',
+  },
+}));
@@ -0,0 +1,26 @@
+import { Text, View } from 'react-native';
+
+import { toneColors, type Tone } from '@/constants/theme';
+import { useThemeColors } from '@/hooks/use-theme-color';
+
+/**
+ * Pill-shaped status label in a semantic tone
+ */
+export function Badge({ label, tone = 'neutral' }: { label: string; tone?: Tone }) {
+  const colors = toneColors(useThemeColors(), tone);
+
+  return (
+    <View
+      style={{
+        paddingVertical: 6,
+        paddingHorizontal: 10,
+        borderRadius: 999,
+        backgroundColor: colors.background,
+        borderWidth: 1,
+        borderColor: colors.border,
+        flexShrink: 1,
+      }}>
+      <Text style={{ color: colors.text, fontWeight: '800', fontSize: 12 }}>{label}</Text>
+    </View>
+  );
+}
@@ -0,0 +1,27 @@
+import { View, type ViewProps } from 'react-native';
+
+import { createThemedStyles } from '@/hooks/use-theme-color';
+
+/**
+ * Rounded, bordered surface that groups one section of a screen
+ */
+export function Card({ style, ...rest }: ViewProps) {
+  const styles = useStyles();
+  return <View style={[styles.card, style]} {...rest} />;
+}
+
+const useStyles = createThemedStyles((c) => ({
+  card: {
+    backgroundColor: c.card,
+    borderRadius: 18,
+    padding: 14,
+    borderWidth: 1,
+    borderColor: c.border,
+    gap: 12,
+    shadowColor: '#000',
+    shadowOpacity: 0.06,
+    shadowRadius: 10,
+    shadowOffset: { width: 0, height: 6 },
+    elevation: 2,
+  },
+}));
@@ -0,0 +1,33 @@
+import { View } from 'react-native';
+
+import { toneColors, type Tone } from '@/constants/theme';
+import { useThemeColors } from '@/hooks/use-theme-color';
+
+type ProgressBarProps = {
+  value: number;
+  tone?: Tone;
+  height?: number;
+  /** What the bar measures, announced by screen readers with its value */
+  label?: string;
+};
+
+/**
+ * Horizontal bar filled to `value` percent (clamped to 0-100)
+ */
+export function ProgressBar({ value, tone = 'info', height = 10, label }: ProgressBarProps) {
+  const colors = useThemeColors();
+  const pct = Math.min(100, Math.max(0, value));
+
+  return (
+    <View
+      accessible
+      accessibilityRole="progressbar"
+      accessibilityLabel={label}
+      accessibilityValue={{ min: 0, max: 100, now: Math.round(pct) }}
+      style={{ height, borderRadius: 999, backgroundColor: colors.border, overflow: 'hidden' }}>
+      <View
+        style={{ width: `${pct}%`, height: '100%', borderRadius: 999, backgroundColor: toneColors(colors, tone).fill }}
+      />
+    </View>
+  );
+}
@@ -0,0 +1,35 @@
+import type { ReactNode } from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+
+import { useThemeColors } from '@/hooks/use-theme-color';
+
+/**
+ * Card title with an optional element (badge, link) on the right
+ */
+export function SectionHeader({ title, right }: { title: string; right?: ReactNode }) {
+  const colors = useThemeColors();
+
+  return (
+    <View style={styles.row}>
+      <Text style={[styles.title, { color: colors.text }]} accessibilityRole="header">
+        {title}
+      </Text>
+      {right}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: 10,
+  },
+  title: {
+    flexShrink: 1,
+    fontWeight: '800',
+    fontSize: 16,
+  },
+});
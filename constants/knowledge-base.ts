@@ -0,0 +1,371 @@
+import type { KnowledgeBase } from '@/lib/knowledge-base';
+
+/**
+ * Knowledge base bundled with the app. Keys are normalized model labels.
+ * Bump `version` whenever the content changes so downloaded copies are compared correctly.
+ * Chemical options name active ingredients only; always follow the product label and local regulations.
+ */
+export const BUNDLED_KNOWLEDGE_BASE: KnowledgeBase = {
+  version: 1,
+  updatedAt: '2026-10-01',
+  entries: {
+    tomato_early_blight: {
+      name: 'Early blight',
+      crop: 'Tomato',
+      pathogenType: 'fungal',
+      symptoms: [
+        'Brown spots with concentric rings ("target" pattern) on older, lower leaves',
+        'Yellow halo around spots; leaves yellow and drop from the bottom up',
+        'Dark, sunken lesions near the stem end of fruit',
+      ],
+      treatment: {
+        organic: [
+          'Remove and destroy affected lower leaves',
+          'Spray copper-based fungicide or Bacillus subtilis products at 7–10 day intervals',
+          'Mulch the soil to stop spores splashing onto leaves',
+        ],
+        chemical: ['Chlorothalonil', 'Mancozeb', 'Azoxystrobin (rotate with other groups)'],
+      },
+      prevention: [
+        'Rotate away from tomato, potato and eggplant for 2–3 years',
+        'Water at the base in the morning; avoid wetting foliage',
+        'Stake and prune for airflow; remove crop debris after harvest',
+      ],
+      severity: 'Moderate. Spreads steadily in warm, humid weather and can defoliate plants if untreated.',
+    },
+    tomato_late_blight: {
+      name: 'Late blight',
+      crop: 'Tomato',
+      pathogenType: 'oomycete',
+      symptoms: [
+        'Large, greasy grey-green to brown patches on leaves, often starting at the tips',
+        'White fuzzy growth on the leaf underside in humid conditions',
+        'Firm, brown, greasy blotches on fruit',
+      ],
+      treatment: {
+        organic: [
+          'Remove and bag infected plants immediately; do not compost',
+          'Protect healthy plants with copper-based sprays before infection spreads',
+        ],
+        chemical: ['Mancozeb', 'Chlorothalonil', 'Mandipropamid', 'Cymoxanil combinations'],
+      },
+      prevention: [
+        'Plant resistant varieties and certified disease-free transplants',
+        'Destroy volunteer potatoes and tomatoes',
+        'Keep foliage dry and spacing wide; monitor closely during cool, wet spells',
+      ],
+      severity: 'High. Can destroy a field within days in cool, wet weather. Act immediately.',
+    },
+    tomato_bacterial_spot: {
+      name: 'Bacterial spot',
+      crop: 'Tomato',
+      pathogenType: 'bacterial',
+      symptoms: [
+        'Small, dark, water-soaked spots on leaves, sometimes with a yellow halo',
+        'Spots merge and leaves turn yellow and drop',
+        'Raised, scabby spots on fruit',
+      ],
+      treatment: {
+        organic: ['Remove infected leaves', 'Copper sprays applied early can slow spread'],
+        chemical: ['Copper hydroxide combined with mancozeb', 'Acibenzolar-S-methyl (plant defence activator)'],
+      },
+      prevention: [
+        'Use disease-free seed and transplants',
+        'Avoid overhead irrigation and working among wet plants',
+        'Rotate crops and remove plant debris',
+      ],
+      severity: 'Moderate to high in warm, rainy weather; reduces yield and fruit quality.',
+    },
+    tomato_leaf_mold: {
+      name: 'Leaf mould',
+      crop: 'Tomato',
+      pathogenType: 'fungal',
+      symptoms: [
+        'Pale green to yellow spots on the upper leaf surface',
+        'Olive-green to brown velvety growth on the underside',
+      ],
+      treatment: {
+        organic: ['Improve ventilation and reduce humidity', 'Remove affected leaves', 'Copper or sulphur sprays'],
+        chemical: ['Chlorothalonil', 'Difenoconazole'],
+      },
+      prevention: [
+        'Keep greenhouse humidity below 85%',
+        'Space plants and prune lower leaves for airflow',
+        'Grow resistant varieties',
+      ],
+      severity: 'Moderate. Mainly a problem in greenhouses and tunnels with high humidity.',
+    },
+    tomato_septoria_leaf_spot: {
+      name: 'Septoria leaf spot',
+      crop: 'Tomato',
+      pathogenType: 'fungal',
+      symptoms: [
+        'Many small circular spots with dark borders and grey centres on lower leaves',
+        'Tiny black dots (fruiting bodies) in the spot centres',
+      ],
+      treatment: {
+        organic: ['Remove infected leaves', 'Copper-based fungicide sprays'],
+        chemical: ['Chlorothalonil', 'Mancozeb'],
+      },
+      prevention: ['Crop rotation', 'Mulch and drip irrigation', 'Remove weeds of the nightshade family'],
+      severity: 'Moderate. Causes heavy leaf loss, which exposes fruit to sunscald.',
+    },
+    tomato_spider_mites_two_spotted_spider_mite: {
+      name: 'Two-spotted spider mite',
+      crop: 'Tomato',
+      pathogenType: 'pest',
+      symptoms: [
+        'Fine yellow or white stippling on leaves',
+        'Fine webbing on the leaf underside and between stems',
+        'Leaves turn bronze and dry out',
+      ],
+      treatment: {
+        organic: [
+          'Spray the leaf underside with water to knock mites off',
+          'Insecticidal soap or neem oil',
+          'Release predatory mites (Phytoseiulus persimilis)',
+        ],
+        chemical: ['Abamectin', 'Spiromesifen', 'Bifenazate'],
+      },
+      prevention: ['Avoid drought stress', 'Control weeds', 'Avoid broad-spectrum insecticides that kill natural enemies'],
+      severity: 'Moderate. Populations explode in hot, dry weather.',
+    },
+    tomato_target_spot: {
+      name: 'Target spot',
+      crop: 'Tomato',
+      pathogenType: 'fungal',
+      symptoms: [
+        'Brown spots with light centres and concentric rings on leaves',
+        'Sunken spots on fruit',
+      ],
+      treatment: {
+        organic: ['Remove lower infected leaves', 'Improve airflow', 'Copper sprays'],
+        chemical: ['Chlorothalonil', 'Azoxystrobin', 'Boscalid'],
+      },
+      prevention: ['Rotate crops', 'Remove crop debris', 'Avoid dense canopies'],
+      severity: 'Moderate. Favoured by warm, humid conditions.',
+    },
+    tomato_tomato_yellow_leaf_curl_virus: {
+      name: 'Tomato yellow leaf curl virus',
+      crop: 'Tomato',
+      pathogenType: 'viral',
+      symptoms: [
+        'Upward curling and cupping of leaves',
+        'Yellow leaf margins and stunted growth',
+        'Flower drop and poor fruit set',
+      ],
+      treatment: {
+        organic: [
+          'No cure: remove and destroy infected plants',
+          'Control whiteflies with yellow sticky traps and insect netting',
+        ],
+        chemical: ['Whitefly control only: imidacloprid, spirotetramat, pyriproxyfen'],
+      },
+      prevention: [
+        'Plant resistant varieties',
+        'Use insect-proof nurseries for transplants',
+        'Keep a host-free period between crops',
+      ],
+      severity: 'High. Infected young plants may give little or no yield.',
+    },
+    tomato_tomato_mosaic_virus: {
+      name: 'Tomato mosaic virus',
+      crop: 'Tomato',
+      pathogenType: 'viral',
+      symptoms: ['Light and dark green mottling of leaves', 'Distorted, fern-like leaves', 'Uneven fruit ripening'],
+      treatment: {
+        organic: ['No cure: remove infected plants', 'Disinfect tools and wash hands after handling plants'],
+        chemical: ['None effective'],
+      },
+      prevention: [
+        'Use certified seed and resistant varieties',
+        'Do not use tobacco products near plants (virus spreads by touch)',
+        'Disinfect stakes, trays and tools',
+      ],
+      severity: 'Moderate. Spreads easily by hands and tools.',
+    },
+    tomato_healthy: {
+      name: 'Healthy',
+      crop: 'Tomato',
+      pathogenType: 'none',
+      symptoms: ['No disease symptoms detected'],
+      treatment: { organic: ['No treatment needed'], chemical: ['No treatment needed'] },
+      prevention: ['Keep scouting weekly', 'Maintain balanced fertilisation and even watering'],
+      severity: 'None.',
+    },
+    potato_early_blight: {
+      name: 'Early blight',
+      crop: 'Potato',
+      pathogenType: 'fungal',
+      symptoms: [
+        'Dark brown spots with concentric rings on older leaves',
+        'Yellowing around spots and premature leaf drop',
+      ],
+      treatment: {
+        organic: ['Remove badly affected leaves', 'Copper-based sprays'],
+        chemical: ['Chlorothalonil', 'Mancozeb', 'Difenoconazole'],
+      },
+      prevention: ['Rotate crops', 'Adequate nitrogen to avoid stressed plants', 'Remove haulm and debris after harvest'],
+      severity: 'Moderate. Reduces tuber yield when defoliation is early.',
+    },
+    potato_late_blight: {
+      name: 'Late blight',
+      crop: 'Potato',
+      pathogenType: 'oomycete',
+      symptoms: [
+        'Water-soaked, dark patches on leaves with white growth underneath',
+        'Brown lesions on stems',
+        'Reddish-brown dry rot in tubers',
+      ],
+      treatment: {
+        organic: ['Destroy infected plants', 'Protective copper sprays on healthy plants'],
+        chemical: ['Mancozeb', 'Cymoxanil combinations', 'Fluazinam', 'Mandipropamid'],
+      },
+      prevention: [
+        'Plant certified seed potatoes',
+        'Hill soil over tubers',
+        'Destroy cull piles and volunteer plants',
+      ],
+      severity: 'High. Spreads very fast in cool, wet weather and infects stored tubers.',
+    },
+    potato_healthy: {
+      name: 'Healthy',
+      crop: 'Potato',
+      pathogenType: 'none',
+      symptoms: ['No disease symptoms detected'],
+      treatment: { organic: ['No treatment needed'], chemical: ['No treatment needed'] },
+      prevention: ['Keep scouting, especially after rain', 'Use certified seed'],
+      severity: 'None.',
+    },
+    pepper_bell_bacterial_spot: {
+      name: 'Bacterial spot',
+      crop: 'Bell pepper',
+      pathogenType: 'bacterial',
+      symptoms: [
+        'Small water-soaked spots that turn brown with yellow halos',
+        'Leaf drop exposing fruit to sunscald',
+        'Raised, scabby lesions on fruit',
+      ],
+      treatment: {
+        organic: ['Remove infected leaves', 'Copper sprays early in the outbreak'],
+        chemical: ['Copper hydroxide combined with mancozeb'],
+      },
+      prevention: ['Hot-water treated or certified seed', 'Avoid overhead watering', 'Rotate for 2–3 years'],
+      severity: 'Moderate to high in warm, wet weather.',
+    },
+    pepper_bell_healthy: {
+      name: 'Healthy',
+      crop: 'Bell pepper',
+      pathogenType: 'none',
+      symptoms: ['No disease symptoms detected'],
+      treatment: { organic: ['No treatment needed'], chemical: ['No treatment needed'] },
+      prevention: ['Keep scouting weekly'],
+      severity: 'None.',
+    },
+    apple_apple_scab: {
+      name: 'Apple scab',
+      crop: 'Apple',
+      pathogenType: 'fungal',
+      symptoms: ['Olive-green to black velvety spots on leaves', 'Cracked, corky scabs on fruit'],
+      treatment: {
+        organic: ['Rake and destroy fallen leaves', 'Sulphur or lime-sulphur sprays from bud break'],
+        chemical: ['Captan', 'Myclobutanil', 'Difenoconazole'],
+      },
+      prevention: ['Plant scab-resistant cultivars', 'Prune for an open canopy', 'Shred or compost leaf litter in autumn'],
+      severity: 'Moderate. Mostly cosmetic on fruit but weakens trees over seasons.',
+    },
+    apple_black_rot: {
+      name: 'Black rot',
+      crop: 'Apple',
+      pathogenType: 'fungal',
+      symptoms: ['Purple-edged "frog-eye" spots on leaves', 'Rotting fruit with rings', 'Cankers on branches'],
+      treatment: {
+        organic: ['Prune out cankers and mummified fruit', 'Copper or sulphur sprays'],
+        chemical: ['Captan', 'Thiophanate-methyl'],
+      },
+      prevention: ['Remove dead wood and fruit mummies', 'Avoid bark wounds'],
+      severity: 'Moderate. Causes fruit loss and branch dieback.',
+    },
+    apple_cedar_apple_rust: {
+      name: 'Cedar apple rust',
+      crop: 'Apple',
+      pathogenType: 'fungal',
+      symptoms: ['Bright orange-yellow spots on upper leaf surface', 'Tube-like structures on the leaf underside'],
+      treatment: {
+        organic: ['Sulphur sprays in spring', 'Remove nearby juniper galls'],
+        chemical: ['Myclobutanil', 'Mancozeb'],
+      },
+      prevention: ['Plant resistant cultivars', 'Keep distance from junipers (alternate host)'],
+      severity: 'Low to moderate. Heavy infections cause early leaf drop.',
+    },
+    apple_healthy: {
+      name: 'Healthy',
+      crop: 'Apple',
+      pathogenType: 'none',
+      symptoms: ['No disease symptoms detected'],
+      treatment: { organic: ['No treatment needed'], chemical: ['No treatment needed'] },
+      prevention: ['Keep scouting during wet spring weather'],
+      severity: 'None.',
+    },
+    corn_maize_common_rust: {
+      name: 'Common rust',
+      crop: 'Maize',
+      pathogenType: 'fungal',
+      symptoms: ['Cinnamon-brown powdery pustules on both leaf surfaces'],
+      treatment: {
+        organic: ['Usually not needed on tolerant hybrids'],
+        chemical: ['Azoxystrobin', 'Propiconazole (when infection is early and severe)'],
+      },
+      prevention: ['Plant resistant hybrids', 'Plant early to avoid peak spore periods'],
+      severity: 'Low to moderate on most hybrids.',
+    },
+    corn_maize_northern_leaf_blight: {
+      name: 'Northern leaf blight',
+      crop: 'Maize',
+      pathogenType: 'fungal',
+      symptoms: ['Long, cigar-shaped grey-green to tan lesions on leaves'],
+      treatment: {
+        organic: ['Remove crop residue', 'Rotate with non-host crops'],
+        chemical: ['Azoxystrobin', 'Propiconazole', 'Pyraclostrobin'],
+      },
+      prevention: ['Resistant hybrids', 'Tillage or residue management', 'Crop rotation'],
+      severity: 'Moderate to high when lesions reach upper leaves before grain fill.',
+    },
+    corn_maize_cercospora_leaf_spot_gray_leaf_spot: {
+      name: 'Grey leaf spot',
+      crop: 'Maize',
+      pathogenType: 'fungal',
+      symptoms: ['Rectangular grey to tan lesions bounded by leaf veins'],
+      treatment: {
+        organic: ['Residue management and rotation'],
+        chemical: ['Azoxystrobin', 'Pyraclostrobin', 'Propiconazole'],
+      },
+      prevention: ['Resistant hybrids', 'Rotate away from maize for a season'],
+      severity: 'High in humid areas; can cause major yield loss.',
+    },
+    grape_black_rot: {
+      name: 'Black rot',
+      crop: 'Grape',
+      pathogenType: 'fungal',
+      symptoms: ['Tan leaf spots with dark borders and black dots', 'Berries shrivel into hard black mummies'],
+      treatment: {
+        organic: ['Remove mummified berries and infected canes', 'Copper or sulphur sprays'],
+        chemical: ['Myclobutanil', 'Mancozeb', 'Captan'],
+      },
+      prevention: ['Prune for airflow', 'Remove mummies before bud break'],
+      severity: 'High. Can destroy the crop in wet seasons.',
+    },
+    grape_esca_black_measles: {
+      name: 'Esca (black measles)',
+      crop: 'Grape',
+      pathogenType: 'fungal',
+      symptoms: ['"Tiger stripe" yellow or red bands between leaf veins', 'Dark spots on berries', 'Sudden vine collapse'],
+      treatment: {
+        organic: ['Prune out infected wood well below symptoms', 'Protect pruning wounds'],
+        chemical: ['No curative treatment; wound protectants only'],
+      },
+      prevention: ['Prune in dry weather', 'Seal large pruning wounds', 'Remove dead vines'],
+      severity: 'High over time. A chronic trunk disease that shortens vine life.',
+    },
+  },
+};
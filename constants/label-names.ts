@@ -0,0 +1,105 @@
+import type { MODEL_LABELS } from '@/constants/model';
+
+/**
+ * Display names of the model labels per locale, built from the crop and the condition.
+ * Labels missing here (e.g. from a newer server model) fall back to `prettyLabel`.
+ */
+
+type LabelLocale = 'en' | 'si' | 'ta';
+type Names = Record<LabelLocale, string>;
+
+const CROPS = {
+  apple: { en: 'Apple', si: 'ඇපල්', ta: 'ஆப்பிள்' },
+  blueberry: { en: 'Blueberry', si: 'බ්ලූබෙරි', ta: 'புளூபெர்ரி' },
+  cherry: { en: 'Cherry', si: 'චෙරි', ta: 'செர்ரி' },
+  corn: { en: 'Maize', si: 'බඩ ඉරිඟු', ta: 'மக்காச்சோளம்' },
+  grape: { en: 'Grape', si: 'මිදි', ta: 'திராட்சை' },
+  orange: { en: 'Orange', si: 'දොඩම්', ta: 'ஆரஞ்சு' },
+  peach: { en: 'Peach', si: 'පීච්', ta: 'பீச்' },
+  pepper: { en: 'Bell pepper', si: 'මාළු මිරිස්', ta: 'குடைமிளகாய்' },
+  potato: { en: 'Potato', si: 'අර්තාපල්', ta: 'உருளைக்கிழங்கு' },
+  raspberry: { en: 'Raspberry', si: 'රාස්බෙරි', ta: 'ராஸ்பெர்ரி' },
+  soybean: { en: 'Soybean', si: 'සෝයා බෝංචි', ta: 'சோயா அவரை' },
+  squash: { en: 'Squash', si: 'වට්ටක්කා', ta: 'பூசணி' },
+  strawberry: { en: 'Strawberry', si: 'ස්ට්‍රෝබෙරි', ta: 'ஸ்ட்ராபெர்ரி' },
+  tomato: { en: 'Tomato', si: 'තක්කාලි', ta: 'தக்காளி' },
+} satisfies Record<string, Names>;
+
+const CONDITIONS = {
+  healthy: { en: 'healthy', si: 'නිරෝගී', ta: 'ஆரோக்கியமானது' },
+  scab: { en: 'scab', si: 'කොරපොතු රෝගය', ta: 'சொறி நோய்' },
+  blackRot: { en: 'black rot', si: 'කළු කුණුවීම', ta: 'கருப்பு அழுகல்' },
+  cedarRust: { en: 'cedar apple rust', si: 'සීඩර් මලකඩ රෝගය', ta: 'சீடார் துரு நோய்' },
+  powderyMildew: { en: 'powdery mildew', si: 'පිටි පුස් රෝගය', ta: 'சாம்பல் நோய்' },
+  grayLeafSpot: { en: 'gray leaf spot', si: 'අළු පත්‍ර පුල්ලි රෝගය', ta: 'சாம்பல் இலைப்புள்ளி நோய்' },
+  commonRust: { en: 'common rust', si: 'පොදු මලකඩ රෝගය', ta: 'பொதுவான துரு நோய்' },
+  northernLeafBlight: { en: 'northern leaf blight', si: 'උතුරු පත්‍ර අංගමාරය', ta: 'வடக்கு இலைக் கருகல் நோய்' },
+  esca: { en: 'esca (black measles)', si: 'එස්කා (කළු සරම්ප)', ta: 'எஸ்கா (கருப்புத் தட்டம்மை)' },
+  leafBlight: { en: 'leaf blight', si: 'පත්‍ර අංගමාරය', ta: 'இலைக் கருகல் நோய்' },
+  citrusGreening: { en: 'citrus greening (HLB)', si: 'සිට්‍රස් හරිතකරණය (HLB)', ta: 'சிட்ரஸ் பசுமையாதல் (HLB)' },
+  bacterialSpot: { en: 'bacterial spot', si: 'බැක්ටීරියා පුල්ලි රෝගය', ta: 'பாக்டீரியா புள்ளி நோய்' },
+  earlyBlight: { en: 'early blight', si: 'මුල් අංගමාරය', ta: 'முன் கருகல் நோய்' },
+  lateBlight: { en: 'late blight', si: 'පසු අංගමාරය', ta: 'பின் கருகல் நோய்' },
+  leafScorch: { en: 'leaf scorch', si: 'පත්‍ර පිළිස්සීම', ta: 'இலை தீய்தல்' },
+  leafMold: { en: 'leaf mold', si: 'පත්‍ර පුස් රෝගය', ta: 'இலைப் பூஞ்சை நோய்' },
+  septoriaLeafSpot: { en: 'septoria leaf spot', si: 'සෙප්ටෝරියා පත්‍ර පුල්ලි', ta: 'செப்டோரியா இலைப்புள்ளி நோய்' },
+  spiderMites: { en: 'spider mites', si: 'මකුළු මයිටාවන්', ta: 'சிலந்திப் பேன்' },
+  targetSpot: { en: 'target spot', si: 'ඉලක්ක පුල්ලි රෝගය', ta: 'இலக்குப் புள்ளி நோய்' },
+  yellowLeafCurl: { en: 'yellow leaf curl virus', si: 'කහ පත්‍ර කොඩවීමේ වෛරසය', ta: 'மஞ்சள் இலைச் சுருள் வைரஸ்' },
+  mosaicVirus: { en: 'mosaic virus', si: 'මොසෙයික් වෛරසය', ta: 'மொசைக் வைரஸ்' },
+} satisfies Record<string, Names>;
+
+type Crop = keyof typeof CROPS;
+type Condition = keyof typeof CONDITIONS;
+
+/** Crop and condition of every model label */
+const LABEL_PARTS: Record<(typeof MODEL_LABELS)[number], [Crop, Condition]> = {
+  apple_apple_scab: ['apple', 'scab'],
+  apple_black_rot: ['apple', 'blackRot'],
+  apple_cedar_apple_rust: ['apple', 'cedarRust'],
+  apple_healthy: ['apple', 'healthy'],
+  blueberry_healthy: ['blueberry', 'healthy'],
+  cherry_including_sour_powdery_mildew: ['cherry', 'powderyMildew'],
+  cherry_including_sour_healthy: ['cherry', 'healthy'],
+  corn_maize_cercospora_leaf_spot_gray_leaf_spot: ['corn', 'grayLeafSpot'],
+  corn_maize_common_rust: ['corn', 'commonRust'],
+  corn_maize_northern_leaf_blight: ['corn', 'northernLeafBlight'],
+  corn_maize_healthy: ['corn', 'healthy'],
+  grape_black_rot: ['grape', 'blackRot'],
+  grape_esca_black_measles: ['grape', 'esca'],
+  grape_leaf_blight_isariopsis_leaf_spot: ['grape', 'leafBlight'],
+  grape_healthy: ['grape', 'healthy'],
+  orange_haunglongbing_citrus_greening: ['orange', 'citrusGreening'],
+  peach_bacterial_spot: ['peach', 'bacterialSpot'],
+  peach_healthy: ['peach', 'healthy'],
+  pepper_bell_bacterial_spot: ['pepper', 'bacterialSpot'],
+  pepper_bell_healthy: ['pepper', 'healthy'],
+  potato_early_blight: ['potato', 'earlyBlight'],
+  potato_late_blight: ['potato', 'lateBlight'],
+  potato_healthy: ['potato', 'healthy'],
+  raspberry_healthy: ['raspberry', 'healthy'],
+  soybean_healthy: ['soybean', 'healthy'],
+  squash_powdery_mildew: ['squash', 'powderyMildew'],
+  strawberry_leaf_scorch: ['strawberry', 'leafScorch'],
+  strawberry_healthy: ['strawberry', 'healthy'],
+  tomato_bacterial_spot: ['tomato', 'bacterialSpot'],
+  tomato_early_blight: ['tomato', 'earlyBlight'],
+  tomato_late_blight: ['tomato', 'lateBlight'],
+  tomato_leaf_mold: ['tomato', 'leafMold'],
+  tomato_septoria_leaf_spot: ['tomato', 'septoriaLeafSpot'],
+  tomato_spider_mites_two_spotted_spider_mite: ['tomato', 'spiderMites'],
+  tomato_target_spot: ['tomato', 'targetSpot'],
+  tomato_tomato_yellow_leaf_curl_virus: ['tomato', 'yellowLeafCurl'],
+  tomato_tomato_mosaic_virus: ['tomato', 'mosaicVirus'],
+  tomato_healthy: ['tomato', 'healthy'],
+};
+
+/**
+ * Display name of a model label in the locale, or null if the label is not in the table
+ */
+export function lookupLabelName(label: string, locale: LabelLocale): string | null {
+  const parts = (LABEL_PARTS as Record<string, [Crop, Condition] | undefined>)[label];
+  if (!parts) return null;
+  const [crop, condition] = parts;
+  return `${CROPS[crop][locale]} – ${CONDITIONS[condition][locale]}`;
+}
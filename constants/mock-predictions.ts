@@ -0,0 +1,138 @@
+import { MODEL_LABELS } from '@/constants/model';
+
+/**
+ * Recorded `/predict` responses for the mock predictor (developer settings), covering the
+ * normal results and every failure path of the result flow. Plain data so the same fixtures
+ * can drive screen tests.
+ */
+
+export type MockFixture =
+  /** 200 with this JSON body, exactly as the server would send it */
+  | { kind: 'response'; body: unknown; delayMs: number }
+  /** Non-2xx status with this JSON body */
+  | { kind: 'http-error'; status: number; body: unknown; delayMs: number }
+  /** No answer within the client timeout */
+  | { kind: 'timeout'; delayMs: number };
+
+export type MockScenario = {
+  id: string;
+  title: string;
+  fixture: MockFixture;
+};
+
+// Typical server latency, so spinners and progress states are visible
+const LATENCY_MS = 700;
+
+/** Grad-CAM activations with a hot spot at (cx, cy), both 0-1 */
+function hotSpot(cx: number, cy: number, size = 7): number[][] {
+  return Array.from({ length: size }, (_, y) =>
+    Array.from({ length: size }, (_, x) => {
+      const dx = (x + 0.5) / size - cx;
+      const dy = (y + 0.5) / size - cy;
+      return Math.round(Math.exp(-(dx * dx + dy * dy) / 0.04) * 1000) / 1000;
+    })
+  );
+}
+
+const isHealthy = (label: string) => label.endsWith('_healthy');
+
+/** Other labels of the same crop, as the model's runners-up */
+function runnersUp(label: string): string[] {
+  const crop = label.split('_')[0];
+  return MODEL_LABELS.filter((l) => l !== label && l.startsWith(`${crop}_`)).slice(0, 2);
+}
+
+function diagnosis(label: string, confidence: number): unknown {
+  const others = runnersUp(label);
+  const rest = 1 - confidence;
+  return {
+    prediction: label,
+    confidence,
+    gradcam_png_base64: null,
+    gradcam_heatmap: isHealthy(label) ? hotSpot(0.5, 0.5) : hotSpot(0.35, 0.6),
+    top_k: [
+      { label, probability: confidence },
+      ...others.map((l, i) => ({ label: l, probability: Math.round(rest * (i === 0 ? 0.7 : 0.3) * 1000) / 1000 })),
+    ],
+  };
+}
+
+const DISEASE_SCENARIOS: MockScenario[] = MODEL_LABELS.filter((l) => !isHealthy(l)).map((label) => ({
+  id: `disease:${label}`,
+  title: label,
+  fixture: { kind: 'response', body: diagnosis(label, 0.93), delayMs: LATENCY_MS },
+}));
+
+export const MOCK_SCENARIOS: MockScenario[] = [
+  {
+    id: 'healthy',
+    title: 'Healthy leaf',
+    fixture: { kind: 'response', body: diagnosis('tomato_healthy', 0.97), delayMs: LATENCY_MS },
+  },
+  ...DISEASE_SCENARIOS,
+  {
+    id: 'low-confidence',
+    title: 'Low confidence',
+    fixture: {
+      kind: 'response',
+      body: {
+        prediction: 'tomato_early_blight',
+        confidence: 0.41,
+        gradcam_png_base64: null,
+        gradcam_heatmap: hotSpot(0.5, 0.3),
+        top_k: [
+          { label: 'tomato_early_blight', probability: 0.41 },
+          { label: 'tomato_target_spot', probability: 0.34 },
+          { label: 'tomato_septoria_leaf_spot', probability: 0.18 },
+        ],
+      },
+      delayMs: LATENCY_MS,
+    },
+  },
+  {
+    id: 'not-a-plant',
+    title: 'Not a plant',
+    fixture: {
+      kind: 'response',
+      body: { prediction: 'unknown', confidence: 0.12, gradcam_png_base64: null, out_of_distribution: true },
+      delayMs: LATENCY_MS,
+    },
+  },
+  {
+    id: 'no-gradcam',
+    title: 'Missing Grad-CAM',
+    fixture: {
+      kind: 'response',
+      body: { prediction: 'potato_late_blight', confidence: 0.88, gradcam_png_base64: null },
+      delayMs: LATENCY_MS,
+    },
+  },
+  {
+    id: 'server-error',
+    title: 'Server error (500)',
+    fixture: { kind: 'http-error', status: 500, body: { error: 'Model failed to load' }, delayMs: LATENCY_MS },
+  },
+  {
+    id: 'slow',
+    title: 'Slow response (8 s)',
+    fixture: { kind: 'response', body: diagnosis('grape_black_rot', 0.9), delayMs: 8_000 },
+  },
+  {
+    id: 'timeout',
+    title: 'Timeout',
+    fixture: { kind: 'timeout', delayMs: 5_000 },
+  },
+  {
+    id: 'malformed',
+    title: 'Malformed payload',
+    fixture: {
+      kind: 'response',
+      body: { prediction: '', confidence: 'high', top_k: [{ label: 3 }] },
+      delayMs: LATENCY_MS,
+    },
+  },
+];
+
+export function findMockScenario(id: string | null): MockScenario | null {
+  return MOCK_SCENARIOS.find((s) => s.id === id) ?? null;
+}
@@ -0,0 +1,46 @@
+/**
+ * Metadata of the leaf classifier running on the prediction server.
+ */
+
+/** Output classes in model index order (PlantVillage, normalized like the server's labels) */
+export const MODEL_LABELS = [
+  'apple_apple_scab',
+  'apple_black_rot',
+  'apple_cedar_apple_rust',
+  'apple_healthy',
+  'blueberry_healthy',
+  'cherry_including_sour_powdery_mildew',
+  'cherry_including_sour_healthy',
+  'corn_maize_cercospora_leaf_spot_gray_leaf_spot',
+  'corn_maize_common_rust',
+  'corn_maize_northern_leaf_blight',
+  'corn_maize_healthy',
+  'grape_black_rot',
+  'grape_esca_black_measles',
+  'grape_leaf_blight_isariopsis_leaf_spot',
+  'grape_healthy',
+  'orange_haunglongbing_citrus_greening',
+  'peach_bacterial_spot',
+  'peach_healthy',
+  'pepper_bell_bacterial_spot',
+  'pepper_bell_healthy',
+  'potato_early_blight',
+  'potato_late_blight',
+  'potato_healthy',
+  'raspberry_healthy',
+  'soybean_healthy',
+  'squash_powdery_mildew',
+  'strawberry_leaf_scorch',
+  'strawberry_healthy',
+  'tomato_bacterial_spot',
+  'tomato_early_blight',
+  'tomato_late_blight',
+  'tomato_leaf_mold',
+  'tomato_septoria_leaf_spot',
+  'tomato_spider_mites_two_spotted_spider_mite',
+  'tomato_target_spot',
+  'tomato_tomato_yellow_leaf_curl_virus',
+  'tomato_tomato_mosaic_virus',
+  'tomato_healthy',
+] as const;
+
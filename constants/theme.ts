@@ -16,6 +16,34 @@ export const Colors = {
     icon: '#687076',
     tabIconDefault: '#687076',
     tabIconSelected: tintColorLight,
+    // Surfaces
+    screen: '#F8FAFC',
+    card: '#FFFFFF',
+    border: '#E5E7EB',
+    muted: '#F1F5F9',
+    textMuted: '#475569',
+    textSubtle: '#64748B',
+    placeholder: '#94A3B8',
+    link: '#2563EB',
+    // Semantic tones: text, tinted background, border and solid fill (bars, buttons)
+    success: '#166534',
+    successBackground: '#DCFCE7',
+    successBorder: '#86EFAC',
+    successFill: '#16A34A',
+    warning: '#B45309',
+    warningBackground: '#FEF3C7',
+    warningBorder: '#FCD34D',
+    warningFill: '#F59E0B',
+    danger: '#B91C1C',
+    dangerBackground: '#FEE2E2',
+    dangerBorder: '#FCA5A5',
+    dangerFill: '#DC2626',
+    info: '#1D4ED8',
+    infoBackground: '#EFF6FF',
+    infoBorder: '#BFDBFE',
+    infoFill: '#2563EB',
+    /** Text on a solid tone colour */
+    onTone: '#FFFFFF',
   },
   dark: {
     text: '#ECEDEE',
@@ -24,9 +52,58 @@ export const Colors = {
     icon: '#9BA1A6',
     tabIconDefault: '#9BA1A6',
     tabIconSelected: tintColorDark,
+    // Surfaces
+    screen: '#0B1220',
+    card: '#151C2C',
+    border: '#273244',
+    muted: '#1E293B',
+    textMuted: '#CBD5E1',
+    textSubtle: '#94A3B8',
+    placeholder: '#64748B',
+    link: '#60A5FA',
+    // Semantic tones: text, tinted background, border and solid fill (bars, buttons)
+    success: '#86EFAC',
+    successBackground: '#052E16',
+    successBorder: '#166534',
+    successFill: '#22C55E',
+    warning: '#FCD34D',
+    warningBackground: '#422006',
+    warningBorder: '#92400E',
+    warningFill: '#F59E0B',
+    danger: '#FCA5A5',
+    dangerBackground: '#450A0A',
+    dangerBorder: '#991B1B',
+    dangerFill: '#EF4444',
+    info: '#93C5FD',
+    infoBackground: '#172554',
+    infoBorder: '#1E40AF',
+    infoFill: '#3B82F6',
+    /** Text on a solid tone colour */
+    onTone: '#0B1220',
   },
 };
 
+export type ThemeColors = typeof Colors.light;
+
+export type Tone = 'neutral' | 'success' | 'warning' | 'danger' | 'info';
+
+export type ToneColors = { text: string; background: string; border: string; fill: string };
+
+/**
+ * The four colours of a semantic tone in one scheme
+ */
+export function toneColors(colors: ThemeColors, tone: Tone): ToneColors {
+  if (tone === 'neutral') {
+    return { text: colors.textMuted, background: colors.muted, border: colors.border, fill: colors.textSubtle };
+  }
+  return {
+    text: colors[tone],
+    background: colors[`${tone}Background`],
+    border: colors[`${tone}Border`],
+    fill: colors[`${tone}Fill`],
+  };
+}
+
 export const Fonts = Platform.select({
   ios: {
     /** iOS `UIFontDescriptorSystemDesignDefault` */
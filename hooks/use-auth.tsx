@@ -0,0 +1,167 @@
+import * as Linking from 'expo-linking';
+import { router, usePathname } from 'expo-router';
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type PropsWithChildren,
+} from 'react';
+
+import { useServerProfiles } from '@/hooks/use-server-profiles';
+import type { AuthBackend, AuthSession } from '@/lib/auth/backend';
+import {
+  activateAuthBackend,
+  getAuthSession,
+  setAuthSession,
+  subscribeAuthSession,
+} from '@/lib/auth/session';
+import {
+  createAuthBackend,
+  DEFAULT_AUTH_SETTINGS,
+  loadAuthSettings,
+  saveAuthSettings,
+  type AuthSettings,
+} from '@/lib/auth/settings';
+
+type AuthContextValue = {
+  settings: AuthSettings;
+  updateSettings: (settings: AuthSettings) => void;
+  /** Account service for the settings and the active server profile; null when misconfigured */
+  backend: AuthBackend | null;
+  session: AuthSession | null;
+  /** False until the stored session has been read */
+  loaded: boolean;
+  /** @throws ApiError if the credentials are refused or the service cannot be reached */
+  signInWithPassword: (email: string, password: string) => Promise<void>;
+  /** Email a sign-in link that opens the app on `/auth/callback` */
+  sendMagicLink: (email: string) => Promise<void>;
+  /**
+   * Sign in with an opened magic link
+   * @returns Whether the URL carried a sign-in token
+   */
+  completeMagicLink: (url: string) => Promise<boolean>;
+  signOut: () => Promise<void>;
+};
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+const SIGN_IN_PATH = '/sign-in';
+
+/**
+ * Keeps the session of the configured account service and sends the user to the sign-in
+ * screen whenever the prediction server refuses their token
+ */
+export function AuthProvider({ children }: PropsWithChildren) {
+  const { activeProfile } = useServerProfiles();
+
+  const [settings, setSettings] = useState<AuthSettings>(DEFAULT_AUTH_SETTINGS);
+  const [settingsLoaded, setSettingsLoaded] = useState(false);
+  const [session, setSession] = useState<AuthSession | null>(getAuthSession());
+  const [loaded, setLoaded] = useState(false);
+
+  // Several refused requests in a row must not stack several sign-in screens
+  const pathname = usePathname();
+  const pathnameRef = useRef(pathname);
+  pathnameRef.current = pathname;
+
+  useEffect(() => {
+    loadAuthSettings().then((saved) => {
+      setSettings(saved);
+      setSettingsLoaded(true);
+    });
+  }, []);
+
+  const backend = useMemo(() => createAuthBackend(settings, activeProfile), [settings, activeProfile]);
+
+  useEffect(() => {
+    if (!settingsLoaded) return;
+    activateAuthBackend(backend).then(() => setLoaded(true));
+  }, [backend, settingsLoaded]);
+
+  useEffect(
+    () =>
+      subscribeAuthSession((next, change) => {
+        setSession(next);
+        // Pushed on top, so the screen underneath keeps its photo while the user signs in
+        if (change === 'rejected' && pathnameRef.current !== SIGN_IN_PATH) router.push(SIGN_IN_PATH);
+      }),
+    []
+  );
+
+  const updateSettings = useCallback((next: AuthSettings) => {
+    setSettings(next);
+    saveAuthSettings(next).catch((e) => console.log('Could not save account settings:', e?.message || e));
+  }, []);
+
+  const requireBackend = useCallback(() => {
+    if (!backend) throw new Error('Set up the account service in Settings first.');
+    return backend;
+  }, [backend]);
+
+  const signInWithPassword = useCallback(
+    async (email: string, password: string) => {
+      setAuthSession(await requireBackend().signInWithPassword(email.trim(), password));
+    },
+    [requireBackend]
+  );
+
+  const sendMagicLink = useCallback(
+    (email: string) => requireBackend().sendMagicLink(email.trim(), Linking.createURL('/auth/callback')),
+    [requireBackend]
+  );
+
+  const completeMagicLink = useCallback(
+    async (url: string) => {
+      const next = await requireBackend().completeMagicLink(url);
+      if (next) setAuthSession(next);
+      return next !== null;
+    },
+    [requireBackend]
+  );
+
+  const signOut = useCallback(async () => {
+    const current = getAuthSession();
+    setAuthSession(null);
+    // Signed out locally either way; revoking is best effort
+    if (current && backend) {
+      await backend.signOut(current).catch((e) => console.log('Could not revoke session:', e?.message || e));
+    }
+  }, [backend]);
+
+  const value = useMemo<AuthContextValue>(
+    () => ({
+      settings,
+      updateSettings,
+      backend,
+      session,
+      loaded,
+      signInWithPassword,
+      sendMagicLink,
+      completeMagicLink,
+      signOut,
+    }),
+    [
+      settings,
+      updateSettings,
+      backend,
+      session,
+      loaded,
+      signInWithPassword,
+      sendMagicLink,
+      completeMagicLink,
+      signOut,
+    ]
+  );
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+}
+
+export function useAuth(): AuthContextValue {
+  const value = useContext(AuthContext);
+  if (!value) throw new Error('useAuth must be used inside AuthProvider');
+  return value;
+}
@@ -1 +1,11 @@
-export { useColorScheme } from 'react-native';
+import { useColorScheme as useRNColorScheme } from 'react-native';
+
+import { useThemeOverride } from '@/hooks/use-theme-preference';
+
+/**
+ * The device colour scheme, unless overridden in Settings
+ */
+export function useColorScheme() {
+  const colorScheme = useRNColorScheme();
+  return useThemeOverride() ?? colorScheme;
+}
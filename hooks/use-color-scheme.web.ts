@@ -1,6 +1,8 @@
 import { useEffect, useState } from 'react';
 import { useColorScheme as useRNColorScheme } from 'react-native';
 
+import { useThemeOverride } from '@/hooks/use-theme-preference';
+
 /**
  * To support static rendering, this value needs to be re-calculated on the client side for web
  */
@@ -12,9 +14,10 @@ export function useColorScheme() {
   }, []);
 
   const colorScheme = useRNColorScheme();
+  const override = useThemeOverride();
 
   if (hasHydrated) {
-    return colorScheme;
+    return override ?? colorScheme;
   }
 
   return 'light';
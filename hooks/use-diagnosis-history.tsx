@@ -0,0 +1,149 @@
+import { createContext, useContext, useEffect, useMemo, useRef, useState, type PropsWithChildren } from 'react';
+
+import {
+  addDiagnosis,
+  clearHistory,
+  deleteDiagnosis,
+  deleteDiagnosisImages,
+  loadHistory,
+  loadTombstones,
+  saveHistory,
+  saveTombstones,
+  updateDiagnosis,
+  type DiagnosisChanges,
+  type DiagnosisRecord,
+  type HistoryTombstone,
+  type NewDiagnosis,
+} from '@/lib/history';
+import type { SyncLocalStore } from '@/lib/sync/engine';
+
+type DiagnosisHistoryContextValue = {
+  /** Saved diagnoses, newest first */
+  records: DiagnosisRecord[];
+  /** False until the history has been read from storage */
+  loaded: boolean;
+  add: (input: NewDiagnosis) => Promise<DiagnosisRecord>;
+  /** Apply user edits (plant assignment, notes); null if the record is gone */
+  update: (id: string, changes: DiagnosisChanges) => Promise<DiagnosisRecord | null>;
+  remove: (id: string) => Promise<void>;
+  clear: () => Promise<void>;
+  /** Local store handed to the sync engine (cursor handling is added by the caller) */
+  syncStore: Omit<SyncLocalStore, 'cursor' | 'setCursor'>;
+};
+
+const DiagnosisHistoryContext = createContext<DiagnosisHistoryContextValue | null>(null);
+
+/**
+ * Loads the diagnosis history once and keeps it in sync with storage
+ */
+export function DiagnosisHistoryProvider({ children }: PropsWithChildren) {
+  const [records, setRecords] = useState<DiagnosisRecord[]>([]);
+  const [loaded, setLoaded] = useState(false);
+
+  // Latest records and tombstones for async mutations that may overlap
+  const recordsRef = useRef<DiagnosisRecord[]>([]);
+  const tombstonesRef = useRef<HistoryTombstone[]>([]);
+
+  // Tail of the mutation queue; each mutation starts from the list the previous one saved
+  const queueRef = useRef<Promise<unknown>>(Promise.resolve());
+
+  useEffect(() => {
+    // First in the queue, so nothing is saved on top of an empty list before the history is read
+    queueRef.current = Promise.all([loadHistory(), loadTombstones()]).then(([saved, tombstones]) => {
+      recordsRef.current = saved;
+      tombstonesRef.current = tombstones;
+      setRecords(saved);
+      setLoaded(true);
+    });
+  }, []);
+
+  // Mutation functions only touch refs and setters, so they never need to change identity
+  const actions = useMemo(() => {
+    /**
+     * Run a mutation after all earlier ones have finished. Mutations build the next list from
+     * `recordsRef` and save it before committing, so two overlapping ones would drop each
+     * other's changes (batch diagnoses are saved several at a time).
+     */
+    const serialize = <T,>(mutation: () => Promise<T>): Promise<T> => {
+      const result = queueRef.current.then(mutation);
+      queueRef.current = result.catch(() => undefined);
+      return result;
+    };
+
+    const commit = (next: DiagnosisRecord[]) => {
+      recordsRef.current = next;
+      setRecords(next);
+    };
+
+    /**
+     * Queue a sync engine change; the list is built when its turn comes, so pulls and pushes
+     * neither overwrite nor get overwritten by an add or edit that is still saving
+     */
+    const persist = (next: () => DiagnosisRecord[]) =>
+      serialize(async () => {
+        const records = next();
+        commit(records);
+        await saveHistory(records);
+      });
+
+    const syncStore: DiagnosisHistoryContextValue['syncStore'] = {
+      records: () => recordsRef.current,
+      tombstones: () => tombstonesRef.current,
+      patch: (id, patch) =>
+        persist(() => recordsRef.current.map((r) => (r.id === id ? { ...r, ...patch } : r))),
+      insert: (record) =>
+        persist(() =>
+          [record, ...recordsRef.current].sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+        ),
+      remove: async (id) => {
+        await persist(() => recordsRef.current.filter((r) => r.id !== id));
+        await deleteDiagnosisImages(id);
+      },
+      dropTombstone: (id) =>
+        serialize(async () => {
+          tombstonesRef.current = tombstonesRef.current.filter((t) => t.id !== id);
+          await saveTombstones(tombstonesRef.current);
+        }),
+    };
+
+    return {
+      syncStore,
+      add: (input: NewDiagnosis) =>
+        serialize(async () => {
+          const result = await addDiagnosis(recordsRef.current, input);
+          commit(result.records);
+          return result.record;
+        }),
+      update: (id: string, changes: DiagnosisChanges) =>
+        serialize(async () => {
+          const result = await updateDiagnosis(recordsRef.current, id, changes);
+          commit(result.records);
+          return result.record;
+        }),
+      remove: (id: string) =>
+        serialize(async () => {
+          const result = await deleteDiagnosis(recordsRef.current, tombstonesRef.current, id);
+          tombstonesRef.current = result.tombstones;
+          commit(result.records);
+        }),
+      clear: () =>
+        serialize(async () => {
+          tombstonesRef.current = await clearHistory(recordsRef.current, tombstonesRef.current);
+          commit([]);
+        }),
+    };
+  }, []);
+
+  const value = useMemo<DiagnosisHistoryContextValue>(
+    () => ({ records, loaded, ...actions }),
+    [records, loaded, actions]
+  );
+
+  return <DiagnosisHistoryContext.Provider value={value}>{children}</DiagnosisHistoryContext.Provider>;
+}
+
+export function useDiagnosisHistory(): DiagnosisHistoryContextValue {
+  const value = useContext(DiagnosisHistoryContext);
+  if (!value) throw new Error('useDiagnosisHistory must be used inside DiagnosisHistoryProvider');
+  return value;
+}
@@ -0,0 +1,47 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useState, type PropsWithChildren } from 'react';
+
+import {
+  DEFAULT_DIAGNOSIS_SETTINGS,
+  loadDiagnosisSettings,
+  saveDiagnosisSettings,
+  type DiagnosisSettings,
+} from '@/lib/diagnosis-settings';
+
+type DiagnosisSettingsContextValue = {
+  settings: DiagnosisSettings;
+  /** False until the saved settings have been read from storage */
+  loaded: boolean;
+  updateSettings: (settings: DiagnosisSettings) => void;
+};
+
+const DiagnosisSettingsContext = createContext<DiagnosisSettingsContextValue | null>(null);
+
+/**
+ * Loads the diagnosis pipeline settings once and persists every change
+ */
+export function DiagnosisSettingsProvider({ children }: PropsWithChildren) {
+  const [settings, setSettings] = useState<DiagnosisSettings>(DEFAULT_DIAGNOSIS_SETTINGS);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    loadDiagnosisSettings().then((saved) => {
+      setSettings(saved);
+      setLoaded(true);
+    });
+  }, []);
+
+  const updateSettings = useCallback((next: DiagnosisSettings) => {
+    setSettings(next);
+    saveDiagnosisSettings(next).catch((e) => console.log('Could not save diagnosis settings:', e?.message || e));
+  }, []);
+
+  const value = useMemo(() => ({ settings, loaded, updateSettings }), [settings, loaded, updateSettings]);
+
+  return <DiagnosisSettingsContext.Provider value={value}>{children}</DiagnosisSettingsContext.Provider>;
+}
+
+export function useDiagnosisSettings(): DiagnosisSettingsContextValue {
+  const value = useContext(DiagnosisSettingsContext);
+  if (!value) throw new Error('useDiagnosisSettings must be used inside DiagnosisSettingsProvider');
+  return value;
+}
@@ -0,0 +1,156 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, type PropsWithChildren } from 'react';
+
+import { useDiagnosisHistory } from '@/hooks/use-diagnosis-history';
+import { useDiagnosisSettings } from '@/hooks/use-diagnosis-settings';
+import { useOutbox } from '@/hooks/use-outbox';
+import { useServerProfiles } from '@/hooks/use-server-profiles';
+import { sendFeedback } from '@/lib/api/client';
+import { isRejectedRequest } from '@/lib/api/errors';
+import { feedbackRequest, type DiagnosisFeedback } from '@/lib/feedback';
+import { readDiagnosisImage, type DiagnosisRecord } from '@/lib/history';
+import { retryDelay } from '@/lib/outbox';
+import { profileApiOptions } from '@/lib/server-profiles';
+
+type FeedbackContextValue = {
+  /** Keep the feedback on the diagnosis and send it as soon as the server is reachable */
+  submit: (recordId: string, feedback: DiagnosisFeedback) => Promise<void>;
+};
+
+const FeedbackContext = createContext<FeedbackContextValue | null>(null);
+
+/**
+ * Photo to send with the feedback; the server finds synced photos by their storage path
+ */
+async function feedbackImage(record: DiagnosisRecord): Promise<string | null> {
+  if (record.sync.imagePath) return null;
+  try {
+    return await readDiagnosisImage(record.imageUri);
+  } catch (e) {
+    console.log('Could not read the photo for feedback:', e instanceof Error ? e.message : e);
+    return null;
+  }
+}
+
+/**
+ * Sends "Was this correct?" feedback to the server of each diagnosis. Unsent feedback lives
+ * on the history records, so it survives restarts and is retried with backoff. Feedback the
+ * server refuses, or whose server profile was deleted, is marked and not sent again.
+ * Nothing is sent while the mock predictor answers in place of the server.
+ */
+export function FeedbackProvider({ children }: PropsWithChildren) {
+  const { records, update } = useDiagnosisHistory();
+  const { online } = useOutbox();
+  const { profiles, loaded: profilesLoaded } = useServerProfiles();
+  const { settings, loaded: settingsLoaded } = useDiagnosisSettings();
+  const mockActive = settings.mockScenario !== null;
+
+  const recordsRef = useRef(records);
+  recordsRef.current = records;
+  const profilesRef = useRef(profiles);
+  profilesRef.current = profiles;
+
+  const sendingRef = useRef(false);
+  // Feedback given while a send was running; checked again once it finishes
+  const rerunRef = useRef(false);
+  const attemptsRef = useRef(0);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Changes when feedback is given or changed, not on unrelated history updates
+  const pendingKey = records
+    .filter((r) => r.feedback && !r.feedback.sentAt && !r.feedback.rejectedAt)
+    .map((r) => r.feedback!.givenAt)
+    .join();
+
+  const flush = useCallback(async () => {
+    // Until the saved profiles are read, custom servers would look deleted
+    if (!online || !profilesLoaded || !settingsLoaded || mockActive) return;
+    if (sendingRef.current) {
+      rerunRef.current = true;
+      return;
+    }
+    sendingRef.current = true;
+    rerunRef.current = false;
+    if (timerRef.current) clearTimeout(timerRef.current);
+    timerRef.current = null;
+
+    /**
+     * Store the outcome of a send, unless the user changed their answer while it was running
+     */
+    const settle = async (recordId: string, feedback: DiagnosisFeedback, outcome: 'sentAt' | 'rejectedAt') => {
+      const latest = recordsRef.current.find((r) => r.id === recordId);
+      if (latest?.feedback?.givenAt === feedback.givenAt) {
+        await update(recordId, { feedback: { ...feedback, [outcome]: new Date().toISOString() } });
+      }
+    };
+
+    // Failures that may pass later; one record's failure does not hold back the others
+    let retry = false;
+    try {
+      for (const record of recordsRef.current) {
+        const feedback = record.feedback;
+        if (!feedback || feedback.sentAt || feedback.rejectedAt) continue;
+
+        // Only the server that made the diagnosis knows it
+        const profile = profilesRef.current.find((p) => p.id === record.serverProfile.id);
+        if (!profile) {
+          await settle(record.id, feedback, 'rejectedAt');
+          continue;
+        }
+
+        try {
+          const request = feedbackRequest(record, feedback, await feedbackImage(record));
+          await sendFeedback(request, profileApiOptions(profile));
+        } catch (e: any) {
+          if (isRejectedRequest(e)) {
+            console.log('Feedback refused by the server:', e.message);
+            await settle(record.id, feedback, 'rejectedAt');
+          } else {
+            console.log('Could not send feedback:', e?.message || e);
+            retry = true;
+          }
+          continue;
+        }
+        await settle(record.id, feedback, 'sentAt');
+      }
+    } catch (e: any) {
+      console.log('Could not save feedback state:', e?.message || e);
+      retry = true;
+    } finally {
+      sendingRef.current = false;
+    }
+
+    if (retry) {
+      attemptsRef.current += 1;
+      timerRef.current = setTimeout(() => flush(), retryDelay(attemptsRef.current));
+    } else {
+      attemptsRef.current = 0;
+    }
+    if (rerunRef.current) flush();
+  }, [online, profilesLoaded, settingsLoaded, mockActive, update]);
+
+  // Send whenever there is something new pending and the device is online
+  useEffect(() => {
+    if (pendingKey && online) flush();
+  }, [pendingKey, online, flush]);
+
+  useEffect(() => () => {
+    if (timerRef.current) clearTimeout(timerRef.current);
+  }, []);
+
+  const submit = useCallback(
+    async (recordId: string, feedback: DiagnosisFeedback) => {
+      await update(recordId, { feedback });
+    },
+    [update]
+  );
+
+  const value = useMemo(() => ({ submit }), [submit]);
+
+  return <FeedbackContext.Provider value={value}>{children}</FeedbackContext.Provider>;
+}
+
+export function useFeedback(): FeedbackContextValue {
+  const value = useContext(FeedbackContext);
+  if (!value) throw new Error('useFeedback must be used inside FeedbackProvider');
+  return value;
+}
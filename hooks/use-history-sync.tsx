@@ -0,0 +1,137 @@
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type PropsWithChildren,
+} from 'react';
+
+import { useDiagnosisHistory } from '@/hooks/use-diagnosis-history';
+import { runSync, type SyncReport } from '@/lib/sync/engine';
+import {
+  createSyncAdapter,
+  DEFAULT_SYNC_SETTINGS,
+  loadSyncCursor,
+  loadSyncSettings,
+  saveSyncCursor,
+  saveSyncSettings,
+  type SyncSettings,
+} from '@/lib/sync/settings';
+
+type HistorySyncContextValue = {
+  settings: SyncSettings;
+  updateSettings: (settings: SyncSettings) => void;
+  /** True when a backend is configured */
+  enabled: boolean;
+  syncing: boolean;
+  lastSyncAt: Date | null;
+  lastReport: SyncReport | null;
+  /** Error that aborted the last run (individual record failures are in the report) */
+  lastError: string | null;
+  syncNow: () => Promise<void>;
+};
+
+const HistorySyncContext = createContext<HistorySyncContextValue | null>(null);
+
+// Wait for a burst of changes (e.g. several diagnoses) before syncing automatically
+const AUTO_SYNC_DELAY_MS = 2_000;
+
+/**
+ * Runs the sync engine against the configured backend: on start, after settings change,
+ * and shortly after local records become pending
+ */
+export function HistorySyncProvider({ children }: PropsWithChildren) {
+  const history = useDiagnosisHistory();
+  const { records, loaded, syncStore } = history;
+
+  const [settings, setSettings] = useState<SyncSettings>(DEFAULT_SYNC_SETTINGS);
+  const [settingsLoaded, setSettingsLoaded] = useState(false);
+  const [syncing, setSyncing] = useState(false);
+  const [lastSyncAt, setLastSyncAt] = useState<Date | null>(null);
+  const [lastReport, setLastReport] = useState<SyncReport | null>(null);
+  const [lastError, setLastError] = useState<string | null>(null);
+
+  const runningRef = useRef(false);
+
+  useEffect(() => {
+    loadSyncSettings().then((saved) => {
+      setSettings(saved);
+      setSettingsLoaded(true);
+    });
+  }, []);
+
+  const adapter = useMemo(() => createSyncAdapter(settings), [settings]);
+
+  const syncNow = useCallback(async () => {
+    if (!adapter || !loaded || runningRef.current) return;
+    runningRef.current = true;
+    setSyncing(true);
+    setLastError(null);
+
+    try {
+      let cursor = await loadSyncCursor(adapter.id);
+      const report = await runSync(
+        {
+          ...syncStore,
+          cursor: () => cursor,
+          setCursor: async (next) => {
+            cursor = next;
+            await saveSyncCursor(adapter.id, next);
+          },
+        },
+        adapter
+      );
+      setLastReport(report);
+      setLastSyncAt(new Date());
+    } catch (e: any) {
+      console.log('Sync failed:', e?.message || e);
+      setLastError(e?.message || String(e));
+    } finally {
+      runningRef.current = false;
+      setSyncing(false);
+    }
+  }, [adapter, loaded, syncStore]);
+
+  // Full sync when the app starts or the backend changes
+  useEffect(() => {
+    if (settingsLoaded && loaded) syncNow();
+  }, [settingsLoaded, loaded, syncNow]);
+
+  // Push new local diagnoses shortly after they are saved
+  const hasPending = records.some((r) => r.sync.status === 'pending');
+  useEffect(() => {
+    if (!hasPending || syncing) return;
+    const timer = setTimeout(syncNow, AUTO_SYNC_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [hasPending, syncing, syncNow]);
+
+  const updateSettings = useCallback((next: SyncSettings) => {
+    setSettings(next);
+    saveSyncSettings(next).catch((e) => console.log('Could not save sync settings:', e?.message || e));
+  }, []);
+
+  const value = useMemo<HistorySyncContextValue>(
+    () => ({
+      settings,
+      updateSettings,
+      enabled: adapter !== null,
+      syncing,
+      lastSyncAt,
+      lastReport,
+      lastError,
+      syncNow,
+    }),
+    [settings, updateSettings, adapter, syncing, lastSyncAt, lastReport, lastError, syncNow]
+  );
+
+  return <HistorySyncContext.Provider value={value}>{children}</HistorySyncContext.Provider>;
+}
+
+export function useHistorySync(): HistorySyncContextValue {
+  const value = useContext(HistorySyncContext);
+  if (!value) throw new Error('useHistorySync must be used inside HistorySyncProvider');
+  return value;
+}
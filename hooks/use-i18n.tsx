@@ -0,0 +1,44 @@
+import { useLocales } from 'expo-localization';
+import { createContext, useCallback, useContext, useEffect, useMemo, useState, type PropsWithChildren } from 'react';
+
+import { detectLocale, getTranslator, type Translator } from '@/lib/i18n';
+import { loadLocalePreference, saveLocalePreference, type LocalePreference } from '@/lib/i18n/preference';
+
+type I18nContextValue = Translator & {
+  preference: LocalePreference;
+  setPreference: (preference: LocalePreference) => void;
+};
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+/**
+ * Picks the app language from the saved override or the device languages
+ */
+export function I18nProvider({ children }: PropsWithChildren) {
+  const deviceLocales = useLocales();
+  const [preference, setPreferenceState] = useState<LocalePreference>('system');
+
+  useEffect(() => {
+    loadLocalePreference().then(setPreferenceState);
+  }, []);
+
+  const setPreference = useCallback((next: LocalePreference) => {
+    setPreferenceState(next);
+    saveLocalePreference(next).catch((e) => console.log('Could not save language preference:', e?.message || e));
+  }, []);
+
+  const locale = preference === 'system' ? detectLocale(deviceLocales.map((l) => l.languageCode)) : preference;
+
+  const value = useMemo(
+    () => ({ ...getTranslator(locale), preference, setPreference }),
+    [locale, preference, setPreference]
+  );
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+export function useI18n(): I18nContextValue {
+  const value = useContext(I18nContext);
+  if (!value) throw new Error('useI18n must be used inside I18nProvider');
+  return value;
+}
@@ -0,0 +1,43 @@
+import { createContext, useContext, useEffect, useRef, useState, type PropsWithChildren } from 'react';
+
+import { BUNDLED_KNOWLEDGE_BASE } from '@/constants/knowledge-base';
+import { useServerProfiles } from '@/hooks/use-server-profiles';
+import { loadKnowledgeBase, refreshKnowledgeBase, type KnowledgeBase } from '@/lib/knowledge-base';
+import { profileApiOptions } from '@/lib/server-profiles';
+
+const KnowledgeBaseContext = createContext<KnowledgeBase>(BUNDLED_KNOWLEDGE_BASE);
+
+/**
+ * Provides the newest available knowledge base and checks the active server for updates
+ */
+export function KnowledgeBaseProvider({ children }: PropsWithChildren) {
+  const { activeProfile, loaded } = useServerProfiles();
+  const [kb, setKb] = useState<KnowledgeBase>(BUNDLED_KNOWLEDGE_BASE);
+  const [cacheLoaded, setCacheLoaded] = useState(false);
+
+  useEffect(() => {
+    loadKnowledgeBase().then((cached) => {
+      setKb(cached);
+      setCacheLoaded(true);
+    });
+  }, []);
+
+  // Only re-check when the server changes, not after our own update, so the copy to compare
+  // against is read through a ref
+  const kbRef = useRef(kb);
+  kbRef.current = kb;
+
+  // Servers without a /knowledge-base endpoint simply keep the current copy
+  useEffect(() => {
+    if (!loaded || !cacheLoaded) return;
+    refreshKnowledgeBase(kbRef.current, profileApiOptions(activeProfile))
+      .then((newer) => newer && setKb(newer))
+      .catch((e) => console.log('Knowledge base update skipped:', e?.message || e));
+  }, [loaded, cacheLoaded, activeProfile]);
+
+  return <KnowledgeBaseContext.Provider value={kb}>{children}</KnowledgeBaseContext.Provider>;
+}
+
+export function useKnowledgeBase(): KnowledgeBase {
+  return useContext(KnowledgeBaseContext);
+}
@@ -0,0 +1,241 @@
+import NetInfo from '@react-native-community/netinfo';
+import { createContext, useContext, useEffect, useMemo, useRef, useState, type PropsWithChildren } from 'react';
+
+import { useDiagnosisHistory } from '@/hooks/use-diagnosis-history';
+import { useDiagnosisSettings } from '@/hooks/use-diagnosis-settings';
+import { useI18n } from '@/hooks/use-i18n';
+import { useServerProfiles } from '@/hooks/use-server-profiles';
+import { describeApiError, isConnectivityError } from '@/lib/api/errors';
+import { readDiagnosisImage } from '@/lib/history';
+import type { ImageQuality } from '@/lib/image/quality';
+import { createMockPredictor } from '@/lib/inference/mock-predictor';
+import { createRemotePredictor } from '@/lib/inference/remote-predictor';
+import {
+  createOutboxItem,
+  deleteOutboxImage,
+  loadOutbox,
+  retryDelay,
+  saveOutbox,
+  type OutboxItem,
+} from '@/lib/outbox';
+import type { ServerProfile } from '@/lib/server-profiles';
+
+type OutboxContextValue = {
+  /** Queued, failed and recently finished captures, oldest first */
+  items: OutboxItem[];
+  /** False while the device reports no usable connection */
+  online: boolean;
+  /**
+   * Queue a prepared image for prediction once the server is reachable
+   * @param quality - Photo quality scores to store with the diagnosis
+   * @param followUpOf - Earlier diagnosis the capture follows up on
+   */
+  enqueue: (
+    imageBase64: string,
+    profile: ServerProfile,
+    topK: number,
+    quality?: ImageQuality | null,
+    followUpOf?: string | null
+  ) => Promise<OutboxItem>;
+  /** Drop an item and its image; a result still in flight is discarded */
+  cancel: (id: string) => Promise<void>;
+  /** Try an item again right away, resetting its backoff */
+  retry: (id: string) => void;
+  /** Remove finished items from the list */
+  clearFinished: () => Promise<void>;
+};
+
+const OutboxContext = createContext<OutboxContextValue | null>(null);
+
+/**
+ * Uploads queued captures one at a time whenever the device is online.
+ * Connectivity failures back off exponentially; other errors wait for a manual retry.
+ * Each result is saved to the history like a live diagnosis.
+ */
+export function OutboxProvider({ children }: PropsWithChildren) {
+  const { add } = useDiagnosisHistory();
+  const { profiles, activeProfile } = useServerProfiles();
+  const { settings } = useDiagnosisSettings();
+  const i18n = useI18n();
+
+  const [items, setItems] = useState<OutboxItem[]>([]);
+  const [online, setOnline] = useState(true);
+
+  const itemsRef = useRef<OutboxItem[]>([]);
+  const onlineRef = useRef(true);
+  const runningRef = useRef(false);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Queued items keep using the profile they were captured with, if it still exists
+  const profilesRef = useRef({ profiles, activeProfile, mockScenario: settings.mockScenario });
+  profilesRef.current = { profiles, activeProfile, mockScenario: settings.mockScenario };
+
+  // Failure messages are stored with the item, in the language chosen when it failed
+  const i18nRef = useRef(i18n);
+  i18nRef.current = i18n;
+
+  const actions = useMemo(() => {
+    const persist = async (next: OutboxItem[]) => {
+      itemsRef.current = next;
+      setItems(next);
+      await saveOutbox(next);
+    };
+
+    const patch = (id: string, changes: Partial<OutboxItem>) =>
+      persist(itemsRef.current.map((item) => (item.id === id ? { ...item, ...changes } : item)));
+
+    const exists = (id: string) => itemsRef.current.some((item) => item.id === id);
+
+    const upload = async (item: OutboxItem) => {
+      await patch(item.id, { status: 'uploading' });
+
+      const { profiles, activeProfile, mockScenario } = profilesRef.current;
+      const profile = profiles.find((p) => p.id === item.serverProfile.id) ?? activeProfile;
+
+      try {
+        const image = await readDiagnosisImage(item.imageUri);
+        const predictor = mockScenario ? createMockPredictor(mockScenario) : createRemotePredictor(profile);
+        const result = await predictor.predict({ imageBase64: image, topK: item.topK });
+        if (!exists(item.id)) return;
+
+        const record = await add({
+          imageBase64: image,
+          gradcamBase64: result.gradcamBase64,
+          prediction: result.prediction,
+          confidence: result.confidence,
+          topK: result.topK,
+          serverProfile: { id: profile.id, name: profile.name },
+          outOfDistribution: result.outOfDistribution,
+          capturedAt: item.createdAt,
+          quality: item.quality,
+          followUpOf: item.followUpOf,
+        });
+
+        // The history keeps its own copy of the image
+        await deleteOutboxImage(item.id);
+        await patch(item.id, { status: 'done', recordId: record.id, imageUri: record.imageUri, lastError: null });
+      } catch (e: any) {
+        console.log('Queued prediction failed:', e?.message || e);
+        if (!exists(item.id)) return;
+
+        const attempts = item.attempts + 1;
+        const { title, message } = describeApiError(e, i18nRef.current);
+        if (isConnectivityError(e)) {
+          await patch(item.id, {
+            status: 'queued',
+            attempts,
+            nextAttemptAt: Date.now() + retryDelay(attempts),
+            lastError: title,
+          });
+        } else {
+          await patch(item.id, { status: 'failed', attempts, lastError: message });
+        }
+      }
+    };
+
+    const schedule = () => {
+      if (timerRef.current) clearTimeout(timerRef.current);
+      timerRef.current = null;
+      if (!onlineRef.current) return;
+
+      const due = itemsRef.current.filter((item) => item.status === 'queued').map((item) => item.nextAttemptAt);
+      if (due.length === 0) return;
+      timerRef.current = setTimeout(drain, Math.max(0, Math.min(...due) - Date.now()));
+    };
+
+    const drain = async () => {
+      if (runningRef.current) return;
+      runningRef.current = true;
+      try {
+        while (onlineRef.current) {
+          const next = itemsRef.current.find((item) => item.status === 'queued' && item.nextAttemptAt <= Date.now());
+          if (!next) break;
+          await upload(next);
+        }
+      } finally {
+        runningRef.current = false;
+        schedule();
+      }
+    };
+
+    return {
+      load: async () => {
+        itemsRef.current = await loadOutbox();
+        setItems(itemsRef.current);
+        drain();
+      },
+      setOnline: async (next: boolean) => {
+        const regained = next && !onlineRef.current;
+        onlineRef.current = next;
+        setOnline(next);
+
+        if (!regained) {
+          schedule();
+          return;
+        }
+        // Connectivity is back: try everything now, backoff applies to failures from here on
+        await persist(
+          itemsRef.current.map((item) => (item.status === 'queued' ? { ...item, nextAttemptAt: 0 } : item))
+        );
+        drain();
+      },
+      enqueue: async (
+        imageBase64: string,
+        profile: ServerProfile,
+        topK: number,
+        quality: ImageQuality | null = null,
+        followUpOf: string | null = null
+      ) => {
+        const serverProfile = { id: profile.id, name: profile.name };
+        const item = await createOutboxItem(imageBase64, serverProfile, topK, quality, followUpOf);
+        await persist([...itemsRef.current, item]);
+        schedule();
+        return item;
+      },
+      cancel: async (id: string) => {
+        await persist(itemsRef.current.filter((item) => item.id !== id));
+        await deleteOutboxImage(id);
+      },
+      retry: (id: string) => {
+        patch(id, { status: 'queued', nextAttemptAt: 0, lastError: null }).then(drain);
+      },
+      clearFinished: () => persist(itemsRef.current.filter((item) => item.status !== 'done')),
+    };
+  }, [add]);
+
+  useEffect(() => {
+    actions.load();
+    return () => {
+      if (timerRef.current) clearTimeout(timerRef.current);
+    };
+  }, [actions]);
+
+  // Unknown reachability (null) counts as online; the upload itself will tell
+  useEffect(
+    () =>
+      NetInfo.addEventListener((state) => {
+        actions.setOnline(state.isConnected !== false && state.isInternetReachable !== false);
+      }),
+    [actions]
+  );
+
+  const value = useMemo<OutboxContextValue>(
+    () => ({
+      items,
+      online,
+      enqueue: actions.enqueue,
+      cancel: actions.cancel,
+      retry: actions.retry,
+      clearFinished: actions.clearFinished,
+    }),
+    [items, online, actions]
+  );
+
+  return <OutboxContext.Provider value={value}>{children}</OutboxContext.Provider>;
+}
+
+export function useOutbox(): OutboxContextValue {
+  const value = useContext(OutboxContext);
+  if (!value) throw new Error('useOutbox must be used inside OutboxProvider');
+  return value;
+}
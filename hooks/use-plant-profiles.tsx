@@ -0,0 +1,76 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useState, type PropsWithChildren } from 'react';
+
+import { useDiagnosisHistory } from '@/hooks/use-diagnosis-history';
+import { deletePlantPhotos, loadPlants, savePlants, type PlantProfile } from '@/lib/plants';
+
+type PlantProfilesContextValue = {
+  /** Profiles sorted by name */
+  plants: PlantProfile[];
+  /** False until the profiles have been read from storage */
+  loaded: boolean;
+  /** Insert a new profile or replace the one with the same id */
+  upsertPlant: (plant: PlantProfile) => void;
+  /** Remove a profile and its photo; its diagnoses stay in history, detached */
+  removePlant: (id: string) => Promise<void>;
+};
+
+const PlantProfilesContext = createContext<PlantProfilesContextValue | null>(null);
+
+const byName = (a: PlantProfile, b: PlantProfile) => a.name.localeCompare(b.name);
+
+/**
+ * Loads plant profiles once and persists every change
+ */
+export function PlantProfilesProvider({ children }: PropsWithChildren) {
+  const { records, update: updateDiagnosis } = useDiagnosisHistory();
+
+  const [plants, setPlants] = useState<PlantProfile[]>([]);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    loadPlants().then((saved) => {
+      setPlants(saved.sort(byName));
+      setLoaded(true);
+    });
+  }, []);
+
+  const update = useCallback((next: (prev: PlantProfile[]) => PlantProfile[]) => {
+    setPlants((prev) => {
+      const updated = next(prev).sort(byName);
+      savePlants(updated).catch((e) => console.log('Could not save plant profiles:', e?.message || e));
+      return updated;
+    });
+  }, []);
+
+  const upsertPlant = useCallback(
+    (plant: PlantProfile) =>
+      update((prev) =>
+        prev.some((p) => p.id === plant.id) ? prev.map((p) => (p.id === plant.id ? plant : p)) : [...prev, plant]
+      ),
+    [update]
+  );
+
+  const removePlant = useCallback(
+    async (id: string) => {
+      update((prev) => prev.filter((p) => p.id !== id));
+      deletePlantPhotos(id);
+      for (const record of records.filter((r) => r.plantId === id)) {
+        await updateDiagnosis(record.id, { plantId: null });
+      }
+    },
+    [update, records, updateDiagnosis]
+  );
+
+  const value = useMemo<PlantProfilesContextValue>(
+    () => ({ plants, loaded, upsertPlant, removePlant }),
+    [plants, loaded, upsertPlant, removePlant]
+  );
+
+  return <PlantProfilesContext.Provider value={value}>{children}</PlantProfilesContext.Provider>;
+}
+
+export function usePlantProfiles(): PlantProfilesContextValue {
+  const value = useContext(PlantProfilesContext);
+  if (!value) throw new Error('usePlantProfiles must be used inside PlantProfilesProvider');
+  return value;
+}
@@ -0,0 +1,169 @@
+import { router, type Href } from 'expo-router';
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type PropsWithChildren,
+} from 'react';
+import { AppState } from 'react-native';
+
+import { useI18n } from '@/hooks/use-i18n';
+import {
+  cancelReminderNotifications,
+  configureReminderNotifications,
+  ensureNotificationPermission,
+  hasNotificationPermission,
+  onReminderNotificationOpened,
+  syncReminderNotifications,
+} from '@/lib/reminder-notifications';
+import { loadReminders, saveReminders, type Reminder } from '@/lib/reminders';
+
+type RemindersContextValue = {
+  reminders: Reminder[];
+  /** False until the reminders have been read from storage */
+  loaded: boolean;
+  /**
+   * Save the reminders of a new plan and schedule their notifications
+   * @returns Whether notifications are allowed; the reminders are saved either way
+   */
+  addPlan: (reminders: Reminder[]) => Promise<boolean>;
+  /** Delete a reminder and cancel its pending notifications */
+  removeReminder: (id: string) => Promise<void>;
+  /** Mark one occurrence done (cancelling its notification) or not done (scheduling it again) */
+  setOccurrenceDone: (id: string, at: string, done: boolean) => Promise<void>;
+};
+
+const RemindersContext = createContext<RemindersContextValue | null>(null);
+
+const byStart = (a: Reminder, b: Reminder) => a.startsAt.localeCompare(b.startsAt);
+
+/**
+ * Loads treatment reminders once, persists every change and opens the right screen
+ * when a reminder notification is tapped. Only the next occurrences have notifications;
+ * they are topped up whenever the app opens or comes back to the foreground.
+ */
+export function RemindersProvider({ children }: PropsWithChildren) {
+  const [reminders, setReminders] = useState<Reminder[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const i18n = useI18n();
+
+  // Latest list for the async actions, which must not work on a stale snapshot
+  const remindersRef = useRef<Reminder[]>([]);
+  // Changes run one after another so two of them never schedule the same occurrence
+  const queueRef = useRef<Promise<unknown>>(Promise.resolve());
+
+  // Notification texts are fixed when scheduled, in the language chosen at the time
+  const i18nRef = useRef(i18n);
+  i18nRef.current = i18n;
+
+  const persist = useCallback(async (next: Reminder[]) => {
+    remindersRef.current = next.sort(byStart);
+    setReminders(remindersRef.current);
+    await saveReminders(remindersRef.current).catch((e) =>
+      console.log('Could not save reminders:', e?.message || e)
+    );
+  }, []);
+
+  const enqueue = useCallback(<T,>(task: () => Promise<T>): Promise<T> => {
+    const run = queueRef.current.then(task);
+    queueRef.current = run.catch(() => undefined);
+    return run;
+  }, []);
+
+  /**
+   * Save the reminders and schedule the notifications of their next occurrences
+   * @param allowed - Whether notifications may be scheduled; looked up when not given
+   */
+  const persistScheduled = useCallback(
+    async (next: Reminder[], allowed?: boolean) => {
+      const canSchedule = allowed ?? (await hasNotificationPermission().catch(() => false));
+      const scheduled = canSchedule
+        ? await syncReminderNotifications(next, i18nRef.current).catch((e) => {
+            console.log('Could not schedule reminders:', e?.message || e);
+            return next;
+          })
+        : next;
+      await persist(scheduled);
+    },
+    [persist]
+  );
+
+  useEffect(() => {
+    enqueue(async () => {
+      const saved = await loadReminders();
+      remindersRef.current = saved.sort(byStart);
+      setReminders(remindersRef.current);
+      setLoaded(true);
+      await persistScheduled(remindersRef.current);
+    });
+  }, [enqueue, persistScheduled]);
+
+  // Notifications that fired while the app was in the background make room for later ones
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') enqueue(() => persistScheduled(remindersRef.current));
+    });
+    return () => subscription.remove();
+  }, [enqueue, persistScheduled]);
+
+  // Runs again on a language change to rename the Android channel
+  useEffect(() => {
+    configureReminderNotifications(i18n).catch((e) =>
+      console.log('Could not set up reminder notifications:', e?.message || e)
+    );
+  }, [i18n]);
+
+  useEffect(() => onReminderNotificationOpened((url) => router.push(url as Href)), []);
+
+  const addPlan = useCallback(
+    (plan: Reminder[]) =>
+      enqueue(async () => {
+        const allowed = await ensureNotificationPermission().catch(() => false);
+        await persistScheduled([...remindersRef.current, ...plan], allowed);
+        return allowed;
+      }),
+    [enqueue, persistScheduled]
+  );
+
+  const removeReminder = useCallback(
+    (id: string) =>
+      enqueue(async () => {
+        const reminder = remindersRef.current.find((r) => r.id === id);
+        if (!reminder) return;
+        await cancelReminderNotifications(reminder.notifications);
+        // Later occurrences of the other reminders can take the freed places
+        await persistScheduled(remindersRef.current.filter((r) => r.id !== id));
+      }),
+    [enqueue, persistScheduled]
+  );
+
+  const setOccurrenceDone = useCallback(
+    (id: string, at: string, done: boolean) =>
+      enqueue(async () => {
+        const reminder = remindersRef.current.find((r) => r.id === id);
+        if (!reminder || reminder.completed.includes(at) === done) return;
+
+        const completed = done ? [...reminder.completed, at] : reminder.completed.filter((c) => c !== at);
+        // Cancels the notification of a done occurrence and schedules one that is open again
+        await persistScheduled(remindersRef.current.map((r) => (r.id === id ? { ...r, completed } : r)));
+      }),
+    [enqueue, persistScheduled]
+  );
+
+  const value = useMemo<RemindersContextValue>(
+    () => ({ reminders, loaded, addPlan, removeReminder, setOccurrenceDone }),
+    [reminders, loaded, addPlan, removeReminder, setOccurrenceDone]
+  );
+
+  return <RemindersContext.Provider value={value}>{children}</RemindersContext.Provider>;
+}
+
+export function useReminders(): RemindersContextValue {
+  const value = useContext(RemindersContext);
+  if (!value) throw new Error('useReminders must be used inside RemindersProvider');
+  return value;
+}
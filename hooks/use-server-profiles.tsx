@@ -0,0 +1,80 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useState, type PropsWithChildren } from 'react';
+
+import {
+  DEFAULT_PROFILES_STATE,
+  loadProfiles,
+  saveProfiles,
+  type ServerProfile,
+  type ServerProfilesState,
+} from '@/lib/server-profiles';
+
+type ServerProfilesContextValue = ServerProfilesState & {
+  /** Profile used for predictions */
+  activeProfile: ServerProfile;
+  /** False until the saved profiles have been read from storage */
+  loaded: boolean;
+  setActiveProfile: (id: string) => void;
+  /** Insert a new profile or replace the one with the same id */
+  upsertProfile: (profile: ServerProfile) => void;
+  /** Remove a profile; the last remaining profile cannot be removed */
+  removeProfile: (id: string) => void;
+};
+
+const ServerProfilesContext = createContext<ServerProfilesContextValue | null>(null);
+
+/**
+ * Loads server profiles once and persists every change
+ */
+export function ServerProfilesProvider({ children }: PropsWithChildren) {
+  const [state, setState] = useState<ServerProfilesState>(DEFAULT_PROFILES_STATE);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    loadProfiles().then((saved) => {
+      setState(saved);
+      setLoaded(true);
+    });
+  }, []);
+
+  const update = useCallback((next: (prev: ServerProfilesState) => ServerProfilesState) => {
+    setState((prev) => {
+      const updated = next(prev);
+      saveProfiles(updated).catch((e) => console.log('Could not save server profiles:', e?.message || e));
+      return updated;
+    });
+  }, []);
+
+  const value = useMemo<ServerProfilesContextValue>(() => {
+    const activeProfile = state.profiles.find((p) => p.id === state.activeId) ?? state.profiles[0];
+
+    return {
+      ...state,
+      activeProfile,
+      loaded,
+      setActiveProfile: (id) => update((prev) => ({ ...prev, activeId: id })),
+      upsertProfile: (profile) =>
+        update((prev) => {
+          const exists = prev.profiles.some((p) => p.id === profile.id);
+          const profiles = exists
+            ? prev.profiles.map((p) => (p.id === profile.id ? profile : p))
+            : [...prev.profiles, profile];
+          return { ...prev, profiles };
+        }),
+      removeProfile: (id) =>
+        update((prev) => {
+          if (prev.profiles.length <= 1) return prev;
+          const profiles = prev.profiles.filter((p) => p.id !== id);
+          const activeId = prev.activeId === id ? profiles[0].id : prev.activeId;
+          return { profiles, activeId };
+        }),
+    };
+  }, [state, loaded, update]);
+
+  return <ServerProfilesContext.Provider value={value}>{children}</ServerProfilesContext.Provider>;
+}
+
+export function useServerProfiles(): ServerProfilesContextValue {
+  const value = useContext(ServerProfilesContext);
+  if (!value) throw new Error('useServerProfiles must be used inside ServerProfilesProvider');
+  return value;
+}
@@ -3,7 +3,9 @@
  * https://docs.expo.dev/guides/color-schemes/
  */
 
-import { Colors } from '@/constants/theme';
+import { StyleSheet } from 'react-native';
+
+import { Colors, type ThemeColors } from '@/constants/theme';
 import { useColorScheme } from '@/hooks/use-color-scheme';
 
 export function useThemeColor(
@@ -19,3 +21,24 @@ export function useThemeColor(
     return Colors[theme][colorName];
   }
 }
+
+/**
+ * Every colour token of the current scheme
+ */
+export function useThemeColors(): ThemeColors {
+  return Colors[useColorScheme() ?? 'light'];
+}
+
+/**
+ * Builds a style sheet per scheme once and returns a hook picking the current one:
+ * `const useStyles = createThemedStyles((c) => ({ title: { color: c.text } }));`
+ */
+export function createThemedStyles<T extends StyleSheet.NamedStyles<T>>(factory: (colors: ThemeColors) => T) {
+  const sheets = {
+    light: StyleSheet.create(factory(Colors.light)),
+    dark: StyleSheet.create(factory(Colors.dark)),
+  };
+  return function useThemedStyles(): T {
+    return sheets[useColorScheme() ?? 'light'];
+  };
+}
@@ -0,0 +1,50 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useState, type PropsWithChildren } from 'react';
+import { Appearance, Platform } from 'react-native';
+
+import { loadThemePreference, saveThemePreference, type ThemePreference } from '@/lib/theme-preference';
+
+type ThemePreferenceContextValue = {
+  preference: ThemePreference;
+  setPreference: (preference: ThemePreference) => void;
+};
+
+const ThemePreferenceContext = createContext<ThemePreferenceContextValue | null>(null);
+
+/**
+ * Loads the saved appearance override and persists every change
+ */
+export function ThemePreferenceProvider({ children }: PropsWithChildren) {
+  const [preference, setPreferenceState] = useState<ThemePreference>('system');
+
+  useEffect(() => {
+    loadThemePreference().then(setPreferenceState);
+  }, []);
+
+  // Native alerts, pickers and keyboards follow the override too
+  useEffect(() => {
+    if (Platform.OS !== 'web') Appearance.setColorScheme(preference === 'system' ? null : preference);
+  }, [preference]);
+
+  const setPreference = useCallback((next: ThemePreference) => {
+    setPreferenceState(next);
+    saveThemePreference(next).catch((e) => console.log('Could not save theme preference:', e?.message || e));
+  }, []);
+
+  const value = useMemo(() => ({ preference, setPreference }), [preference, setPreference]);
+
+  return <ThemePreferenceContext.Provider value={value}>{children}</ThemePreferenceContext.Provider>;
+}
+
+export function useThemePreference(): ThemePreferenceContextValue {
+  const value = useContext(ThemePreferenceContext);
+  if (!value) throw new Error('useThemePreference must be used inside ThemePreferenceProvider');
+  return value;
+}
+
+/**
+ * The forced scheme, or null to follow the device. Safe outside the provider.
+ */
+export function useThemeOverride(): 'light' | 'dark' | null {
+  const preference = useContext(ThemePreferenceContext)?.preference ?? 'system';
+  return preference === 'system' ? null : preference;
+}
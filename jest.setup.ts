@@ -0,0 +1,86 @@
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('@react-native-community/netinfo', () =>
+  require('@react-native-community/netinfo/jest/netinfo-mock')
+);
+
+jest.mock('expo-notifications', () => ({
+  AndroidImportance: { DEFAULT: 3 },
+  SchedulableTriggerInputTypes: { DATE: 'date' },
+  setNotificationHandler: jest.fn(),
+  setNotificationChannelAsync: jest.fn(async () => null),
+  getPermissionsAsync: jest.fn(async () => ({ granted: false, canAskAgain: true })),
+  requestPermissionsAsync: jest.fn(async () => ({ granted: false, canAskAgain: false })),
+  scheduleNotificationAsync: jest.fn(async () => 'notification-id'),
+  cancelScheduledNotificationAsync: jest.fn(async () => undefined),
+  getLastNotificationResponse: jest.fn(() => null),
+  addNotificationResponseReceivedListener: jest.fn(() => ({ remove: jest.fn() })),
+}));
+
+// Tests never reach the network; code under test sees an offline server
+global.fetch = jest.fn(async () => {
+  throw new TypeError('Network request failed');
+});
+
+// expo-file-system's File and Directory have no native module under jest; an in-memory file system stands in
+jest.mock('expo-file-system', () => {
+  const files = new Map<string, string>();
+  const folders = new Set<string>();
+  const join = (parent: string | { uri: string }, name?: string) => {
+    const base = typeof parent === 'string' ? parent : parent.uri;
+    return name ? `${base.replace(/\/$/, '')}/${name}` : base;
+  };
+
+  class Directory {
+    uri: string;
+    constructor(parent: string | { uri: string }, name?: string) {
+      this.uri = join(parent, name);
+    }
+    get exists() {
+      return folders.has(this.uri);
+    }
+    create() {
+      folders.add(this.uri);
+    }
+    delete() {
+      for (const path of [...files.keys(), ...folders]) {
+        if (path === this.uri || path.startsWith(`${this.uri}/`)) {
+          files.delete(path);
+          folders.delete(path);
+        }
+      }
+    }
+  }
+
+  class File {
+    uri: string;
+    constructor(parent: string | { uri: string }, name?: string) {
+      this.uri = join(parent, name);
+    }
+    get exists() {
+      return files.has(this.uri);
+    }
+    get size() {
+      return files.get(this.uri)?.length ?? 0;
+    }
+    write(data: string) {
+      files.set(this.uri, data);
+    }
+    async base64() {
+      const data = files.get(this.uri);
+      if (data === undefined) throw new Error(`No file at ${this.uri}`);
+      return data;
+    }
+    delete() {
+      files.delete(this.uri);
+    }
+  }
+
+  return {
+    Directory,
+    File,
+    Paths: { document: new Directory('file:///document'), cache: new Directory('file:///cache') },
+  };
+});
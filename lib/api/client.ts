@@ -0,0 +1,239 @@
+import {
+  ApiCancelledError,
+  ApiError,
+  ApiHttpError,
+  ApiPayloadError,
+  ApiTimeoutError,
+  ApiTransportError,
+  isAuthError,
+} from '@/lib/api/errors';
+import {
+  parseErrorMessage,
+  parseFeedbackResponse,
+  parseHealthResponse,
+  parsePredictResponse,
+  type FeedbackRequest,
+  type FeedbackResponse,
+  type HealthResponse,
+  type PredictRequest,
+  type PredictResponse,
+} from '@/lib/api/schema';
+
+/**
+ * Source of the bearer token sent with every request of a signed-in user
+ */
+export type ApiAuth = {
+  /**
+   * Current access token, refreshed first when it has expired
+   * @param forceRefresh - Refresh even if the token looks valid (the server rejected it)
+   * @returns null when signed out; the request is then sent without a token
+   */
+  getAccessToken(forceRefresh?: boolean): Promise<string | null>;
+  /** The server refused the request with 401 or 403 even after a refresh */
+  onRejected(status: number): void;
+};
+
+export type ApiClientOptions = {
+  /** Server origin without trailing slash, e.g. "https://13.62.8.232:5000" */
+  baseUrl: string;
+  /** Sent as `X-API-Key` when set */
+  apiKey: string | null;
+  /** Sends `Authorization: Bearer <token>` when set */
+  auth: ApiAuth | null;
+  /** Per-attempt timeout */
+  timeoutMs: number;
+  /** Extra attempts after the first one for retryable failures */
+  retries: number;
+  /** Delay before the first retry; doubled on every further attempt */
+  retryBaseDelayMs: number;
+};
+
+export const DEFAULT_API_OPTIONS: ApiClientOptions = {
+  baseUrl: 'https://13.62.8.232:5000',
+  apiKey: null,
+  auth: null,
+  timeoutMs: 30_000,
+  retries: 2,
+  retryBaseDelayMs: 800,
+};
+
+// Statuses that indicate a transient server or gateway problem
+const RETRYABLE_STATUSES = new Set([408, 429, 502, 503, 504]);
+
+/**
+ * Wait between attempts; aborting `signal` ends the wait at once so the request settles as cancelled
+ */
+function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done);
+  });
+}
+
+/**
+ * Whether a failed attempt is worth repeating.
+ * Timeouts, transport failures and gateway errors are transient; 4xx and malformed payloads are not.
+ */
+function isRetryable(error: unknown): boolean {
+  if (error instanceof ApiTimeoutError || error instanceof ApiTransportError) return true;
+  if (error instanceof ApiHttpError) return RETRYABLE_STATUSES.has(error.status);
+  return false;
+}
+
+/**
+ * Single HTTP attempt: enforces the timeout, checks the status before decoding,
+ * and maps every failure onto an ApiError subclass
+ */
+async function attemptJson<T>(
+  url: string,
+  init: RequestInit,
+  timeoutMs: number,
+  parse: (data: unknown) => T
+): Promise<T> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  // The caller's signal aborts the same fetch; which one fired decides the error
+  const cancel = () => controller.abort();
+  init.signal?.addEventListener('abort', cancel);
+
+  let res: Response;
+  let body: string;
+  try {
+    res = await fetch(url, { ...init, signal: controller.signal });
+    body = await res.text();
+  } catch (e) {
+    if (init.signal?.aborted) throw new ApiCancelledError();
+    if (controller.signal.aborted) throw new ApiTimeoutError(timeoutMs);
+    throw new ApiTransportError(e);
+  } finally {
+    clearTimeout(timer);
+    init.signal?.removeEventListener('abort', cancel);
+  }
+
+  if (!res.ok) throw new ApiHttpError(res.status, parseErrorMessage(body));
+
+  let data: unknown;
+  try {
+    data = JSON.parse(body);
+  } catch {
+    throw new ApiPayloadError([`body is not JSON (starts with "${body.slice(0, 40)}")`]);
+  }
+  return parse(data);
+}
+
+/**
+ * Run an idempotent JSON request with timeout and exponential backoff retries.
+ * Aborting `init.signal` stops the current attempt and any further retries with ApiCancelledError.
+ */
+export async function requestJson<T>(
+  path: string,
+  init: RequestInit,
+  parse: (data: unknown) => T,
+  overrides: Partial<ApiClientOptions> = {}
+): Promise<T> {
+  const options = { ...DEFAULT_API_OPTIONS, ...overrides };
+  const url = `${options.baseUrl.replace(/\/+$/, '')}${path}`;
+  const headers = new Headers(init.headers);
+  if (options.apiKey) headers.set('X-API-Key', options.apiKey);
+
+  let refreshed = false;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      if (init.signal?.aborted) throw new ApiCancelledError();
+      if (options.auth) {
+        const token = await options.auth.getAccessToken();
+        if (token) headers.set('Authorization', `Bearer ${token}`);
+        else headers.delete('Authorization');
+      }
+      return await attemptJson(url, { ...init, headers }, options.timeoutMs, parse);
+    } catch (e) {
+      if (options.auth && isAuthError(e)) {
+        // An expired or revoked token gets one refresh; repeating the request with it is not a retry
+        if (e.status === 401 && !refreshed && headers.has('Authorization')) {
+          refreshed = true;
+          if (await options.auth.getAccessToken(true)) {
+            attempt--;
+            continue;
+          }
+          // The refresh was refused and has already ended the session
+          throw e;
+        }
+        options.auth.onRejected(e.status);
+        throw e;
+      }
+      if (attempt >= options.retries || !isRetryable(e)) {
+        throw e instanceof ApiError ? e : new ApiTransportError(e);
+      }
+      // Exponential backoff with jitter so clients don't retry in lockstep
+      const delay = options.retryBaseDelayMs * 2 ** attempt;
+      console.log(`API attempt ${attempt + 1} failed (${(e as Error).message}), retrying in ${delay} ms`);
+      await sleep(delay * (0.75 + Math.random() * 0.5), init.signal);
+    }
+  }
+}
+
+/**
+ * Classify a leaf image. Inference has no side effects, so the call is safe to retry.
+ * @param signal - Aborts the request, e.g. when the user picks another image
+ */
+export function predict(
+  request: PredictRequest,
+  overrides: Partial<ApiClientOptions> = {},
+  signal?: AbortSignal
+): Promise<PredictResponse> {
+  return requestJson(
+    '/predict',
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+      body: JSON.stringify(request),
+      signal,
+    },
+    parsePredictResponse,
+    overrides
+  );
+}
+
+/**
+ * Report whether a diagnosis was correct. The server keys feedback by diagnosis id,
+ * so a retried or changed submission replaces the earlier one.
+ */
+export function sendFeedback(
+  request: FeedbackRequest,
+  overrides: Partial<ApiClientOptions> = {}
+): Promise<FeedbackResponse> {
+  return requestJson(
+    '/feedback',
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+      body: JSON.stringify(request),
+    },
+    parseFeedbackResponse,
+    overrides
+  );
+}
+
+export type HealthCheckResult = HealthResponse & {
+  /** Round trip time of the health request */
+  latencyMs: number;
+};
+
+/**
+ * Ping the server's health endpoint once (no retries) and measure the round trip
+ */
+export async function checkHealth(overrides: Partial<ApiClientOptions> = {}): Promise<HealthCheckResult> {
+  const started = Date.now();
+  const health = await requestJson(
+    '/health',
+    { method: 'GET', headers: { Accept: 'application/json' } },
+    parseHealthResponse,
+    { timeoutMs: 10_000, ...overrides, retries: 0 }
+  );
+  return { ...health, latencyMs: Date.now() - started };
+}
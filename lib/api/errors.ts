@@ -0,0 +1,114 @@
+import type { Translator } from '@/lib/i18n';
+
+/**
+ * Error classes thrown by the prediction API client.
+ * Each class maps to a distinct failure mode so the UI can explain what went wrong.
+ */
+
+export class ApiError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+/** The server did not answer within the configured timeout */
+export class ApiTimeoutError extends ApiError {
+  constructor(readonly timeoutMs: number) {
+    super(`Request timed out after ${timeoutMs} ms`);
+    this.name = 'ApiTimeoutError';
+  }
+}
+
+/** The caller aborted the request, e.g. because the user picked another image */
+export class ApiCancelledError extends ApiError {
+  constructor() {
+    super('Request was cancelled');
+    this.name = 'ApiCancelledError';
+  }
+}
+
+/** The request never reached the server (DNS, no connectivity, refused connection, TLS) */
+export class ApiTransportError extends ApiError {
+  constructor(readonly cause: unknown) {
+    super(`Network request failed: ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = 'ApiTransportError';
+  }
+}
+
+/** The server answered with a non-2xx status */
+export class ApiHttpError extends ApiError {
+  constructor(
+    readonly status: number,
+    /** Error message from a JSON body (`{ "error": "..." }`), if the server sent one */
+    readonly serverMessage: string | null
+  ) {
+    super(`HTTP ${status}${serverMessage ? `: ${serverMessage}` : ''}`);
+    this.name = 'ApiHttpError';
+  }
+}
+
+/** The server answered 2xx but the body is not valid JSON or does not match the contract */
+export class ApiPayloadError extends ApiError {
+  constructor(readonly issues: string[]) {
+    super(`Malformed response: ${issues.join('; ')}`);
+    this.name = 'ApiPayloadError';
+  }
+}
+
+/**
+ * Whether a failure means "try again once connected" rather than a real answer from the server
+ */
+export function isConnectivityError(error: unknown): boolean {
+  return error instanceof ApiTransportError || error instanceof ApiTimeoutError;
+}
+
+/**
+ * Whether the server refused the request because the user is not signed in or not allowed (401/403)
+ */
+export function isAuthError(error: unknown): error is ApiHttpError {
+  return error instanceof ApiHttpError && (error.status === 401 || error.status === 403);
+}
+
+/**
+ * Whether the server refused the request itself (a 4xx other than sign-in, timeout or rate
+ * limiting), so sending it again unchanged cannot succeed
+ */
+export function isRejectedRequest(error: unknown): error is ApiHttpError {
+  if (!(error instanceof ApiHttpError) || error.status < 400 || error.status >= 500) return false;
+  return ![401, 403, 408, 429].includes(error.status);
+}
+
+/**
+ * Alert title and message for an error thrown while calling the API, in the user's language
+ */
+export function describeApiError(error: unknown, { t }: Translator): { title: string; message: string } {
+  if (error instanceof ApiTimeoutError) {
+    return { title: t('apiError.timeoutTitle'), message: t('apiError.timeout') };
+  }
+  if (error instanceof ApiTransportError) {
+    return { title: t('apiError.networkTitle'), message: t('apiError.network') };
+  }
+  if (isAuthError(error)) {
+    return {
+      title: t('apiError.signInTitle'),
+      message: error.status === 403 ? t('apiError.forbidden') : t('apiError.sessionEnded'),
+    };
+  }
+  if (error instanceof ApiHttpError) {
+    if (error.status >= 500) {
+      return {
+        title: t('apiError.serverTitle'),
+        message: error.serverMessage ?? t('apiError.server', { status: error.status }),
+      };
+    }
+    return {
+      title: t('apiError.rejectedTitle'),
+      message: error.serverMessage ?? t('apiError.rejected', { status: error.status }),
+    };
+  }
+  if (error instanceof ApiPayloadError) {
+    return { title: t('apiError.payloadTitle'), message: t('apiError.payload') };
+  }
+  return { title: t('apiError.unknownTitle'), message: t('apiError.unknown') };
+}
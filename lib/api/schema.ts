@@ -0,0 +1,172 @@
+import { ApiPayloadError } from '@/lib/api/errors';
+import { isHeatmapGrid } from '@/lib/heatmap';
+
+/**
+ * Wire contract of the prediction server.
+ * Field names match the JSON exchanged with `/predict`.
+ */
+
+export type PredictRequest = {
+  /** Base64 encoded JPEG, without data URI prefix */
+  image: string;
+  /** Ask the server to render a Grad-CAM overlay */
+  include_gradcam: boolean;
+  /** Number of ranked labels to return; ignored by servers without top-k support */
+  top_k?: number;
+};
+
+export type TopKEntry = {
+  /** Raw model label */
+  label: string;
+  /** Probability as 0-1 or 0-100, same scale as `confidence` */
+  probability: number;
+};
+
+export type PredictResponse = {
+  /** Raw model label, e.g. "tomato_late_blight" */
+  prediction: string;
+  /** Confidence as 0-1 or 0-100, depending on server version; null if not reported */
+  confidence: number | null;
+  /** Base64 PNG of the Grad-CAM overlay, possibly as a data URI; null if not requested or failed */
+  gradcam_png_base64: string | null;
+  /** Raw Grad-CAM activations (rows × columns) from servers that do not composite a PNG */
+  gradcam_heatmap: number[][] | null;
+  /** Ranked labels, most likely first; null for servers that only return `prediction` */
+  top_k: TopKEntry[] | null;
+  /**
+   * Server judged the photo not to be a plant leaf (or outside what the model knows);
+   * `prediction` is then meaningless. False for servers that do not send it.
+   */
+  out_of_distribution: boolean;
+};
+
+export type FeedbackRequest = {
+  /** Diagnosis id on the device (also the id of its synced record) */
+  diagnosis_id: string;
+  /** Object storage path of the photo if the diagnosis was synced; null otherwise */
+  image_path: string | null;
+  /** Base64 encoded JPEG of the photo when there is no `image_path`; null otherwise */
+  image: string | null;
+  /** Label and confidence the model returned */
+  predicted_label: string;
+  predicted_confidence: number | null;
+  /** Whether the user confirmed the prediction */
+  correct: boolean;
+  /** Label chosen or typed by the user; null when the prediction was confirmed */
+  corrected_label: string | null;
+  /** The corrected label was typed in rather than picked from the model's labels */
+  free_text: boolean;
+  /** ISO timestamp of when the user gave the feedback */
+  created_at: string;
+};
+
+export type FeedbackResponse = {
+  /** Server-side id of the stored feedback; null if the server does not report one */
+  id: string | null;
+};
+
+export type HealthResponse = {
+  /** "ok" when the model is loaded and ready */
+  status: string;
+  /** Server or model version; null for servers that do not report it */
+  version: string | null;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Keep only known fields, most likely label first
+const sortTopK = (entries: TopKEntry[]) =>
+  entries
+    .map(({ label, probability }) => ({ label, probability }))
+    .sort((a, b) => b.probability - a.probability);
+
+/**
+ * Validate a decoded `/predict` body and normalize optional fields
+ * @throws ApiPayloadError listing every field that does not match the contract
+ */
+export function parsePredictResponse(data: unknown): PredictResponse {
+  if (!isRecord(data)) throw new ApiPayloadError(['body is not a JSON object']);
+
+  const issues: string[] = [];
+
+  const { prediction, confidence, gradcam_png_base64, gradcam_heatmap, top_k, out_of_distribution } = data;
+
+  if (typeof prediction !== 'string' || prediction.length === 0) {
+    issues.push('"prediction" must be a non-empty string');
+  }
+  if (confidence != null && (typeof confidence !== 'number' || !Number.isFinite(confidence))) {
+    issues.push('"confidence" must be a number');
+  }
+  if (gradcam_png_base64 != null && typeof gradcam_png_base64 !== 'string') {
+    issues.push('"gradcam_png_base64" must be a string');
+  }
+  if (gradcam_heatmap != null && !isHeatmapGrid(gradcam_heatmap)) {
+    issues.push('"gradcam_heatmap" must be a rectangular grid of numbers');
+  }
+
+  if (out_of_distribution != null && typeof out_of_distribution !== 'boolean') {
+    issues.push('"out_of_distribution" must be a boolean');
+  }
+
+  if (top_k != null) {
+    const valid =
+      Array.isArray(top_k) &&
+      top_k.every(
+        (entry) =>
+          isRecord(entry) &&
+          typeof entry.label === 'string' &&
+          typeof entry.probability === 'number' &&
+          Number.isFinite(entry.probability)
+      );
+    if (!valid) issues.push('"top_k" must be a list of { label, probability }');
+  }
+
+  if (issues.length > 0) throw new ApiPayloadError(issues);
+
+  return {
+    prediction: prediction as string,
+    confidence: (confidence as number | null | undefined) ?? null,
+    gradcam_png_base64:
+      typeof gradcam_png_base64 === 'string' && gradcam_png_base64.length > 0 ? gradcam_png_base64 : null,
+    gradcam_heatmap: (gradcam_heatmap as number[][] | null | undefined) ?? null,
+    top_k: Array.isArray(top_k) && top_k.length > 0 ? sortTopK(top_k as TopKEntry[]) : null,
+    out_of_distribution: out_of_distribution === true,
+  };
+}
+
+/**
+ * Validate a decoded `/feedback` body; the server only has to acknowledge with an object
+ * @throws ApiPayloadError if the body is not an object
+ */
+export function parseFeedbackResponse(data: unknown): FeedbackResponse {
+  if (!isRecord(data)) throw new ApiPayloadError(['body is not a JSON object']);
+  return { id: typeof data.id === 'string' || typeof data.id === 'number' ? String(data.id) : null };
+}
+
+/**
+ * Validate a decoded `/health` body
+ * @throws ApiPayloadError if the status is missing
+ */
+export function parseHealthResponse(data: unknown): HealthResponse {
+  if (!isRecord(data)) throw new ApiPayloadError(['body is not a JSON object']);
+  if (typeof data.status !== 'string') throw new ApiPayloadError(['"status" must be a string']);
+
+  return {
+    status: data.status,
+    version: typeof data.version === 'string' ? data.version : null,
+  };
+}
+
+/**
+ * Extract `{ "error": "..." }` from an error response body, if present
+ */
+export function parseErrorMessage(body: string): string | null {
+  try {
+    const data: unknown = JSON.parse(body);
+    if (isRecord(data) && typeof data.error === 'string' && data.error.length > 0) return data.error;
+  } catch {
+    // Not JSON (e.g. an HTML error page from a proxy)
+  }
+  return null;
+}
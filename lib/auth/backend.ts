@@ -0,0 +1,148 @@
+import { ApiHttpError, ApiPayloadError, describeApiError, isConnectivityError } from '@/lib/api/errors';
+import type { Translator } from '@/lib/i18n';
+
+/**
+ * Contract between the app and an account service.
+ * Backends sign users in with a password or an emailed magic link and hand out short-lived
+ * access tokens that the prediction server accepts as `Authorization: Bearer <token>`.
+ */
+
+export type AuthUser = {
+  id: string;
+  /** Null for accounts the backend does not report an address for */
+  email: string | null;
+};
+
+export type AuthSession = {
+  accessToken: string;
+  /** Null for backends that do not issue refresh tokens; the user signs in again on expiry */
+  refreshToken: string | null;
+  /** Epoch milliseconds after which the access token is rejected */
+  expiresAt: number;
+  user: AuthUser;
+};
+
+export interface AuthBackend {
+  /** Stable identifier of the account service, used to key the stored session */
+  readonly id: string;
+  /** Display name for the sign-in screen, e.g. "Production server" */
+  readonly name: string;
+  /** Base URL that passwords and tokens are sent to when signing in */
+  readonly url: string;
+  /** Origins of the prediction servers that accept the tokens; other servers never see them */
+  readonly audience: string[];
+  signInWithPassword(email: string, password: string): Promise<AuthSession>;
+  /**
+   * Email a one-time sign-in link
+   * @param redirectUrl - Deep link the email should open, e.g. "plantwhisperermobile://auth/callback"
+   */
+  sendMagicLink(email: string, redirectUrl: string): Promise<void>;
+  /**
+   * Exchange an opened magic link for a session
+   * @returns null if the URL carries no sign-in token
+   */
+  completeMagicLink(url: string): Promise<AuthSession | null>;
+  /** New tokens for a session whose access token expired or was rejected */
+  refresh(session: AuthSession): Promise<AuthSession>;
+  /** Revoke the session on the backend */
+  signOut(session: AuthSession): Promise<void>;
+}
+
+/**
+ * Thrown instead of sending a password or token over plain HTTP
+ */
+export class InsecureAuthError extends Error {
+  constructor(public readonly url: string) {
+    super(`Refusing to send credentials to ${url} without HTTPS`);
+    this.name = 'InsecureAuthError';
+  }
+}
+
+/**
+ * Whether requests to the URL travel unencrypted over the network (plain HTTP to another host)
+ */
+export function isCleartextUrl(url: string): boolean {
+  // Loopback addresses, including the Android emulator's alias for the host, never leave the machine
+  const local = /^http:\/\/(localhost|127\.0\.0\.1|\[::1\]|10\.0\.2\.2)(:|\/|$)/i;
+  return /^http:\/\//i.test(url.trim()) && !local.test(url.trim());
+}
+
+/**
+ * @throws InsecureAuthError if credentials sent to the URL would travel unencrypted
+ */
+export function requireSecureUrl(url: string) {
+  if (isCleartextUrl(url)) throw new InsecureAuthError(url);
+}
+
+/**
+ * Scheme, host and port of an http(s) URL, lower-cased (e.g. "https://api.example.com:8443");
+ * null for anything else
+ */
+export function urlOrigin(url: string): string | null {
+  const match = /^(https?:\/\/[^/?#\s]+)/i.exec(url.trim());
+  return match ? match[1].toLowerCase() : null;
+}
+
+/**
+ * Session from an OAuth-style token response:
+ * `{ access_token, refresh_token?, expires_in, user?: { id, email? } }`
+ * @param previous - Session being refreshed; its user and refresh token are kept when the response omits them
+ */
+export function parseTokenResponse(data: unknown, previous: AuthSession | null = null): AuthSession {
+  const issues: string[] = [];
+  const body = (typeof data === 'object' && data !== null ? data : {}) as Record<string, unknown>;
+  const user = (typeof body.user === 'object' && body.user !== null ? body.user : null) as Record<
+    string,
+    unknown
+  > | null;
+
+  if (typeof body.access_token !== 'string' || !body.access_token) issues.push('access_token must be a string');
+  if (typeof body.expires_in !== 'number') issues.push('expires_in must be a number');
+  if (!user && !previous) issues.push('user is missing');
+  if (user && typeof user.id !== 'string') issues.push('user.id must be a string');
+  if (issues.length > 0) throw new ApiPayloadError(issues);
+
+  return {
+    accessToken: body.access_token as string,
+    refreshToken:
+      typeof body.refresh_token === 'string' ? body.refresh_token : (previous?.refreshToken ?? null),
+    expiresAt: Date.now() + (body.expires_in as number) * 1000,
+    user: user
+      ? { id: user.id as string, email: typeof user.email === 'string' ? user.email : null }
+      : previous!.user,
+  };
+}
+
+/**
+ * Query and fragment parameters of a deep link, fragment values winning.
+ * Parsed by hand because React Native's URL implementation has no `searchParams`.
+ */
+export function linkParams(url: string): Record<string, string> {
+  const params: Record<string, string> = {};
+  const after = (text: string, separator: string) =>
+    text.includes(separator) ? text.slice(text.indexOf(separator) + 1) : '';
+  const fragment = after(url, '#');
+  const query = after(url.split('#')[0], '?');
+  for (const part of [...query.split('&'), ...fragment.split('&')]) {
+    if (!part) continue;
+    // Tokens may end in base64 padding, so only the first "=" separates key and value
+    const key = part.includes('=') ? part.slice(0, part.indexOf('=')) : part;
+    const value = after(part, '=');
+    params[decodeURIComponent(key)] = decodeURIComponent(value.replace(/\+/g, ' '));
+  }
+  return params;
+}
+
+/**
+ * Message for a failed sign-in attempt, shown under the form
+ */
+export function describeAuthError(error: unknown, i18n: Translator): string {
+  const { t } = i18n;
+  if (error instanceof InsecureAuthError) return t('authError.insecure');
+  if (error instanceof ApiHttpError && error.status >= 400 && error.status < 500) {
+    if (error.status === 429) return t('authError.tooManyAttempts');
+    return error.serverMessage ?? t('authError.wrongCredentials');
+  }
+  if (isConnectivityError(error)) return t('authError.unreachable');
+  return describeApiError(error, i18n).message;
+}
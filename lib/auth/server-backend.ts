@@ -0,0 +1,74 @@
+import { requestJson } from '@/lib/api/client';
+import {
+  linkParams,
+  parseTokenResponse,
+  requireSecureUrl,
+  urlOrigin,
+  type AuthBackend,
+} from '@/lib/auth/backend';
+import type { ServerProfile } from '@/lib/server-profiles';
+
+/**
+ * Accounts managed by the prediction server itself.
+ *
+ * Endpoints (JSON in and out):
+ *   POST /auth/login              { email, password }          -> token response
+ *   POST /auth/magic-link         { email, redirect_url }      -> any JSON; emails `redirect_url?token=...`
+ *   POST /auth/magic-link/verify  { token }                    -> token response
+ *   POST /auth/refresh            { refresh_token }            -> token response
+ *   POST /auth/logout             { refresh_token }            -> any JSON
+ * where a token response is `{ access_token, refresh_token, expires_in, user: { id, email } }`.
+ * Servers without HTTPS (other than on this machine) are refused before anything is sent.
+ */
+export function createServerAuthBackend(profile: ServerProfile): AuthBackend {
+  // Sign-in calls change server state (emails, rotated refresh tokens), so they are never retried
+  const api = { baseUrl: profile.baseUrl.trim(), apiKey: profile.apiKey || null, retries: 0 };
+
+  const post = async <T>(path: string, body: object, parse: (data: unknown) => T) => {
+    requireSecureUrl(api.baseUrl);
+    return requestJson(
+      path,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+        body: JSON.stringify(body),
+      },
+      parse,
+      api
+    );
+  };
+
+  const origin = urlOrigin(api.baseUrl);
+
+  return {
+    id: `server-${profile.id}`,
+    name: profile.name,
+    url: api.baseUrl,
+    audience: origin ? [origin] : [],
+
+    signInWithPassword(email, password) {
+      return post('/auth/login', { email, password }, (data) => parseTokenResponse(data));
+    },
+
+    async sendMagicLink(email, redirectUrl) {
+      await post('/auth/magic-link', { email, redirect_url: redirectUrl }, (data) => data);
+    },
+
+    async completeMagicLink(url) {
+      const { token } = linkParams(url);
+      if (!token) return null;
+      return post('/auth/magic-link/verify', { token }, (data) => parseTokenResponse(data));
+    },
+
+    refresh(session) {
+      return post('/auth/refresh', { refresh_token: session.refreshToken }, (data) =>
+        parseTokenResponse(data, session)
+      );
+    },
+
+    async signOut(session) {
+      if (!session.refreshToken) return;
+      await post('/auth/logout', { refresh_token: session.refreshToken }, (data) => data);
+    },
+  };
+}
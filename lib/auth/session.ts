@@ -0,0 +1,164 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+
+import type { ApiAuth } from '@/lib/api/client';
+import { ApiHttpError } from '@/lib/api/errors';
+import { isCleartextUrl, urlOrigin, type AuthBackend, type AuthSession } from '@/lib/auth/backend';
+
+/**
+ * Session of the active account service, shared by every API request.
+ *
+ * Tokens are kept in the platform keychain through expo-secure-store, one entry per account
+ * service so that switching servers does not send one server's token to another. Browsers have
+ * no keychain; the web build keeps them in local storage.
+ */
+
+/**
+ * - `loaded`: the stored session of a newly activated backend was read
+ * - `rejected`: the server refused the token and it could not be refreshed, or a request
+ *   without a session was refused; the user has to sign in again
+ */
+export type SessionChange = 'loaded' | 'signed-in' | 'refreshed' | 'signed-out' | 'rejected';
+
+type SessionListener = (session: AuthSession | null, change: SessionChange) => void;
+
+const KEY_PREFIX = 'authSession.v1.';
+
+// Refresh a little early so the token does not expire while a request is in flight
+const EXPIRY_MARGIN_MS = 60_000;
+
+const isWeb = process.env.EXPO_OS === 'web';
+
+let backend: AuthBackend | null = null;
+let session: AuthSession | null = null;
+let refreshing: Promise<AuthSession | null> | null = null;
+const listeners = new Set<SessionListener>();
+
+// Secure store keys may only contain letters, digits, ".", "-" and "_"
+const storageKey = (backendId: string) => KEY_PREFIX + backendId.replace(/[^\w.-]/g, '_');
+
+async function readStoredSession(backendId: string): Promise<AuthSession | null> {
+  try {
+    const key = storageKey(backendId);
+    const raw = isWeb ? await AsyncStorage.getItem(key) : await SecureStore.getItemAsync(key);
+    return raw ? (JSON.parse(raw) as AuthSession) : null;
+  } catch (e: any) {
+    console.log('Could not load sign-in:', e?.message || e);
+    return null;
+  }
+}
+
+async function writeStoredSession(backendId: string, next: AuthSession | null): Promise<void> {
+  const key = storageKey(backendId);
+  if (isWeb) {
+    if (next) await AsyncStorage.setItem(key, JSON.stringify(next));
+    else await AsyncStorage.removeItem(key);
+  } else {
+    if (next) await SecureStore.setItemAsync(key, JSON.stringify(next));
+    else await SecureStore.deleteItemAsync(key);
+  }
+}
+
+function update(next: AuthSession | null, change: SessionChange) {
+  session = next;
+  if (backend && change !== 'loaded') {
+    writeStoredSession(backend.id, next).catch((e) => console.log('Could not save sign-in:', e?.message || e));
+  }
+  listeners.forEach((listener) => listener(next, change));
+}
+
+/**
+ * Switch to another account service (or none) and restore its stored session
+ */
+export async function activateAuthBackend(next: AuthBackend | null): Promise<AuthSession | null> {
+  backend = next;
+  session = null;
+  refreshing = null;
+  const stored = next ? await readStoredSession(next.id) : null;
+  // Another backend was activated while reading
+  if (backend !== next) return session;
+  update(stored, 'loaded');
+  return stored;
+}
+
+export function getAuthBackend(): AuthBackend | null {
+  return backend;
+}
+
+export function getAuthSession(): AuthSession | null {
+  return session;
+}
+
+/**
+ * Store the session after signing in, or clear it after signing out
+ */
+export function setAuthSession(next: AuthSession | null) {
+  update(next, next ? 'signed-in' : 'signed-out');
+}
+
+/**
+ * Be told about every sign-in, refresh and sign-out
+ * @returns Unsubscribe function
+ */
+export function subscribeAuthSession(listener: SessionListener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * Exchange the refresh token for new tokens, once for all requests waiting on it.
+ * A refused refresh token ends the session; connectivity failures are thrown so the
+ * request can be retried or queued like any other.
+ */
+function refreshSession(current: AuthSession): Promise<AuthSession | null> {
+  const owner = backend;
+  if (!owner || !current.refreshToken) {
+    update(null, 'rejected');
+    return Promise.resolve(null);
+  }
+
+  refreshing ??= owner
+    .refresh(current)
+    .then(
+      (next) => {
+        if (backend === owner) update(next, 'refreshed');
+        return next;
+      },
+      (e) => {
+        if (!(e instanceof ApiHttpError) || e.status < 400 || e.status >= 500) throw e;
+        console.log('Session refresh refused:', e.message);
+        if (backend === owner) update(null, 'rejected');
+        return null;
+      }
+    )
+    .finally(() => {
+      refreshing = null;
+    });
+  return refreshing;
+}
+
+/**
+ * Bearer tokens for the prediction API client
+ */
+const sessionApiAuth: ApiAuth = {
+  async getAccessToken(forceRefresh = false) {
+    const current = session;
+    if (!current) return null;
+    if (!forceRefresh && current.expiresAt - EXPIRY_MARGIN_MS > Date.now()) return current.accessToken;
+    return (await refreshSession(current))?.accessToken ?? null;
+  },
+
+  onRejected() {
+    update(null, 'rejected');
+  },
+};
+
+/**
+ * Token source for requests to a prediction server, or null if the tokens must not reach it:
+ * the account service issues them for other servers, or the server has no HTTPS
+ */
+export function apiAuthFor(baseUrl: string): ApiAuth | null {
+  if (isCleartextUrl(baseUrl)) return null;
+  if (backend && !backend.audience.includes(urlOrigin(baseUrl) ?? '')) return null;
+  return sessionApiAuth;
+}
@@ -0,0 +1,89 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { isCleartextUrl, urlOrigin, type AuthBackend } from '@/lib/auth/backend';
+import { createServerAuthBackend } from '@/lib/auth/server-backend';
+import { createSupabaseAuthBackend } from '@/lib/auth/supabase-backend';
+import type { Translator } from '@/lib/i18n';
+import type { ServerProfile } from '@/lib/server-profiles';
+
+/**
+ * Which account service issues the tokens sent to the prediction server.
+ */
+
+export type AuthBackendKind = 'server' | 'supabase';
+
+export type AuthSettings = {
+  backend: AuthBackendKind;
+  supabaseUrl: string;
+  supabaseAnonKey: string;
+  /** Prediction servers that accept Supabase tokens, one URL per line */
+  supabaseServers: string;
+};
+
+const SETTINGS_KEY = 'authSettings.v1';
+
+export const DEFAULT_AUTH_SETTINGS: AuthSettings = {
+  backend: 'server',
+  supabaseUrl: '',
+  supabaseAnonKey: '',
+  supabaseServers: '',
+};
+
+export async function loadAuthSettings(): Promise<AuthSettings> {
+  try {
+    const raw = await AsyncStorage.getItem(SETTINGS_KEY);
+    return raw ? { ...DEFAULT_AUTH_SETTINGS, ...JSON.parse(raw) } : DEFAULT_AUTH_SETTINGS;
+  } catch (e: any) {
+    console.log('Could not load account settings:', e?.message || e);
+    return DEFAULT_AUTH_SETTINGS;
+  }
+}
+
+export async function saveAuthSettings(settings: AuthSettings): Promise<void> {
+  await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
+
+/**
+ * Message (key and params) describing what is wrong with the account settings, or null if they can be used
+ */
+function findAuthSettingsProblem(settings: AuthSettings): Parameters<Translator['t']> | null {
+  if (settings.backend !== 'supabase') return null;
+  const url = settings.supabaseUrl.trim();
+  if (!/^https?:\/\/\S+$/.test(url) || isCleartextUrl(url)) return ['settingsError.supabaseUrl'];
+  if (!settings.supabaseAnonKey.trim()) return ['settingsError.anonKey'];
+  for (const server of serverLines(settings.supabaseServers)) {
+    if (!urlOrigin(server)) return ['settingsError.serverUrl', { server }];
+    if (isCleartextUrl(server)) return ['settingsError.serverInsecure', { server }];
+  }
+  return null;
+}
+
+/**
+ * Validation message for the account settings form, or null if they can be used
+ */
+export function validateAuthSettings(settings: AuthSettings, { t }: Translator): string | null {
+  const problem = findAuthSettingsProblem(settings);
+  return problem && t(...problem);
+}
+
+const serverLines = (text: string) =>
+  text
+    .split(/[\s,]+/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+/**
+ * Account service for the settings; the prediction server backend signs in to the active profile.
+ * Null when the settings are incomplete.
+ */
+export function createAuthBackend(settings: AuthSettings, profile: ServerProfile): AuthBackend | null {
+  if (settings.backend === 'server') return createServerAuthBackend(profile);
+  if (findAuthSettingsProblem(settings) === null) {
+    return createSupabaseAuthBackend({
+      url: settings.supabaseUrl.trim(),
+      anonKey: settings.supabaseAnonKey.trim(),
+      audience: serverLines(settings.supabaseServers).map((server) => urlOrigin(server) as string),
+    });
+  }
+  return null;
+}
@@ -0,0 +1,97 @@
+import { requestJson } from '@/lib/api/client';
+import { ApiHttpError, ApiPayloadError } from '@/lib/api/errors';
+import { linkParams, parseTokenResponse, requireSecureUrl, type AuthBackend } from '@/lib/auth/backend';
+
+/**
+ * Accounts in Supabase Auth, using its REST endpoints directly (no SDK).
+ * Magic links use the implicit flow: the email opens the redirect URL with the tokens in the fragment.
+ * The prediction servers listed in the account settings must verify access tokens with the
+ * project's JWT secret; the tokens are sent to no other server.
+ */
+
+export type SupabaseAuthConfig = {
+  /** Project URL, e.g. "https://abcd.supabase.co" */
+  url: string;
+  /** Public anon key */
+  anonKey: string;
+  /** Origins of the prediction servers that verify the project's tokens */
+  audience: string[];
+};
+
+export function createSupabaseAuthBackend(config: SupabaseAuthConfig): AuthBackend {
+  const baseUrl = config.url.replace(/\/+$/, '');
+  const api = { baseUrl, apiKey: null, retries: 0 };
+  const headers = {
+    apikey: config.anonKey,
+    'Content-Type': 'application/json',
+    Accept: 'application/json',
+  };
+
+  const request = <T>(path: string, init: RequestInit, parse: (data: unknown) => T) => {
+    requireSecureUrl(baseUrl);
+    return requestJson(path, init, parse, api);
+  };
+
+  const post = <T>(path: string, body: object, parse: (data: unknown) => T, accessToken?: string) =>
+    request(
+      path,
+      {
+        method: 'POST',
+        headers: accessToken ? { ...headers, Authorization: `Bearer ${accessToken}` } : headers,
+        body: JSON.stringify(body),
+      },
+      parse
+    );
+
+  return {
+    id: 'supabase',
+    name: 'Supabase',
+    url: baseUrl,
+    audience: config.audience,
+
+    signInWithPassword(email, password) {
+      return post('/auth/v1/token?grant_type=password', { email, password }, (data) =>
+        parseTokenResponse(data)
+      );
+    },
+
+    async sendMagicLink(email, redirectUrl) {
+      // Only existing accounts may sign in; accounts are created by the project admin
+      await post(
+        `/auth/v1/otp?redirect_to=${encodeURIComponent(redirectUrl)}`,
+        { email, create_user: false },
+        (data) => data
+      );
+    },
+
+    async completeMagicLink(url) {
+      const params = linkParams(url);
+      if (params.error_description) throw new ApiHttpError(401, params.error_description);
+      if (!params.access_token) return null;
+
+      // The fragment has no user details; ask for them with the new token
+      const user = await request(
+        '/auth/v1/user',
+        { method: 'GET', headers: { ...headers, Authorization: `Bearer ${params.access_token}` } },
+        (data) => data
+      );
+      return parseTokenResponse({ ...params, expires_in: Number(params.expires_in), user });
+    },
+
+    refresh(session) {
+      return post(
+        '/auth/v1/token?grant_type=refresh_token',
+        { refresh_token: session.refreshToken },
+        (data) => parseTokenResponse(data, session)
+      );
+    },
+
+    async signOut(session) {
+      // Answers 204 without a body, which the JSON client reports as malformed
+      await post('/auth/v1/logout', {}, (data) => data, session.accessToken).catch((e) => {
+        if (e instanceof ApiPayloadError) return;
+        throw e;
+      });
+    },
+  };
+}
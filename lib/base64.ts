@@ -0,0 +1,52 @@
+/**
+ * Base64 <-> bytes conversion that does not depend on atob/btoa or Buffer,
+ * which are not available on every JS engine the app runs on.
+ */
+
+const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+const LOOKUP = (() => {
+  const table = new Uint8Array(256);
+  for (let i = 0; i < ALPHABET.length; i++) table[ALPHABET.charCodeAt(i)] = i;
+  // URL-safe variants
+  table['-'.charCodeAt(0)] = 62;
+  table['_'.charCodeAt(0)] = 63;
+  return table;
+})();
+
+/**
+ * Decode base64 (optionally a data URI) into bytes
+ */
+export function base64ToBytes(input: string): Uint8Array {
+  const base64 = input.replace(/^data:[^;]+;base64,/, '').replace(/[^A-Za-z0-9+/\-_]/g, '');
+  const length = Math.floor((base64.length * 3) / 4);
+  const bytes = new Uint8Array(length);
+
+  let p = 0;
+  for (let i = 0; i < base64.length; i += 4) {
+    const a = LOOKUP[base64.charCodeAt(i)];
+    const b = LOOKUP[base64.charCodeAt(i + 1)];
+    const c = LOOKUP[base64.charCodeAt(i + 2)];
+    const d = LOOKUP[base64.charCodeAt(i + 3)];
+    bytes[p++] = (a << 2) | (b >> 4);
+    if (i + 2 < base64.length) bytes[p++] = ((b & 15) << 4) | (c >> 2);
+    if (i + 3 < base64.length) bytes[p++] = ((c & 3) << 6) | d;
+  }
+  return bytes.subarray(0, p);
+}
+
+/**
+ * Encode bytes as standard, padded base64
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  let out = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const a = bytes[i];
+    const b = i + 1 < bytes.length ? bytes[i + 1] : 0;
+    const c = i + 2 < bytes.length ? bytes[i + 2] : 0;
+    out += ALPHABET[a >> 2] + ALPHABET[((a & 3) << 4) | (b >> 4)];
+    out += i + 1 < bytes.length ? ALPHABET[((b & 15) << 2) | (c >> 6)] : '=';
+    out += i + 2 < bytes.length ? ALPHABET[c & 63] : '=';
+  }
+  return out;
+}
@@ -0,0 +1,87 @@
+import { confidenceBand, type ConfidenceThresholds } from '@/lib/confidence';
+import type { PredictionResult } from '@/lib/inference/predictor';
+import { confidenceToPercent } from '@/lib/labels';
+
+/**
+ * Batch diagnosis of many leaf photos: a concurrency-limited work queue and the
+ * end-of-session summary.
+ */
+
+export type BatchItemStatus = 'waiting' | 'preparing' | 'uploading' | 'done' | 'queued' | 'error';
+
+export type BatchItem = {
+  id: string;
+  /** Picked photo, for the thumbnail */
+  uri: string;
+  fileSize: number | null;
+  status: BatchItemStatus;
+  result: PredictionResult | null;
+  /** History record of the result */
+  recordId: string | null;
+  error: string | null;
+};
+
+export type BatchSummary = {
+  total: number;
+  diagnosed: number;
+  /** Waiting in the outbox for connectivity */
+  queued: number;
+  failed: number;
+  /** Diagnosed images per label, most frequent first (photos that are not leaves excluded) */
+  labelCounts: { label: string; count: number }[];
+  /** Mean confidence (0-100) of diagnosed images that report one */
+  meanConfidencePct: number | null;
+  /** Diagnosed images outside the confident band, for a closer look */
+  uncertain: BatchItem[];
+};
+
+/** Simultaneous uploads; keeps a weak field connection usable */
+export const BATCH_CONCURRENCY = 3;
+
+/** Most photos the picker lets the user select at once */
+export const BATCH_SELECTION_LIMIT = 50;
+
+/**
+ * Run a worker over every item with at most `limit` in flight
+ * @param shouldStop - Checked before each item is started; running items are not interrupted
+ */
+export async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<void>,
+  shouldStop: () => boolean = () => false
+): Promise<void> {
+  let next = 0;
+  const lane = async () => {
+    while (next < items.length && !shouldStop()) {
+      const item = items[next++];
+      await worker(item);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, lane));
+}
+
+export function summarizeBatch(items: BatchItem[], thresholds: ConfidenceThresholds): BatchSummary {
+  const done = items.filter((item) => item.status === 'done' && item.result);
+  const leaves = done.filter((item) => !item.result!.outOfDistribution);
+
+  const counts = new Map<string, number>();
+  for (const item of leaves) {
+    const label = item.result!.prediction;
+    counts.set(label, (counts.get(label) ?? 0) + 1);
+  }
+
+  const percents = leaves
+    .map((item) => confidenceToPercent(item.result!.confidence))
+    .filter((pct): pct is number => pct !== null);
+
+  return {
+    total: items.length,
+    diagnosed: done.length,
+    queued: items.filter((item) => item.status === 'queued').length,
+    failed: items.filter((item) => item.status === 'error').length,
+    labelCounts: Array.from(counts, ([label, count]) => ({ label, count })).sort((a, b) => b.count - a.count),
+    meanConfidencePct: percents.length > 0 ? percents.reduce((a, b) => a + b, 0) / percents.length : null,
+    uncertain: done.filter((item) => confidenceBand(item.result!, thresholds) !== 'confident'),
+  };
+}
@@ -0,0 +1,90 @@
+import type { Tone } from '@/constants/theme';
+import type { Translator } from '@/lib/i18n';
+import { confidenceToPercent } from '@/lib/labels';
+
+/**
+ * Confidence banding: how much a result can be trusted decides how it is shown.
+ * Confident results are shown as they are, uncertain ones ask for another photo, and
+ * rejected ones (very low confidence, or flagged by the server as not a plant) never
+ * show a disease name.
+ */
+
+export type ConfidenceBand = 'confident' | 'uncertain' | 'reject';
+
+export type ConfidenceThresholds = {
+  /** Results at or above this confidence (percent) are confident */
+  confidentFromPct: number;
+  /** Results below this confidence (percent) are rejected */
+  rejectBelowPct: number;
+};
+
+/** The parts of a prediction or saved diagnosis the band depends on */
+export type BandInput = {
+  prediction: string;
+  confidence: number | null;
+  outOfDistribution: boolean;
+};
+
+export const DEFAULT_CONFIDENCE_THRESHOLDS: ConfidenceThresholds = {
+  confidentFromPct: 75,
+  rejectBelowPct: 40,
+};
+
+/** Semantic colour tone of each band (see `toneColors`) */
+export const BAND_TONES: Record<ConfidenceBand, Tone> = {
+  confident: 'success',
+  uncertain: 'warning',
+  reject: 'danger',
+};
+
+/**
+ * Name of a band, e.g. for the advice box
+ */
+export function bandLabel(band: ConfidenceBand, i18n: Translator): string {
+  return i18n.t(`band.${band}`);
+}
+
+/**
+ * Validation message for the thresholds form, or null if they can be used
+ */
+export function validateConfidenceThresholds(
+  { confidentFromPct, rejectBelowPct }: ConfidenceThresholds,
+  { t }: Translator
+): string | null {
+  if ([confidentFromPct, rejectBelowPct].some((v) => !Number.isFinite(v) || v < 0 || v > 100)) {
+    return t('settingsError.confidenceRange');
+  }
+  if (rejectBelowPct > confidentFromPct) return t('settingsError.confidenceOrder');
+  return null;
+}
+
+/**
+ * Band of a result; results without a confidence cannot be trusted blindly and count as uncertain
+ */
+export function confidenceBand(result: BandInput, t: ConfidenceThresholds): ConfidenceBand {
+  if (result.outOfDistribution) return 'reject';
+  const pct = confidenceToPercent(result.confidence);
+  if (pct === null) return 'uncertain';
+  if (pct < t.rejectBelowPct) return 'reject';
+  if (pct < t.confidentFromPct) return 'uncertain';
+  return 'confident';
+}
+
+/**
+ * Headline for a result: the label, or why there is none
+ */
+export function resultTitle(result: BandInput, band: ConfidenceBand, i18n: Translator): string {
+  if (result.outOfDistribution) return i18n.t('result.notAPlant');
+  if (band === 'reject') return bandLabel('reject', i18n);
+  return i18n.labelName(result.prediction);
+}
+
+/**
+ * What the user should do about a result that is not confident, or null if nothing
+ */
+export function bandAdvice(result: BandInput, band: ConfidenceBand, i18n: Translator): string | null {
+  if (result.outOfDistribution) return i18n.t('advice.notAPlant');
+  if (band === 'reject') return i18n.t('advice.reject');
+  if (band === 'uncertain') return i18n.t('advice.uncertain');
+  return null;
+}
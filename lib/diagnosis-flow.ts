@@ -0,0 +1,161 @@
+import type { PreprocessResult } from '@/lib/image-preprocessing';
+import type { ImageQuality, QualityIssue } from '@/lib/image/quality';
+import type { PredictionResult } from '@/lib/inference/predictor';
+
+/**
+ * State machine of the home screen's single-image diagnosis:
+ * idle → picking → preprocessing → uploading → done, with three detours:
+ * - held: the photo failed the quality check, or the server asked the user to sign in;
+ *   continues to uploading once the user decides or has signed in
+ * - queued: the server could not be reached; becomes done when the outbox has the answer
+ * - error: the request failed or was cancelled; a retry starts over with the same image
+ *
+ * Every picked image starts a new run. Actions carry the run they belong to, and actions
+ * of a superseded run are ignored, so a slow request for an earlier image can never
+ * overwrite the result of a newer one. The screen also aborts the superseded request.
+ */
+
+/** Image after preprocessing, ready to send */
+export type PreparedImage = {
+  /** JPEG as base64, without data URI prefix */
+  base64: string;
+  /** Photo quality scores; null if the check could not run */
+  quality: ImageQuality | null;
+  /** Uploaded image and its original vs. uploaded size */
+  stats: Pick<PreprocessResult, 'uri' | 'originalBytes' | 'processedBytes' | 'width' | 'height'>;
+};
+
+export type DiagnosisResult = PredictionResult & {
+  /** History record of the result, once saved */
+  recordId: string | null;
+};
+
+type Run = {
+  run: number;
+  /** Image as picked, for the preview */
+  uri: string;
+  /** Original file size in bytes, if the source reported it */
+  fileSize: number | null;
+};
+
+export type DiagnosisState =
+  | { phase: 'idle' }
+  /** Camera or gallery open; the previous state stays on screen until an image is chosen */
+  | { phase: 'picking'; previous: DiagnosisState }
+  | ({ phase: 'preprocessing' } & Run)
+  /** Waiting for the user: a failed quality check, or the server asked them to sign in */
+  | ({ phase: 'held'; image: PreparedImage; reason: 'quality'; issues: QualityIssue[] } & Run)
+  | ({ phase: 'held'; image: PreparedImage; reason: 'sign-in' } & Run)
+  | ({ phase: 'uploading'; image: PreparedImage } & Run)
+  /** In the outbox until the server can be reached */
+  | ({ phase: 'queued'; image: PreparedImage; outboxId: string } & Run)
+  | ({ phase: 'done'; image: PreparedImage; result: DiagnosisResult } & Run)
+  /** `image` is null when preprocessing failed; `cancelled` when the user stopped the request */
+  | ({
+      phase: 'error';
+      image: PreparedImage | null;
+      cancelled: boolean;
+      title: string;
+      message: string;
+    } & Run);
+
+export type DiagnosisAction =
+  | { type: 'pick' }
+  | { type: 'pick-cancelled' }
+  | { type: 'select'; run: number; uri: string; fileSize: number | null }
+  | { type: 'hold-quality'; run: number; image: PreparedImage; issues: QualityIssue[] }
+  | { type: 'hold-sign-in'; run: number; image: PreparedImage }
+  | { type: 'upload'; run: number; image: PreparedImage }
+  | { type: 'queued'; run: number; outboxId: string }
+  | { type: 'result'; run: number; result: DiagnosisResult }
+  | { type: 'saved'; run: number; recordId: string }
+  | { type: 'failed'; run: number; title: string; message: string }
+  | { type: 'cancel'; run: number }
+  /** Start the failed or cancelled run again under a new run number */
+  | { type: 'retry'; run: number; nextRun: number }
+  /** A queued capture was diagnosed by the outbox */
+  | { type: 'queued-done'; outboxId: string; result: DiagnosisResult };
+
+export const INITIAL_DIAGNOSIS_STATE: DiagnosisState = { phase: 'idle' };
+
+/**
+ * The state shown on screen: while the picker is open, the one before it
+ */
+export function visibleDiagnosis(state: DiagnosisState): Exclude<DiagnosisState, { phase: 'picking' }> {
+  return state.phase === 'picking' ? visibleDiagnosis(state.previous) : state;
+}
+
+export function diagnosisReducer(state: DiagnosisState, action: DiagnosisAction): DiagnosisState {
+  switch (action.type) {
+    case 'pick':
+      return state.phase === 'picking' ? state : { phase: 'picking', previous: state };
+    case 'pick-cancelled':
+      return state.phase === 'picking' ? state.previous : state;
+    case 'select':
+      return { phase: 'preprocessing', run: action.run, uri: action.uri, fileSize: action.fileSize };
+    case 'queued-done':
+      return reduceQueuedDone(state, action);
+  }
+
+  // The picker stays on top while the run it covers keeps going
+  if (state.phase === 'picking') return { ...state, previous: diagnosisReducer(state.previous, action) };
+  if (state.phase === 'idle' || state.run !== action.run) return state;
+
+  const run: Run = { run: state.run, uri: state.uri, fileSize: state.fileSize };
+  switch (action.type) {
+    case 'hold-quality':
+      return state.phase === 'preprocessing'
+        ? { ...run, phase: 'held', reason: 'quality', image: action.image, issues: action.issues }
+        : state;
+    case 'hold-sign-in':
+      return state.phase === 'uploading'
+        ? { ...run, phase: 'held', reason: 'sign-in', image: action.image }
+        : state;
+    case 'upload':
+      return state.phase === 'done' || state.phase === 'queued'
+        ? state
+        : { ...run, phase: 'uploading', image: action.image };
+    case 'queued':
+      return state.phase === 'uploading'
+        ? { ...run, phase: 'queued', image: state.image, outboxId: action.outboxId }
+        : state;
+    case 'result':
+      return state.phase === 'uploading'
+        ? { ...run, phase: 'done', image: state.image, result: action.result }
+        : state;
+    case 'saved':
+      return state.phase === 'done'
+        ? { ...state, result: { ...state.result, recordId: action.recordId } }
+        : state;
+    case 'failed':
+      return state.phase === 'preprocessing' || state.phase === 'uploading'
+        ? {
+            ...run,
+            phase: 'error',
+            image: state.phase === 'uploading' ? state.image : null,
+            cancelled: false,
+            title: action.title,
+            message: action.message,
+          }
+        : state;
+    case 'cancel':
+      return state.phase === 'uploading'
+        ? { ...run, phase: 'error', image: state.image, cancelled: true, title: '', message: '' }
+        : state;
+    case 'retry':
+      if (state.phase !== 'error') return state;
+      return state.image
+        ? { ...run, run: action.nextRun, phase: 'uploading', image: state.image }
+        : { ...run, run: action.nextRun, phase: 'preprocessing' };
+  }
+}
+
+function reduceQueuedDone(
+  state: DiagnosisState,
+  action: Extract<DiagnosisAction, { type: 'queued-done' }>
+): DiagnosisState {
+  if (state.phase === 'picking') return { ...state, previous: reduceQueuedDone(state.previous, action) };
+  if (state.phase !== 'queued' || state.outboxId !== action.outboxId) return state;
+  const run: Run = { run: state.run, uri: state.uri, fileSize: state.fileSize };
+  return { ...run, phase: 'done', image: state.image, result: action.result };
+}
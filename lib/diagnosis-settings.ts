@@ -0,0 +1,72 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { findMockScenario } from '@/constants/mock-predictions';
+import { DEFAULT_CONFIDENCE_THRESHOLDS, type ConfidenceThresholds } from '@/lib/confidence';
+import type { Translator } from '@/lib/i18n';
+import { DEFAULT_QUALITY_THRESHOLDS, type QualityThresholds } from '@/lib/image/quality';
+import { DEFAULT_PREPROCESS_OPTIONS, type PreprocessOptions } from '@/lib/image-preprocessing';
+
+/**
+ * User-tunable settings of the diagnosis pipeline, stored on the device.
+ */
+
+/** Preprocessing options the user can change; the rest follow the model input */
+export type UploadSettings = Pick<PreprocessOptions, 'maxDimension'>;
+
+export type DiagnosisSettings = {
+  /** Size of the photos sent for diagnosis */
+  upload: UploadSettings;
+  /** Photo quality gate run before upload */
+  quality: QualityThresholds;
+  /** Confidence bands of the results */
+  confidence: ConfidenceThresholds;
+  /** Developer setting: answer predictions from this mock fixture instead of the server */
+  mockScenario: string | null;
+};
+
+const SETTINGS_KEY = 'diagnosisSettings.v1';
+
+// Smallest and largest accepted upload size; the model itself looks at 224 px
+const MIN_UPLOAD_DIMENSION = 224;
+const MAX_UPLOAD_DIMENSION = 4096;
+
+export const DEFAULT_DIAGNOSIS_SETTINGS: DiagnosisSettings = {
+  upload: { maxDimension: DEFAULT_PREPROCESS_OPTIONS.maxDimension },
+  quality: DEFAULT_QUALITY_THRESHOLDS,
+  confidence: DEFAULT_CONFIDENCE_THRESHOLDS,
+  mockScenario: null,
+};
+
+export async function loadDiagnosisSettings(): Promise<DiagnosisSettings> {
+  try {
+    const raw = await AsyncStorage.getItem(SETTINGS_KEY);
+    const saved = raw ? (JSON.parse(raw) as Partial<DiagnosisSettings>) : {};
+    // Merge per section so settings added later get their defaults
+    return {
+      upload: { ...DEFAULT_DIAGNOSIS_SETTINGS.upload, ...saved.upload },
+      quality: { ...DEFAULT_DIAGNOSIS_SETTINGS.quality, ...saved.quality },
+      confidence: { ...DEFAULT_DIAGNOSIS_SETTINGS.confidence, ...saved.confidence },
+      // Scenarios can disappear between app versions
+      mockScenario: findMockScenario(saved.mockScenario ?? null)?.id ?? null,
+    };
+  } catch (e: any) {
+    console.log('Could not load diagnosis settings:', e?.message || e);
+    return DEFAULT_DIAGNOSIS_SETTINGS;
+  }
+}
+
+/**
+ * Validation message for the upload size form, or null if it can be used
+ */
+export function validateUploadSettings(upload: UploadSettings, { t }: Translator): string | null {
+  const { maxDimension } = upload;
+  const inRange = maxDimension >= MIN_UPLOAD_DIMENSION && maxDimension <= MAX_UPLOAD_DIMENSION;
+  if (!Number.isInteger(maxDimension) || !inRange) {
+    return t('settingsError.uploadSize', { min: MIN_UPLOAD_DIMENSION, max: MAX_UPLOAD_DIMENSION });
+  }
+  return null;
+}
+
+export async function saveDiagnosisSettings(settings: DiagnosisSettings): Promise<void> {
+  await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
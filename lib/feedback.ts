@@ -0,0 +1,79 @@
+import type { FeedbackRequest } from '@/lib/api/schema';
+import type { DiagnosisRecord } from '@/lib/history';
+import type { Translator } from '@/lib/i18n';
+
+/**
+ * "Was this correct?" feedback on a diagnosis. It is kept on the diagnosis record
+ * (shown in history) and sent to the server's feedback endpoint, once connected,
+ * so misclassifications can be reviewed. Photos that were never synced are sent along.
+ */
+
+export type DiagnosisFeedback = {
+  /** The user confirmed the prediction */
+  correct: boolean;
+  /** Label the user says is right; null when the prediction was confirmed */
+  correctedLabel: string | null;
+  /** The corrected label was typed in rather than picked from the model's labels */
+  freeText: boolean;
+  /** ISO timestamp of when the feedback was given */
+  givenAt: string;
+  /** ISO timestamp of when the server accepted it; null while it waits to be sent */
+  sentAt: string | null;
+  /**
+   * ISO timestamp of when sending was given up: the server refused it, or the server profile
+   * of the diagnosis was deleted. The answer stays on the record but is not sent.
+   */
+  rejectedAt: string | null;
+};
+
+export function confirmFeedback(): DiagnosisFeedback {
+  return {
+    correct: true,
+    correctedLabel: null,
+    freeText: false,
+    givenAt: new Date().toISOString(),
+    sentAt: null,
+    rejectedAt: null,
+  };
+}
+
+export function correctionFeedback(label: string, freeText: boolean): DiagnosisFeedback {
+  return {
+    correct: false,
+    correctedLabel: label.trim(),
+    freeText,
+    givenAt: new Date().toISOString(),
+    sentAt: null,
+    rejectedAt: null,
+  };
+}
+
+/**
+ * Display name of the corrected label (typed labels are shown as typed), or null for a confirmation
+ */
+export function correctedLabelName(feedback: DiagnosisFeedback, i18n: Translator): string | null {
+  if (feedback.correct || !feedback.correctedLabel) return null;
+  return feedback.freeText ? feedback.correctedLabel : i18n.labelName(feedback.correctedLabel);
+}
+
+/**
+ * Payload for the feedback endpoint
+ * @param imageBase64 - Photo of a diagnosis that has not been synced; null when `image_path` is set
+ */
+export function feedbackRequest(
+  record: DiagnosisRecord,
+  feedback: DiagnosisFeedback,
+  imageBase64: string | null
+): FeedbackRequest {
+  return {
+    diagnosis_id: record.id,
+    image_path: record.sync.imagePath,
+    image: imageBase64,
+    predicted_label: record.prediction,
+    predicted_confidence: record.confidence,
+    correct: feedback.correct,
+    corrected_label: feedback.correctedLabel,
+    free_text: feedback.freeText,
+    created_at: feedback.givenAt,
+  };
+}
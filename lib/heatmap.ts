@@ -0,0 +1,257 @@
+import type { PredictResponse } from '@/lib/api/schema';
+import type { Translator } from '@/lib/i18n';
+import { decodePngBase64, encodePngBase64 } from '@/lib/png';
+
+/**
+ * On-device rendering of raw Grad-CAM activations (a 2-D grid of intensities)
+ * into a translucent "jet" colormap PNG that can be layered over the leaf photo.
+ */
+
+// Longest side of the rendered heatmap; enough for smooth scaling without a heavy encode
+const RENDER_SIZE = 128;
+
+/** Jet colormap: blue → cyan → yellow → red for t in [0, 1] */
+export function jet(t: number): [number, number, number] {
+  const clamp = (v: number) => Math.max(0, Math.min(1, v));
+  const r = clamp(1.5 - Math.abs(4 * t - 3));
+  const g = clamp(1.5 - Math.abs(4 * t - 2));
+  const b = clamp(1.5 - Math.abs(4 * t - 1));
+  return [Math.round(r * 255), Math.round(g * 255), Math.round(b * 255)];
+}
+
+/**
+ * Whether a value looks like a rectangular numeric grid
+ */
+export function isHeatmapGrid(value: unknown): value is number[][] {
+  return (
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.every(
+      (row) =>
+        Array.isArray(row) &&
+        row.length === (value[0] as unknown[]).length &&
+        row.every((v) => typeof v === 'number' && Number.isFinite(v))
+    )
+  );
+}
+
+/**
+ * Colorize a heatmap grid: normalize to [0, 1], upsample bilinearly and encode as PNG.
+ * Low activations are mostly transparent so the leaf stays visible underneath.
+ * @returns Base64 PNG (without data URI prefix)
+ */
+export function renderHeatmapPng(grid: number[][]): string {
+  const rows = grid.length;
+  const cols = grid[0].length;
+
+  let min = Infinity;
+  let max = -Infinity;
+  for (const row of grid) {
+    for (const v of row) {
+      min = Math.min(min, v);
+      max = Math.max(max, v);
+    }
+  }
+  const range = max - min || 1;
+
+  const scale = RENDER_SIZE / Math.max(rows, cols);
+  const width = Math.max(1, Math.round(cols * scale));
+  const height = Math.max(1, Math.round(rows * scale));
+  const rgba = new Uint8Array(width * height * 4);
+
+  const at = (y: number, x: number) => (grid[y][x] - min) / range;
+
+  for (let y = 0; y < height; y++) {
+    // Sample at pixel centres in grid coordinates
+    const gy = Math.min(rows - 1, Math.max(0, ((y + 0.5) / height) * rows - 0.5));
+    const y0 = Math.floor(gy);
+    const y1 = Math.min(rows - 1, y0 + 1);
+    const fy = gy - y0;
+
+    for (let x = 0; x < width; x++) {
+      const gx = Math.min(cols - 1, Math.max(0, ((x + 0.5) / width) * cols - 0.5));
+      const x0 = Math.floor(gx);
+      const x1 = Math.min(cols - 1, x0 + 1);
+      const fx = gx - x0;
+
+      const t =
+        at(y0, x0) * (1 - fx) * (1 - fy) +
+        at(y0, x1) * fx * (1 - fy) +
+        at(y1, x0) * (1 - fx) * fy +
+        at(y1, x1) * fx * fy;
+
+      const [r, g, b] = jet(t);
+      const i = (y * width + x) * 4;
+      rgba[i] = r;
+      rgba[i + 1] = g;
+      rgba[i + 2] = b;
+      rgba[i + 3] = Math.round(255 * Math.min(1, 0.15 + t * 0.85));
+    }
+  }
+
+  return encodePngBase64(width, height, rgba);
+}
+
+/**
+ * Grad-CAM image for a prediction: the server's PNG, or a heatmap rendered from raw activations
+ * @returns Base64 PNG (possibly a data URI) or null if the server sent neither
+ */
+export function resolveGradcam(response: PredictResponse): string | null {
+  if (response.gradcam_png_base64) return response.gradcam_png_base64;
+  return response.gradcam_heatmap ? renderHeatmapPng(response.gradcam_heatmap) : null;
+}
+
+// Cells along the longer side of a grid read back from a Grad-CAM PNG
+const PNG_GRID_SIZE = 32;
+
+// Jet colours at evenly spaced activations, for reading a rendered heatmap back
+const JET_STEPS = Array.from({ length: 64 }, (_, i) => jet(i / 63));
+
+/**
+ * Activation a heatmap pixel stands for: the closest jet colour, faded by its transparency
+ */
+function jetValue(r: number, g: number, b: number, alpha: number): number {
+  let best = 0;
+  let bestDistance = Infinity;
+  JET_STEPS.forEach(([jr, jg, jb], i) => {
+    const distance = (r - jr) ** 2 + (g - jg) ** 2 + (b - jb) ** 2;
+    if (distance < bestDistance) {
+      best = i;
+      bestDistance = distance;
+    }
+  });
+  return (best / 63) * (alpha / 255);
+}
+
+/**
+ * Approximate activation grid of a Grad-CAM PNG, for servers that send only the image.
+ * Each cell averages the jet position of its pixels, so an overlay blended with the photo
+ * still reads hottest where it is reddest.
+ * @param png - Base64 PNG, optionally a data URI
+ * @returns null if the image cannot be decoded
+ */
+export function heatmapFromPng(png: string): number[][] | null {
+  let image;
+  try {
+    image = decodePngBase64(png);
+  } catch (e: any) {
+    console.log('Could not decode Grad-CAM image:', e?.message || e);
+    return null;
+  }
+
+  const { width, height, data } = image;
+  const cell = Math.max(1, Math.ceil(Math.max(width, height) / PNG_GRID_SIZE));
+  const rows = Math.ceil(height / cell);
+  const cols = Math.ceil(width / cell);
+  const sums = Array.from({ length: rows }, () => new Array<number>(cols).fill(0));
+  const counts = Array.from({ length: rows }, () => new Array<number>(cols).fill(0));
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const row = Math.floor(y / cell);
+      const col = Math.floor(x / cell);
+      sums[row][col] += jetValue(data[i], data[i + 1], data[i + 2], data[i + 3]);
+      counts[row][col]++;
+    }
+  }
+  return sums.map((row, y) => row.map((sum, x) => sum / counts[y][x]));
+}
+
+/** One of nine areas of the image, reading order from the upper-left */
+export type HeatmapArea =
+  | 'upperLeft'
+  | 'top'
+  | 'upperRight'
+  | 'left'
+  | 'center'
+  | 'right'
+  | 'lowerLeft'
+  | 'bottom'
+  | 'lowerRight';
+
+/**
+ * Where a Grad-CAM heatmap is hot, for a spoken description of the overlay.
+ * `concentrated` regions cover a small part of the image, `edge` ones hug its border,
+ * `spread` ones cover much of it (`area` is then where they are strongest).
+ */
+export type HeatmapRegion = {
+  area: HeatmapArea;
+  shape: 'concentrated' | 'edge' | 'spread';
+};
+
+const AREAS: HeatmapArea[][] = [
+  ['upperLeft', 'top', 'upperRight'],
+  ['left', 'center', 'right'],
+  ['lowerLeft', 'bottom', 'lowerRight'],
+];
+
+// Normalized activation counted as "highlighted"; matches the red-yellow end of the jet overlay
+const HOT_THRESHOLD = 0.6;
+// Share of the image above which highlighted cells read as spread out rather than a spot
+const SPREAD_FRACTION = 0.35;
+// Cells within this fraction of the border count as the image edge
+const EDGE_MARGIN = 0.2;
+
+/**
+ * Summarize where a heatmap grid is hot: the weighted centre of the highlighted cells mapped
+ * onto a 3×3 layout, and whether they form a spot, a band along the edge or a wide area.
+ * @returns null for a flat grid, which highlights nothing
+ */
+export function describeHeatmap(grid: number[][]): HeatmapRegion | null {
+  const rows = grid.length;
+  const cols = grid[0]?.length ?? 0;
+  if (rows === 0 || cols === 0) return null;
+
+  let min = Infinity;
+  let max = -Infinity;
+  for (const row of grid) {
+    for (const v of row) {
+      min = Math.min(min, v);
+      max = Math.max(max, v);
+    }
+  }
+  if (!(max - min > 1e-6)) return null;
+
+  let weight = 0;
+  let edgeWeight = 0;
+  let cx = 0;
+  let cy = 0;
+  let hot = 0;
+  for (let y = 0; y < rows; y++) {
+    for (let x = 0; x < cols; x++) {
+      const t = (grid[y][x] - min) / (max - min);
+      if (t < HOT_THRESHOLD) continue;
+
+      // Cell centre in [0, 1] image coordinates
+      const px = (x + 0.5) / cols;
+      const py = (y + 0.5) / rows;
+      hot++;
+      weight += t;
+      cx += px * t;
+      cy += py * t;
+      if (Math.min(px, py, 1 - px, 1 - py) < EDGE_MARGIN) edgeWeight += t;
+    }
+  }
+  cx /= weight;
+  cy /= weight;
+
+  const third = (v: number) => Math.min(2, Math.floor(v * 3));
+  const area = AREAS[third(cy)][third(cx)];
+
+  if (hot / (rows * cols) > SPREAD_FRACTION) return { area, shape: 'spread' };
+  // The centre cell can't be on the border however the hot cells are arranged
+  if (area !== 'center' && edgeWeight / weight > 0.6) return { area, shape: 'edge' };
+  return { area, shape: 'concentrated' };
+}
+
+/**
+ * Sentence describing the highlighted regions, e.g. "concentrated along the lower-left leaf edge"
+ * @param grid - Raw activations, or the grid read back from the PNG (see `heatmapFromPng`)
+ */
+export function gradcamDescription(grid: number[][] | null, i18n: Translator): string {
+  if (!grid || !isHeatmapGrid(grid)) return i18n.t('gradcam.unknown');
+  const region = describeHeatmap(grid);
+  if (!region) return i18n.t('gradcam.none');
+  return i18n.t(`gradcam.${region.shape}`, { area: i18n.t(`area.${region.area}`) });
+}
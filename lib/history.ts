@@ -0,0 +1,352 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Directory, File, Paths } from 'expo-file-system';
+
+import type { TopKEntry } from '@/lib/api/schema';
+import type { DiagnosisFeedback } from '@/lib/feedback';
+import type { ImageQuality } from '@/lib/image/quality';
+import {
+  deleteWebImages,
+  isWebImage,
+  putWebImage,
+  readWebImage,
+  webImageRef,
+  webImageUrl,
+} from '@/lib/image/web-store';
+import { createId } from '@/lib/id';
+
+/**
+ * Local diagnosis history: record metadata lives in AsyncStorage,
+ * images are copied into the app's document directory so they outlive the picker cache
+ * (into IndexedDB on web, where AsyncStorage is too small for them).
+ * Deleting a record that was already synced leaves a tombstone until the sync engine
+ * has propagated the deletion.
+ */
+
+export type DiagnosisRecord = {
+  id: string;
+  /** ISO timestamp of the diagnosis */
+  createdAt: string;
+  /** Leaf photo as sent to the server (file URI, or object URL on web) */
+  imageUri: string;
+  /** Grad-CAM overlay (file URI, or object URL on web) */
+  gradcamUri: string | null;
+  /** Raw model label */
+  prediction: string;
+  /** Confidence as reported by the server (0-1 or 0-100) */
+  confidence: number | null;
+  /** Ranked candidate labels; null for single-label servers */
+  topK: TopKEntry[] | null;
+  /** Server profile that produced the diagnosis (or that the capture was queued for) */
+  serverProfile: { id: string; name: string };
+  /** The server flagged the photo as not a plant leaf; `prediction` must not be shown */
+  outOfDistribution: boolean;
+  /** Plant profile the diagnosis is attached to */
+  plantId: string | null;
+  /** Earlier diagnosis this photo re-checks (treatment follow-up), for before/after comparison */
+  followUpOf: string | null;
+  /** Free-text observations added by the user */
+  notes: string;
+  /** Photo quality scores measured before upload; null if the check did not run */
+  quality: ImageQuality | null;
+  /** The user's answer to "Was this correct?", with the corrected label */
+  feedback: DiagnosisFeedback | null;
+  /** ISO timestamp of the last local change */
+  modifiedAt: string;
+  /** Cloud sync bookkeeping */
+  sync: RecordSyncState;
+};
+
+export type SyncStatus = 'pending' | 'syncing' | 'synced' | 'error';
+
+export type RecordSyncState = {
+  status: SyncStatus;
+  /** Backend version the local copy is based on; null if never uploaded */
+  remoteVersion: number | null;
+  /** Object storage paths of the uploaded images */
+  imagePath: string | null;
+  gradcamPath: string | null;
+  /** Last sync error message */
+  error: string | null;
+};
+
+/** Deleted record whose deletion still has to reach the sync backend */
+export type HistoryTombstone = {
+  id: string;
+  remoteVersion: number;
+  deletedAt: string;
+  imagePath: string | null;
+  gradcamPath: string | null;
+};
+
+export type NewDiagnosis = Omit<
+  DiagnosisRecord,
+  | 'id'
+  | 'createdAt'
+  | 'imageUri'
+  | 'gradcamUri'
+  | 'modifiedAt'
+  | 'sync'
+  | 'plantId'
+  | 'followUpOf'
+  | 'notes'
+  | 'quality'
+  | 'feedback'
+> & {
+  /** Base64 JPEG of the uploaded image */
+  imageBase64: string;
+  /** Base64 PNG (or PNG data URI) of the Grad-CAM overlay */
+  gradcamBase64: string | null;
+  /** When the photo was taken, if it was diagnosed later (queued offline captures) */
+  capturedAt?: string;
+  quality?: ImageQuality | null;
+  /** Diagnosis this photo follows up on; the new record joins the same plant */
+  followUpOf?: string | null;
+};
+
+const STORAGE_KEY = 'diagnosisHistory.v1';
+const TOMBSTONES_KEY = 'diagnosisHistory.tombstones.v1';
+
+export const UNSYNCED: RecordSyncState = {
+  status: 'pending',
+  remoteVersion: null,
+  imagePath: null,
+  gradcamPath: null,
+  error: null,
+};
+
+const isWeb = process.env.EXPO_OS === 'web';
+
+const historyDir = () => new Directory(Paths.document, 'history');
+
+const stripDataUri = (base64: string) => base64.replace(/^data:[^;]+;base64,/, '');
+
+/**
+ * Write a base64 image into the record's folder and return its URI (object URL on web)
+ */
+export async function storeDiagnosisImage(
+  recordId: string,
+  name: string,
+  base64: string,
+  mimeType: string
+): Promise<string> {
+  const data = stripDataUri(base64);
+  if (isWeb) return putWebImage(`history/${recordId}/${name}`, data, mimeType);
+
+  const dir = new Directory(historyDir(), recordId);
+  dir.create({ intermediates: true, idempotent: true });
+  const file = new File(dir, name);
+  file.write(data, { encoding: 'base64' });
+  return file.uri;
+}
+
+/**
+ * Read a stored image back as base64 (for upload)
+ */
+export async function readDiagnosisImage(uri: string): Promise<string> {
+  if (uri.startsWith('data:')) return stripDataUri(uri);
+  if (isWeb && isWebImage(uri)) return readWebImage(uri);
+  return new File(uri).base64();
+}
+
+export async function deleteDiagnosisImages(recordId: string): Promise<void> {
+  if (isWeb) return deleteWebImages(`history/${recordId}/`);
+  const dir = new Directory(historyDir(), recordId);
+  if (dir.exists) dir.delete();
+}
+
+/**
+ * All saved diagnoses, newest first
+ */
+export async function loadHistory(): Promise<DiagnosisRecord[]> {
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_KEY);
+    const records = raw ? (JSON.parse(raw) as DiagnosisRecord[]) : [];
+    if (!Array.isArray(records)) return [];
+
+    // Records saved before sync existed lack the sync fields
+    const normalized: DiagnosisRecord[] = records.map((r) => ({
+      ...r,
+      modifiedAt: r.modifiedAt ?? r.createdAt,
+      topK: r.topK ?? null,
+      outOfDistribution: r.outOfDistribution ?? false,
+      plantId: r.plantId ?? null,
+      followUpOf: r.followUpOf ?? null,
+      notes: r.notes ?? '',
+      quality: r.quality ?? null,
+      feedback: r.feedback ? { ...r.feedback, rejectedAt: r.feedback.rejectedAt ?? null } : null,
+      sync: r.sync ? { ...r.sync, status: r.sync.status === 'syncing' ? 'pending' : r.sync.status } : UNSYNCED,
+    }));
+    return isWeb ? await loadWebImages(normalized) : normalized;
+  } catch (e: any) {
+    console.log('Could not load history:', e?.message || e);
+    return [];
+  }
+}
+
+/**
+ * Swap the saved image references of web records for object URLs. Records saved before
+ * images moved to IndexedDB hold data URIs; those are moved over and the index saved again.
+ */
+async function loadWebImages(records: DiagnosisRecord[]): Promise<DiagnosisRecord[]> {
+  let moved = false;
+  const load = async (recordId: string, name: string, uri: string, mimeType: string) => {
+    try {
+      if (!uri.startsWith('data:')) return await webImageUrl(uri);
+      const url = await storeDiagnosisImage(recordId, name, uri, mimeType);
+      moved = true;
+      return url;
+    } catch (e: any) {
+      console.log('Could not load history image:', e?.message || e);
+      return uri;
+    }
+  };
+
+  const loaded = await Promise.all(
+    records.map(async (r) => ({
+      ...r,
+      imageUri: await load(r.id, 'image.jpg', r.imageUri, 'image/jpeg'),
+      gradcamUri: r.gradcamUri && (await load(r.id, 'gradcam.png', r.gradcamUri, 'image/png')),
+    }))
+  );
+  if (moved) await saveHistory(loaded);
+  return loaded;
+}
+
+export async function saveHistory(records: DiagnosisRecord[]): Promise<void> {
+  // Object URLs only live as long as the tab; the web index keeps the IndexedDB keys
+  const saved = isWeb
+    ? records.map((r) => ({
+        ...r,
+        imageUri: webImageRef(r.imageUri),
+        gradcamUri: r.gradcamUri && webImageRef(r.gradcamUri),
+      }))
+    : records;
+  await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(saved));
+}
+
+export async function loadTombstones(): Promise<HistoryTombstone[]> {
+  try {
+    const raw = await AsyncStorage.getItem(TOMBSTONES_KEY);
+    const tombstones = raw ? (JSON.parse(raw) as HistoryTombstone[]) : [];
+    return Array.isArray(tombstones) ? tombstones : [];
+  } catch (e: any) {
+    console.log('Could not load deleted records:', e?.message || e);
+    return [];
+  }
+}
+
+export async function saveTombstones(tombstones: HistoryTombstone[]): Promise<void> {
+  await AsyncStorage.setItem(TOMBSTONES_KEY, JSON.stringify(tombstones));
+}
+
+/**
+ * Tombstones for records that exist on the sync backend; unsynced records can simply vanish
+ */
+function tombstonesFor(records: DiagnosisRecord[]): HistoryTombstone[] {
+  const deletedAt = new Date().toISOString();
+  return records
+    .filter((r) => r.sync.remoteVersion !== null)
+    .map((r) => ({
+      id: r.id,
+      remoteVersion: r.sync.remoteVersion as number,
+      deletedAt,
+      imagePath: r.sync.imagePath,
+      gradcamPath: r.sync.gradcamPath,
+    }));
+}
+
+/**
+ * Persist images and metadata of a new diagnosis
+ * @param records - Current history, used to avoid re-reading storage
+ * @returns The stored record and the updated history
+ */
+export async function addDiagnosis(
+  records: DiagnosisRecord[],
+  input: NewDiagnosis
+): Promise<{ record: DiagnosisRecord; records: DiagnosisRecord[] }> {
+  const id = createId();
+  const { imageBase64, gradcamBase64, capturedAt, quality, followUpOf, ...rest } = input;
+  const now = new Date().toISOString();
+  const original = followUpOf ? records.find((r) => r.id === followUpOf) : undefined;
+
+  const record: DiagnosisRecord = {
+    ...rest,
+    id,
+    createdAt: capturedAt ?? now,
+    modifiedAt: now,
+    imageUri: await storeDiagnosisImage(id, 'image.jpg', imageBase64, 'image/jpeg'),
+    gradcamUri: gradcamBase64 ? await storeDiagnosisImage(id, 'gradcam.png', gradcamBase64, 'image/png') : null,
+    plantId: original?.plantId ?? null,
+    followUpOf: original?.id ?? null,
+    notes: '',
+    quality: quality ?? null,
+    feedback: null,
+    sync: UNSYNCED,
+  };
+
+  const updated = [record, ...records].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  await saveHistory(updated);
+  return { record, records: updated };
+}
+
+/** Fields the user can change after a diagnosis was saved */
+export type DiagnosisChanges = Partial<Pick<DiagnosisRecord, 'plantId' | 'notes' | 'feedback'>>;
+
+/**
+ * Apply user edits to a saved diagnosis and mark it for sync
+ * @returns The updated record (null if it no longer exists) and the updated history
+ */
+export async function updateDiagnosis(
+  records: DiagnosisRecord[],
+  id: string,
+  changes: DiagnosisChanges
+): Promise<{ record: DiagnosisRecord | null; records: DiagnosisRecord[] }> {
+  const existing = records.find((r) => r.id === id);
+  if (!existing) return { record: null, records };
+
+  const record: DiagnosisRecord = {
+    ...existing,
+    ...changes,
+    modifiedAt: new Date().toISOString(),
+    sync: { ...existing.sync, status: 'pending', error: null },
+  };
+
+  const updated = records.map((r) => (r.id === id ? record : r));
+  await saveHistory(updated);
+  return { record, records: updated };
+}
+
+/**
+ * Remove one diagnosis and its images, remembering the deletion for sync
+ */
+export async function deleteDiagnosis(
+  records: DiagnosisRecord[],
+  tombstones: HistoryTombstone[],
+  id: string
+): Promise<{ records: DiagnosisRecord[]; tombstones: HistoryTombstone[] }> {
+  const updated = records.filter((r) => r.id !== id);
+  const updatedTombstones = [...tombstones, ...tombstonesFor(records.filter((r) => r.id === id))];
+  await saveTombstones(updatedTombstones);
+  await saveHistory(updated);
+  await deleteDiagnosisImages(id);
+  return { records: updated, tombstones: updatedTombstones };
+}
+
+/**
+ * Remove every diagnosis and all stored images, remembering the deletions for sync
+ */
+export async function clearHistory(
+  records: DiagnosisRecord[],
+  tombstones: HistoryTombstone[]
+): Promise<HistoryTombstone[]> {
+  const updatedTombstones = [...tombstones, ...tombstonesFor(records)];
+  await saveTombstones(updatedTombstones);
+  await AsyncStorage.removeItem(STORAGE_KEY);
+  if (isWeb) {
+    await deleteWebImages('history/');
+  } else {
+    const dir = historyDir();
+    if (dir.exists) dir.delete();
+  }
+  return updatedTombstones;
+}
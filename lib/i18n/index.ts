@@ -0,0 +1,103 @@
+import { lookupLabelName } from '@/constants/label-names';
+import { en } from '@/lib/i18n/messages/en';
+import { si } from '@/lib/i18n/messages/si';
+import { ta } from '@/lib/i18n/messages/ta';
+import { prettyLabel } from '@/lib/labels';
+
+/**
+ * Localization: message catalogs, plural forms, model label names and number/date formatting
+ * for the supported locales.
+ */
+
+export type Locale = 'en' | 'si' | 'ta';
+
+/** A message, or its plural forms picked by the `count` param (`other` is the fallback) */
+export type Message = string | ({ other: string } & Partial<Record<Intl.LDMLPluralRule, string>>);
+
+export type MessageKey = keyof typeof en;
+
+export type Messages = Record<MessageKey, Message>;
+
+export type MessageParams = Record<string, string | number>;
+
+/** Locales in the language picker, each named in its own language */
+export const LOCALES: { value: Locale; name: string }[] = [
+  { value: 'en', name: 'English' },
+  { value: 'si', name: 'සිංහල' },
+  { value: 'ta', name: 'தமிழ்' },
+];
+
+const CATALOGS: Record<Locale, Messages> = { en, si, ta };
+
+// BCP 47 tags for Intl; Sinhala and Tamil as used in Sri Lanka
+const INTL_TAGS: Record<Locale, string> = { en: 'en', si: 'si-LK', ta: 'ta-LK' };
+
+export type Translator = {
+  locale: Locale;
+  /** Message in the locale with `{name}` params filled in; falls back to English */
+  t: (key: MessageKey, params?: MessageParams) => string;
+  /** Display name of a raw model label */
+  labelName: (label: string) => string;
+  /** A 0-100 percentage, e.g. "87%" */
+  formatPercent: (pct: number) => string;
+  /** Date and time of an ISO timestamp */
+  formatDate: (iso: string) => string;
+};
+
+/**
+ * First supported locale among the device's preferred language codes, English otherwise
+ */
+export function detectLocale(languageCodes: (string | null)[]): Locale {
+  const match = languageCodes.find((code): code is Locale => code === 'en' || code === 'si' || code === 'ta');
+  return match ?? 'en';
+}
+
+/**
+ * Plural category of a count; Hermes builds without Intl.PluralRules get the English rule
+ */
+function pluralCategory(locale: Locale, count: number): Intl.LDMLPluralRule {
+  try {
+    return new Intl.PluralRules(INTL_TAGS[locale]).select(count);
+  } catch {
+    return count === 1 ? 'one' : 'other';
+  }
+}
+
+function format(template: string, params: MessageParams): string {
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+}
+
+const translators = new Map<Locale, Translator>();
+
+/**
+ * Translator for a locale (cached, so it is stable across renders)
+ */
+export function getTranslator(locale: Locale): Translator {
+  const cached = translators.get(locale);
+  if (cached) return cached;
+
+  const tag = INTL_TAGS[locale];
+  let percent: Intl.NumberFormat | null = null;
+  let date: Intl.DateTimeFormat | null = null;
+  try {
+    percent = new Intl.NumberFormat(tag, { style: 'percent', maximumFractionDigits: 0 });
+    date = new Intl.DateTimeFormat(tag, { dateStyle: 'medium', timeStyle: 'short' });
+  } catch (e: any) {
+    console.log(`No Intl formatting for ${tag}:`, e?.message || e);
+  }
+
+  const translator: Translator = {
+    locale,
+    t: (key, params = {}) => {
+      const message = CATALOGS[locale][key] ?? en[key];
+      if (typeof message === 'string') return format(message, params);
+      const count = Number(params.count ?? 0);
+      return format(message[pluralCategory(locale, count)] ?? message.other, params);
+    },
+    labelName: (label) => lookupLabelName(label, locale) ?? prettyLabel(label),
+    formatPercent: (pct) => (percent ? percent.format(pct / 100) : `${pct.toFixed(0)}%`),
+    formatDate: (iso) => (date ? date.format(new Date(iso)) : new Date(iso).toLocaleString()),
+  };
+  translators.set(locale, translator);
+  return translator;
+}
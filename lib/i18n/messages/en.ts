@@ -0,0 +1,498 @@
+import type { Message } from '@/lib/i18n';
+
+/**
+ * English messages; the reference catalog every other locale must cover.
+ * `{name}` is replaced by the param of the same name; plural messages pick a form by `{count}`.
+ */
+export const en = {
+  // Home screen
+  'home.title': 'Plant Whisperer 🌱',
+  'home.subtitle': 'Upload a leaf photo to get a quick diagnosis + Grad-CAM explainability.',
+  'home.settings': 'Settings',
+  'home.server': 'Server: {name}',
+  'home.serverMock': 'Server: Mock ({title})',
+  'home.takePhoto': 'Take photo',
+  'home.takePhotoHint': 'Camera • With leaf framing guide',
+  'home.pickImage': 'Pick an image',
+  'home.pickImageHint': 'JPG / PNG • From your gallery',
+  'home.batch': 'Diagnose several photos (batch)',
+  'home.followUpTitle': 'Follow-up photo',
+  'home.followUpOf': 'Compared with {title} from {date}',
+  'home.followUpUnlink': 'Unlink',
+  'home.signInTitle': 'Sign in to diagnose this photo',
+  'home.signInMessage': 'Only signed-in users can use the server. Your photo is kept and sent once you sign in.',
+  'home.signIn': 'Sign in',
+  'home.selectedImage': 'Selected image',
+  'home.replace': 'Replace',
+  'home.uploadSize': 'Upload size: {size} ({width}×{height})',
+  'home.preparing': 'Preparing image…',
+  'home.predicting': 'Running prediction…',
+  'home.cancel': 'Cancel',
+  'home.cancelHint': 'Stops the prediction; the photo is kept',
+  'home.cancelled': 'Prediction cancelled',
+  'home.retry': 'Retry',
+  'home.retryHint': 'Sends the same photo again',
+  'home.dropWaiting': {
+    one: '{count} more dropped photo waiting',
+    other: '{count} more dropped photos waiting',
+  },
+  'home.dropContinue': 'Continue',
+  'home.dropClear': 'Clear',
+  'home.queuedFailed': 'Upload failed. Retry it from the queue above.',
+  'home.queuedUnreachable': 'Could not reach the server. The image is queued and will be retried automatically.',
+  'home.queuedOffline': 'You are offline. The image is queued and will be diagnosed when you are back online.',
+  'home.result': 'Result',
+  'home.confidence': 'Confidence',
+  'home.tip': 'Tip: use a clear leaf close-up with good lighting.',
+  'home.retake': 'Retake photo',
+  'home.tryAnother': 'Try another leaf',
+  'home.differential': 'Differential diagnosis',
+  'home.gradcamTitle': 'Grad-CAM Explainability',
+  'home.heatmap': 'Heatmap',
+  'home.gradcamEmpty': 'Pick an image to generate a Grad-CAM heatmap overlay.',
+  'home.gradcamHint': 'Grad-CAM highlights regions that influenced the model’s prediction.',
+
+  // Screen reader text
+  'a11y.result': '{title}, {pct} percent confidence',
+  'a11y.selectedImage': 'Selected leaf photo',
+  'a11y.gradcamImage': 'Grad-CAM heatmap over the leaf photo. {description}',
+  'gradcam.concentrated': 'Highlighted regions are concentrated in the {area} of the leaf.',
+  'gradcam.edge': 'Highlighted regions are concentrated along the {area} leaf edge.',
+  'gradcam.spread': 'Highlighted regions are spread across much of the leaf, strongest in the {area}.',
+  'gradcam.none': 'No regions stand out in the heatmap.',
+  'gradcam.unknown': 'The server did not describe where the highlighted regions are.',
+  'area.upperLeft': 'upper-left',
+  'area.top': 'top',
+  'area.upperRight': 'upper-right',
+  'area.left': 'left',
+  'area.center': 'center',
+  'area.right': 'right',
+  'area.lowerLeft': 'lower-left',
+  'area.bottom': 'bottom',
+  'area.lowerRight': 'lower-right',
+
+  // Home screen alerts
+  'alert.error': 'Error',
+  'alert.prepareFailed': 'Could not prepare the image for upload.',
+  'alert.queueFailed': 'Could not save the image for later upload.',
+  'alert.permissionNeeded': 'Permission needed',
+  'alert.photoPermission': 'Please allow photo access.',
+  'alert.cameraPermission': 'Please allow camera access to photograph a leaf.',
+  'alert.replaceTitle': 'Replace image',
+  'alert.replaceMessage': 'Choose a new leaf photo.',
+  'alert.chooseFromGallery': 'Choose from gallery',
+  'alert.cancel': 'Cancel',
+
+  // Confidence bands
+  'band.confident': 'Confident',
+  'band.uncertain': 'Uncertain',
+  'band.reject': 'No reliable diagnosis',
+  'result.notAPlant': 'Not a plant leaf',
+  'advice.notAPlant': 'This does not look like a plant leaf. Photograph a single leaf up close and try again.',
+  'advice.reject': 'The model could not recognise this leaf. Retake the photo in better light or try another leaf.',
+  'advice.uncertain': 'The model is unsure. Retake the photo or try another leaf with clearer symptoms to confirm.',
+
+  // Outbox
+  'outbox.title': 'Outbox',
+  'outbox.offline': 'Offline',
+  'outbox.waiting': { one: '{count} waiting', other: '{count} waiting' },
+  'outbox.diagnosed': { one: '{count} diagnosed', other: '{count} diagnosed' },
+  'outbox.tries': { one: '{count} try so far', other: '{count} tries so far' },
+  'outbox.show': 'Show',
+  'outbox.hide': 'Hide',
+  'outbox.offlineHint': 'Photos will be diagnosed automatically when you are back online.',
+  'outbox.clearFinished': 'Clear finished',
+  'outbox.view': 'View',
+  'outbox.retry': 'Retry',
+  'outbox.cancel': 'Cancel',
+  'outbox.status.queued': 'Waiting to upload',
+  'outbox.status.uploading': 'Uploading…',
+  'outbox.status.failed': 'Failed',
+  'outbox.status.done': 'Diagnosed',
+
+  // Web drop zone
+  'dropZone.title': 'Drop leaf photos here',
+  'dropZone.release': 'Release to diagnose',
+  'dropZone.hint':
+    'Several photos are diagnosed one after another. You can also paste an image or its address.',
+  'dropZone.urlLabel': 'Image address',
+  'dropZone.urlPlaceholder': 'https://… image address',
+  'dropZone.load': 'Load',
+  'dropZone.invalidUrl': 'Enter an address starting with http:// or https://.',
+  'dropZone.urlFailed': 'Could not load an image from this address. Save it and drop the file instead.',
+  'dropZone.notImage': 'Only image files can be diagnosed.',
+
+  // API errors
+  'apiError.timeoutTitle': 'Server Timeout',
+  'apiError.timeout': 'The server took too long to answer. Please try again, ideally with a stronger signal.',
+  'apiError.networkTitle': 'Network Error',
+  'apiError.network':
+    'Could not reach the server. Check your internet connection and the server profile in Settings.',
+  'apiError.signInTitle': 'Sign-in Required',
+  'apiError.forbidden': 'Your account is not allowed to use this server. Sign in with another account.',
+  'apiError.sessionEnded': 'Your session has ended. Sign in again to continue.',
+  'apiError.insecureTitle': 'Insecure Server',
+  'apiError.insecure':
+    'This server requires sign-in but does not use HTTPS, so your account cannot be used with it. ' +
+    'Choose an HTTPS server in Settings.',
+  'apiError.serverTitle': 'Server Error',
+  'apiError.server': 'The server failed to process the image (HTTP {status}).',
+  'apiError.rejectedTitle': 'Request Rejected',
+  'apiError.rejected': 'The server rejected the request (HTTP {status}).',
+  'apiError.payloadTitle': 'Unexpected Response',
+  'apiError.payload':
+    'The server sent a response the app does not understand. It may be a different API version.',
+  'apiError.unknownTitle': 'Error',
+  'apiError.unknown': 'Something went wrong while contacting the server.',
+
+  // Photo quality check
+  'quality.title': 'Check the photo before diagnosing',
+  'quality.retake': 'Retake',
+  'quality.sendAnyway': 'Diagnose anyway',
+  'quality.summary':
+    'Photo quality: sharpness {sharpness} • brightness {brightness}/255 • leaf {leaf} of frame',
+  'quality.blur': 'The photo looks blurry.',
+  'quality.blur.advice': 'Hold the phone steady, tap the leaf to focus and keep about 20–30 cm away.',
+  'quality.underexposed': 'The photo is too dark.',
+  'quality.underexposed.advice':
+    'Move into daylight or open shade, and avoid shooting against a bright background.',
+  'quality.overexposed': 'The photo is too bright or has glare.',
+  'quality.overexposed.advice':
+    'Avoid direct sunlight on the leaf; shade it with your body or tilt it to remove reflections.',
+  'quality.leaf-coverage': 'Little of the photo is leaf.',
+  'quality.leaf-coverage.advice':
+    'Move closer so a single leaf fills most of the frame, on a plain background.',
+
+  // Diagnosis feedback
+  'feedback.question': 'Was this correct?',
+  'feedback.yes': 'Yes',
+  'feedback.no': 'No',
+  'feedback.confirmed': 'You confirmed this diagnosis',
+  'feedback.corrected': 'Corrected to {label}',
+  'feedback.sent': 'Sent to the team',
+  'feedback.pending': 'Will be sent when online',
+  'feedback.rejected': 'Kept on this device; the server did not accept it',
+  'feedback.change': 'Change',
+  'feedback.pickerTitle': 'What is the correct diagnosis?',
+  'feedback.search': 'Search labels or type your own',
+  'feedback.useTyped': 'Use “{label}”',
+  'feedback.notInList': 'Not in the list',
+  'feedback.wasCorrect': 'It was correct',
+  'feedback.cancel': 'Cancel',
+
+  // Grad-CAM viewer
+  'gradcamViewer.overlay': 'Overlay',
+  'gradcamViewer.sideBySide': 'Side by side',
+  'gradcamViewer.swipe': 'Swipe',
+  'gradcamViewer.opacity': 'Heatmap opacity',
+  'gradcamViewer.hint': 'Pinch to zoom, drag to pan, double-tap to reset.',
+
+  // Leaf camera
+  'camera.errorTitle': 'Camera Error',
+  'camera.error': 'Could not take a photo. Please try again.',
+  'camera.tipTitle': 'Fit one leaf inside the outline',
+  'camera.tipDistance': '• Hold the phone 15–25 cm from the leaf',
+  'camera.tipLight': '• Use soft daylight, avoid harsh shadows and flash glare',
+  'camera.tipFocus': '• Keep the affected area in focus and fill the frame',
+  'camera.cancel': 'Cancel',
+  'camera.shutter': 'Take photo',
+
+  // Knowledge base link
+  'kbLink.title': 'What to do next',
+  'kbLink.missingTitle': 'No treatment guidance for this result yet',
+  'kbLink.missing': 'See general advice and who to contact.',
+  'pathogen.fungal': 'Fungus',
+  'pathogen.bacterial': 'Bacterium',
+  'pathogen.viral': 'Virus',
+  'pathogen.oomycete': 'Water mould (oomycete)',
+  'pathogen.pest': 'Pest',
+  'pathogen.none': 'None',
+
+  // Plant attachment
+  'attach.plant': 'Plant: {name}',
+  'attach.none': 'Attach to a plant',
+  'attach.change': 'Change',
+  'attach.choose': 'Choose',
+  'attach.title': 'Attach to plant',
+  'attach.empty': 'No plant profiles yet.',
+  'attach.newPlant': 'New plant…',
+  'attach.detach': 'Detach',
+  'attach.cancel': 'Cancel',
+
+  // Report sharing
+  'share.title': 'Share report',
+  'share.as': 'Share report as {format}',
+  'share.failed': 'Could not share report',
+
+  // Treatment plans
+  'planLink.title': 'Plan treatment',
+  'planLink.upcoming': {
+    one: 'Treatment plan • {count} upcoming reminder',
+    other: 'Treatment plan • {count} upcoming reminders',
+  },
+  'planLink.hint': 'Reminders to spray or prune, and a follow-up photo to compare.',
+  'planLink.hintPlanned': 'Add more actions, or see them on the Reminders tab.',
+  'plan.title': 'Treatment plan',
+  'plan.missing': 'This diagnosis no longer exists.',
+  'plan.recommended': 'Recommended treatment',
+  'plan.firstTreatment': 'First treatment',
+  'plan.today': 'Today',
+  'plan.tomorrow': 'Tomorrow',
+  'plan.inTwoDays': 'In 2 days',
+  'plan.time': 'Reminder time',
+  'plan.action': 'Action {number}',
+  'plan.removeAction': 'Remove action {number}',
+  'plan.remove': 'Remove',
+  'plan.every': 'Every',
+  'plan.everyDays': { one: 'day', other: '{count} days' },
+  'plan.times': 'Times',
+  'plan.notesOther': 'What to do',
+  'plan.notes': 'Product, dose… (optional)',
+  'plan.addAction': 'Add action',
+  'plan.followUp': 'Follow-up photo',
+  'plan.followUpHint':
+    'A reminder to photograph the same leaf again. It opens the camera linked to this diagnosis so you can ' +
+    'compare before and after.',
+  'plan.after': 'After',
+  'plan.days': { one: '{count} day', other: '{count} days' },
+  'plan.save': 'Save plan',
+  'plan.checkTitle': 'Check the plan',
+  'plan.notificationsOffTitle': 'Notifications are off',
+  'plan.notificationsOff':
+    'The plan is on the Reminders tab, but you will not be notified. Allow notifications in system settings.',
+  'plan.invalid.empty': 'Add a treatment action or a follow-up photo.',
+  'plan.invalid.past': 'The first reminder time has passed. Pick a later day or time.',
+  'plan.invalid.other': 'Describe the "Other" action in its notes.',
+  'treatmentAction.spray': 'Spray',
+  'treatmentAction.prune': 'Prune',
+  'treatmentAction.remove-leaves': 'Remove infected leaves',
+  'treatmentAction.fertilize': 'Fertilize',
+  'treatmentAction.other': 'Other',
+
+  // Reminder notifications
+  'reminder.title': '{action}: {disease}',
+  'reminder.followUpTitle': 'Re-photograph: {disease}',
+  'reminder.followUpBody': 'Take a new photo of the leaf to compare it with the original diagnosis.',
+  'reminder.progress': 'Treatment {index} of {count}',
+  'reminder.due': 'Treatment due today.',
+  'reminder.channel': 'Treatment reminders',
+
+  // Sign-in
+  'signIn.insecureTitle': 'Signing in needs HTTPS',
+  'signIn.insecure':
+    '{server} does not use HTTPS, so your password and sign-in tokens would travel unencrypted. ' +
+    'Signing in is turned off until the server admin enables HTTPS.',
+  'signIn.notSetUpTitle': 'Account service not set up',
+  'signIn.notSetUp': 'Choose where accounts live and enter its details under Account in Settings.',
+  'signIn.openSettings': 'Open Settings',
+  'signIn.signedIn': 'Signed in',
+  'signIn.continue': 'Continue',
+  'signIn.signOut': 'Sign out',
+  'signIn.switchAccount': 'Switch account',
+  'signIn.title': 'Sign in',
+  'signIn.intro':
+    'Diagnoses run on {server} need an account. Photos you have taken are kept while you sign in.',
+  'signIn.password': 'Password',
+  'signIn.emailLink': 'Email link',
+  'signIn.email': 'Email',
+  'signIn.invalidEmail': 'Enter the email address of your account.',
+  'signIn.missingPassword': 'Enter your password.',
+  'signIn.linkSent': 'Check {email} and open the link on this device to finish signing in.',
+  'signIn.submit': 'Sign in',
+  'signIn.sendLink': 'Email me a sign-in link',
+  'signIn.sendAnotherLink': 'Send another link',
+  'signIn.noToken': 'This link does not contain a sign-in token. Request a new one.',
+  'signIn.back': 'Back to sign-in',
+  'authError.insecure': 'This account service does not use HTTPS, so signing in is turned off.',
+  'authError.tooManyAttempts': 'Too many attempts. Wait a minute and try again.',
+  'authError.wrongCredentials': 'The email or password is not correct.',
+  'authError.unreachable': 'Could not reach the account service. Check your connection.',
+
+  // Batch diagnosis
+  'batch.title': 'Batch diagnosis',
+  'batch.intro':
+    'Select up to {limit} leaf photos. They are diagnosed {concurrency} at a time and saved to History. ' +
+    'Server: {server}',
+  'batch.pick': 'Pick photos',
+  'batch.pickOther': 'Pick other photos',
+  'batch.stop': 'Stop',
+  'batch.diagnose': 'Diagnose',
+  'batch.diagnoseCount': 'Diagnose {count}',
+  'batch.processed': '{done} of {count} processed',
+  'batch.summary': 'Summary',
+  'batch.totals': '{diagnosed} diagnosed • {queued} queued offline • {failed} failed',
+  'batch.meanConfidence': 'Mean confidence: {pct}',
+  'batch.uncertain': 'Uncertain or rejected (below {pct}): {count}',
+  'batch.retryFailed': 'Retry failed images',
+  'batch.status.waiting': 'Waiting',
+  'batch.status.preparing': 'Preparing…',
+  'batch.status.uploading': 'Diagnosing…',
+  'batch.status.done': 'Done',
+  'batch.status.queued': 'Queued offline',
+  'batch.status.error': 'Failed',
+
+  // Navigation
+  'nav.home': 'Home',
+  'nav.history': 'History',
+  'nav.plants': 'Plants',
+  'nav.reminders': 'Reminders',
+  'nav.modal': 'Modal',
+  'nav.settings': 'Settings',
+  'nav.batch': 'Batch diagnosis',
+  'nav.diagnosis': 'Diagnosis',
+  'nav.diseaseInfo': 'Disease info',
+  'nav.plant': 'Plant',
+  'nav.treatmentPlan': 'Treatment plan',
+  'nav.account': 'Account',
+  'nav.signingIn': 'Signing in',
+
+  // History
+  'history.title': 'History',
+  'history.syncing': 'Syncing…',
+  'history.syncNow': 'Sync now',
+  'history.clearAll': 'Clear all',
+  'history.search': 'Search diagnoses',
+  'history.allDiseases': 'All',
+  'history.loading': 'Loading…',
+  'history.empty': 'No diagnoses yet. Results from the Home tab are saved here automatically.',
+  'history.noMatches': 'No diagnoses match your search.',
+  'history.confidence': '{pct} confidence',
+  'history.noConfidence': 'Confidence —',
+  'history.deleteTitle': 'Delete diagnosis',
+  'history.deleteMessage': 'Remove "{label}" from history?',
+  'history.clearTitle': 'Clear history',
+  'history.clearMessage': 'Delete all saved diagnoses and their images?',
+  'history.cancel': 'Cancel',
+  'history.delete': 'Delete',
+  'history.sync.pending': 'Waiting to sync',
+  'history.sync.syncing': 'Syncing…',
+  'history.sync.synced': 'Synced',
+  'history.sync.error': 'Sync failed',
+
+  // Diagnosis detail
+  'diagnosis.missing': 'This diagnosis no longer exists.',
+  'diagnosis.loading': 'Loading…',
+  'diagnosis.deleteTitle': 'Delete diagnosis',
+  'diagnosis.deleteMessage': 'Remove this diagnosis and its images?',
+  'diagnosis.cancel': 'Cancel',
+  'diagnosis.delete': 'Delete',
+  'diagnosis.notes': 'Notes',
+  'diagnosis.notesPlaceholder': 'Field observations, treatment applied, advice given…',
+  'diagnosis.saveNotes': 'Save notes',
+  'diagnosis.photo': 'Leaf photo',
+  'diagnosis.gradcam': 'Grad-CAM',
+  'diagnosis.noGradcam': 'No heatmap was saved for this diagnosis.',
+  'diagnosis.deleteButton': 'Delete diagnosis',
+
+  // Before and after
+  'beforeAfter.title': 'Before and after',
+  'beforeAfter.before': 'Before',
+  'beforeAfter.after': 'After',
+  'beforeAfter.improving': 'Improving',
+  'beforeAfter.worsening': 'Getting worse',
+  'beforeAfter.stable': 'No clear change',
+  'beforeAfter.unknown': 'Cannot compare',
+
+  // Reminders calendar
+  'reminders.title': 'Reminders',
+  'reminders.today': 'Today',
+  'reminders.previousMonth': 'Previous month',
+  'reminders.nextMonth': 'Next month',
+  'reminders.weekday.mon': 'Mon',
+  'reminders.weekday.tue': 'Tue',
+  'reminders.weekday.wed': 'Wed',
+  'reminders.weekday.thu': 'Thu',
+  'reminders.weekday.fri': 'Fri',
+  'reminders.weekday.sat': 'Sat',
+  'reminders.weekday.sun': 'Sun',
+  'reminders.count': { one: '{count} reminder', other: '{count} reminders' },
+  'reminders.loading': 'Loading…',
+  'reminders.empty': 'No reminders yet. Plan treatment from a diagnosis result to get reminders here.',
+  'reminders.nothingPlanned': 'Nothing planned for this day.',
+  'reminders.next': 'Next: {title} • {date}',
+  'reminders.deleteTitle': 'Delete reminder',
+  'reminders.deleteMessage': 'Delete all reminders for "{title}"?',
+  'reminders.cancel': 'Cancel',
+  'reminders.delete': 'Delete',
+  'reminders.progress': '{index} of {count}',
+  'reminders.diagnosisOf': 'Diagnosis of {date}',
+  'reminders.diagnosisDeleted': 'The diagnosis was deleted.',
+  'reminders.takePhoto': 'Take photo',
+
+  // Plants
+  'plants.title': 'Plants',
+  'plants.add': 'Add plant',
+  'plants.empty': 'No plants yet. Add a plant or bed, then attach diagnoses to it from the result card.',
+  'plants.loading': 'Loading…',
+  'plants.diagnoses': { one: '{count} diagnosis', other: '{count} diagnoses' },
+  'plants.latest': '{diagnoses} • last: {label}',
+  'plants.noDiagnoses': 'No diagnoses yet',
+  'plant.missing': 'This plant no longer exists.',
+  'plant.loading': 'Loading…',
+  'plant.deleteTitle': 'Delete plant',
+  'plant.deleteMessage': 'Delete "{name}"? Its diagnoses stay in History.',
+  'plant.cancel': 'Cancel',
+  'plant.delete': 'Delete',
+  'plant.edit': 'Edit',
+  'plant.notes': 'Notes',
+  'plant.healthTrend': 'Health trend',
+  'plant.timeline': 'Timeline',
+  'plant.timelineEmpty': 'Attach diagnoses to this plant from the result card or a History entry.',
+  'plant.deleteButton': 'Delete plant',
+  'plantEdit.titleEdit': 'Edit plant',
+  'plantEdit.titleNew': 'New plant',
+  'plantEdit.addPhoto': 'Add photo',
+  'plantEdit.name': 'Name',
+  'plantEdit.namePlaceholder': 'e.g. Tomato row 3, plant 12',
+  'plantEdit.species': 'Species',
+  'plantEdit.speciesPlaceholder': 'e.g. Tomato',
+  'plantEdit.location': 'Location or bed',
+  'plantEdit.locationPlaceholder': 'e.g. Greenhouse B, bed 4',
+  'plantEdit.notes': 'Notes',
+  'plantEdit.notesPlaceholder': 'Variety, planting date, treatments…',
+  'plantEdit.save': 'Save',
+  'plantEdit.saveAndAttach': 'Save and attach diagnosis',
+  'plantEdit.checkTitle': 'Check the plant',
+  'plantEdit.photoFailed': 'Could not use this photo.',
+  'plantEdit.invalid.name': 'Name is required.',
+
+  // Plant health trend
+  'trend.improving': 'Improving',
+  'trend.worsening': 'Getting worse',
+  'trend.stable': 'Stable',
+  'trend.unknown': 'Not enough diagnoses yet',
+  'trend.hint': 'Health score: confidence that the leaf is healthy (100 = healthy).',
+
+  // Disease info
+  'disease.missingTitle': 'No guidance available yet',
+  'disease.missing':
+    'The knowledge base (version {version}) has no entry for “{label}”. Isolate the affected plant, ' +
+    'remove badly damaged leaves, and ask your local extension officer to confirm the diagnosis before ' +
+    'applying any treatment.',
+  'disease.thisLabel': 'this label',
+  'disease.meta': 'Crop: {crop} • Cause: {cause}',
+  'disease.symptoms': 'Symptoms',
+  'disease.organic': 'Organic treatment',
+  'disease.chemical': 'Chemical treatment',
+  'disease.chemicalNote': 'Follow the product label, re-entry intervals and local regulations.',
+  'disease.prevention': 'Prevention',
+  'disease.version': 'Knowledge base version {version}',
+  'disease.versionUpdated': 'Knowledge base version {version} • updated {date}',
+
+  // Settings validation
+  'settingsError.name': 'Name is required.',
+  'settingsError.baseUrl': 'Base URL must start with http:// or https:// followed by a host.',
+  'settingsError.uploadSize': 'Upload size must be a whole number of pixels from {min} to {max}.',
+  'settingsError.qualityNegative': 'Thresholds must be non-negative numbers.',
+  'settingsError.brightnessOrder': 'Minimum brightness must be below maximum brightness.',
+  'settingsError.brightnessRange': 'Brightness is measured from 0 to 255.',
+  'settingsError.fractions': 'Fractions must be between 0 and 1.',
+  'settingsError.confidenceRange': 'Thresholds must be between 0 and 100.',
+  'settingsError.confidenceOrder': 'The reject threshold must not be above the confident one.',
+  'settingsError.supabaseUrl': 'Supabase URL must start with https://.',
+  'settingsError.anonKey': 'Supabase anon key is required.',
+  'settingsError.serverUrl': '"{server}" is not a server URL.',
+  'settingsError.serverInsecure': '{server} does not use HTTPS, so it cannot receive sign-in tokens.',
+  'settingsError.syncId': 'Sync ID is required so your devices share the same history.',
+  'settingsError.tableBucket': 'Table and bucket names are required.',
+} satisfies Record<string, Message>;
@@ -0,0 +1,499 @@
+import type { Messages } from '@/lib/i18n';
+
+/**
+ * Sinhala messages
+ */
+export const si: Messages = {
+  // Home screen
+  'home.title': 'Plant Whisperer 🌱',
+  'home.subtitle': 'ඉක්මන් රෝග විනිශ්චයක් සහ Grad-CAM පැහැදිලි කිරීමක් සඳහා කොළයක ඡායාරූපයක් උඩුගත කරන්න.',
+  'home.settings': 'සැකසුම්',
+  'home.server': 'සේවාදායකය: {name}',
+  'home.serverMock': 'සේවාදායකය: අනුකරණය ({title})',
+  'home.takePhoto': 'ඡායාරූපයක් ගන්න',
+  'home.takePhotoHint': 'කැමරාව • කොළය රාමු කිරීමේ මාර්ගෝපදේශය සමඟ',
+  'home.pickImage': 'රූපයක් තෝරන්න',
+  'home.pickImageHint': 'JPG / PNG • ඔබගේ ගැලරියෙන්',
+  'home.batch': 'ඡායාරූප කිහිපයක් එකවර විනිශ්චය කරන්න',
+  'home.followUpTitle': 'පසු විපරම් ඡායාරූපය',
+  'home.followUpOf': '{date} දින {title} සමඟ සංසන්දනය කෙරේ',
+  'home.followUpUnlink': 'සබැඳිය ඉවත් කරන්න',
+  'home.signInTitle': 'මෙම ඡායාරූපය විනිශ්චය කිරීමට පුරනය වන්න',
+  'home.signInMessage': 'සේවාදායකය විනිශ්චය කරන්නේ පුරනය වූ පරිශීලකයින් සඳහා පමණි. ඔබේ ඡායාරූපය තබා ඇති අතර ඔබ පුරනය වූ විගස යවනු ලැබේ.',
+  'home.signIn': 'පුරනය වන්න',
+  'home.selectedImage': 'තෝරාගත් රූපය',
+  'home.replace': 'වෙනස් කරන්න',
+  'home.uploadSize': 'උඩුගත කිරීමේ ප්‍රමාණය: {size} ({width}×{height})',
+  'home.preparing': 'රූපය සූදානම් කරමින්…',
+  'home.predicting': 'විනිශ්චය කරමින්…',
+  'home.cancel': 'අවලංගු කරන්න',
+  'home.cancelHint': 'පුරෝකථනය නවත්වයි; ඡායාරූපය තබා ගනී',
+  'home.cancelled': 'පුරෝකථනය අවලංගු කරන ලදී',
+  'home.retry': 'නැවත උත්සාහ කරන්න',
+  'home.retryHint': 'එම ඡායාරූපයම නැවත යවයි',
+  'home.dropWaiting': {
+    one: 'දැමූ තවත් ඡායාරූප {count}ක් රැඳී ඇත',
+    other: 'දැමූ තවත් ඡායාරූප {count}ක් රැඳී ඇත',
+  },
+  'home.dropContinue': 'ඉදිරියට',
+  'home.dropClear': 'ඉවත් කරන්න',
+  'home.queuedFailed': 'උඩුගත කිරීම අසාර්ථක විය. ඉහත පෝලිමෙන් නැවත උත්සාහ කරන්න.',
+  'home.queuedUnreachable': 'සේවාදායකයට සම්බන්ධ විය නොහැකි විය. රූපය පෝලිමේ ඇති අතර ස්වයංක්‍රීයව නැවත උත්සාහ කෙරේ.',
+  'home.queuedOffline': 'ඔබ නොබැඳිව සිටී. රූපය පෝලිමේ ඇති අතර ඔබ නැවත සබැඳි වූ විට විනිශ්චය කෙරේ.',
+  'home.result': 'ප්‍රතිඵලය',
+  'home.confidence': 'විශ්වාසය',
+  'home.tip': 'ඉඟිය: හොඳ ආලෝකයේ කොළයේ පැහැදිලි සමීප ඡායාරූපයක් භාවිත කරන්න.',
+  'home.retake': 'නැවත ඡායාරූපය ගන්න',
+  'home.tryAnother': 'වෙනත් කොළයක් උත්සාහ කරන්න',
+  'home.differential': 'වෙනත් විය හැකි රෝග',
+  'home.gradcamTitle': 'Grad-CAM පැහැදිලි කිරීම',
+  'home.heatmap': 'තාප සිතියම',
+  'home.gradcamEmpty': 'Grad-CAM තාප සිතියමක් සෑදීමට රූපයක් තෝරන්න.',
+  'home.gradcamHint': 'ආකෘතියේ විනිශ්චයට බලපෑ ප්‍රදේශ Grad-CAM මගින් ඉස්මතු කරයි.',
+
+  // Screen reader text
+  'a11y.result': '{title}, විශ්වාසය සියයට {pct}',
+  'a11y.selectedImage': 'තෝරාගත් කොළ ඡායාරූපය',
+  'a11y.gradcamImage': 'කොළ ඡායාරූපය මත Grad-CAM තාප සිතියම. {description}',
+  'gradcam.concentrated': 'ඉස්මතු කළ ප්‍රදේශ කොළයේ {area} කොටසේ සංකේන්ද්‍රණය වී ඇත.',
+  'gradcam.edge': 'ඉස්මතු කළ ප්‍රදේශ කොළයේ {area} දාරය දිගේ සංකේන්ද්‍රණය වී ඇත.',
+  'gradcam.spread': 'ඉස්මතු කළ ප්‍රදේශ කොළයේ වැඩි කොටසක පැතිර ඇත; වඩාත් ප්‍රබල වන්නේ {area} කොටසේය.',
+  'gradcam.none': 'තාප සිතියමේ කැපී පෙනෙන ප්‍රදේශ නොමැත.',
+  'gradcam.unknown': 'ඉස්මතු කළ ප්‍රදේශ පිහිටි තැන සේවාදායකය විස්තර කළේ නැත.',
+  'area.upperLeft': 'ඉහළ වම්',
+  'area.top': 'ඉහළ',
+  'area.upperRight': 'ඉහළ දකුණු',
+  'area.left': 'වම්',
+  'area.center': 'මැද',
+  'area.right': 'දකුණු',
+  'area.lowerLeft': 'පහළ වම්',
+  'area.bottom': 'පහළ',
+  'area.lowerRight': 'පහළ දකුණු',
+
+  // Home screen alerts
+  'alert.error': 'දෝෂයකි',
+  'alert.prepareFailed': 'උඩුගත කිරීම සඳහා රූපය සූදානම් කළ නොහැකි විය.',
+  'alert.queueFailed': 'පසුව උඩුගත කිරීමට රූපය සුරැකිය නොහැකි විය.',
+  'alert.permissionNeeded': 'අවසරය අවශ්‍යයි',
+  'alert.photoPermission': 'කරුණාකර ඡායාරූප වෙත ප්‍රවේශයට ඉඩ දෙන්න.',
+  'alert.cameraPermission': 'කොළයක් ඡායාරූපගත කිරීමට කරුණාකර කැමරා ප්‍රවේශයට ඉඩ දෙන්න.',
+  'alert.replaceTitle': 'රූපය වෙනස් කරන්න',
+  'alert.replaceMessage': 'නව කොළ ඡායාරූපයක් තෝරන්න.',
+  'alert.chooseFromGallery': 'ගැලරියෙන් තෝරන්න',
+  'alert.cancel': 'අවලංගු කරන්න',
+
+  // Confidence bands
+  'band.confident': 'විශ්වාසදායකයි',
+  'band.uncertain': 'අවිනිශ්චිතයි',
+  'band.reject': 'විශ්වාසදායක විනිශ්චයක් නැත',
+  'result.notAPlant': 'ශාක කොළයක් නොවේ',
+  'advice.notAPlant': 'මෙය ශාක කොළයක් ලෙස නොපෙනේ. තනි කොළයක් ළඟින් ඡායාරූපගත කර නැවත උත්සාහ කරන්න.',
+  'advice.reject':
+    'ආකෘතියට මෙම කොළය හඳුනාගත නොහැකි විය. වඩා හොඳ ආලෝකයේ නැවත ඡායාරූපය ගන්න හෝ වෙනත් කොළයක් උත්සාහ කරන්න.',
+  'advice.uncertain':
+    'ආකෘතිය නිශ්චිත නැත. තහවුරු කිරීමට නැවත ඡායාරූපය ගන්න හෝ පැහැදිලි රෝග ලක්ෂණ ඇති වෙනත් කොළයක් උත්සාහ කරන්න.',
+
+  // Outbox
+  'outbox.title': 'පිටතට යන පෝලිම',
+  'outbox.offline': 'නොබැඳි',
+  'outbox.waiting': { one: '{count}ක් රැඳී ඇත', other: '{count}ක් රැඳී ඇත' },
+  'outbox.diagnosed': { one: '{count}ක් විනිශ්චය කළා', other: '{count}ක් විනිශ්චය කළා' },
+  'outbox.tries': { one: 'මෙතෙක් එක් උත්සාහයක්', other: 'මෙතෙක් උත්සාහ {count}ක්' },
+  'outbox.show': 'පෙන්වන්න',
+  'outbox.hide': 'සඟවන්න',
+  'outbox.offlineHint': 'ඔබ නැවත සබැඳි වූ විට ඡායාරූප ස්වයංක්‍රීයව විනිශ්චය කෙරේ.',
+  'outbox.clearFinished': 'අවසන් වූ ඒවා ඉවත් කරන්න',
+  'outbox.view': 'බලන්න',
+  'outbox.retry': 'නැවත උත්සාහ කරන්න',
+  'outbox.cancel': 'අවලංගු කරන්න',
+  'outbox.status.queued': 'උඩුගත කිරීමට රැඳී ඇත',
+  'outbox.status.uploading': 'උඩුගත කරමින්…',
+  'outbox.status.failed': 'අසාර්ථකයි',
+  'outbox.status.done': 'විනිශ්චය කළා',
+
+  // Web drop zone
+  'dropZone.title': 'කොළ ඡායාරූප මෙතැනට දමන්න',
+  'dropZone.release': 'විනිශ්චය කිරීමට අත හරින්න',
+  'dropZone.hint': 'ඡායාරූප කිහිපයක් එකින් එක විනිශ්චය කෙරේ. රූපයක් හෝ එහි ලිපිනය ඇලවීමටද හැකිය.',
+  'dropZone.urlLabel': 'රූපයේ ලිපිනය',
+  'dropZone.urlPlaceholder': 'https://… රූපයේ ලිපිනය',
+  'dropZone.load': 'පූරණය කරන්න',
+  'dropZone.invalidUrl': 'http:// හෝ https:// වලින් ආරම්භ වන ලිපිනයක් ඇතුළත් කරන්න.',
+  'dropZone.urlFailed': 'මෙම ලිපිනයෙන් රූපයක් පූරණය කළ නොහැකි විය. එය සුරකා ගොනුව මෙතැනට දමන්න.',
+  'dropZone.notImage': 'විනිශ්චය කළ හැක්කේ රූප ගොනු පමණි.',
+
+  // API errors
+  'apiError.timeoutTitle': 'සේවාදායකය ප්‍රමාදයි',
+  'apiError.timeout': 'සේවාදායකය පිළිතුරු දීමට වැඩි කාලයක් ගත්තේය. වඩා හොඳ සංඥාවක් සහිතව නැවත උත්සාහ කරන්න.',
+  'apiError.networkTitle': 'ජාල දෝෂයකි',
+  'apiError.network':
+    'සේවාදායකයට සම්බන්ධ විය නොහැකි විය. අන්තර්ජාල සම්බන්ධතාවය සහ සැකසුම්හි සේවාදායක පැතිකඩ පරීක්ෂා කරන්න.',
+  'apiError.signInTitle': 'පුරනය වීම අවශ්‍යයි',
+  'apiError.forbidden': 'ඔබගේ ගිණුමට මෙම සේවාදායකය භාවිත කිරීමට අවසර නැත. වෙනත් ගිණුමකින් පුරනය වන්න.',
+  'apiError.sessionEnded': 'ඔබගේ සැසිය අවසන් විය. ඉදිරියට යාමට නැවත පුරනය වන්න.',
+  'apiError.insecureTitle': 'ආරක්ෂිත නොවන සේවාදායකය',
+  'apiError.insecure':
+    'මෙම සේවාදායකයට පුරනය වීම අවශ්‍ය නමුත් එය HTTPS භාවිත නොකරයි, එබැවින් ඔබගේ ගිණුම එය සමඟ භාවිත කළ නොහැක. ' +
+    'සැකසීම් තුළ HTTPS සේවාදායකයක් තෝරන්න.',
+  'apiError.serverTitle': 'සේවාදායක දෝෂයකි',
+  'apiError.server': 'සේවාදායකයට රූපය සැකසීමට නොහැකි විය (HTTP {status}).',
+  'apiError.rejectedTitle': 'ඉල්ලීම ප්‍රතික්ෂේප විය',
+  'apiError.rejected': 'සේවාදායකය ඉල්ලීම ප්‍රතික්ෂේප කළේය (HTTP {status}).',
+  'apiError.payloadTitle': 'අනපේක්ෂිත පිළිතුරකි',
+  'apiError.payload': 'යෙදුමට තේරුම් ගත නොහැකි පිළිතුරක් සේවාදායකය එවීය. එය වෙනත් API අනුවාදයක් විය හැක.',
+  'apiError.unknownTitle': 'දෝෂයකි',
+  'apiError.unknown': 'සේවාදායකය සම්බන්ධ කර ගැනීමේදී යමක් වැරදුණි.',
+
+  // Photo quality check
+  'quality.title': 'විනිශ්චයට පෙර ඡායාරූපය පරීක්ෂා කරන්න',
+  'quality.retake': 'නැවත ගන්න',
+  'quality.sendAnyway': 'කෙසේ වෙතත් විනිශ්චය කරන්න',
+  'quality.summary':
+    'ඡායාරූපයේ ගුණාත්මකභාවය: තියුණුබව {sharpness} • දීප්තිය {brightness}/255 • රාමුවෙන් {leaf}ක් කොළය',
+  'quality.blur': 'ඡායාරූපය බොඳ වී ඇති සේ පෙනේ.',
+  'quality.blur.advice':
+    'දුරකථනය නොසෙල්වී අල්ලා, නාභිගත කිරීමට කොළය මත තට්ටු කර, සෙ.මී. 20–30ක් පමණ දුරින් තබන්න.',
+  'quality.underexposed': 'ඡායාරූපය ඉතා අඳුරුයි.',
+  'quality.underexposed.advice': 'දිවා ආලෝකයට හෝ විවෘත සෙවණට යන්න; දීප්තිමත් පසුබිමකට එරෙහිව ඡායාරූප නොගන්න.',
+  'quality.overexposed': 'ඡායාරූපය ඉතා දීප්තිමත් හෝ දිලිසීම් සහිතයි.',
+  'quality.overexposed.advice':
+    'කොළය මත සෘජු හිරු එළිය වළක්වන්න; ඔබගේ සිරුරෙන් සෙවණ කරන්න හෝ පරාවර්තන ඉවත් වන සේ ඇල කරන්න.',
+  'quality.leaf-coverage': 'ඡායාරූපයේ කොළය ඇත්තේ ස්වල්පයකි.',
+  'quality.leaf-coverage.advice': 'සරල පසුබිමක් මත, තනි කොළයක් රාමුවෙන් වැඩි කොටසක් පුරවන සේ ළඟට යන්න.',
+
+  // Diagnosis feedback
+  'feedback.question': 'මෙය නිවැරදිද?',
+  'feedback.yes': 'ඔව්',
+  'feedback.no': 'නැත',
+  'feedback.confirmed': 'ඔබ මෙම විනිශ්චය තහවුරු කළා',
+  'feedback.corrected': '{label} ලෙස නිවැරදි කළා',
+  'feedback.sent': 'කණ්ඩායමට යවන ලදී',
+  'feedback.pending': 'සබැඳි වූ විට යවනු ලැබේ',
+  'feedback.rejected': 'මෙම උපාංගයේ තබා ඇත; සේවාදායකය එය පිළිගත්තේ නැත',
+  'feedback.change': 'වෙනස් කරන්න',
+  'feedback.pickerTitle': 'නිවැරදි විනිශ්චය කුමක්ද?',
+  'feedback.search': 'ලේබල සොයන්න හෝ ඔබගේම එකක් ටයිප් කරන්න',
+  'feedback.useTyped': '“{label}” භාවිත කරන්න',
+  'feedback.notInList': 'ලැයිස්තුවේ නැත',
+  'feedback.wasCorrect': 'එය නිවැරදියි',
+  'feedback.cancel': 'අවලංගු කරන්න',
+
+  // Grad-CAM viewer
+  'gradcamViewer.overlay': 'උඩින් තැබීම',
+  'gradcamViewer.sideBySide': 'පැත්තෙන් පැත්තට',
+  'gradcamViewer.swipe': 'ස්වයිප්',
+  'gradcamViewer.opacity': 'තාප සිතියමේ පාරාන්ධතාව',
+  'gradcamViewer.hint': 'විශාලනයට ඇඟිලි දෙකෙන් අදින්න, ගෙන යාමට ඇදගෙන යන්න, යළි සැකසීමට දෙවරක් තට්ටු කරන්න.',
+
+  // Leaf camera
+  'camera.errorTitle': 'කැමරා දෝෂයකි',
+  'camera.error': 'ඡායාරූපයක් ගත නොහැකි විය. කරුණාකර නැවත උත්සාහ කරන්න.',
+  'camera.tipTitle': 'එක් කොළයක් රේඛාව තුළට ගන්න',
+  'camera.tipDistance': '• දුරකථනය කොළයේ සිට සෙ.මී. 15–25ක් දුරින් අල්ලන්න',
+  'camera.tipLight': '• මෘදු දිවා ආලෝකය භාවිත කරන්න; තද සෙවණැලි සහ ෆ්ලෑෂ් දිලිසීම් වළක්වන්න',
+  'camera.tipFocus': '• බලපෑමට ලක් වූ කොටස නාභිගතව තබා රාමුව පුරවන්න',
+  'camera.cancel': 'අවලංගු කරන්න',
+  'camera.shutter': 'ඡායාරූපයක් ගන්න',
+
+  // Knowledge base link
+  'kbLink.title': 'ඊළඟට කළ යුත්තේ කුමක්ද',
+  'kbLink.missingTitle': 'මෙම ප්‍රතිඵලය සඳහා තවම ප්‍රතිකාර මඟපෙන්වීමක් නැත',
+  'kbLink.missing': 'සාමාන්‍ය උපදෙස් සහ සම්බන්ධ කර ගත යුත්තේ කාවද යන්න බලන්න.',
+  'pathogen.fungal': 'දිලීර',
+  'pathogen.bacterial': 'බැක්ටීරියා',
+  'pathogen.viral': 'වෛරස',
+  'pathogen.oomycete': 'ජල පුස් (ඌමයිසීට)',
+  'pathogen.pest': 'පළිබෝධ',
+  'pathogen.none': 'නැත',
+
+  // Plant attachment
+  'attach.plant': 'ශාකය: {name}',
+  'attach.none': 'ශාකයකට අමුණන්න',
+  'attach.change': 'වෙනස් කරන්න',
+  'attach.choose': 'තෝරන්න',
+  'attach.title': 'ශාකයට අමුණන්න',
+  'attach.empty': 'තවම ශාක පැතිකඩ නැත.',
+  'attach.newPlant': 'නව ශාකයක්…',
+  'attach.detach': 'ඉවත් කරන්න',
+  'attach.cancel': 'අවලංගු කරන්න',
+
+  // Report sharing
+  'share.title': 'වාර්තාව බෙදාගන්න',
+  'share.as': 'වාර්තාව {format} ලෙස බෙදාගන්න',
+  'share.failed': 'වාර්තාව බෙදාගත නොහැකි විය',
+
+  // Treatment plans
+  'planLink.title': 'ප්‍රතිකාර සැලසුම් කරන්න',
+  'planLink.upcoming': {
+    one: 'ප්‍රතිකාර සැලැස්ම • ඉදිරි සිහිකැඳවීම් {count}ක්',
+    other: 'ප්‍රතිකාර සැලැස්ම • ඉදිරි සිහිකැඳවීම් {count}ක්',
+  },
+  'planLink.hint': 'ඉසීමට හෝ කප්පාදු කිරීමට සිහිකැඳවීම්, සහ සැසඳීමට පසු විපරම් ඡායාරූපයක්.',
+  'planLink.hintPlanned': 'තවත් ක්‍රියා එක් කරන්න, නැතහොත් ඒවා සිහිකැඳවීම් ටැබයේ බලන්න.',
+  'plan.title': 'ප්‍රතිකාර සැලැස්ම',
+  'plan.missing': 'මෙම විනිශ්චය තවදුරටත් නොපවතී.',
+  'plan.recommended': 'නිර්දේශිත ප්‍රතිකාර',
+  'plan.firstTreatment': 'පළමු ප්‍රතිකාරය',
+  'plan.today': 'අද',
+  'plan.tomorrow': 'හෙට',
+  'plan.inTwoDays': 'දින 2කින්',
+  'plan.time': 'සිහිකැඳවීමේ වේලාව',
+  'plan.action': 'ක්‍රියාව {number}',
+  'plan.removeAction': 'ක්‍රියාව {number} ඉවත් කරන්න',
+  'plan.remove': 'ඉවත් කරන්න',
+  'plan.every': 'සෑම',
+  'plan.everyDays': { one: 'දිනකටම', other: 'දින {count}කටම' },
+  'plan.times': 'වාර ගණන',
+  'plan.notesOther': 'කළ යුතු දේ',
+  'plan.notes': 'නිෂ්පාදනය, මාත්‍රාව… (විකල්ප)',
+  'plan.addAction': 'ක්‍රියාවක් එක් කරන්න',
+  'plan.followUp': 'පසු විපරම් ඡායාරූපය',
+  'plan.followUpHint':
+    'එම පත්‍රයම නැවත ඡායාරූප ගැනීමට සිහිකැඳවීමක්. පෙර සහ පසු සැසඳීමට හැකි වන පරිදි එය මෙම ' +
+    'විනිශ්චයට සම්බන්ධ කැමරාව විවෘත කරයි.',
+  'plan.after': 'පසුව',
+  'plan.days': { one: 'දින {count}', other: 'දින {count}' },
+  'plan.save': 'සැලැස්ම සුරකින්න',
+  'plan.checkTitle': 'සැලැස්ම පරීක්ෂා කරන්න',
+  'plan.notificationsOffTitle': 'දැනුම්දීම් අක්‍රියයි',
+  'plan.notificationsOff':
+    'සැලැස්ම සිහිකැඳවීම් ටැබයේ ඇත, නමුත් ඔබට දැනුම් නොදෙනු ඇත. ' +
+    'පද්ධති සැකසුම්වල දැනුම්දීම්වලට ඉඩ දෙන්න.',
+  'plan.invalid.empty': 'ප්‍රතිකාර ක්‍රියාවක් හෝ පසු විපරම් ඡායාරූපයක් එක් කරන්න.',
+  'plan.invalid.past': 'පළමු සිහිකැඳවීමේ වේලාව ඉක්ම ගොස් ඇත. පසු දිනයක් හෝ වේලාවක් තෝරන්න.',
+  'plan.invalid.other': '"වෙනත්" ක්‍රියාව එහි සටහන්වල විස්තර කරන්න.',
+  'treatmentAction.spray': 'ඉසින්න',
+  'treatmentAction.prune': 'කප්පාදු කරන්න',
+  'treatmentAction.remove-leaves': 'ආසාදිත පත්‍ර ඉවත් කරන්න',
+  'treatmentAction.fertilize': 'පොහොර යොදන්න',
+  'treatmentAction.other': 'වෙනත්',
+
+  // Reminder notifications
+  'reminder.title': '{action}: {disease}',
+  'reminder.followUpTitle': 'නැවත ඡායාරූප ගන්න: {disease}',
+  'reminder.followUpBody': 'මුල් විනිශ්චය සමඟ සැසඳීමට පත්‍රයේ නව ඡායාරූපයක් ගන්න.',
+  'reminder.progress': 'ප්‍රතිකාර {count}න් {index}',
+  'reminder.due': 'අද ප්‍රතිකාර කළ යුතුය.',
+  'reminder.channel': 'ප්‍රතිකාර සිහිකැඳවීම්',
+
+  // Sign-in
+  'signIn.insecureTitle': 'පුරනය වීමට HTTPS අවශ්‍යයි',
+  'signIn.insecure':
+    '{server} HTTPS භාවිත නොකරයි, එබැවින් ඔබේ මුරපදය සහ පුරනය වීමේ ටෝකන සංකේතනයකින් තොරව යවනු ලැබේ. ' +
+    'සේවාදායක පරිපාලක HTTPS සක්‍රිය කරන තුරු පුරනය වීම අක්‍රියයි.',
+  'signIn.notSetUpTitle': 'ගිණුම් සේවාව සකසා නැත',
+  'signIn.notSetUp': 'ගිණුම් පවතින ස්ථානය තෝරා, සැකසුම්වල ගිණුම යටතේ එහි විස්තර ඇතුළත් කරන්න.',
+  'signIn.openSettings': 'සැකසුම් විවෘත කරන්න',
+  'signIn.signedIn': 'පුරනය වී ඇත',
+  'signIn.continue': 'ඉදිරියට',
+  'signIn.signOut': 'ඉවත් වන්න',
+  'signIn.switchAccount': 'ගිණුම මාරු කරන්න',
+  'signIn.title': 'පුරනය වන්න',
+  'signIn.intro':
+    '{server} මත කරන විනිශ්චය සඳහා ගිණුමක් අවශ්‍යයි. ඔබ පුරනය වන අතරතුර ගත් ඡායාරූප රඳවා තබා ගැනේ.',
+  'signIn.password': 'මුරපදය',
+  'signIn.emailLink': 'ඊමේල් සබැඳිය',
+  'signIn.email': 'ඊමේල්',
+  'signIn.invalidEmail': 'ඔබේ ගිණුමේ ඊමේල් ලිපිනය ඇතුළත් කරන්න.',
+  'signIn.missingPassword': 'ඔබේ මුරපදය ඇතුළත් කරන්න.',
+  'signIn.linkSent': '{email} පරීක්ෂා කර, පුරනය වීම අවසන් කිරීමට මෙම උපාංගයේ සබැඳිය විවෘත කරන්න.',
+  'signIn.submit': 'පුරනය වන්න',
+  'signIn.sendLink': 'පුරනය වීමේ සබැඳියක් මට ඊමේල් කරන්න',
+  'signIn.sendAnotherLink': 'තවත් සබැඳියක් යවන්න',
+  'signIn.noToken': 'මෙම සබැඳියේ පුරනය වීමේ ටෝකනයක් නැත. නව එකක් ඉල්ලන්න.',
+  'signIn.back': 'පුරනය වීමට ආපසු',
+  'authError.insecure': 'මෙම ගිණුම් සේවාව HTTPS භාවිත නොකරයි, එබැවින් පුරනය වීම අක්‍රියයි.',
+  'authError.tooManyAttempts': 'උත්සාහයන් වැඩියි. මිනිත්තුවක් රැඳී නැවත උත්සාහ කරන්න.',
+  'authError.wrongCredentials': 'ඊමේල් හෝ මුරපදය නිවැරදි නැත.',
+  'authError.unreachable': 'ගිණුම් සේවාවට සම්බන්ධ විය නොහැකි විය. ඔබේ සම්බන්ධතාවය පරීක්ෂා කරන්න.',
+
+  // Batch diagnosis
+  'batch.title': 'ඡායාරූප කිහිපයක් විනිශ්චය කිරීම',
+  'batch.intro':
+    'පත්‍ර ඡායාරූප {limit}ක් දක්වා තෝරන්න. ඒවා වරකට {concurrency}ක් බැගින් විනිශ්චය කර ' +
+    'ඉතිහාසයේ සුරකිනු ලැබේ. සේවාදායකය: {server}',
+  'batch.pick': 'ඡායාරූප තෝරන්න',
+  'batch.pickOther': 'වෙනත් ඡායාරූප තෝරන්න',
+  'batch.stop': 'නවත්වන්න',
+  'batch.diagnose': 'විනිශ්චය කරන්න',
+  'batch.diagnoseCount': '{count}ක් විනිශ්චය කරන්න',
+  'batch.processed': '{count}න් {done}ක් සකසා ඇත',
+  'batch.summary': 'සාරාංශය',
+  'batch.totals': '{diagnosed}ක් විනිශ්චය කළා • {queued}ක් නොබැඳිව පෝලිමේ • {failed}ක් අසාර්ථකයි',
+  'batch.meanConfidence': 'සාමාන්‍ය විශ්වාසය: {pct}',
+  'batch.uncertain': 'අවිනිශ්චිත හෝ ප්‍රතික්ෂේපිත ({pct}ට අඩු): {count}',
+  'batch.retryFailed': 'අසාර්ථක රූප නැවත උත්සාහ කරන්න',
+  'batch.status.waiting': 'රැඳී ඇත',
+  'batch.status.preparing': 'සූදානම් කරමින්…',
+  'batch.status.uploading': 'විනිශ්චය කරමින්…',
+  'batch.status.done': 'නිමයි',
+  'batch.status.queued': 'නොබැඳිව පෝලිමේ',
+  'batch.status.error': 'අසාර්ථකයි',
+
+  // Navigation
+  'nav.home': 'මුල් පිටුව',
+  'nav.history': 'ඉතිහාසය',
+  'nav.plants': 'පැළ',
+  'nav.reminders': 'සිහිකැඳවීම්',
+  'nav.modal': 'කවුළුව',
+  'nav.settings': 'සැකසුම්',
+  'nav.batch': 'කණ්ඩායම් විනිශ්චය',
+  'nav.diagnosis': 'විනිශ්චය',
+  'nav.diseaseInfo': 'රෝග තොරතුරු',
+  'nav.plant': 'පැළය',
+  'nav.treatmentPlan': 'ප්‍රතිකාර සැලැස්ම',
+  'nav.account': 'ගිණුම',
+  'nav.signingIn': 'පුරනය වෙමින්',
+
+  // History
+  'history.title': 'ඉතිහාසය',
+  'history.syncing': 'සමමුහුර්ත කරමින්…',
+  'history.syncNow': 'දැන් සමමුහුර්ත කරන්න',
+  'history.clearAll': 'සියල්ල මකන්න',
+  'history.search': 'විනිශ්චයන් සොයන්න',
+  'history.allDiseases': 'සියල්ල',
+  'history.loading': 'පූරණය වෙමින්…',
+  'history.empty': 'තවම විනිශ්චයන් නැත. මුල් පිටුවේ ප්‍රතිඵල ස්වයංක්‍රීයව මෙහි සුරැකේ.',
+  'history.noMatches': 'ඔබේ සෙවුමට ගැළපෙන විනිශ්චයන් නැත.',
+  'history.confidence': 'විශ්වාසය {pct}',
+  'history.noConfidence': 'විශ්වාසය —',
+  'history.deleteTitle': 'විනිශ්චය මකන්න',
+  'history.deleteMessage': '"{label}" ඉතිහාසයෙන් ඉවත් කරන්නද?',
+  'history.clearTitle': 'ඉතිහාසය මකන්න',
+  'history.clearMessage': 'සුරැකි සියලු විනිශ්චයන් සහ ඒවායේ රූප මකන්නද?',
+  'history.cancel': 'අවලංගු කරන්න',
+  'history.delete': 'මකන්න',
+  'history.sync.pending': 'සමමුහුර්ත වීමට රැඳී ඇත',
+  'history.sync.syncing': 'සමමුහුර්ත කරමින්…',
+  'history.sync.synced': 'සමමුහුර්තයි',
+  'history.sync.error': 'සමමුහුර්ත කිරීම අසාර්ථකයි',
+
+  // Diagnosis detail
+  'diagnosis.missing': 'මෙම විනිශ්චය තවදුරටත් නොපවතී.',
+  'diagnosis.loading': 'පූරණය වෙමින්…',
+  'diagnosis.deleteTitle': 'විනිශ්චය මකන්න',
+  'diagnosis.deleteMessage': 'මෙම විනිශ්චය සහ එහි රූප ඉවත් කරන්නද?',
+  'diagnosis.cancel': 'අවලංගු කරන්න',
+  'diagnosis.delete': 'මකන්න',
+  'diagnosis.notes': 'සටහන්',
+  'diagnosis.notesPlaceholder': 'ක්ෂේත්‍ර නිරීක්ෂණ, යෙදූ ප්‍රතිකාර, දුන් උපදෙස්…',
+  'diagnosis.saveNotes': 'සටහන් සුරකින්න',
+  'diagnosis.photo': 'කොළ ඡායාරූපය',
+  'diagnosis.gradcam': 'Grad-CAM',
+  'diagnosis.noGradcam': 'මෙම විනිශ්චය සඳහා තාප සිතියමක් සුරැකුණේ නැත.',
+  'diagnosis.deleteButton': 'විනිශ්චය මකන්න',
+
+  // Before and after
+  'beforeAfter.title': 'පෙර සහ පසු',
+  'beforeAfter.before': 'පෙර',
+  'beforeAfter.after': 'පසු',
+  'beforeAfter.improving': 'යහපත් වෙමින්',
+  'beforeAfter.worsening': 'නරක අතට හැරෙමින්',
+  'beforeAfter.stable': 'පැහැදිලි වෙනසක් නැත',
+  'beforeAfter.unknown': 'සැසඳිය නොහැක',
+
+  // Reminders calendar
+  'reminders.title': 'සිහිකැඳවීම්',
+  'reminders.today': 'අද',
+  'reminders.previousMonth': 'පෙර මාසය',
+  'reminders.nextMonth': 'ඊළඟ මාසය',
+  'reminders.weekday.mon': 'සඳු',
+  'reminders.weekday.tue': 'අඟ',
+  'reminders.weekday.wed': 'බදා',
+  'reminders.weekday.thu': 'බ්‍රහ',
+  'reminders.weekday.fri': 'සිකු',
+  'reminders.weekday.sat': 'සෙන',
+  'reminders.weekday.sun': 'ඉරි',
+  'reminders.count': { one: 'සිහිකැඳවීම් {count}ක්', other: 'සිහිකැඳවීම් {count}ක්' },
+  'reminders.loading': 'පූරණය වෙමින්…',
+  'reminders.empty':
+    'තවම සිහිකැඳවීම් නැත. සිහිකැඳවීම් මෙහි ලබා ගැනීමට විනිශ්චය ප්‍රතිඵලයකින් ප්‍රතිකාර සැලසුම් කරන්න.',
+  'reminders.nothingPlanned': 'මෙම දිනට කිසිවක් සැලසුම් කර නැත.',
+  'reminders.next': 'ඊළඟ: {title} • {date}',
+  'reminders.deleteTitle': 'සිහිකැඳවීම මකන්න',
+  'reminders.deleteMessage': '"{title}" සඳහා සියලු සිහිකැඳවීම් මකන්නද?',
+  'reminders.cancel': 'අවලංගු කරන්න',
+  'reminders.delete': 'මකන්න',
+  'reminders.progress': '{count}න් {index}',
+  'reminders.diagnosisOf': '{date} දින විනිශ්චය',
+  'reminders.diagnosisDeleted': 'විනිශ්චය මකා දමා ඇත.',
+  'reminders.takePhoto': 'ඡායාරූපයක් ගන්න',
+
+  // Plants
+  'plants.title': 'පැළ',
+  'plants.add': 'පැළයක් එක් කරන්න',
+  'plants.empty':
+    'තවම පැළ නැත. පැළයක් හෝ පාත්තියක් එක් කර, ප්‍රතිඵල කාඩ්පතෙන් එයට විනිශ්චයන් අමුණන්න.',
+  'plants.loading': 'පූරණය වෙමින්…',
+  'plants.diagnoses': { one: 'විනිශ්චය {count}ක්', other: 'විනිශ්චයන් {count}ක්' },
+  'plants.latest': '{diagnoses} • අවසන්: {label}',
+  'plants.noDiagnoses': 'තවම විනිශ්චයන් නැත',
+  'plant.missing': 'මෙම පැළය තවදුරටත් නොපවතී.',
+  'plant.loading': 'පූරණය වෙමින්…',
+  'plant.deleteTitle': 'පැළය මකන්න',
+  'plant.deleteMessage': '"{name}" මකන්නද? එහි විනිශ්චයන් ඉතිහාසයේ රැඳේ.',
+  'plant.cancel': 'අවලංගු කරන්න',
+  'plant.delete': 'මකන්න',
+  'plant.edit': 'සංස්කරණය',
+  'plant.notes': 'සටහන්',
+  'plant.healthTrend': 'සෞඛ්‍ය ප්‍රවණතාව',
+  'plant.timeline': 'කාලරේඛාව',
+  'plant.timelineEmpty': 'ප්‍රතිඵල කාඩ්පතෙන් හෝ ඉතිහාස ඇතුළත් කිරීමකින් මෙම පැළයට විනිශ්චයන් අමුණන්න.',
+  'plant.deleteButton': 'පැළය මකන්න',
+  'plantEdit.titleEdit': 'පැළය සංස්කරණය',
+  'plantEdit.titleNew': 'නව පැළය',
+  'plantEdit.addPhoto': 'ඡායාරූපයක් එක් කරන්න',
+  'plantEdit.name': 'නම',
+  'plantEdit.namePlaceholder': 'උදා. තක්කාලි පේළිය 3, පැළය 12',
+  'plantEdit.species': 'විශේෂය',
+  'plantEdit.speciesPlaceholder': 'උදා. තක්කාලි',
+  'plantEdit.location': 'ස්ථානය හෝ පාත්තිය',
+  'plantEdit.locationPlaceholder': 'උදා. හරිතාගාරය B, පාත්තිය 4',
+  'plantEdit.notes': 'සටහන්',
+  'plantEdit.notesPlaceholder': 'ප්‍රභේදය, සිටවූ දිනය, ප්‍රතිකාර…',
+  'plantEdit.save': 'සුරකින්න',
+  'plantEdit.saveAndAttach': 'සුරකින්න සහ විනිශ්චය අමුණන්න',
+  'plantEdit.checkTitle': 'පැළය පරීක්ෂා කරන්න',
+  'plantEdit.photoFailed': 'මෙම ඡායාරූපය භාවිත කළ නොහැකි විය.',
+  'plantEdit.invalid.name': 'නම අවශ්‍යයි.',
+
+  // Plant health trend
+  'trend.improving': 'යහපත් වෙමින්',
+  'trend.worsening': 'නරක අතට හැරෙමින්',
+  'trend.stable': 'ස්ථාවරයි',
+  'trend.unknown': 'තවම ප්‍රමාණවත් විනිශ්චයන් නැත',
+  'trend.hint': 'සෞඛ්‍ය ලකුණු: කොළය නිරෝගී බවට ඇති විශ්වාසය (100 = නිරෝගී).',
+
+  // Disease info
+  'disease.missingTitle': 'තවම මඟපෙන්වීමක් නැත',
+  'disease.missing':
+    'දැනුම් පදනමේ (අනුවාදය {version}) “{label}” සඳහා ඇතුළත් කිරීමක් නැත. බලපෑමට ලක් වූ පැළය වෙන් කර, ' +
+    'දැඩි ලෙස හානි වූ කොළ ඉවත් කර, කිසියම් ප්‍රතිකාරයක් යෙදීමට පෙර විනිශ්චය තහවුරු කිරීමට ' +
+    'ඔබේ ප්‍රාදේශීය කෘෂිකර්ම උපදේශකගෙන් විමසන්න.',
+  'disease.thisLabel': 'මෙම ලේබලය',
+  'disease.meta': 'බෝගය: {crop} • හේතුව: {cause}',
+  'disease.symptoms': 'රෝග ලක්ෂණ',
+  'disease.organic': 'කාබනික ප්‍රතිකාර',
+  'disease.chemical': 'රසායනික ප්‍රතිකාර',
+  'disease.chemicalNote': 'නිෂ්පාදන ලේබලය, නැවත ඇතුළු වීමේ කාල පරාසය සහ ප්‍රාදේශීය නීති අනුගමනය කරන්න.',
+  'disease.prevention': 'වැළැක්වීම',
+  'disease.version': 'දැනුම් පදනමේ අනුවාදය {version}',
+  'disease.versionUpdated': 'දැනුම් පදනමේ අනුවාදය {version} • යාවත්කාලීන කළේ {date}',
+
+  // Settings validation
+  'settingsError.name': 'නම අවශ්‍යයි.',
+  'settingsError.baseUrl': 'මූලික URL එක http:// හෝ https:// වලින් ආරම්භ වී ධාරකයක් ඇතුළත් විය යුතුය.',
+  'settingsError.uploadSize': 'උඩුගත කිරීමේ ප්‍රමාණය {min} සිට {max} දක්වා පික්සල පූර්ණ සංඛ්‍යාවක් විය යුතුය.',
+  'settingsError.qualityNegative': 'සීමාවන් සෘණ නොවන සංඛ්‍යා විය යුතුය.',
+  'settingsError.brightnessOrder': 'අවම දීප්තිය උපරිම දීප්තියට වඩා අඩු විය යුතුය.',
+  'settingsError.brightnessRange': 'දීප්තිය මනින්නේ 0 සිට 255 දක්වාය.',
+  'settingsError.fractions': 'භාග 0 සහ 1 අතර විය යුතුය.',
+  'settingsError.confidenceRange': 'සීමාවන් 0 සහ 100 අතර විය යුතුය.',
+  'settingsError.confidenceOrder': 'ප්‍රතික්ෂේප සීමාව විශ්වාස සීමාවට වඩා ඉහළ නොවිය යුතුය.',
+  'settingsError.supabaseUrl': 'Supabase URL එක https:// වලින් ආරම්භ විය යුතුය.',
+  'settingsError.anonKey': 'Supabase anon යතුර අවශ්‍යයි.',
+  'settingsError.serverUrl': '"{server}" සේවාදායක URL එකක් නොවේ.',
+  'settingsError.serverInsecure': '{server} HTTPS භාවිත නොකරයි, එබැවින් එයට පුරනය වීමේ ටෝකන ලැබිය නොහැක.',
+  'settingsError.syncId': 'ඔබේ උපාංග එකම ඉතිහාසය බෙදා ගැනීමට සමමුහුර්ත ID එක අවශ්‍යයි.',
+  'settingsError.tableBucket': 'වගු සහ බාල්දි නම් අවශ්‍යයි.',
+};
@@ -0,0 +1,511 @@
+import type { Messages } from '@/lib/i18n';
+
+/**
+ * Tamil messages
+ */
+export const ta: Messages = {
+  // Home screen
+  'home.title': 'Plant Whisperer 🌱',
+  'home.subtitle': 'விரைவான நோய் கண்டறிதலுக்கும் Grad-CAM விளக்கத்திற்கும் ஓர் இலையின் புகைப்படத்தைப் பதிவேற்றவும்.',
+  'home.settings': 'அமைப்புகள்',
+  'home.server': 'சேவையகம்: {name}',
+  'home.serverMock': 'சேவையகம்: மாதிரி ({title})',
+  'home.takePhoto': 'புகைப்படம் எடுக்கவும்',
+  'home.takePhotoHint': 'கேமரா • இலை சட்டக வழிகாட்டியுடன்',
+  'home.pickImage': 'படத்தைத் தேர்ந்தெடுக்கவும்',
+  'home.pickImageHint': 'JPG / PNG • உங்கள் கேலரியிலிருந்து',
+  'home.batch': 'பல புகைப்படங்களை ஒரே நேரத்தில் கண்டறியவும்',
+  'home.followUpTitle': 'பின்தொடர் புகைப்படம்',
+  'home.followUpOf': '{date} அன்று கண்டறிந்த {title} உடன் ஒப்பிடப்படும்',
+  'home.followUpUnlink': 'இணைப்பை நீக்கு',
+  'home.signInTitle': 'இந்தப் புகைப்படத்தைக் கண்டறிய உள்நுழையவும்',
+  'home.signInMessage': 'உள்நுழைந்த பயனர்களுக்கு மட்டுமே சேவையகம் கண்டறிதலை இயக்கும். உங்கள் புகைப்படம் வைத்திருக்கப்பட்டு, நீங்கள் உள்நுழைந்தவுடன் அனுப்பப்படும்.',
+  'home.signIn': 'உள்நுழை',
+  'home.selectedImage': 'தேர்ந்தெடுத்த படம்',
+  'home.replace': 'மாற்றவும்',
+  'home.uploadSize': 'பதிவேற்ற அளவு: {size} ({width}×{height})',
+  'home.preparing': 'படத்தைத் தயார் செய்கிறது…',
+  'home.predicting': 'கண்டறிகிறது…',
+  'home.cancel': 'ரத்துசெய்',
+  'home.cancelHint': 'கணிப்பை நிறுத்தும்; புகைப்படம் வைத்திருக்கப்படும்',
+  'home.cancelled': 'கணிப்பு ரத்துசெய்யப்பட்டது',
+  'home.retry': 'மீண்டும் முயற்சி',
+  'home.retryHint': 'அதே புகைப்படத்தை மீண்டும் அனுப்பும்',
+  'home.dropWaiting': {
+    one: 'இடப்பட்ட மேலும் {count} புகைப்படம் காத்திருக்கிறது',
+    other: 'இடப்பட்ட மேலும் {count} புகைப்படங்கள் காத்திருக்கின்றன',
+  },
+  'home.dropContinue': 'தொடர்',
+  'home.dropClear': 'அழி',
+  'home.queuedFailed': 'பதிவேற்றம் தோல்வியடைந்தது. மேலே உள்ள வரிசையிலிருந்து மீண்டும் முயற்சிக்கவும்.',
+  'home.queuedUnreachable':
+    'சேவையகத்தை அணுக முடியவில்லை. படம் வரிசையில் உள்ளது, தானாகவே மீண்டும் முயற்சிக்கப்படும்.',
+  'home.queuedOffline': 'நீங்கள் இணைப்பில் இல்லை. மீண்டும் இணைந்ததும் வரிசையில் உள்ள படம் கண்டறியப்படும்.',
+  'home.result': 'முடிவு',
+  'home.confidence': 'நம்பகத்தன்மை',
+  'home.tip': 'குறிப்பு: நல்ல வெளிச்சத்தில் இலையின் தெளிவான அருகாமைப் படத்தைப் பயன்படுத்தவும்.',
+  'home.retake': 'மீண்டும் படம் எடுக்கவும்',
+  'home.tryAnother': 'வேறு இலையை முயற்சிக்கவும்',
+  'home.differential': 'பிற சாத்தியமான நோய்கள்',
+  'home.gradcamTitle': 'Grad-CAM விளக்கம்',
+  'home.heatmap': 'வெப்ப வரைபடம்',
+  'home.gradcamEmpty': 'Grad-CAM வெப்ப வரைபடத்தை உருவாக்க ஒரு படத்தைத் தேர்ந்தெடுக்கவும்.',
+  'home.gradcamHint': 'மாதிரியின் கணிப்பைப் பாதித்த பகுதிகளை Grad-CAM முன்னிலைப்படுத்துகிறது.',
+
+  // Screen reader text
+  'a11y.result': '{title}, {pct} சதவீத நம்பகத்தன்மை',
+  'a11y.selectedImage': 'தேர்ந்தெடுத்த இலைப் புகைப்படம்',
+  'a11y.gradcamImage': 'இலைப் புகைப்படத்தின் மேல் Grad-CAM வெப்ப வரைபடம். {description}',
+  'gradcam.concentrated': 'முன்னிலைப்படுத்திய பகுதிகள் இலையின் {area} பகுதியில் செறிந்துள்ளன.',
+  'gradcam.edge': 'முன்னிலைப்படுத்திய பகுதிகள் இலையின் {area} ஓரத்தில் செறிந்துள்ளன.',
+  'gradcam.spread': 'முன்னிலைப்படுத்திய பகுதிகள் இலையின் பெரும்பகுதியில் பரவியுள்ளன; {area} பகுதியில் வலுவாக உள்ளன.',
+  'gradcam.none': 'வெப்ப வரைபடத்தில் தனித்து தெரியும் பகுதிகள் இல்லை.',
+  'gradcam.unknown': 'முன்னிலைப்படுத்திய பகுதிகள் எங்கே உள்ளன என்று சேவையகம் விவரிக்கவில்லை.',
+  'area.upperLeft': 'மேல் இடது',
+  'area.top': 'மேல்',
+  'area.upperRight': 'மேல் வலது',
+  'area.left': 'இடது',
+  'area.center': 'நடு',
+  'area.right': 'வலது',
+  'area.lowerLeft': 'கீழ் இடது',
+  'area.bottom': 'கீழ்',
+  'area.lowerRight': 'கீழ் வலது',
+
+  // Home screen alerts
+  'alert.error': 'பிழை',
+  'alert.prepareFailed': 'பதிவேற்றத்திற்குப் படத்தைத் தயார் செய்ய முடியவில்லை.',
+  'alert.queueFailed': 'பின்னர் பதிவேற்றுவதற்குப் படத்தைச் சேமிக்க முடியவில்லை.',
+  'alert.permissionNeeded': 'அனுமதி தேவை',
+  'alert.photoPermission': 'புகைப்படங்களை அணுக அனுமதிக்கவும்.',
+  'alert.cameraPermission': 'இலையைப் படம் எடுக்க கேமரா அணுகலை அனுமதிக்கவும்.',
+  'alert.replaceTitle': 'படத்தை மாற்றவும்',
+  'alert.replaceMessage': 'புதிய இலைப் புகைப்படத்தைத் தேர்ந்தெடுக்கவும்.',
+  'alert.chooseFromGallery': 'கேலரியிலிருந்து தேர்ந்தெடுக்கவும்',
+  'alert.cancel': 'ரத்துசெய்',
+
+  // Confidence bands
+  'band.confident': 'நம்பகமானது',
+  'band.uncertain': 'உறுதியற்றது',
+  'band.reject': 'நம்பகமான கண்டறிதல் இல்லை',
+  'result.notAPlant': 'தாவர இலை அல்ல',
+  'advice.notAPlant': 'இது தாவர இலையாகத் தெரியவில்லை. ஒரே ஓர் இலையை அருகில் படம் எடுத்து மீண்டும் முயற்சிக்கவும்.',
+  'advice.reject':
+    'மாதிரியால் இந்த இலையை அடையாளம் காண முடியவில்லை. நல்ல வெளிச்சத்தில் மீண்டும் படம் எடுக்கவும் அல்லது வேறு இலையை முயற்சிக்கவும்.',
+  'advice.uncertain':
+    'மாதிரி உறுதியாக இல்லை. உறுதிப்படுத்த மீண்டும் படம் எடுக்கவும் அல்லது தெளிவான அறிகுறிகள் உள்ள வேறு இலையை முயற்சிக்கவும்.',
+
+  // Outbox
+  'outbox.title': 'அனுப்பும் வரிசை',
+  'outbox.offline': 'இணைப்பில் இல்லை',
+  'outbox.waiting': { one: '{count} காத்திருக்கிறது', other: '{count} காத்திருக்கின்றன' },
+  'outbox.diagnosed': { one: '{count} கண்டறியப்பட்டது', other: '{count} கண்டறியப்பட்டன' },
+  'outbox.tries': { one: 'இதுவரை {count} முயற்சி', other: 'இதுவரை {count} முயற்சிகள்' },
+  'outbox.show': 'காட்டு',
+  'outbox.hide': 'மறை',
+  'outbox.offlineHint': 'மீண்டும் இணைந்ததும் புகைப்படங்கள் தானாகவே கண்டறியப்படும்.',
+  'outbox.clearFinished': 'முடிந்தவற்றை அழி',
+  'outbox.view': 'பார்',
+  'outbox.retry': 'மீண்டும் முயற்சி',
+  'outbox.cancel': 'ரத்துசெய்',
+  'outbox.status.queued': 'பதிவேற்றக் காத்திருக்கிறது',
+  'outbox.status.uploading': 'பதிவேற்றுகிறது…',
+  'outbox.status.failed': 'தோல்வி',
+  'outbox.status.done': 'கண்டறியப்பட்டது',
+
+  // Web drop zone
+  'dropZone.title': 'இலைப் புகைப்படங்களை இங்கே இடவும்',
+  'dropZone.release': 'கண்டறிய விடுவிக்கவும்',
+  'dropZone.hint': 'பல புகைப்படங்கள் ஒன்றன்பின் ஒன்றாகக் கண்டறியப்படும். படத்தையோ அதன் முகவரியையோ ஒட்டவும் முடியும்.',
+  'dropZone.urlLabel': 'பட முகவரி',
+  'dropZone.urlPlaceholder': 'https://… பட முகவரி',
+  'dropZone.load': 'ஏற்று',
+  'dropZone.invalidUrl': 'http:// அல்லது https:// என்று தொடங்கும் முகவரியை உள்ளிடவும்.',
+  'dropZone.urlFailed': 'இந்த முகவரியிலிருந்து படத்தை ஏற்ற முடியவில்லை. அதைச் சேமித்து கோப்பை இங்கே இடவும்.',
+  'dropZone.notImage': 'படக் கோப்புகளை மட்டுமே கண்டறிய முடியும்.',
+
+  // API errors
+  'apiError.timeoutTitle': 'சேவையகம் தாமதம்',
+  'apiError.timeout': 'சேவையகம் பதிலளிக்க அதிக நேரம் எடுத்தது. வலுவான சிக்னலுடன் மீண்டும் முயலவும்.',
+  'apiError.networkTitle': 'பிணையப் பிழை',
+  'apiError.network':
+    'சேவையகத்தை அணுக முடியவில்லை. இணைய இணைப்பையும் அமைப்புகளில் உள்ள சேவையகச் சுயவிவரத்தையும் சரிபார்க்கவும்.',
+  'apiError.signInTitle': 'உள்நுழைவு தேவை',
+  'apiError.forbidden':
+    'இந்தச் சேவையகத்தைப் பயன்படுத்த உங்கள் கணக்குக்கு அனுமதி இல்லை. வேறு கணக்கில் உள்நுழையவும்.',
+  'apiError.sessionEnded': 'உங்கள் அமர்வு முடிந்துவிட்டது. தொடர மீண்டும் உள்நுழையவும்.',
+  'apiError.insecureTitle': 'பாதுகாப்பற்ற சேவையகம்',
+  'apiError.insecure':
+    'இந்தச் சேவையகத்துக்கு உள்நுழைவு தேவை, ஆனால் அது HTTPS ஐப் பயன்படுத்துவதில்லை, எனவே உங்கள் கணக்கை ' +
+    'அதனுடன் பயன்படுத்த முடியாது. அமைப்புகளில் HTTPS சேவையகத்தைத் தேர்ந்தெடுக்கவும்.',
+  'apiError.serverTitle': 'சேவையகப் பிழை',
+  'apiError.server': 'சேவையகத்தால் படத்தைச் செயலாக்க முடியவில்லை (HTTP {status}).',
+  'apiError.rejectedTitle': 'கோரிக்கை நிராகரிக்கப்பட்டது',
+  'apiError.rejected': 'சேவையகம் கோரிக்கையை நிராகரித்தது (HTTP {status}).',
+  'apiError.payloadTitle': 'எதிர்பாராத பதில்',
+  'apiError.payload': 'செயலிக்குப் புரியாத பதிலைச் சேவையகம் அனுப்பியது. அது வேறு API பதிப்பாக இருக்கலாம்.',
+  'apiError.unknownTitle': 'பிழை',
+  'apiError.unknown': 'சேவையகத்தைத் தொடர்புகொள்ளும்போது ஏதோ தவறு நடந்தது.',
+
+  // Photo quality check
+  'quality.title': 'கண்டறிவதற்கு முன் புகைப்படத்தைச் சரிபார்க்கவும்',
+  'quality.retake': 'மீண்டும் எடு',
+  'quality.sendAnyway': 'எப்படியும் கண்டறி',
+  'quality.summary': 'புகைப்படத் தரம்: கூர்மை {sharpness} • ஒளிர்வு {brightness}/255 • சட்டகத்தில் இலை {leaf}',
+  'quality.blur': 'புகைப்படம் மங்கலாகத் தெரிகிறது.',
+  'quality.blur.advice':
+    'தொலைபேசியை அசையாமல் பிடித்து, குவியப்படுத்த இலையைத் தட்டி, சுமார் 20–30 செ.மீ. தொலைவில் வைக்கவும்.',
+  'quality.underexposed': 'புகைப்படம் மிகவும் இருட்டாக உள்ளது.',
+  'quality.underexposed.advice':
+    'பகல் வெளிச்சத்துக்கோ திறந்த நிழலுக்கோ செல்லவும்; பிரகாசமான பின்னணிக்கு எதிராகப் படம் எடுக்க வேண்டாம்.',
+  'quality.overexposed': 'புகைப்படம் மிகவும் பிரகாசமாக அல்லது கண்கூச்சத்துடன் உள்ளது.',
+  'quality.overexposed.advice':
+    'இலையில் நேரடி வெயில் படுவதைத் தவிர்க்கவும்; உங்கள் உடலால் நிழலிடவும் அல்லது பிரதிபலிப்பு நீங்கச் சாய்க்கவும்.',
+  'quality.leaf-coverage': 'புகைப்படத்தில் இலை குறைவாகவே உள்ளது.',
+  'quality.leaf-coverage.advice':
+    'வெற்றுப் பின்னணியில், ஒரு இலை சட்டகத்தின் பெரும்பகுதியை நிரப்பும்படி அருகில் செல்லவும்.',
+
+  // Diagnosis feedback
+  'feedback.question': 'இது சரியா?',
+  'feedback.yes': 'ஆம்',
+  'feedback.no': 'இல்லை',
+  'feedback.confirmed': 'இந்தக் கண்டறிதலை நீங்கள் உறுதிப்படுத்தினீர்கள்',
+  'feedback.corrected': '{label} எனத் திருத்தப்பட்டது',
+  'feedback.sent': 'குழுவுக்கு அனுப்பப்பட்டது',
+  'feedback.pending': 'இணைப்பில் இருக்கும்போது அனுப்பப்படும்',
+  'feedback.rejected': 'இந்தச் சாதனத்தில் வைக்கப்பட்டது; சேவையகம் அதை ஏற்கவில்லை',
+  'feedback.change': 'மாற்று',
+  'feedback.pickerTitle': 'சரியான கண்டறிதல் எது?',
+  'feedback.search': 'லேபிள்களைத் தேடவும் அல்லது நீங்களே தட்டச்சிடவும்',
+  'feedback.useTyped': '“{label}” பயன்படுத்து',
+  'feedback.notInList': 'பட்டியலில் இல்லை',
+  'feedback.wasCorrect': 'அது சரியாக இருந்தது',
+  'feedback.cancel': 'ரத்துசெய்',
+
+  // Grad-CAM viewer
+  'gradcamViewer.overlay': 'மேலடுக்கு',
+  'gradcamViewer.sideBySide': 'அருகருகே',
+  'gradcamViewer.swipe': 'ஸ்வைப்',
+  'gradcamViewer.opacity': 'வெப்ப வரைபட ஒளிபுகாமை',
+  'gradcamViewer.hint':
+    'பெரிதாக்க இரு விரல்களால் விரிக்கவும், நகர்த்த இழுக்கவும், மீட்டமைக்க இருமுறை தட்டவும்.',
+
+  // Leaf camera
+  'camera.errorTitle': 'கேமரா பிழை',
+  'camera.error': 'புகைப்படம் எடுக்க முடியவில்லை. மீண்டும் முயலவும்.',
+  'camera.tipTitle': 'ஒரு இலையை வெளிக்கோட்டுக்குள் பொருத்தவும்',
+  'camera.tipDistance': '• தொலைபேசியை இலையிலிருந்து 15–25 செ.மீ. தொலைவில் பிடிக்கவும்',
+  'camera.tipLight':
+    '• மென்மையான பகல் ஒளியைப் பயன்படுத்தவும்; கடும் நிழல்களையும் ஃபிளாஷ் கண்கூச்சத்தையும் தவிர்க்கவும்',
+  'camera.tipFocus': '• பாதிக்கப்பட்ட பகுதியைக் குவியத்தில் வைத்துச் சட்டகத்தை நிரப்பவும்',
+  'camera.cancel': 'ரத்துசெய்',
+  'camera.shutter': 'புகைப்படம் எடு',
+
+  // Knowledge base link
+  'kbLink.title': 'அடுத்து என்ன செய்வது',
+  'kbLink.missingTitle': 'இந்த முடிவுக்கு இன்னும் சிகிச்சை வழிகாட்டல் இல்லை',
+  'kbLink.missing': 'பொது ஆலோசனையையும் யாரைத் தொடர்புகொள்வது என்பதையும் பார்க்கவும்.',
+  'pathogen.fungal': 'பூஞ்சை',
+  'pathogen.bacterial': 'பாக்டீரியா',
+  'pathogen.viral': 'வைரஸ்',
+  'pathogen.oomycete': 'நீர்ப் பூஞ்சை (ஊமைசீட்)',
+  'pathogen.pest': 'பூச்சி',
+  'pathogen.none': 'இல்லை',
+
+  // Plant attachment
+  'attach.plant': 'தாவரம்: {name}',
+  'attach.none': 'ஒரு தாவரத்துடன் இணை',
+  'attach.change': 'மாற்று',
+  'attach.choose': 'தேர்ந்தெடு',
+  'attach.title': 'தாவரத்துடன் இணை',
+  'attach.empty': 'இன்னும் தாவரச் சுயவிவரங்கள் இல்லை.',
+  'attach.newPlant': 'புதிய தாவரம்…',
+  'attach.detach': 'பிரி',
+  'attach.cancel': 'ரத்துசெய்',
+
+  // Report sharing
+  'share.title': 'அறிக்கையைப் பகிர்',
+  'share.as': 'அறிக்கையை {format} ஆகப் பகிர்',
+  'share.failed': 'அறிக்கையைப் பகிர முடியவில்லை',
+
+  // Treatment plans
+  'planLink.title': 'சிகிச்சையைத் திட்டமிடு',
+  'planLink.upcoming': {
+    one: 'சிகிச்சைத் திட்டம் • வரவிருக்கும் {count} நினைவூட்டல்',
+    other: 'சிகிச்சைத் திட்டம் • வரவிருக்கும் {count} நினைவூட்டல்கள்',
+  },
+  'planLink.hint': 'தெளிக்க அல்லது கத்தரிக்க நினைவூட்டல்கள், ஒப்பிட ஒரு பின்தொடர் புகைப்படம்.',
+  'planLink.hintPlanned': 'மேலும் செயல்களைச் சேர்க்கவும், அல்லது நினைவூட்டல்கள் தாவலில் பார்க்கவும்.',
+  'plan.title': 'சிகிச்சைத் திட்டம்',
+  'plan.missing': 'இந்த நோயறிதல் இனி இல்லை.',
+  'plan.recommended': 'பரிந்துரைக்கப்பட்ட சிகிச்சை',
+  'plan.firstTreatment': 'முதல் சிகிச்சை',
+  'plan.today': 'இன்று',
+  'plan.tomorrow': 'நாளை',
+  'plan.inTwoDays': '2 நாட்களில்',
+  'plan.time': 'நினைவூட்டல் நேரம்',
+  'plan.action': 'செயல் {number}',
+  'plan.removeAction': 'செயல் {number} ஐ நீக்கு',
+  'plan.remove': 'நீக்கு',
+  'plan.every': 'ஒவ்வொரு',
+  'plan.everyDays': { one: 'நாளும்', other: '{count} நாட்களுக்கும்' },
+  'plan.times': 'தடவைகள்',
+  'plan.notesOther': 'என்ன செய்ய வேண்டும்',
+  'plan.notes': 'பொருள், அளவு… (விருப்பத்தேர்வு)',
+  'plan.addAction': 'செயலைச் சேர்',
+  'plan.followUp': 'பின்தொடர் புகைப்படம்',
+  'plan.followUpHint':
+    'அதே இலையை மீண்டும் புகைப்படம் எடுக்க ஒரு நினைவூட்டல். முன்னும் பின்னும் ஒப்பிட, இந்த ' +
+    'நோயறிதலுடன் இணைக்கப்பட்ட கேமராவை அது திறக்கும்.',
+  'plan.after': 'பிறகு',
+  'plan.days': { one: '{count} நாள்', other: '{count} நாட்கள்' },
+  'plan.save': 'திட்டத்தைச் சேமி',
+  'plan.checkTitle': 'திட்டத்தைச் சரிபார்க்கவும்',
+  'plan.notificationsOffTitle': 'அறிவிப்புகள் முடக்கப்பட்டுள்ளன',
+  'plan.notificationsOff':
+    'திட்டம் நினைவூட்டல்கள் தாவலில் உள்ளது, ஆனால் உங்களுக்கு அறிவிக்கப்படாது. ' +
+    'கணினி அமைப்புகளில் அறிவிப்புகளை அனுமதிக்கவும்.',
+  'plan.invalid.empty': 'ஒரு சிகிச்சைச் செயலையோ பின்தொடர் புகைப்படத்தையோ சேர்க்கவும்.',
+  'plan.invalid.past': 'முதல் நினைவூட்டல் நேரம் கடந்துவிட்டது. பிந்தைய நாளையோ நேரத்தையோ தேர்ந்தெடுக்கவும்.',
+  'plan.invalid.other': '"மற்றவை" செயலை அதன் குறிப்புகளில் விவரிக்கவும்.',
+  'treatmentAction.spray': 'தெளி',
+  'treatmentAction.prune': 'கத்தரி',
+  'treatmentAction.remove-leaves': 'பாதிக்கப்பட்ட இலைகளை அகற்று',
+  'treatmentAction.fertilize': 'உரமிடு',
+  'treatmentAction.other': 'மற்றவை',
+
+  // Reminder notifications
+  'reminder.title': '{action}: {disease}',
+  'reminder.followUpTitle': 'மீண்டும் புகைப்படம் எடு: {disease}',
+  'reminder.followUpBody': 'மூல நோயறிதலுடன் ஒப்பிட இலையின் புதிய புகைப்படத்தை எடுக்கவும்.',
+  'reminder.progress': 'சிகிச்சை {count} இல் {index}',
+  'reminder.due': 'இன்று சிகிச்சை செய்ய வேண்டும்.',
+  'reminder.channel': 'சிகிச்சை நினைவூட்டல்கள்',
+
+  // Sign-in
+  'signIn.insecureTitle': 'உள்நுழைய HTTPS தேவை',
+  'signIn.insecure':
+    '{server} HTTPS ஐப் பயன்படுத்துவதில்லை, எனவே உங்கள் கடவுச்சொல்லும் உள்நுழைவு டோக்கன்களும் ' +
+    'மறையாக்கமின்றி அனுப்பப்படும். சேவையக நிர்வாகி HTTPS ஐ இயக்கும் வரை உள்நுழைவு முடக்கப்பட்டுள்ளது.',
+  'signIn.notSetUpTitle': 'கணக்குச் சேவை அமைக்கப்படவில்லை',
+  'signIn.notSetUp':
+    'கணக்குகள் எங்கே உள்ளன என்பதைத் தேர்ந்தெடுத்து, அமைப்புகளில் கணக்கு என்பதன் கீழ் விவரங்களை உள்ளிடவும்.',
+  'signIn.openSettings': 'அமைப்புகளைத் திற',
+  'signIn.signedIn': 'உள்நுழைந்துள்ளீர்கள்',
+  'signIn.continue': 'தொடர்',
+  'signIn.signOut': 'வெளியேறு',
+  'signIn.switchAccount': 'கணக்கை மாற்று',
+  'signIn.title': 'உள்நுழை',
+  'signIn.intro':
+    '{server} இல் இயங்கும் நோயறிதல்களுக்குக் கணக்கு தேவை. ' +
+    'நீங்கள் உள்நுழையும்போது எடுத்த புகைப்படங்கள் வைக்கப்படும்.',
+  'signIn.password': 'கடவுச்சொல்',
+  'signIn.emailLink': 'மின்னஞ்சல் இணைப்பு',
+  'signIn.email': 'மின்னஞ்சல்',
+  'signIn.invalidEmail': 'உங்கள் கணக்கின் மின்னஞ்சல் முகவரியை உள்ளிடவும்.',
+  'signIn.missingPassword': 'உங்கள் கடவுச்சொல்லை உள்ளிடவும்.',
+  'signIn.linkSent': '{email} ஐச் சரிபார்த்து, உள்நுழைவை முடிக்க இந்தச் சாதனத்தில் இணைப்பைத் திறக்கவும்.',
+  'signIn.submit': 'உள்நுழை',
+  'signIn.sendLink': 'உள்நுழைவு இணைப்பை எனக்கு மின்னஞ்சல் செய்',
+  'signIn.sendAnotherLink': 'மற்றொரு இணைப்பை அனுப்பு',
+  'signIn.noToken': 'இந்த இணைப்பில் உள்நுழைவு டோக்கன் இல்லை. புதிய ஒன்றைக் கோரவும்.',
+  'signIn.back': 'உள்நுழைவுக்குத் திரும்பு',
+  'authError.insecure': 'இந்தக் கணக்குச் சேவை HTTPS ஐப் பயன்படுத்துவதில்லை, எனவே உள்நுழைவு முடக்கப்பட்டுள்ளது.',
+  'authError.tooManyAttempts': 'அதிகமான முயற்சிகள். ஒரு நிமிடம் காத்திருந்து மீண்டும் முயலவும்.',
+  'authError.wrongCredentials': 'மின்னஞ்சல் அல்லது கடவுச்சொல் சரியில்லை.',
+  'authError.unreachable': 'கணக்குச் சேவையை அடைய முடியவில்லை. உங்கள் இணைப்பைச் சரிபார்க்கவும்.',
+
+  // Batch diagnosis
+  'batch.title': 'பல புகைப்படக் கண்டறிதல்',
+  'batch.intro':
+    'அதிகபட்சம் {limit} இலைப் புகைப்படங்களைத் தேர்ந்தெடுக்கவும். அவை ஒரே நேரத்தில் {concurrency} ஆகக் ' +
+    'கண்டறியப்பட்டு வரலாற்றில் சேமிக்கப்படும். சேவையகம்: {server}',
+  'batch.pick': 'புகைப்படங்களைத் தேர்ந்தெடு',
+  'batch.pickOther': 'வேறு புகைப்படங்களைத் தேர்ந்தெடு',
+  'batch.stop': 'நிறுத்து',
+  'batch.diagnose': 'கண்டறி',
+  'batch.diagnoseCount': '{count} ஐக் கண்டறி',
+  'batch.processed': '{count} இல் {done} செயலாக்கப்பட்டன',
+  'batch.summary': 'சுருக்கம்',
+  'batch.totals': '{diagnosed} கண்டறியப்பட்டன • {queued} இணைப்பின்றி வரிசையில் • {failed} தோல்வி',
+  'batch.meanConfidence': 'சராசரி நம்பகத்தன்மை: {pct}',
+  'batch.uncertain': 'உறுதியற்றவை அல்லது நிராகரிக்கப்பட்டவை ({pct} க்குக் கீழ்): {count}',
+  'batch.retryFailed': 'தோல்வியடைந்த படங்களை மீண்டும் முயற்சி',
+  'batch.status.waiting': 'காத்திருக்கிறது',
+  'batch.status.preparing': 'தயாராகிறது…',
+  'batch.status.uploading': 'கண்டறிகிறது…',
+  'batch.status.done': 'முடிந்தது',
+  'batch.status.queued': 'இணைப்பின்றி வரிசையில்',
+  'batch.status.error': 'தோல்வி',
+
+  // Navigation
+  'nav.home': 'முகப்பு',
+  'nav.history': 'வரலாறு',
+  'nav.plants': 'செடிகள்',
+  'nav.reminders': 'நினைவூட்டல்கள்',
+  'nav.modal': 'சாளரம்',
+  'nav.settings': 'அமைப்புகள்',
+  'nav.batch': 'தொகுப்புக் கண்டறிதல்',
+  'nav.diagnosis': 'கண்டறிதல்',
+  'nav.diseaseInfo': 'நோய்த் தகவல்',
+  'nav.plant': 'செடி',
+  'nav.treatmentPlan': 'சிகிச்சைத் திட்டம்',
+  'nav.account': 'கணக்கு',
+  'nav.signingIn': 'உள்நுழைகிறது',
+
+  // History
+  'history.title': 'வரலாறு',
+  'history.syncing': 'ஒத்திசைக்கிறது…',
+  'history.syncNow': 'இப்போது ஒத்திசை',
+  'history.clearAll': 'அனைத்தையும் அழி',
+  'history.search': 'கண்டறிதல்களைத் தேடு',
+  'history.allDiseases': 'அனைத்தும்',
+  'history.loading': 'ஏற்றுகிறது…',
+  'history.empty': 'இன்னும் கண்டறிதல்கள் இல்லை. முகப்புத் தாவலின் முடிவுகள் தானாகவே இங்கு சேமிக்கப்படும்.',
+  'history.noMatches': 'உங்கள் தேடலுக்குப் பொருந்தும் கண்டறிதல்கள் இல்லை.',
+  'history.confidence': '{pct} நம்பகத்தன்மை',
+  'history.noConfidence': 'நம்பகத்தன்மை —',
+  'history.deleteTitle': 'கண்டறிதலை நீக்கு',
+  'history.deleteMessage': '"{label}" வரலாற்றிலிருந்து நீக்கவா?',
+  'history.clearTitle': 'வரலாற்றை அழி',
+  'history.clearMessage': 'சேமித்த அனைத்து கண்டறிதல்களையும் அவற்றின் படங்களையும் நீக்கவா?',
+  'history.cancel': 'ரத்துசெய்',
+  'history.delete': 'நீக்கு',
+  'history.sync.pending': 'ஒத்திசைக்கக் காத்திருக்கிறது',
+  'history.sync.syncing': 'ஒத்திசைக்கிறது…',
+  'history.sync.synced': 'ஒத்திசைக்கப்பட்டது',
+  'history.sync.error': 'ஒத்திசைவு தோல்வி',
+
+  // Diagnosis detail
+  'diagnosis.missing': 'இந்தக் கண்டறிதல் இனி இல்லை.',
+  'diagnosis.loading': 'ஏற்றுகிறது…',
+  'diagnosis.deleteTitle': 'கண்டறிதலை நீக்கு',
+  'diagnosis.deleteMessage': 'இந்தக் கண்டறிதலையும் அதன் படங்களையும் நீக்கவா?',
+  'diagnosis.cancel': 'ரத்துசெய்',
+  'diagnosis.delete': 'நீக்கு',
+  'diagnosis.notes': 'குறிப்புகள்',
+  'diagnosis.notesPlaceholder': 'வயல் அவதானிப்புகள், செய்த சிகிச்சை, வழங்கிய ஆலோசனை…',
+  'diagnosis.saveNotes': 'குறிப்புகளைச் சேமி',
+  'diagnosis.photo': 'இலைப் புகைப்படம்',
+  'diagnosis.gradcam': 'Grad-CAM',
+  'diagnosis.noGradcam': 'இந்தக் கண்டறிதலுக்கு வெப்ப வரைபடம் சேமிக்கப்படவில்லை.',
+  'diagnosis.deleteButton': 'கண்டறிதலை நீக்கு',
+
+  // Before and after
+  'beforeAfter.title': 'முன்னும் பின்னும்',
+  'beforeAfter.before': 'முன்',
+  'beforeAfter.after': 'பின்',
+  'beforeAfter.improving': 'முன்னேறுகிறது',
+  'beforeAfter.worsening': 'மோசமடைகிறது',
+  'beforeAfter.stable': 'தெளிவான மாற்றம் இல்லை',
+  'beforeAfter.unknown': 'ஒப்பிட முடியாது',
+
+  // Reminders calendar
+  'reminders.title': 'நினைவூட்டல்கள்',
+  'reminders.today': 'இன்று',
+  'reminders.previousMonth': 'முந்தைய மாதம்',
+  'reminders.nextMonth': 'அடுத்த மாதம்',
+  'reminders.weekday.mon': 'திங்',
+  'reminders.weekday.tue': 'செவ்',
+  'reminders.weekday.wed': 'புத',
+  'reminders.weekday.thu': 'வியா',
+  'reminders.weekday.fri': 'வெள்',
+  'reminders.weekday.sat': 'சனி',
+  'reminders.weekday.sun': 'ஞாயி',
+  'reminders.count': { one: '{count} நினைவூட்டல்', other: '{count} நினைவூட்டல்கள்' },
+  'reminders.loading': 'ஏற்றுகிறது…',
+  'reminders.empty':
+    'இன்னும் நினைவூட்டல்கள் இல்லை. இங்கு நினைவூட்டல்களைப் பெற, கண்டறிதல் முடிவிலிருந்து சிகிச்சையைத் ' +
+    'திட்டமிடுங்கள்.',
+  'reminders.nothingPlanned': 'இந்த நாளுக்கு எதுவும் திட்டமிடப்படவில்லை.',
+  'reminders.next': 'அடுத்தது: {title} • {date}',
+  'reminders.deleteTitle': 'நினைவூட்டலை நீக்கு',
+  'reminders.deleteMessage': '"{title}"க்கான அனைத்து நினைவூட்டல்களையும் நீக்கவா?',
+  'reminders.cancel': 'ரத்துசெய்',
+  'reminders.delete': 'நீக்கு',
+  'reminders.progress': '{count}இல் {index}',
+  'reminders.diagnosisOf': '{date} அன்றைய கண்டறிதல்',
+  'reminders.diagnosisDeleted': 'கண்டறிதல் நீக்கப்பட்டது.',
+  'reminders.takePhoto': 'படம் எடு',
+
+  // Plants
+  'plants.title': 'செடிகள்',
+  'plants.add': 'செடியைச் சேர்',
+  'plants.empty':
+    'இன்னும் செடிகள் இல்லை. ஒரு செடியையோ பாத்தியையோ சேர்த்து, முடிவு அட்டையிலிருந்து அதற்குக் ' +
+    'கண்டறிதல்களை இணைக்கவும்.',
+  'plants.loading': 'ஏற்றுகிறது…',
+  'plants.diagnoses': { one: '{count} கண்டறிதல்', other: '{count} கண்டறிதல்கள்' },
+  'plants.latest': '{diagnoses} • கடைசி: {label}',
+  'plants.noDiagnoses': 'இன்னும் கண்டறிதல்கள் இல்லை',
+  'plant.missing': 'இந்தச் செடி இனி இல்லை.',
+  'plant.loading': 'ஏற்றுகிறது…',
+  'plant.deleteTitle': 'செடியை நீக்கு',
+  'plant.deleteMessage': '"{name}" நீக்கவா? அதன் கண்டறிதல்கள் வரலாற்றில் இருக்கும்.',
+  'plant.cancel': 'ரத்துசெய்',
+  'plant.delete': 'நீக்கு',
+  'plant.edit': 'திருத்து',
+  'plant.notes': 'குறிப்புகள்',
+  'plant.healthTrend': 'ஆரோக்கியப் போக்கு',
+  'plant.timeline': 'காலவரிசை',
+  'plant.timelineEmpty':
+    'முடிவு அட்டையிலிருந்தோ வரலாற்றுப் பதிவிலிருந்தோ இந்தச் செடிக்குக் கண்டறிதல்களை இணைக்கவும்.',
+  'plant.deleteButton': 'செடியை நீக்கு',
+  'plantEdit.titleEdit': 'செடியைத் திருத்து',
+  'plantEdit.titleNew': 'புதிய செடி',
+  'plantEdit.addPhoto': 'படத்தைச் சேர்',
+  'plantEdit.name': 'பெயர்',
+  'plantEdit.namePlaceholder': 'எ.கா. தக்காளி வரிசை 3, செடி 12',
+  'plantEdit.species': 'இனம்',
+  'plantEdit.speciesPlaceholder': 'எ.கா. தக்காளி',
+  'plantEdit.location': 'இடம் அல்லது பாத்தி',
+  'plantEdit.locationPlaceholder': 'எ.கா. பசுமைக்குடில் B, பாத்தி 4',
+  'plantEdit.notes': 'குறிப்புகள்',
+  'plantEdit.notesPlaceholder': 'வகை, நடவு தேதி, சிகிச்சைகள்…',
+  'plantEdit.save': 'சேமி',
+  'plantEdit.saveAndAttach': 'சேமித்துக் கண்டறிதலை இணை',
+  'plantEdit.checkTitle': 'செடியைச் சரிபார்க்கவும்',
+  'plantEdit.photoFailed': 'இந்தப் படத்தைப் பயன்படுத்த முடியவில்லை.',
+  'plantEdit.invalid.name': 'பெயர் தேவை.',
+
+  // Plant health trend
+  'trend.improving': 'முன்னேறுகிறது',
+  'trend.worsening': 'மோசமடைகிறது',
+  'trend.stable': 'நிலையானது',
+  'trend.unknown': 'இன்னும் போதுமான கண்டறிதல்கள் இல்லை',
+  'trend.hint': 'ஆரோக்கிய மதிப்பெண்: இலை ஆரோக்கியமானது என்ற நம்பகத்தன்மை (100 = ஆரோக்கியமானது).',
+
+  // Disease info
+  'disease.missingTitle': 'இன்னும் வழிகாட்டுதல் இல்லை',
+  'disease.missing':
+    'அறிவுத் தளத்தில் (பதிப்பு {version}) “{label}”க்கான பதிவு இல்லை. பாதிக்கப்பட்ட செடியைத் தனிமைப்படுத்தி, ' +
+    'கடுமையாகச் சேதமடைந்த இலைகளை அகற்றி, எந்தச் சிகிச்சையையும் செய்வதற்கு முன் கண்டறிதலை உறுதிப்படுத்த ' +
+    'உங்கள் உள்ளூர் விவசாய விரிவாக்க அலுவலரிடம் கேளுங்கள்.',
+  'disease.thisLabel': 'இந்த லேபிள்',
+  'disease.meta': 'பயிர்: {crop} • காரணம்: {cause}',
+  'disease.symptoms': 'அறிகுறிகள்',
+  'disease.organic': 'இயற்கைச் சிகிச்சை',
+  'disease.chemical': 'இரசாயனச் சிகிச்சை',
+  'disease.chemicalNote': 'தயாரிப்பு லேபிள், மீள்நுழைவு இடைவெளிகள் மற்றும் உள்ளூர் விதிமுறைகளைப் பின்பற்றவும்.',
+  'disease.prevention': 'தடுப்பு',
+  'disease.version': 'அறிவுத் தளப் பதிப்பு {version}',
+  'disease.versionUpdated': 'அறிவுத் தளப் பதிப்பு {version} • {date} அன்று புதுப்பிக்கப்பட்டது',
+
+  // Settings validation
+  'settingsError.name': 'பெயர் தேவை.',
+  'settingsError.baseUrl':
+    'அடிப்படை URL http:// அல்லது https:// உடன் தொடங்கி ஒரு ஹோஸ்ட்டைக் கொண்டிருக்க வேண்டும்.',
+  'settingsError.uploadSize': 'பதிவேற்ற அளவு {min} முதல் {max} வரையிலான முழு எண் பிக்சல்களாக இருக்க வேண்டும்.',
+  'settingsError.qualityNegative': 'வரம்புகள் எதிர்மறையற்ற எண்களாக இருக்க வேண்டும்.',
+  'settingsError.brightnessOrder': 'குறைந்தபட்ச ஒளிர்வு அதிகபட்ச ஒளிர்வை விடக் குறைவாக இருக்க வேண்டும்.',
+  'settingsError.brightnessRange': 'ஒளிர்வு 0 முதல் 255 வரை அளவிடப்படுகிறது.',
+  'settingsError.fractions': 'பின்னங்கள் 0க்கும் 1க்கும் இடையில் இருக்க வேண்டும்.',
+  'settingsError.confidenceRange': 'வரம்புகள் 0க்கும் 100க்கும் இடையில் இருக்க வேண்டும்.',
+  'settingsError.confidenceOrder': 'நிராகரிப்பு வரம்பு நம்பக வரம்பை விட அதிகமாக இருக்கக்கூடாது.',
+  'settingsError.supabaseUrl': 'Supabase URL https:// உடன் தொடங்க வேண்டும்.',
+  'settingsError.anonKey': 'Supabase anon விசை தேவை.',
+  'settingsError.serverUrl': '"{server}" ஒரு சேவையக URL அல்ல.',
+  'settingsError.serverInsecure':
+    '{server} HTTPS பயன்படுத்தவில்லை, எனவே அது உள்நுழைவு டோக்கன்களைப் பெற முடியாது.',
+  'settingsError.syncId': 'உங்கள் சாதனங்கள் ஒரே வரலாற்றைப் பகிர ஒத்திசைவு ID தேவை.',
+  'settingsError.tableBucket': 'அட்டவணை மற்றும் பக்கெட் பெயர்கள் தேவை.',
+};
@@ -0,0 +1,25 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import type { Locale } from '@/lib/i18n';
+
+/**
+ * App language chosen in Settings, stored on the device. "system" follows the device languages.
+ */
+
+export type LocalePreference = 'system' | Locale;
+
+const PREFERENCE_KEY = 'localePreference.v1';
+
+export async function loadLocalePreference(): Promise<LocalePreference> {
+  try {
+    const raw = await AsyncStorage.getItem(PREFERENCE_KEY);
+    return raw === 'en' || raw === 'si' || raw === 'ta' ? raw : 'system';
+  } catch (e: any) {
+    console.log('Could not load language preference:', e?.message || e);
+    return 'system';
+  }
+}
+
+export async function saveLocalePreference(preference: LocalePreference): Promise<void> {
+  await AsyncStorage.setItem(PREFERENCE_KEY, preference);
+}
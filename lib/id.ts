@@ -0,0 +1,8 @@
+import { randomUUID } from 'expo-crypto';
+
+/**
+ * Random identifier for locally created records (RFC 4122 v4 UUID)
+ */
+export function createId(): string {
+  return randomUUID();
+}
@@ -0,0 +1,270 @@
+import { File, Paths } from 'expo-file-system';
+import {
+  ImageManipulator,
+  SaveFormat,
+  type ImageManipulatorContext,
+  type ImageRef,
+} from 'expo-image-manipulator';
+
+import { decodeJpegBase64 } from '@/lib/image/pixels';
+import { encodePng } from '@/lib/png';
+
+/**
+ * Client-side preprocessing applied to every leaf photo before upload.
+ * Rendering through expo-image-manipulator bakes the EXIF orientation into the pixels,
+ * so the server always receives an upright image without orientation metadata.
+ */
+
+export type PreprocessOptions = {
+  /** Longest side of the uploaded image, in pixels */
+  maxDimension: number;
+  /** Width / height of the model input (1 for square classifiers) */
+  aspectRatio: number;
+  /**
+   * How to reach `aspectRatio`: `crop` cuts the center region, `letterbox` pads with black bars.
+   */
+  fit: 'crop' | 'letterbox';
+  /** Target size of the encoded JPEG, in bytes */
+  maxBytes: number;
+  /** First JPEG quality tried when encoding */
+  initialQuality: number;
+  /** Lowest JPEG quality accepted before the image is shrunk further */
+  minQuality: number;
+};
+
+export type PreprocessSource = {
+  uri: string;
+  /** Size of the original file if the picker reported it */
+  fileSize?: number | null;
+};
+
+/**
+ * Whether a source is an object URL (photos dropped, pasted or loaded by address on web)
+ */
+export const isObjectUrl = (uri: string) => uri.startsWith('blob:');
+
+/**
+ * Free the file behind an object URL source once it has been preprocessed; other URIs are left alone
+ */
+export function releaseObjectUrl(uri: string) {
+  if (isObjectUrl(uri)) URL.revokeObjectURL(uri);
+}
+
+export type PreprocessResult = {
+  uri: string;
+  base64: string;
+  width: number;
+  height: number;
+  /** JPEG quality used for the final encode */
+  quality: number;
+  originalBytes: number | null;
+  processedBytes: number;
+};
+
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = {
+  maxDimension: 1024,
+  aspectRatio: 1,
+  fit: 'crop',
+  maxBytes: 300 * 1024,
+  initialQuality: 0.85,
+  minQuality: 0.4,
+};
+
+// Quality is lowered in these steps; once minQuality is reached the image is scaled by SHRINK_FACTOR
+const QUALITY_STEP = 0.15;
+const SHRINK_FACTOR = 0.8;
+const MIN_DIMENSION = 224;
+
+/**
+ * Decoded byte length of a base64 string (without data URI prefix)
+ */
+export function base64ByteLength(base64: string): number {
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+  return Math.floor((base64.length * 3) / 4) - padding;
+}
+
+/**
+ * Human readable byte count, e.g. "3.2 MB"
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Best-effort size of the original image, used only for reporting savings
+ */
+function readOriginalBytes(source: PreprocessSource): number | null {
+  if (typeof source.fileSize === 'number' && source.fileSize > 0) return source.fileSize;
+
+  // Web pickers and cameras return data URIs instead of files
+  const dataUriMatch = /^data:[^;]+;base64,(.*)$/.exec(source.uri);
+  if (dataUriMatch) return base64ByteLength(dataUriMatch[1]);
+
+  try {
+    const size = new File(source.uri).size;
+    return size > 0 ? size : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Apply the crop or letterbox step so the image matches the model aspect ratio.
+ * Only the web manipulator can pad; phones letterbox with letterboxOnDevice instead.
+ */
+function fitToAspect(
+  context: ImageManipulatorContext,
+  width: number,
+  height: number,
+  options: PreprocessOptions
+): { width: number; height: number } {
+  const current = width / height;
+  if (Math.abs(current - options.aspectRatio) < 0.01) return { width, height };
+
+  if (options.fit === 'crop') {
+    // Largest centered rectangle with the target aspect ratio
+    const cropWidth = current > options.aspectRatio ? Math.round(height * options.aspectRatio) : width;
+    const cropHeight = current > options.aspectRatio ? height : Math.round(width / options.aspectRatio);
+    context.crop({
+      originX: Math.round((width - cropWidth) / 2),
+      originY: Math.round((height - cropHeight) / 2),
+      width: cropWidth,
+      height: cropHeight,
+    });
+    return { width: cropWidth, height: cropHeight };
+  }
+
+  // Smallest canvas with the target aspect ratio that contains the whole image
+  const boxWidth = current > options.aspectRatio ? width : Math.round(height * options.aspectRatio);
+  const boxHeight = current > options.aspectRatio ? Math.round(width / options.aspectRatio) : height;
+  context.extent({
+    backgroundColor: '#000000',
+    originX: -Math.round((boxWidth - width) / 2),
+    originY: -Math.round((boxHeight - height) / 2),
+    width: boxWidth,
+    height: boxHeight,
+  });
+  return { width: boxWidth, height: boxHeight };
+}
+
+/**
+ * Letterbox on iOS and Android: the photo is scaled to upload size, drawn centered on a black
+ * canvas in JS and rendered back from a temporary PNG (lossless, so the upload JPEG stays the
+ * only lossy encode)
+ */
+async function letterboxOnDevice(
+  upright: ImageRef,
+  options: PreprocessOptions
+): Promise<{ image: ImageRef; width: number; height: number }> {
+  const { width, height } = upright;
+  const current = width / height;
+  if (Math.abs(current - options.aspectRatio) < 0.01) return { image: upright, width, height };
+
+  // Smallest box with the target aspect ratio that contains the whole image, at upload size
+  const boxWidth = current > options.aspectRatio ? width : height * options.aspectRatio;
+  const boxHeight = current > options.aspectRatio ? width / options.aspectRatio : height;
+  const scale = Math.min(1, options.maxDimension / Math.max(boxWidth, boxHeight));
+
+  const resized = await ImageManipulator.manipulate(upright)
+    .resize({ width: Math.round(width * scale), height: Math.round(height * scale) })
+    .renderAsync();
+  const saved = await resized.saveAsync({ base64: true, compress: 1, format: SaveFormat.JPEG });
+  if (!saved.base64) throw new Error('Image manipulator did not return base64 data');
+  const photo = decodeJpegBase64(saved.base64);
+
+  const canvasWidth = Math.max(Math.round(boxWidth * scale), photo.width);
+  const canvasHeight = Math.max(Math.round(boxHeight * scale), photo.height);
+  const canvas = new Uint8Array(canvasWidth * canvasHeight * 4);
+  for (let i = 3; i < canvas.length; i += 4) canvas[i] = 255;
+
+  const left = Math.floor((canvasWidth - photo.width) / 2);
+  const top = Math.floor((canvasHeight - photo.height) / 2);
+  const rowBytes = photo.width * 4;
+  for (let y = 0; y < photo.height; y++) {
+    canvas.set(photo.data.subarray(y * rowBytes, (y + 1) * rowBytes), ((top + y) * canvasWidth + left) * 4);
+  }
+
+  const file = new File(Paths.cache, `letterbox-${Date.now()}.png`);
+  file.write(encodePng(canvasWidth, canvasHeight, canvas));
+  try {
+    const image = await ImageManipulator.manipulate(file.uri).renderAsync();
+    return { image, width: canvasWidth, height: canvasHeight };
+  } finally {
+    file.delete();
+  }
+}
+
+/**
+ * Normalize orientation, fit to the model aspect ratio, downsize and re-encode a photo
+ * until it fits the byte budget (or cannot be reduced further).
+ * @param source - Local or data URI of the picked/captured image
+ * @param overrides - Options that differ from DEFAULT_PREPROCESS_OPTIONS
+ */
+export async function preprocessImage(
+  source: PreprocessSource,
+  overrides: Partial<PreprocessOptions> = {}
+): Promise<PreprocessResult> {
+  const options = { ...DEFAULT_PREPROCESS_OPTIONS, ...overrides };
+  const originalBytes = readOriginalBytes(source);
+
+  // Rendering once gives the upright dimensions (orientation already applied)
+  const upright = await ImageManipulator.manipulate(source.uri).renderAsync();
+
+  let fitted: { width: number; height: number };
+  let fittedImage: ImageRef;
+  if (options.fit === 'letterbox' && process.env.EXPO_OS !== 'web') {
+    ({ image: fittedImage, ...fitted } = await letterboxOnDevice(upright, options));
+  } else {
+    const context = ImageManipulator.manipulate(upright);
+    fitted = fitToAspect(context, upright.width, upright.height, options);
+    fittedImage = await context.renderAsync();
+  }
+
+  let longest = Math.min(options.maxDimension, Math.max(fitted.width, fitted.height));
+  // Never upscale small images just to reach the minimum size
+  const minLongest = Math.min(MIN_DIMENSION, longest);
+  let quality = options.initialQuality;
+
+  while (true) {
+    const scale = longest / Math.max(fitted.width, fitted.height);
+    const resized = await ImageManipulator.manipulate(fittedImage)
+      .resize({
+        width: Math.round(fitted.width * scale),
+        height: Math.round(fitted.height * scale),
+      })
+      .renderAsync();
+    const saved = await resized.saveAsync({
+      base64: true,
+      compress: quality,
+      format: SaveFormat.JPEG,
+    });
+
+    if (!saved.base64) throw new Error('Image manipulator did not return base64 data');
+
+    const processedBytes = base64ByteLength(saved.base64);
+    const canLowerQuality = quality - QUALITY_STEP >= options.minQuality;
+    const canShrink = longest > minLongest;
+
+    if (processedBytes <= options.maxBytes || (!canLowerQuality && !canShrink)) {
+      return {
+        uri: saved.uri,
+        base64: saved.base64,
+        width: saved.width,
+        height: saved.height,
+        quality,
+        originalBytes,
+        processedBytes,
+      };
+    }
+
+    // Trade quality first, then resolution
+    if (canLowerQuality) {
+      quality = Number((quality - QUALITY_STEP).toFixed(2));
+    } else {
+      quality = options.initialQuality;
+      longest = Math.max(minLongest, Math.round(longest * SHRINK_FACTOR));
+    }
+  }
+}
@@ -0,0 +1,25 @@
+import { decode } from 'jpeg-js';
+
+import { base64ToBytes } from '@/lib/base64';
+
+/**
+ * Pure-JS pixel access for the small, already preprocessed upload JPEGs
+ * (photo quality analysis). Not meant for full-resolution photos.
+ */
+
+export type RgbaImage = {
+  width: number;
+  height: number;
+  /** Row-major RGBA, 4 bytes per pixel */
+  data: Uint8Array;
+};
+
+/**
+ * Decode a base64 JPEG (optionally a data URI) into RGBA pixels
+ */
+export function decodeJpegBase64(base64: string): RgbaImage {
+  const bytes = base64ToBytes(base64.replace(/^data:[^;]+;base64,/, ''));
+  const { width, height, data } = decode(bytes, { useTArray: true, formatAsRGBA: true, maxMemoryUsageInMB: 64 });
+  return { width, height, data };
+}
+
@@ -0,0 +1,169 @@
+import type { Translator } from '@/lib/i18n';
+import type { RgbaImage } from '@/lib/image/pixels';
+
+/**
+ * On-device photo quality checks run before upload: sharpness, exposure and how much of
+ * the frame is leaf. Poor photos tend to get confident-looking wrong answers, so failures
+ * come with specific retake advice (the user may still send the photo anyway).
+ */
+
+/** Scores measured on the prepared upload image */
+export type ImageQuality = {
+  /** Variance of the Laplacian of the luminance; low means blurry */
+  sharpness: number;
+  /** Mean luminance, 0-255 */
+  brightness: number;
+  /** Share of pixels crushed to near-black, 0-1 */
+  darkFraction: number;
+  /** Share of pixels blown out to near-white, 0-1 */
+  brightFraction: number;
+  /** Share of pixels with a leaf-like (green to yellow-green) colour, 0-1 */
+  leafCoverage: number;
+};
+
+export type QualityThresholds = {
+  /** Run the checks at all */
+  enabled: boolean;
+  minSharpness: number;
+  minBrightness: number;
+  maxBrightness: number;
+  /** Largest acceptable share of crushed or blown-out pixels */
+  maxClippedFraction: number;
+  minLeafCoverage: number;
+};
+
+export type QualityCheck = 'blur' | 'underexposed' | 'overexposed' | 'leaf-coverage';
+
+/** A failed check; its message and retake advice are looked up in the message catalog */
+export type QualityIssue = {
+  check: QualityCheck;
+};
+
+// Longest side the checks run at; plenty for these statistics and keeps decoding cheap
+const ANALYSIS_SIZE = 384;
+
+// Luminance below / above which a pixel counts as clipped
+const DARK_LEVEL = 16;
+const BRIGHT_LEVEL = 245;
+
+export const DEFAULT_QUALITY_THRESHOLDS: QualityThresholds = {
+  enabled: true,
+  minSharpness: 60,
+  minBrightness: 50,
+  maxBrightness: 210,
+  maxClippedFraction: 0.2,
+  minLeafCoverage: 0.15,
+};
+
+/**
+ * Validation message for the thresholds form, or null if they can be used
+ */
+export function validateQualityThresholds(thresholds: QualityThresholds, { t }: Translator): string | null {
+  const { minSharpness, minBrightness, maxBrightness, maxClippedFraction, minLeafCoverage } = thresholds;
+  const values = [minSharpness, minBrightness, maxBrightness, maxClippedFraction, minLeafCoverage];
+  if (values.some((v) => !Number.isFinite(v) || v < 0)) return t('settingsError.qualityNegative');
+  if (minBrightness >= maxBrightness) return t('settingsError.brightnessOrder');
+  if (maxBrightness > 255) return t('settingsError.brightnessRange');
+  if (maxClippedFraction > 1 || minLeafCoverage > 1) return t('settingsError.fractions');
+  return null;
+}
+
+/**
+ * Measure sharpness, exposure and leaf coverage of a decoded photo
+ */
+export function assessImageQuality(image: RgbaImage): ImageQuality {
+  const { width, height, data } = image;
+
+  // Nearest-neighbour sampling (no averaging) so downscaling does not hide blur
+  const step = Math.max(1, Math.ceil(Math.max(width, height) / ANALYSIS_SIZE));
+  const w = Math.floor(width / step);
+  const h = Math.floor(height / step);
+  const luma = new Float32Array(w * h);
+
+  let sum = 0;
+  let dark = 0;
+  let bright = 0;
+  let leaf = 0;
+
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const i = (y * step * width + x * step) * 4;
+      const r = data[i];
+      const g = data[i + 1];
+      const b = data[i + 2];
+
+      const l = 0.299 * r + 0.587 * g + 0.114 * b;
+      luma[y * w + x] = l;
+      sum += l;
+      if (l < DARK_LEVEL) dark++;
+      if (l > BRIGHT_LEVEL) bright++;
+      if (isLeafColour(r, g, b)) leaf++;
+    }
+  }
+
+  // Variance of the 4-neighbour Laplacian over the interior
+  let lapSum = 0;
+  let lapSqSum = 0;
+  let lapCount = 0;
+  for (let y = 1; y < h - 1; y++) {
+    for (let x = 1; x < w - 1; x++) {
+      const c = y * w + x;
+      const lap = luma[c - 1] + luma[c + 1] + luma[c - w] + luma[c + w] - 4 * luma[c];
+      lapSum += lap;
+      lapSqSum += lap * lap;
+      lapCount++;
+    }
+  }
+  const lapMean = lapCount > 0 ? lapSum / lapCount : 0;
+
+  const pixels = Math.max(1, w * h);
+  return {
+    sharpness: lapCount > 0 ? lapSqSum / lapCount - lapMean * lapMean : 0,
+    brightness: sum / pixels,
+    darkFraction: dark / pixels,
+    brightFraction: bright / pixels,
+    leafCoverage: leaf / pixels,
+  };
+}
+
+/**
+ * Green to yellow-green hue with enough saturation and light to be foliage
+ * (yellowing and spotted leaves still count; soil, sky and skin mostly do not)
+ */
+function isLeafColour(r: number, g: number, b: number): boolean {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const chroma = max - min;
+  if (max < 40 || chroma / max < 0.18) return false;
+
+  let hue: number;
+  if (max === r) hue = 60 * (((g - b) / chroma) % 6);
+  else if (max === g) hue = 60 * ((b - r) / chroma + 2);
+  else hue = 60 * ((r - g) / chroma + 4);
+  if (hue < 0) hue += 360;
+
+  return hue >= 45 && hue <= 170;
+}
+
+/**
+ * Checks the scores fail; empty when the photo looks usable
+ */
+export function findQualityIssues(quality: ImageQuality, t: QualityThresholds): QualityIssue[] {
+  if (!t.enabled) return [];
+  const issues: QualityIssue[] = [];
+
+  if (quality.sharpness < t.minSharpness) {
+    issues.push({ check: 'blur' });
+  }
+  if (quality.brightness < t.minBrightness || quality.darkFraction > t.maxClippedFraction) {
+    issues.push({ check: 'underexposed' });
+  }
+  if (quality.brightness > t.maxBrightness || quality.brightFraction > t.maxClippedFraction) {
+    issues.push({ check: 'overexposed' });
+  }
+  if (quality.leafCoverage < t.minLeafCoverage) {
+    issues.push({ check: 'leaf-coverage' });
+  }
+
+  return issues;
+}
@@ -0,0 +1,130 @@
+import { base64ToBytes } from '@/lib/base64';
+
+/**
+ * Image storage for the web build. AsyncStorage is localStorage there (about 5 MB per site),
+ * which a dozen photos fill, so images are kept as blobs in IndexedDB and the history and
+ * outbox indexes only hold their `idb:` keys. Screens show images by URL, so every image
+ * read or written gets an object URL for the life of the tab; the indexes swap keys for
+ * URLs when loading and back when saving.
+ */
+
+const DB_NAME = 'plant-whisperer';
+const STORE_NAME = 'images';
+
+/** Prefix of the image keys saved in place of a URI */
+export const WEB_IMAGE_PREFIX = 'idb:';
+
+let db: Promise<IDBDatabase> | null = null;
+
+// Object URL of each key shown this session, and the reverse
+const urlsByKey = new Map<string, string>();
+const keysByUrl = new Map<string, string>();
+
+function openDatabase(): Promise<IDBDatabase> {
+  db ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  return db;
+}
+
+/**
+ * Run one request against the image store and wait for its transaction to finish
+ */
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const transaction = (await openDatabase()).transaction(STORE_NAME, mode);
+  const request = run(transaction.objectStore(STORE_NAME));
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+function urlFor(key: string, blob: Blob): string {
+  const previous = urlsByKey.get(key);
+  if (previous) {
+    URL.revokeObjectURL(previous);
+    keysByUrl.delete(previous);
+  }
+  const url = URL.createObjectURL(blob);
+  urlsByKey.set(key, url);
+  keysByUrl.set(url, key);
+  return url;
+}
+
+/**
+ * Save a base64 image under a key such as `history/<id>/image.jpg`
+ * @returns An object URL to show it
+ */
+export async function putWebImage(key: string, base64: string, mimeType: string): Promise<string> {
+  const blob = new Blob([base64ToBytes(base64) as BlobPart], { type: mimeType });
+  await withStore('readwrite', (store) => store.put(blob, key));
+  return urlFor(key, blob);
+}
+
+/**
+ * Object URL of a stored image, from its saved `idb:` reference
+ * @returns Other URIs unchanged, and the reference itself if the image is missing (it then
+ *   shows as broken)
+ */
+export async function webImageUrl(ref: string): Promise<string> {
+  if (!ref.startsWith(WEB_IMAGE_PREFIX)) return ref;
+  const key = ref.slice(WEB_IMAGE_PREFIX.length);
+  const cached = urlsByKey.get(key);
+  if (cached) return cached;
+
+  const blob = await withStore('readonly', (store) => store.get(key) as IDBRequest<Blob | undefined>);
+  return blob ? urlFor(key, blob) : ref;
+}
+
+/**
+ * The `idb:` reference to save for an image URI; other URIs are returned unchanged
+ */
+export function webImageRef(uri: string): string {
+  const key = keysByUrl.get(uri);
+  return key ? `${WEB_IMAGE_PREFIX}${key}` : uri;
+}
+
+/**
+ * Whether a URI is an image kept in IndexedDB (its object URL or saved reference)
+ */
+export function isWebImage(uri: string): boolean {
+  return keysByUrl.has(uri) || uri.startsWith(WEB_IMAGE_PREFIX);
+}
+
+/**
+ * Read a stored image back as base64
+ * @throws If the image is no longer stored
+ */
+export async function readWebImage(uri: string): Promise<string> {
+  const key = keysByUrl.get(uri) ?? uri.slice(WEB_IMAGE_PREFIX.length);
+  const blob = await withStore('readonly', (store) => store.get(key) as IDBRequest<Blob | undefined>);
+  if (!blob) throw new Error(`Image ${key} is no longer stored`);
+
+  const dataUri = await new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+  return dataUri.slice(dataUri.indexOf(',') + 1);
+}
+
+/**
+ * Delete every image whose key starts with `prefix` (e.g. `history/<id>/`) and release its URL
+ */
+export async function deleteWebImages(prefix: string): Promise<void> {
+  await withStore('readwrite', (store) => store.delete(IDBKeyRange.bound(prefix, `${prefix}\uffff`)));
+  for (const [key, url] of urlsByKey) {
+    if (!key.startsWith(prefix)) continue;
+    URL.revokeObjectURL(url);
+    urlsByKey.delete(key);
+    keysByUrl.delete(url);
+  }
+}
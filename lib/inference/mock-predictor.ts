@@ -0,0 +1,60 @@
+import { findMockScenario } from '@/constants/mock-predictions';
+import { ApiCancelledError, ApiHttpError, ApiTimeoutError } from '@/lib/api/errors';
+import { parseErrorMessage, parsePredictResponse } from '@/lib/api/schema';
+import { resolveGradcam } from '@/lib/heatmap';
+import type { Predictor } from '@/lib/inference/predictor';
+
+/**
+ * Stand-in for the prediction server that answers from bundled fixtures, for development
+ * and demos without the live server. Responses go through the same parsing and error
+ * classes as real ones, so every branch of the result flow can be exercised on demand.
+ */
+
+/**
+ * Wait like a slow server would, giving up as soon as the request is cancelled
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new ApiCancelledError());
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', cancel);
+      resolve();
+    }, ms);
+    const cancel = () => {
+      clearTimeout(timer);
+      reject(new ApiCancelledError());
+    };
+    signal?.addEventListener('abort', cancel);
+  });
+}
+
+/**
+ * Predictor replaying the fixture of a mock scenario
+ * @throws Error if the scenario does not exist
+ */
+export function createMockPredictor(scenarioId: string): Predictor {
+  const scenario = findMockScenario(scenarioId);
+  if (!scenario) throw new Error(`Unknown mock scenario "${scenarioId}"`);
+
+  return {
+    async predict({ topK, signal }) {
+      const { fixture } = scenario;
+      await sleep(fixture.delayMs, signal);
+
+      if (fixture.kind === 'timeout') throw new ApiTimeoutError(fixture.delayMs);
+      if (fixture.kind === 'http-error') {
+        throw new ApiHttpError(fixture.status, parseErrorMessage(JSON.stringify(fixture.body)));
+      }
+
+      const data = parsePredictResponse(fixture.body);
+      return {
+        prediction: data.prediction,
+        confidence: data.confidence,
+        topK: data.top_k ? data.top_k.slice(0, topK) : null,
+        gradcamBase64: resolveGradcam(data),
+        gradcamGrid: data.gradcam_heatmap ?? null,
+        outOfDistribution: data.out_of_distribution,
+      };
+    },
+  };
+}
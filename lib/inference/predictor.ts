@@ -0,0 +1,36 @@
+import type { TopKEntry } from '@/lib/api/schema';
+
+/**
+ * Common interface of the prediction server and its mock stand-in,
+ * so screens handle results the same way whichever one answered.
+ */
+
+export type PredictorInput = {
+  /** Preprocessed JPEG as base64, without data URI prefix */
+  imageBase64: string;
+  /** Number of ranked labels wanted */
+  topK: number;
+  /** Aborts a server request; rejects with ApiCancelledError */
+  signal?: AbortSignal;
+};
+
+export type PredictionResult = {
+  /** Raw model label */
+  prediction: string;
+  /** Confidence as 0-1 or 0-100 (server dependent); null if not reported */
+  confidence: number | null;
+  /** Ranked labels, most likely first; null if only one label is known */
+  topK: TopKEntry[] | null;
+  /** Grad-CAM PNG as base64 or data URI; null when the server sent none */
+  gradcamBase64: string | null;
+  /** Raw Grad-CAM activations when the server sent them instead of (or with) a PNG */
+  gradcamGrid: number[][] | null;
+  /** The photo is not a plant leaf (server signal); `prediction` must not be shown */
+  outOfDistribution: boolean;
+};
+
+export interface Predictor {
+  /** @throws ApiError subclasses */
+  predict(input: PredictorInput): Promise<PredictionResult>;
+}
+
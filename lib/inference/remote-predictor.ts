@@ -0,0 +1,27 @@
+import { predict } from '@/lib/api/client';
+import { resolveGradcam } from '@/lib/heatmap';
+import type { Predictor } from '@/lib/inference/predictor';
+import { profileApiOptions, type ServerProfile } from '@/lib/server-profiles';
+
+/**
+ * Predictor backed by the `/predict` endpoint of a server profile
+ */
+export function createRemotePredictor(profile: ServerProfile): Predictor {
+  return {
+    async predict({ imageBase64, topK, signal }) {
+      const data = await predict(
+        { image: imageBase64, include_gradcam: profile.includeGradcam, top_k: topK },
+        profileApiOptions(profile),
+        signal
+      );
+      return {
+        prediction: data.prediction,
+        confidence: data.confidence,
+        topK: data.top_k,
+        gradcamBase64: resolveGradcam(data),
+        gradcamGrid: data.gradcam_heatmap ?? null,
+        outOfDistribution: data.out_of_distribution,
+      };
+    },
+  };
+}
@@ -0,0 +1,135 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { requestJson, type ApiClientOptions } from '@/lib/api/client';
+import { ApiPayloadError } from '@/lib/api/errors';
+import { BUNDLED_KNOWLEDGE_BASE } from '@/constants/knowledge-base';
+import type { MessageKey } from '@/lib/i18n';
+
+/**
+ * Disease knowledge base keyed by model label.
+ * A copy ships with the app; newer versions published by the prediction server
+ * (`GET /knowledge-base`) are cached on the device and take precedence.
+ */
+
+export type PathogenType = 'fungal' | 'bacterial' | 'viral' | 'oomycete' | 'pest' | 'none';
+
+export type KnowledgeEntry = {
+  /** Display name of the condition */
+  name: string;
+  crop: string;
+  pathogenType: PathogenType;
+  symptoms: string[];
+  treatment: {
+    organic: string[];
+    chemical: string[];
+  };
+  prevention: string[];
+  /** How serious the condition is and how fast it spreads */
+  severity: string;
+};
+
+export type KnowledgeBase = {
+  /** Incremented on every content change */
+  version: number;
+  /** ISO date of the content revision */
+  updatedAt: string;
+  /** Entries keyed by normalized label (see normalizeLabelKey) */
+  entries: Record<string, KnowledgeEntry>;
+};
+
+const CACHE_KEY = 'knowledgeBase.v1';
+
+/** Message keys of the pathogen type names */
+export const PATHOGEN_LABELS: Record<PathogenType, MessageKey> = {
+  fungal: 'pathogen.fungal',
+  bacterial: 'pathogen.bacterial',
+  viral: 'pathogen.viral',
+  oomycete: 'pathogen.oomycete',
+  pest: 'pathogen.pest',
+  none: 'pathogen.none',
+};
+
+/**
+ * Canonical key for a raw model label, so "Tomato___Late_blight" and "tomato_late_blight" match
+ */
+export function normalizeLabelKey(label: string): string {
+  return label
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+export function lookupEntry(kb: KnowledgeBase, label: string): KnowledgeEntry | null {
+  return kb.entries[normalizeLabelKey(label)] ?? null;
+}
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((v) => typeof v === 'string');
+
+/**
+ * Validate a knowledge base document (bundled or downloaded)
+ * @throws ApiPayloadError describing the first invalid entries
+ */
+export function parseKnowledgeBase(data: unknown): KnowledgeBase {
+  const doc = data as Partial<KnowledgeBase> | null;
+  if (!doc || typeof doc !== 'object' || typeof doc.version !== 'number' || !doc.entries) {
+    throw new ApiPayloadError(['knowledge base must have a numeric "version" and "entries"']);
+  }
+
+  const issues: string[] = [];
+  const entries: Record<string, KnowledgeEntry> = {};
+  for (const [label, entry] of Object.entries(doc.entries)) {
+    const e = entry as Partial<KnowledgeEntry>;
+    const valid =
+      typeof e?.name === 'string' &&
+      typeof e.crop === 'string' &&
+      typeof e.pathogenType === 'string' &&
+      e.pathogenType in PATHOGEN_LABELS &&
+      isStringList(e.symptoms) &&
+      isStringList(e.treatment?.organic) &&
+      isStringList(e.treatment?.chemical) &&
+      isStringList(e.prevention) &&
+      typeof e.severity === 'string';
+    if (valid) entries[normalizeLabelKey(label)] = e as KnowledgeEntry;
+    else issues.push(`entry "${label}" is incomplete`);
+  }
+  if (issues.length > 0) throw new ApiPayloadError(issues.slice(0, 5));
+
+  return { version: doc.version, updatedAt: String(doc.updatedAt ?? ''), entries };
+}
+
+/**
+ * Knowledge base to use at startup: the cached download if it is newer than the bundled copy
+ */
+export async function loadKnowledgeBase(): Promise<KnowledgeBase> {
+  try {
+    const raw = await AsyncStorage.getItem(CACHE_KEY);
+    if (raw) {
+      const cached = parseKnowledgeBase(JSON.parse(raw));
+      if (cached.version > BUNDLED_KNOWLEDGE_BASE.version) return cached;
+    }
+  } catch (e: any) {
+    console.log('Ignoring cached knowledge base:', e?.message || e);
+  }
+  return BUNDLED_KNOWLEDGE_BASE;
+}
+
+/**
+ * Download the server's knowledge base and cache it if it is newer than `current`
+ * @returns The newer knowledge base, or null if `current` is up to date
+ */
+export async function refreshKnowledgeBase(
+  current: KnowledgeBase,
+  apiOptions: Partial<ApiClientOptions>
+): Promise<KnowledgeBase | null> {
+  const remote = await requestJson(
+    '/knowledge-base',
+    { method: 'GET', headers: { Accept: 'application/json' } },
+    parseKnowledgeBase,
+    { ...apiOptions, retries: 0 }
+  );
+  if (remote.version <= current.version) return null;
+
+  await AsyncStorage.setItem(CACHE_KEY, JSON.stringify(remote));
+  return remote;
+}
@@ -0,0 +1,19 @@
+/**
+ * Display helpers for raw model output.
+ */
+
+/**
+ * Format disease labels: replace underscores with spaces and capitalize each word
+ */
+export const prettyLabel = (s: string) =>
+  s.replaceAll('_', ' ').replace(/\b\w/g, (c) => c.toUpperCase());
+
+/**
+ * Normalize confidence to percentage (0-100) and clamp to valid range.
+ * Servers report either 0-1 or 0-100.
+ */
+export function confidenceToPercent(confidence: number | null | undefined): number | null {
+  if (confidence == null || Number.isNaN(confidence)) return null;
+  const c = confidence > 1 ? confidence : confidence * 100;
+  return Math.max(0, Math.min(100, c));
+}
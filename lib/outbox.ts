@@ -0,0 +1,152 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Directory, File, Paths } from 'expo-file-system';
+
+import { createId } from '@/lib/id';
+import type { ImageQuality } from '@/lib/image/quality';
+import { deleteWebImages, putWebImage, webImageRef, webImageUrl } from '@/lib/image/web-store';
+
+/**
+ * Outbox of captures that could not be diagnosed yet (no signal, or the upload failed
+ * in transit). Item metadata lives in AsyncStorage, the prepared JPEG is kept in the
+ * document directory (IndexedDB on web) until the server has answered.
+ */
+
+export type OutboxStatus = 'queued' | 'uploading' | 'failed' | 'done';
+
+export type OutboxItem = {
+  id: string;
+  /** ISO timestamp of the capture; becomes the diagnosis date */
+  createdAt: string;
+  /** Prepared JPEG exactly as it will be uploaded (file URI, or object URL on web) */
+  imageUri: string;
+  /** Server profile that was active when the photo was taken */
+  serverProfile: { id: string; name: string };
+  /** Number of ranked labels to request */
+  topK: number;
+  status: OutboxStatus;
+  /** Failed upload attempts so far */
+  attempts: number;
+  /** Epoch ms before which no automatic retry happens */
+  nextAttemptAt: number;
+  /** Message of the last failure */
+  lastError: string | null;
+  /** History record created from the result, once done */
+  recordId: string | null;
+  /** Photo quality scores, carried over to the diagnosis */
+  quality: ImageQuality | null;
+  /** Earlier diagnosis the capture follows up on, carried over to the diagnosis */
+  followUpOf: string | null;
+};
+
+const STORAGE_KEY = 'outbox.v1';
+
+// Automatic retries back off from 5 s up to 5 min between attempts
+const RETRY_BASE_DELAY_MS = 5_000;
+const RETRY_MAX_DELAY_MS = 5 * 60_000;
+
+const isWeb = process.env.EXPO_OS === 'web';
+
+const outboxDir = () => new Directory(Paths.document, 'outbox');
+
+/**
+ * Delay before the next automatic attempt, with jitter
+ * @param attempts - Failed attempts so far (at least 1)
+ */
+export function retryDelay(attempts: number): number {
+  const delay = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1));
+  return delay * (0.75 + Math.random() * 0.5);
+}
+
+export async function loadOutbox(): Promise<OutboxItem[]> {
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_KEY);
+    const items = raw ? (JSON.parse(raw) as OutboxItem[]) : [];
+    if (!Array.isArray(items)) return [];
+
+    // An upload interrupted by the app closing is simply queued again
+    const normalized: OutboxItem[] = items.map((item) => ({
+      ...item,
+      status: item.status === 'uploading' ? 'queued' : item.status,
+      quality: item.quality ?? null,
+      followUpOf: item.followUpOf ?? null,
+    }));
+    return isWeb ? await loadWebImages(normalized) : normalized;
+  } catch (e: any) {
+    console.log('Could not load outbox:', e?.message || e);
+    return [];
+  }
+}
+
+/**
+ * Swap the saved image references of web items for object URLs. Items queued before images
+ * moved to IndexedDB hold data URIs; those are moved over and the outbox saved again.
+ */
+async function loadWebImages(items: OutboxItem[]): Promise<OutboxItem[]> {
+  let moved = false;
+  const loaded = await Promise.all(
+    items.map(async (item) => {
+      try {
+        if (!item.imageUri.startsWith('data:')) return { ...item, imageUri: await webImageUrl(item.imageUri) };
+        const imageUri = await putWebImage(`outbox/${item.id}/image.jpg`, item.imageUri, 'image/jpeg');
+        moved = true;
+        return { ...item, imageUri };
+      } catch (e: any) {
+        console.log('Could not load outbox image:', e?.message || e);
+        return item;
+      }
+    })
+  );
+  if (moved) await saveOutbox(loaded);
+  return loaded;
+}
+
+export async function saveOutbox(items: OutboxItem[]): Promise<void> {
+  // Object URLs only live as long as the tab; the web outbox keeps the IndexedDB keys
+  const saved = isWeb ? items.map((item) => ({ ...item, imageUri: webImageRef(item.imageUri) })) : items;
+  await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(saved));
+}
+
+/**
+ * Store the prepared image and create a queued item for it
+ */
+export async function createOutboxItem(
+  imageBase64: string,
+  serverProfile: OutboxItem['serverProfile'],
+  topK: number,
+  quality: ImageQuality | null = null,
+  followUpOf: string | null = null
+): Promise<OutboxItem> {
+  const id = createId();
+
+  let imageUri: string;
+  if (isWeb) {
+    imageUri = await putWebImage(`outbox/${id}/image.jpg`, imageBase64, 'image/jpeg');
+  } else {
+    const dir = new Directory(outboxDir(), id);
+    dir.create({ intermediates: true, idempotent: true });
+    const file = new File(dir, 'image.jpg');
+    file.write(imageBase64, { encoding: 'base64' });
+    imageUri = file.uri;
+  }
+
+  return {
+    id,
+    createdAt: new Date().toISOString(),
+    imageUri,
+    serverProfile,
+    topK,
+    status: 'queued',
+    attempts: 0,
+    nextAttemptAt: 0,
+    lastError: null,
+    recordId: null,
+    quality,
+    followUpOf,
+  };
+}
+
+export async function deleteOutboxImage(id: string): Promise<void> {
+  if (isWeb) return deleteWebImages(`outbox/${id}/`);
+  const dir = new Directory(outboxDir(), id);
+  if (dir.exists) dir.delete();
+}
@@ -0,0 +1,139 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Directory, File, Paths } from 'expo-file-system';
+
+import type { DiagnosisRecord } from '@/lib/history';
+import type { Translator } from '@/lib/i18n';
+import { createId } from '@/lib/id';
+import { confidenceToPercent } from '@/lib/labels';
+
+/**
+ * Plant profiles: individual plants or beds whose diagnoses are followed over time.
+ * Profiles are stored on the device; diagnoses point at them through `plantId`.
+ */
+
+export type PlantProfile = {
+  id: string;
+  name: string;
+  species: string;
+  /** Field, greenhouse, bed or row */
+  location: string;
+  /** Profile photo (file URI, or data URI on web) */
+  photoUri: string | null;
+  notes: string;
+  /** ISO timestamp */
+  createdAt: string;
+};
+
+export type HealthTrend = 'improving' | 'worsening' | 'stable' | 'unknown';
+
+/** One point of the health-trend chart */
+export type HealthPoint = {
+  recordId: string;
+  createdAt: string;
+  /** 0 (certainly diseased) to 100 (certainly healthy) */
+  score: number;
+};
+
+const STORAGE_KEY = 'plantProfiles.v1';
+
+// Change in mean health score (points) that counts as a real trend
+const TREND_THRESHOLD = 10;
+
+const isWeb = process.env.EXPO_OS === 'web';
+
+const plantsDir = () => new Directory(Paths.document, 'plants');
+
+/**
+ * Empty profile for the "Add plant" form
+ */
+export function createPlant(): PlantProfile {
+  return {
+    id: createId(),
+    name: '',
+    species: '',
+    location: '',
+    photoUri: null,
+    notes: '',
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Validation message for a profile being edited, or null if it can be saved
+ */
+export function validatePlant(plant: PlantProfile, { t }: Translator): string | null {
+  if (plant.name.trim().length === 0) return t('plantEdit.invalid.name');
+  return null;
+}
+
+export async function loadPlants(): Promise<PlantProfile[]> {
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_KEY);
+    const plants = raw ? (JSON.parse(raw) as PlantProfile[]) : [];
+    return Array.isArray(plants) ? plants : [];
+  } catch (e: any) {
+    console.log('Could not load plant profiles:', e?.message || e);
+    return [];
+  }
+}
+
+export async function savePlants(plants: PlantProfile[]): Promise<void> {
+  await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(plants));
+}
+
+/**
+ * Write a base64 JPEG as the profile photo and return its URI (data URI on web)
+ */
+export function storePlantPhoto(plantId: string, base64: string): string {
+  if (isWeb) return `data:image/jpeg;base64,${base64}`;
+
+  const dir = new Directory(plantsDir(), plantId);
+  dir.create({ intermediates: true, idempotent: true });
+  // New name per photo so image caches don't show the previous one
+  const file = new File(dir, `photo-${Date.now()}.jpg`);
+  file.write(base64, { encoding: 'base64' });
+  return file.uri;
+}
+
+export function deletePlantPhotos(plantId: string) {
+  if (isWeb) return;
+  const dir = new Directory(plantsDir(), plantId);
+  if (dir.exists) dir.delete();
+}
+
+/**
+ * Health score of one diagnosis: confidence in "healthy", or the inverse confidence in a disease
+ * @returns null if the server did not report a confidence or the photo was not a leaf
+ */
+export function healthScore(
+  record: Pick<DiagnosisRecord, 'prediction' | 'confidence' | 'outOfDistribution'>
+): number | null {
+  const pct = confidenceToPercent(record.confidence);
+  if (pct === null || record.outOfDistribution) return null;
+  return /(^|_)healthy$/.test(record.prediction.toLowerCase()) ? pct : 100 - pct;
+}
+
+/**
+ * Health scores of a plant's diagnoses, oldest first
+ */
+export function healthPoints(records: DiagnosisRecord[]): HealthPoint[] {
+  return records
+    .map((r) => ({ recordId: r.id, createdAt: r.createdAt, score: healthScore(r) }))
+    .filter((p): p is HealthPoint => p.score !== null)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * Compare the recent half of the scores with the earlier half
+ */
+export function healthTrend(points: HealthPoint[]): HealthTrend {
+  if (points.length < 2) return 'unknown';
+
+  const middle = Math.floor(points.length / 2);
+  const mean = (ps: HealthPoint[]) => ps.reduce((sum, p) => sum + p.score, 0) / ps.length;
+  const change = mean(points.slice(points.length - middle)) - mean(points.slice(0, middle));
+
+  if (change >= TREND_THRESHOLD) return 'improving';
+  if (change <= -TREND_THRESHOLD) return 'worsening';
+  return 'stable';
+}
@@ -0,0 +1,213 @@
+import { unzlibSync } from 'fflate';
+
+import { base64ToBytes, bytesToBase64 } from '@/lib/base64';
+import type { RgbaImage } from '@/lib/image/pixels';
+
+/**
+ * Minimal PNG encoder for small RGBA images generated on the device, and a decoder for the
+ * 8-bit, non-interlaced PNGs prediction servers send.
+ * Pixel data is written in uncompressed ("stored") deflate blocks, which is valid PNG
+ * and keeps encoding cheap for images of a few kilobytes.
+ */
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function adler32(bytes: Uint8Array): number {
+  let a = 1;
+  let b = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    a = (a + bytes[i]) % 65521;
+    b = (b + a) % 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+}
+
+const writeUint32 = (out: Uint8Array, offset: number, value: number) => {
+  out[offset] = value >>> 24;
+  out[offset + 1] = (value >>> 16) & 0xff;
+  out[offset + 2] = (value >>> 8) & 0xff;
+  out[offset + 3] = value & 0xff;
+};
+
+function chunk(type: string, data: Uint8Array): Uint8Array {
+  const out = new Uint8Array(12 + data.length);
+  writeUint32(out, 0, data.length);
+  for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+  out.set(data, 8);
+  writeUint32(out, 8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+  return out;
+}
+
+/** zlib stream made of stored (uncompressed) deflate blocks */
+function zlibStored(raw: Uint8Array): Uint8Array {
+  const MAX_BLOCK = 65535;
+  const blocks = Math.max(1, Math.ceil(raw.length / MAX_BLOCK));
+  const out = new Uint8Array(2 + raw.length + blocks * 5 + 4);
+  out[0] = 0x78;
+  out[1] = 0x01;
+
+  let p = 2;
+  for (let i = 0; i < blocks; i++) {
+    const start = i * MAX_BLOCK;
+    const len = Math.min(MAX_BLOCK, raw.length - start);
+    out[p++] = i === blocks - 1 ? 1 : 0;
+    out[p++] = len & 0xff;
+    out[p++] = len >>> 8;
+    out[p++] = ~len & 0xff;
+    out[p++] = (~len >>> 8) & 0xff;
+    out.set(raw.subarray(start, start + len), p);
+    p += len;
+  }
+  writeUint32(out, p, adler32(raw));
+  return out;
+}
+
+/**
+ * Encode RGBA pixels (row-major, 4 bytes per pixel) as PNG file bytes
+ */
+export function encodePng(width: number, height: number, rgba: Uint8Array): Uint8Array {
+  // Every scanline starts with filter type 0 (none)
+  const raw = new Uint8Array(height * (width * 4 + 1));
+  for (let y = 0; y < height; y++) {
+    raw[y * (width * 4 + 1)] = 0;
+    raw.set(rgba.subarray(y * width * 4, (y + 1) * width * 4), y * (width * 4 + 1) + 1);
+  }
+
+  const header = new Uint8Array(13);
+  writeUint32(header, 0, width);
+  writeUint32(header, 4, height);
+  header[8] = 8; // bit depth
+  header[9] = 6; // colour type RGBA
+
+  const signature = new Uint8Array([137, 80, 78, 71, 13, 10, 26, 10]);
+  const parts = [signature, chunk('IHDR', header), chunk('IDAT', zlibStored(raw)), chunk('IEND', new Uint8Array())];
+
+  const png = new Uint8Array(parts.reduce((n, part) => n + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    png.set(part, offset);
+    offset += part.length;
+  }
+  return png;
+}
+
+/**
+ * Encode RGBA pixels (row-major, 4 bytes per pixel) as a base64 PNG
+ */
+export function encodePngBase64(width: number, height: number, rgba: Uint8Array): string {
+  return bytesToBase64(encodePng(width, height, rgba));
+}
+
+const readUint32 = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+
+// Channels per pixel by colour type: greyscale, RGB, palette, greyscale + alpha, RGBA
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+/** Reverse the per-scanline filters in place; `bpp` is bytes per pixel */
+function unfilter(data: Uint8Array, height: number, stride: number, bpp: number): Uint8Array {
+  const out = new Uint8Array(height * stride);
+  for (let y = 0; y < height; y++) {
+    const type = data[y * (stride + 1)];
+    const line = data.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+    const row = y * stride;
+    for (let x = 0; x < stride; x++) {
+      const a = x >= bpp ? out[row + x - bpp] : 0;
+      const b = y > 0 ? out[row - stride + x] : 0;
+      const c = x >= bpp && y > 0 ? out[row - stride + x - bpp] : 0;
+      let predictor = 0;
+      if (type === 1) predictor = a;
+      else if (type === 2) predictor = b;
+      else if (type === 3) predictor = (a + b) >> 1;
+      else if (type === 4) {
+        const p = a + b - c;
+        const pa = Math.abs(p - a);
+        const pb = Math.abs(p - b);
+        const pc = Math.abs(p - c);
+        predictor = pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+      } else if (type !== 0) throw new Error(`Unknown PNG filter ${type}`);
+      out[row + x] = (line[x] + predictor) & 0xff;
+    }
+  }
+  return out;
+}
+
+/**
+ * Decode a base64 PNG (optionally a data URI) into RGBA pixels
+ * @throws If the data is not a PNG, or uses 16-bit samples, packed pixels or interlacing
+ */
+export function decodePngBase64(base64: string): RgbaImage {
+  const png = base64ToBytes(base64);
+  if (png.length < 8 || readUint32(png, 0) !== 0x89504e47 || readUint32(png, 4) !== 0x0d0a1a0a) {
+    throw new Error('Not a PNG');
+  }
+
+  let width = 0;
+  let height = 0;
+  let colourType = 0;
+  let palette: Uint8Array | null = null;
+  let transparency: Uint8Array | null = null;
+  const idat: Uint8Array[] = [];
+
+  for (let p = 8; p + 8 <= png.length; ) {
+    const length = readUint32(png, p);
+    const type = String.fromCharCode(png[p + 4], png[p + 5], png[p + 6], png[p + 7]);
+    const data = png.subarray(p + 8, p + 8 + length);
+    if (type === 'IHDR') {
+      width = readUint32(data, 0);
+      height = readUint32(data, 4);
+      colourType = data[9];
+      if (data[8] !== 8 || data[12] !== 0 || !(colourType in CHANNELS)) {
+        throw new Error(`Unsupported PNG format (depth ${data[8]}, colour type ${colourType})`);
+      }
+    } else if (type === 'PLTE') palette = data;
+    else if (type === 'tRNS') transparency = data;
+    else if (type === 'IDAT') idat.push(data);
+    else if (type === 'IEND') break;
+    p += 12 + length;
+  }
+  if (!width || !height || idat.length === 0) throw new Error('PNG has no image data');
+
+  const compressed = new Uint8Array(idat.reduce((n, part) => n + part.length, 0));
+  let offset = 0;
+  for (const part of idat) {
+    compressed.set(part, offset);
+    offset += part.length;
+  }
+
+  const bpp = CHANNELS[colourType];
+  const pixels = unfilter(unzlibSync(compressed), height, width * bpp, bpp);
+  const rgba = new Uint8Array(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    const s = i * bpp;
+    const d = i * 4;
+    if (colourType === 3) {
+      const index = pixels[s];
+      rgba.set(palette ? palette.subarray(index * 3, index * 3 + 3) : [index, index, index], d);
+      rgba[d + 3] = transparency && index < transparency.length ? transparency[index] : 255;
+    } else if (colourType === 0 || colourType === 4) {
+      rgba[d] = rgba[d + 1] = rgba[d + 2] = pixels[s];
+      rgba[d + 3] = colourType === 4 ? pixels[s + 1] : 255;
+    } else {
+      rgba[d] = pixels[s];
+      rgba[d + 1] = pixels[s + 1];
+      rgba[d + 2] = pixels[s + 2];
+      rgba[d + 3] = colourType === 6 ? pixels[s + 3] : 255;
+    }
+  }
+  return { width, height, data: rgba };
+}
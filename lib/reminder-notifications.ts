@@ -0,0 +1,171 @@
+import * as Notifications from 'expo-notifications';
+
+import type { Translator } from '@/lib/i18n';
+import { upcomingOccurrences, type Reminder, type ReminderOccurrence } from '@/lib/reminders';
+
+/**
+ * Local notifications for treatment reminders. Every occurrence is scheduled as its own
+ * date-triggered notification so that marking one done can cancel exactly that one.
+ * Browsers cannot schedule notifications; reminders there only appear on the calendar.
+ */
+
+const CHANNEL_ID = 'reminders';
+
+// iOS keeps at most 64 pending notifications per app and silently drops the rest
+export const MAX_SCHEDULED_NOTIFICATIONS = 60;
+
+const isWeb = process.env.EXPO_OS === 'web';
+
+/** Payload attached to every reminder notification */
+type ReminderNotificationData = {
+  reminderId: string;
+  /** Screen to open when the notification is tapped */
+  url: string;
+};
+
+/**
+ * Show reminders while the app is open and create the Android channel they are posted to
+ */
+export async function configureReminderNotifications({ t }: Translator): Promise<void> {
+  if (isWeb) return;
+
+  Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+      shouldShowBanner: true,
+      shouldShowList: true,
+      shouldPlaySound: true,
+      shouldSetBadge: false,
+    }),
+  });
+
+  if (process.env.EXPO_OS === 'android') {
+    await Notifications.setNotificationChannelAsync(CHANNEL_ID, {
+      name: t('reminder.channel'),
+      importance: Notifications.AndroidImportance.HIGH,
+    });
+  }
+}
+
+/**
+ * Whether notification permission has been granted, without asking for it
+ */
+export async function hasNotificationPermission(): Promise<boolean> {
+  if (isWeb) return false;
+  return (await Notifications.getPermissionsAsync()).granted;
+}
+
+/**
+ * Ask for notification permission if it has not been decided yet
+ * @returns Whether reminders can be delivered
+ */
+export async function ensureNotificationPermission(): Promise<boolean> {
+  if (isWeb) return false;
+
+  const current = await Notifications.getPermissionsAsync();
+  if (current.granted) return true;
+  if (!current.canAskAgain) return false;
+  return (await Notifications.requestPermissionsAsync()).granted;
+}
+
+/**
+ * Screen a reminder opens: the capture flow linked to the diagnosis for follow-ups,
+ * the calendar for treatments
+ */
+export function reminderUrl(reminder: Pick<Reminder, 'kind' | 'recordId'>): string {
+  return reminder.kind === 'follow-up' ? `/?followUp=${encodeURIComponent(reminder.recordId)}` : '/reminders';
+}
+
+/**
+ * Schedule the notification of one occurrence
+ * @returns Id of the scheduled notification
+ */
+function scheduleOccurrence(occurrence: ReminderOccurrence, { t }: Translator): Promise<string> {
+  const { reminder } = occurrence;
+  const data: ReminderNotificationData = { reminderId: reminder.id, url: reminderUrl(reminder) };
+  return Notifications.scheduleNotificationAsync({
+    content: {
+      title: reminder.title,
+      body:
+        reminder.kind === 'follow-up'
+          ? t('reminder.followUpBody')
+          : [
+              reminder.occurrences > 1
+                ? t('reminder.progress', { index: occurrence.index, count: reminder.occurrences })
+                : '',
+              reminder.notes,
+            ]
+              .filter(Boolean)
+              .join(' • ') || t('reminder.due'),
+      data,
+    },
+    trigger: {
+      type: Notifications.SchedulableTriggerInputTypes.DATE,
+      date: new Date(occurrence.at),
+      channelId: CHANNEL_ID,
+    },
+  });
+}
+
+/**
+ * Bring the scheduled notifications in line with the reminders: the next
+ * MAX_SCHEDULED_NOTIFICATIONS occurrences across all reminders are scheduled, and notifications
+ * of occurrences that are done or pushed out by earlier ones are cancelled. Already scheduled
+ * notifications are kept, so running it again only tops up the ones that have fired.
+ * Notifications of deleted reminders must be cancelled by the caller.
+ * @returns The reminders with their scheduled notifications
+ */
+export async function syncReminderNotifications(reminders: Reminder[], i18n: Translator): Promise<Reminder[]> {
+  if (isWeb) return reminders;
+
+  const upcoming = upcomingOccurrences(reminders, new Date(), MAX_SCHEDULED_NOTIFICATIONS);
+
+  const synced: Reminder[] = [];
+  for (const reminder of reminders) {
+    const due = upcoming.filter((o) => o.reminder === reminder);
+    const kept = reminder.notifications.filter((n) => due.some((o) => o.at === n.at));
+    await cancelReminderNotifications(reminder.notifications.filter((n) => !kept.includes(n)));
+
+    const notifications = [...kept];
+    for (const occurrence of due) {
+      if (kept.some((n) => n.at === occurrence.at)) continue;
+      try {
+        notifications.push({ at: occurrence.at, id: await scheduleOccurrence(occurrence, i18n) });
+      } catch (e) {
+        console.log('Could not schedule reminder:', e instanceof Error ? e.message : e);
+      }
+    }
+    synced.push({ ...reminder, notifications: notifications.sort((a, b) => a.at.localeCompare(b.at)) });
+  }
+  return synced;
+}
+
+/**
+ * Cancel scheduled notifications; ones that already fired or vanished are ignored
+ */
+export async function cancelReminderNotifications(notifications: Reminder['notifications']): Promise<void> {
+  if (isWeb) return;
+  for (const { id } of notifications) {
+    await Notifications.cancelScheduledNotificationAsync(id).catch((e) =>
+      console.log('Could not cancel reminder notification:', e?.message || e)
+    );
+  }
+}
+
+/**
+ * Call `open` with the screen of every tapped reminder notification, including the one
+ * that launched the app
+ * @returns Unsubscribe function
+ */
+export function onReminderNotificationOpened(open: (url: string) => void): () => void {
+  if (isWeb) return () => {};
+
+  const handle = (response: Notifications.NotificationResponse | null) => {
+    const data = response?.notification.request.content.data as Partial<ReminderNotificationData> | undefined;
+    const url = data?.url;
+    if (typeof url === 'string') open(url);
+  };
+
+  handle(Notifications.getLastNotificationResponse());
+  const subscription = Notifications.addNotificationResponseReceivedListener(handle);
+  return () => subscription.remove();
+}
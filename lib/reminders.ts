@@ -0,0 +1,219 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import type { MessageKey, Translator } from '@/lib/i18n';
+import { createId } from '@/lib/id';
+
+/**
+ * Treatment plans made from a diagnosis: recurring reminders for actions such as spraying
+ * or pruning, and a one-off follow-up to re-photograph the leaf. Reminders live in
+ * AsyncStorage; the next occurrences are also scheduled as local notifications.
+ */
+
+export type ReminderKind = 'treatment' | 'follow-up';
+
+export type TreatmentAction = 'spray' | 'prune' | 'remove-leaves' | 'fertilize' | 'other';
+
+export const TREATMENT_ACTIONS: { value: TreatmentAction; label: MessageKey }[] = [
+  { value: 'spray', label: 'treatmentAction.spray' },
+  { value: 'prune', label: 'treatmentAction.prune' },
+  { value: 'remove-leaves', label: 'treatmentAction.remove-leaves' },
+  { value: 'fertilize', label: 'treatmentAction.fertilize' },
+  { value: 'other', label: 'treatmentAction.other' },
+];
+
+export type Reminder = {
+  id: string;
+  /** Diagnosis the plan was made from */
+  recordId: string;
+  kind: ReminderKind;
+  /** What to do; null for follow-ups */
+  action: TreatmentAction | null;
+  /** Notification title and calendar entry, in the language chosen when the plan was made */
+  title: string;
+  /** Product, dose or other details from the user */
+  notes: string;
+  /** ISO timestamp of the first occurrence */
+  startsAt: string;
+  /** Days between occurrences */
+  intervalDays: number;
+  /** Number of occurrences; follow-ups have one */
+  occurrences: number;
+  /** Local notifications still scheduled, by occurrence timestamp */
+  notifications: { at: string; id: string }[];
+  /** ISO timestamps of occurrences marked as done */
+  completed: string[];
+  /** ISO timestamp */
+  createdAt: string;
+};
+
+/** One dated entry of a reminder, as listed on the calendar */
+export type ReminderOccurrence = {
+  reminder: Reminder;
+  /** ISO timestamp */
+  at: string;
+  /** 1-based position within the reminder's occurrences */
+  index: number;
+  done: boolean;
+};
+
+/** One recurring action of a plan being edited */
+export type TreatmentDraft = {
+  action: TreatmentAction;
+  notes: string;
+  intervalDays: number;
+  occurrences: number;
+};
+
+export type TreatmentPlanInput = {
+  recordId: string;
+  /** Disease name shown in the reminder titles */
+  diseaseName: string;
+  treatments: TreatmentDraft[];
+  /** Re-photograph the leaf this many days after the first treatment; null for no follow-up */
+  followUpDays: number | null;
+  /** First treatment day at the reminder time of day */
+  startsAt: Date;
+};
+
+export const MAX_OCCURRENCES = 12;
+export const MAX_INTERVAL_DAYS = 60;
+
+const STORAGE_KEY = 'reminders.v1';
+
+/**
+ * Default draft for the "Add action" button of the plan form
+ */
+export function createTreatmentDraft(action: TreatmentAction = 'spray'): TreatmentDraft {
+  return { action, notes: '', intervalDays: 7, occurrences: 3 };
+}
+
+export function treatmentActionLabel(action: TreatmentAction, { t }: Translator): string {
+  const key = TREATMENT_ACTIONS.find((a) => a.value === action)?.label;
+  return key ? t(key) : action;
+}
+
+/**
+ * Validation message for a plan being edited, or null if it can be saved
+ */
+export function validateTreatmentPlan(input: TreatmentPlanInput, { t }: Translator): string | null {
+  if (input.treatments.length === 0 && input.followUpDays === null) {
+    return t('plan.invalid.empty');
+  }
+  if (input.startsAt.getTime() <= Date.now()) {
+    return t('plan.invalid.past');
+  }
+  for (const treatment of input.treatments) {
+    if (treatment.action === 'other' && treatment.notes.trim().length === 0) return t('plan.invalid.other');
+  }
+  return null;
+}
+
+/**
+ * Reminders for a plan: one per treatment action, plus the follow-up
+ */
+export function createTreatmentPlan(input: TreatmentPlanInput, i18n: Translator): Reminder[] {
+  const createdAt = new Date().toISOString();
+  const base = { recordId: input.recordId, notifications: [], completed: [], createdAt };
+
+  const treatments: Reminder[] = input.treatments.map((t) => ({
+    ...base,
+    id: createId(),
+    kind: 'treatment',
+    action: t.action,
+    title: i18n.t('reminder.title', {
+      action: t.action === 'other' ? t.notes.trim() : treatmentActionLabel(t.action, i18n),
+      disease: input.diseaseName,
+    }),
+    notes: t.notes.trim(),
+    startsAt: input.startsAt.toISOString(),
+    intervalDays: clamp(t.intervalDays, 1, MAX_INTERVAL_DAYS),
+    occurrences: clamp(t.occurrences, 1, MAX_OCCURRENCES),
+  }));
+
+  if (input.followUpDays === null) return treatments;
+
+  const followUp: Reminder = {
+    ...base,
+    id: createId(),
+    kind: 'follow-up',
+    action: null,
+    title: i18n.t('reminder.followUpTitle', { disease: input.diseaseName }),
+    notes: '',
+    startsAt: addDays(input.startsAt, clamp(input.followUpDays, 1, MAX_INTERVAL_DAYS)).toISOString(),
+    intervalDays: 1,
+    occurrences: 1,
+  };
+  return [...treatments, followUp];
+}
+
+/**
+ * Every occurrence of a reminder, first to last
+ */
+export function reminderOccurrences(reminder: Reminder): ReminderOccurrence[] {
+  const start = new Date(reminder.startsAt);
+  return Array.from({ length: reminder.occurrences }, (_, i) => {
+    const at = addDays(start, i * reminder.intervalDays).toISOString();
+    return { reminder, at, index: i + 1, done: reminder.completed.includes(at) };
+  });
+}
+
+/**
+ * Occurrences of all reminders in [from, to), in date order
+ */
+export function occurrencesBetween(reminders: Reminder[], from: Date, to: Date): ReminderOccurrence[] {
+  return reminders
+    .flatMap(reminderOccurrences)
+    .filter((o) => {
+      const t = new Date(o.at).getTime();
+      return t >= from.getTime() && t < to.getTime();
+    })
+    .sort((a, b) => a.at.localeCompare(b.at));
+}
+
+/**
+ * Occurrences after `from` that are not done yet, soonest first
+ * @param limit - Maximum number of occurrences returned
+ */
+export function upcomingOccurrences(reminders: Reminder[], from: Date, limit: number): ReminderOccurrence[] {
+  return reminders
+    .flatMap(reminderOccurrences)
+    .filter((o) => !o.done && new Date(o.at).getTime() > from.getTime())
+    .sort((a, b) => a.at.localeCompare(b.at))
+    .slice(0, limit);
+}
+
+/**
+ * Local calendar day of a date, e.g. "2026-10-19", for grouping occurrences by day
+ */
+export function dayKey(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Same wall-clock time `days` later (DST changes keep the hour)
+ */
+export function addDays(date: Date, days: number): Date {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
+}
+
+export const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, Math.round(value)));
+
+export async function loadReminders(): Promise<Reminder[]> {
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_KEY);
+    const reminders = raw ? (JSON.parse(raw) as Reminder[]) : [];
+    return Array.isArray(reminders) ? reminders : [];
+  } catch (e: any) {
+    console.log('Could not load reminders:', e?.message || e);
+    return [];
+  }
+}
+
+export async function saveReminders(reminders: Reminder[]): Promise<void> {
+  await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(reminders));
+}
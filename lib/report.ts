@@ -0,0 +1,173 @@
+import { File, Paths } from 'expo-file-system';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+
+import { bandLabel, resultTitle, type ConfidenceBand } from '@/lib/confidence';
+import { correctedLabelName } from '@/lib/feedback';
+import { readDiagnosisImage, type DiagnosisRecord } from '@/lib/history';
+import { getTranslator } from '@/lib/i18n';
+import { PATHOGEN_LABELS, type KnowledgeEntry } from '@/lib/knowledge-base';
+import { confidenceToPercent } from '@/lib/labels';
+import type { PlantProfile } from '@/lib/plants';
+
+/**
+ * Self-contained diagnosis report (images embedded as data URIs) for sharing with
+ * extension officers and clients, exported as HTML or PDF.
+ */
+
+export type ReportFormat = 'pdf' | 'html';
+
+// The report text is English; label names come from the same table as the app
+const i18n = getTranslator('en');
+
+export type ReportInput = {
+  record: DiagnosisRecord;
+  /** Knowledge base entry for the predicted label, if there is one */
+  entry: KnowledgeEntry | null;
+  plant: PlantProfile | null;
+  /** Confidence band under the user's thresholds; rejected results get no disease name */
+  band: ConfidenceBand;
+};
+
+const isWeb = process.env.EXPO_OS === 'web';
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const formatPct = (value: number | null) => {
+  const pct = confidenceToPercent(value);
+  return pct === null ? '—' : `${pct.toFixed(0)}%`;
+};
+
+const list = (items: string[]) =>
+  items.length > 0 ? `<ul>${items.map((item) => `<li>${escapeHtml(item)}</li>`).join('')}</ul>` : '';
+
+async function imageDataUri(uri: string | null, mimeType: string): Promise<string | null> {
+  if (!uri) return null;
+  if (uri.startsWith('data:')) return uri;
+  try {
+    return `data:${mimeType};base64,${await readDiagnosisImage(uri)}`;
+  } catch (e: any) {
+    console.log('Could not read report image:', e?.message || e);
+    return null;
+  }
+}
+
+/**
+ * Render the report as a standalone HTML document
+ */
+export async function buildReportHtml({ record, entry, plant, band }: ReportInput): Promise<string> {
+  const title = escapeHtml(resultTitle(record, band, i18n));
+
+  const photo = await imageDataUri(record.imageUri, 'image/jpeg');
+  const gradcam = await imageDataUri(record.gradcamUri, 'image/png');
+
+  const figure = (src: string | null, caption: string) =>
+    src ? `<figure><img src="${src}" alt="${caption}" /><figcaption>${caption}</figcaption></figure>` : '';
+
+  const topK =
+    band !== 'reject' && record.topK && record.topK.length > 1
+      ? `<h2>Differential diagnosis</h2><table>${record.topK
+          .map(
+            (t, i) =>
+              `<tr><td>${i + 1}. ${escapeHtml(i18n.labelName(t.label))}</td><td class="num">${formatPct(t.probability)}</td></tr>`
+          )
+          .join('')}</table>`
+      : '';
+
+  const knowledge =
+    entry && band !== 'reject'
+      ? `<h2>About ${escapeHtml(entry.name)}</h2>
+        <p><strong>Crop:</strong> ${escapeHtml(entry.crop)} &nbsp; <strong>Cause:</strong> ${escapeHtml(i18n.t(PATHOGEN_LABELS[entry.pathogenType]))}</p>
+        <p>${escapeHtml(entry.severity)}</p>
+        <h3>Symptoms</h3>${list(entry.symptoms)}
+        <h3>Organic treatment</h3>${list(entry.treatment.organic)}
+        <h3>Chemical treatment</h3>${list(entry.treatment.chemical)}
+        <h3>Prevention</h3>${list(entry.prevention)}`
+      : '';
+
+  const corrected = record.feedback && correctedLabelName(record.feedback, i18n);
+
+  const plantInfo = plant
+    ? `<p><strong>Plant:</strong> ${escapeHtml(
+        [plant.name, plant.species, plant.location].filter(Boolean).join(' • ')
+      )}</p>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<title>Diagnosis – ${title}</title>
+<style>
+  body { font-family: -apple-system, Roboto, Helvetica, Arial, sans-serif; color: #0F172A; margin: 24px; }
+  h1 { color: #166534; margin-bottom: 4px; }
+  h1.uncertain { color: #B45309; }
+  h1.reject { color: #B91C1C; }
+  h2 { margin-top: 24px; border-bottom: 1px solid #E5E7EB; padding-bottom: 4px; }
+  .muted { color: #64748B; }
+  .corrected { color: #B45309; font-weight: bold; }
+  .images { display: flex; gap: 12px; flex-wrap: wrap; }
+  figure { margin: 0; flex: 1; min-width: 220px; }
+  img { width: 100%; border-radius: 8px; }
+  figcaption { color: #64748B; font-size: 12px; text-align: center; }
+  table { border-collapse: collapse; }
+  td { padding: 4px 12px 4px 0; }
+  .num { text-align: right; font-weight: bold; }
+  .notes { white-space: pre-wrap; }
+</style>
+</head>
+<body>
+  <h1 class="${band}">${title}</h1>
+  <p><strong>Confidence:</strong> ${formatPct(record.confidence)} (${bandLabel(band, i18n)})</p>
+  ${corrected ? `<p class="corrected">Corrected by the user to ${escapeHtml(corrected)}.</p>` : ''}
+  <p class="muted">${escapeHtml(new Date(record.createdAt).toLocaleString())} • ${escapeHtml(record.serverProfile.name)}</p>
+  ${plantInfo}
+  <div class="images">
+    ${figure(photo, 'Leaf photo')}
+    ${figure(gradcam, 'Grad-CAM: regions that influenced the prediction')}
+  </div>
+  ${topK}
+  ${record.notes.trim() ? `<h2>Notes</h2><p class="notes">${escapeHtml(record.notes)}</p>` : ''}
+  ${knowledge}
+  <p class="muted" style="margin-top: 32px">Generated by Plant Whisperer. Automated diagnoses can be wrong; confirm with an expert before treating.</p>
+</body>
+</html>`;
+}
+
+/**
+ * Build the report and hand it to the system share sheet
+ * @throws Error if sharing is not available on this device
+ */
+export async function shareReport(input: ReportInput, format: ReportFormat): Promise<void> {
+  const html = await buildReportHtml(input);
+  const title = `Diagnosis – ${resultTitle(input.record, input.band, i18n)}`;
+
+  // Browsers have no share sheet for files: print (save as PDF) or download the HTML
+  if (isWeb) {
+    if (format === 'pdf') {
+      await Print.printAsync({ html });
+    } else {
+      const url = URL.createObjectURL(new Blob([html], { type: 'text/html' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `diagnosis-${input.record.id}.html`;
+      link.click();
+      // The download has started by the next tick; the page no longer needs the copy
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+    }
+    return;
+  }
+  if (!(await Sharing.isAvailableAsync())) throw new Error('Sharing is not available on this device.');
+
+  if (format === 'pdf') {
+    const { uri } = await Print.printToFileAsync({ html });
+    await Sharing.shareAsync(uri, { mimeType: 'application/pdf', UTI: 'com.adobe.pdf', dialogTitle: title });
+    return;
+  }
+
+  const file = new File(Paths.cache, `diagnosis-${input.record.id}.html`);
+  file.write(html);
+  await Sharing.shareAsync(file.uri, { mimeType: 'text/html', UTI: 'public.html', dialogTitle: title });
+}
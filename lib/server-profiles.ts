@@ -0,0 +1,179 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+
+import type { ApiClientOptions } from '@/lib/api/client';
+import { apiAuthFor } from '@/lib/auth/session';
+import type { Translator } from '@/lib/i18n';
+import { createId } from '@/lib/id';
+
+/**
+ * Named prediction server configurations stored on the device.
+ * API keys are kept in the platform keychain through expo-secure-store and left out of the
+ * profile list in AsyncStorage. Browsers have no keychain; the web build keeps them in the list.
+ */
+
+export type ServerProfile = {
+  id: string;
+  /** Display name, e.g. "Production" or "Local" */
+  name: string;
+  /**
+   * Server origin without path, e.g. "https://13.62.8.232:5000". Plain HTTP only reaches
+   * servers from development builds on Android, and sign-in needs HTTPS.
+   */
+  baseUrl: string;
+  /** Sent as `X-API-Key` when set */
+  apiKey: string | null;
+  /** Request a Grad-CAM heatmap with every prediction */
+  includeGradcam: boolean;
+};
+
+export type ServerProfilesState = {
+  profiles: ServerProfile[];
+  activeId: string;
+};
+
+const STORAGE_KEY = 'serverProfiles.v1';
+const API_KEY_PREFIX = 'serverProfiles.apiKey.';
+
+const isWeb = process.env.EXPO_OS === 'web';
+
+// Secure store keys may only contain letters, digits, ".", "-" and "_"
+const apiKeyStorageKey = (profileId: string) => API_KEY_PREFIX + profileId.replace(/[^\w.-]/g, '_');
+
+// API keys in the secure store by profile id, as last read or written
+const storedApiKeys = new Map<string, string>();
+
+export const DEFAULT_PROFILES: ServerProfile[] = [
+  {
+    id: 'production',
+    name: 'Production',
+    baseUrl: 'https://13.62.8.232:5000',
+    apiKey: null,
+    includeGradcam: true,
+  },
+  {
+    id: 'local',
+    name: 'Local',
+    baseUrl: 'http://localhost:5000',
+    apiKey: null,
+    includeGradcam: true,
+  },
+];
+
+// Address of the built-in Production profile before the server moved to HTTPS
+const LEGACY_PRODUCTION_URL = 'http://13.62.8.232:5000';
+
+export const DEFAULT_PROFILES_STATE: ServerProfilesState = {
+  profiles: DEFAULT_PROFILES,
+  activeId: DEFAULT_PROFILES[0].id,
+};
+
+/**
+ * Empty profile for the "Add server" form
+ */
+export function createProfile(): ServerProfile {
+  return {
+    id: createId(),
+    name: 'New server',
+    baseUrl: 'http://',
+    apiKey: null,
+    includeGradcam: true,
+  };
+}
+
+/**
+ * Validation message for a profile being edited, or null if it can be saved
+ */
+export function validateProfile(profile: ServerProfile, { t }: Translator): string | null {
+  if (profile.name.trim().length === 0) return t('settingsError.name');
+  if (!/^https?:\/\/[^\s/]+/.test(profile.baseUrl.trim())) return t('settingsError.baseUrl');
+  return null;
+}
+
+/**
+ * Read saved profiles, falling back to the built-in defaults
+ */
+export async function loadProfiles(): Promise<ServerProfilesState> {
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_PROFILES_STATE;
+
+    const saved = JSON.parse(raw) as ServerProfilesState;
+    if (!Array.isArray(saved.profiles) || saved.profiles.length === 0) return DEFAULT_PROFILES_STATE;
+
+    // Saved copies of the built-in Production profile follow it to HTTPS
+    const upgraded = saved.profiles.map((p) =>
+      p.id === DEFAULT_PROFILES[0].id && p.baseUrl === LEGACY_PRODUCTION_URL
+        ? { ...p, baseUrl: DEFAULT_PROFILES[0].baseUrl }
+        : p
+    );
+    const activeExists = upgraded.some((p) => p.id === saved.activeId);
+    const state = { profiles: upgraded, activeId: activeExists ? saved.activeId : upgraded[0].id };
+    if (isWeb) return state;
+
+    const profiles = await Promise.all(state.profiles.map((p) => (p.apiKey ? p : readApiKey(p))));
+    // Earlier versions saved API keys in the list; move them to the secure store
+    if (state.profiles.some((p) => p.apiKey)) {
+      await saveProfiles({ ...state, profiles }).catch((e) =>
+        console.log('Could not move API keys to the secure store:', e?.message || e)
+      );
+    }
+    return { ...state, profiles };
+  } catch (e: any) {
+    console.log('Could not load server profiles:', e?.message || e);
+    return DEFAULT_PROFILES_STATE;
+  }
+}
+
+export async function saveProfiles(state: ServerProfilesState): Promise<void> {
+  if (isWeb) {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+    return;
+  }
+  await writeApiKeys(state.profiles);
+  const profiles = state.profiles.map((p) => ({ ...p, apiKey: null }));
+  await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify({ ...state, profiles }));
+}
+
+async function readApiKey(profile: ServerProfile): Promise<ServerProfile> {
+  try {
+    const apiKey = (await SecureStore.getItemAsync(apiKeyStorageKey(profile.id))) || null;
+    if (apiKey) storedApiKeys.set(profile.id, apiKey);
+    return { ...profile, apiKey };
+  } catch (e: any) {
+    console.log(`Could not load the API key of ${profile.name}:`, e?.message || e);
+    return { ...profile, apiKey: null };
+  }
+}
+
+/**
+ * Store changed API keys and delete those of profiles that were removed or cleared
+ */
+async function writeApiKeys(profiles: ServerProfile[]): Promise<void> {
+  const ids = new Set(profiles.map((p) => p.id));
+  for (const id of [...storedApiKeys.keys()]) {
+    if (ids.has(id)) continue;
+    storedApiKeys.delete(id);
+    await SecureStore.deleteItemAsync(apiKeyStorageKey(id));
+  }
+
+  for (const profile of profiles) {
+    const apiKey = profile.apiKey || null;
+    if ((storedApiKeys.get(profile.id) ?? null) === apiKey) continue;
+    if (apiKey) {
+      storedApiKeys.set(profile.id, apiKey);
+      await SecureStore.setItemAsync(apiKeyStorageKey(profile.id), apiKey);
+    } else {
+      storedApiKeys.delete(profile.id);
+      await SecureStore.deleteItemAsync(apiKeyStorageKey(profile.id));
+    }
+  }
+}
+
+/**
+ * API client options that target the given profile, signed in when the session is for its server
+ */
+export function profileApiOptions(profile: ServerProfile): Partial<ApiClientOptions> {
+  const baseUrl = profile.baseUrl.trim();
+  return { baseUrl, apiKey: profile.apiKey || null, auth: apiAuthFor(baseUrl) };
+}
@@ -0,0 +1,69 @@
+import type { DiagnosisRecord } from '@/lib/history';
+
+/**
+ * Contract between the sync engine and a cloud storage backend.
+ * Adapters store images in object storage and diagnosis records in a table,
+ * and must apply record writes with optimistic concurrency on `version`.
+ */
+
+/** Synced content of a diagnosis; local-only fields (file URIs, sync state) are excluded */
+export type DiagnosisPayload = Omit<DiagnosisRecord, 'id' | 'imageUri' | 'gradcamUri' | 'sync'>;
+
+export type RemoteDiagnosis = {
+  id: string;
+  /** Incremented by the backend on every successful write */
+  version: number;
+  /** Client timestamp of the last change, used for last-writer-wins conflict resolution */
+  modifiedAt: string;
+  /** Soft delete so other devices learn about the deletion on their next pull */
+  deleted: boolean;
+  /** Object storage path of the leaf photo */
+  imagePath: string | null;
+  /** Object storage path of the Grad-CAM overlay */
+  gradcamPath: string | null;
+  /** Record content; null for deleted records */
+  data: DiagnosisPayload | null;
+};
+
+/** Record to write; the backend assigns the new version */
+export type RemoteDiagnosisWrite = Omit<RemoteDiagnosis, 'version'>;
+
+export type PullResult = {
+  /** Records changed since the cursor, oldest change first */
+  records: RemoteDiagnosis[];
+  /** Cursor to pass to the next pull */
+  cursor: string | null;
+  /** True when more changes are waiting after this page */
+  hasMore: boolean;
+};
+
+/**
+ * Thrown by `putRecord` when the stored version differs from the expected one
+ */
+export class SyncConflictError extends Error {
+  constructor(
+    /** Record as currently stored by the backend, or null if it no longer exists */
+    readonly current: RemoteDiagnosis | null
+  ) {
+    super(`Sync conflict (remote version ${current?.version ?? 'missing'})`);
+    this.name = 'SyncConflictError';
+  }
+}
+
+export interface SyncStorageAdapter {
+  /** Stable identifier of the backend and account, used to key the pull cursor */
+  readonly id: string;
+  /** Upload base64 data and return the object path */
+  uploadFile(path: string, base64: string, contentType: string): Promise<string>;
+  /** Download an object as base64 */
+  downloadFile(path: string): Promise<string>;
+  deleteFile(path: string): Promise<void>;
+  /**
+   * Create or update a record.
+   * @param expectedVersion - Version the change is based on; null when creating
+   * @throws SyncConflictError if the stored version does not match
+   */
+  putRecord(record: RemoteDiagnosisWrite, expectedVersion: number | null): Promise<RemoteDiagnosis>;
+  /** Changes made after the cursor (null for a full pull) */
+  pullChanges(cursor: string | null): Promise<PullResult>;
+}
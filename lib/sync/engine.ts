@@ -0,0 +1,243 @@
+import {
+  readDiagnosisImage,
+  storeDiagnosisImage,
+  type DiagnosisRecord,
+  type HistoryTombstone,
+  type RecordSyncState,
+} from '@/lib/history';
+import {
+  SyncConflictError,
+  type DiagnosisPayload,
+  type RemoteDiagnosis,
+  type RemoteDiagnosisWrite,
+  type SyncStorageAdapter,
+} from '@/lib/sync/adapter';
+
+/**
+ * Incremental two-way sync of the diagnosis history.
+ *
+ * 1. Push: upload images of pending records, then write the record with the version it is based on.
+ * 2. Push deletions recorded as tombstones.
+ * 3. Pull: apply remote changes made after the saved cursor.
+ *
+ * Concurrent edits are resolved per record with last-writer-wins on `modifiedAt`;
+ * ties go to the backend so every device converges on the same copy.
+ */
+
+/** Access to the local history; every read returns the latest state */
+export type SyncLocalStore = {
+  records(): DiagnosisRecord[];
+  tombstones(): HistoryTombstone[];
+  /** Merge fields into an existing record */
+  patch(id: string, patch: Partial<DiagnosisRecord>): Promise<void>;
+  insert(record: DiagnosisRecord): Promise<void>;
+  /** Remove a record because it was deleted remotely (no tombstone) */
+  remove(id: string): Promise<void>;
+  dropTombstone(id: string): Promise<void>;
+  cursor(): string | null;
+  setCursor(cursor: string | null): Promise<void>;
+};
+
+export type SyncReport = {
+  pushed: number;
+  deleted: number;
+  pulled: number;
+  conflicts: number;
+  failed: number;
+};
+
+const payloadOf = ({ id, imageUri, gradcamUri, sync, ...payload }: DiagnosisRecord): DiagnosisPayload =>
+  payload;
+
+const syncedState = (remote: RemoteDiagnosis): RecordSyncState => ({
+  status: 'synced',
+  remoteVersion: remote.version,
+  imagePath: remote.imagePath,
+  gradcamPath: remote.gradcamPath,
+  error: null,
+});
+
+const errorMessage = (e: unknown) => (e instanceof Error ? e.message : String(e));
+
+export async function runSync(store: SyncLocalStore, adapter: SyncStorageAdapter): Promise<SyncReport> {
+  const report: SyncReport = { pushed: 0, deleted: 0, pulled: 0, conflicts: 0, failed: 0 };
+
+  /**
+   * Copy a remote record into local history, downloading images for records new to this device
+   */
+  const applyRemote = async (remote: RemoteDiagnosis) => {
+    const local = store.records().find((r) => r.id === remote.id);
+
+    if (remote.deleted || !remote.data) {
+      if (local) await store.remove(remote.id);
+      return;
+    }
+
+    if (local) {
+      // The Grad-CAM may have been added or replaced on another device
+      let gradcamUri = local.gradcamUri;
+      if (remote.gradcamPath && remote.gradcamPath !== local.sync.gradcamPath) {
+        const gradcamBase64 = await adapter.downloadFile(remote.gradcamPath);
+        gradcamUri = await storeDiagnosisImage(remote.id, 'gradcam.png', gradcamBase64, 'image/png');
+      }
+      await store.patch(remote.id, { ...remote.data, gradcamUri, sync: syncedState(remote) });
+      return;
+    }
+
+    if (!remote.imagePath) return;
+    const imageBase64 = await adapter.downloadFile(remote.imagePath);
+    const gradcamBase64 = remote.gradcamPath ? await adapter.downloadFile(remote.gradcamPath) : null;
+
+    await store.insert({
+      ...remote.data,
+      id: remote.id,
+      imageUri: await storeDiagnosisImage(remote.id, 'image.jpg', imageBase64, 'image/jpeg'),
+      gradcamUri: gradcamBase64
+        ? await storeDiagnosisImage(remote.id, 'gradcam.png', gradcamBase64, 'image/png')
+        : null,
+      sync: syncedState(remote),
+    });
+  };
+
+  /**
+   * Write a record, resolving a version conflict once with last-writer-wins
+   * @returns The stored record, or null if the remote copy won and was applied locally
+   */
+  const writeWithConflictResolution = async (
+    write: RemoteDiagnosisWrite,
+    expectedVersion: number | null
+  ): Promise<RemoteDiagnosis | null> => {
+    try {
+      return await adapter.putRecord(write, expectedVersion);
+    } catch (e) {
+      if (!(e instanceof SyncConflictError)) throw e;
+      report.conflicts++;
+
+      const current = e.current;
+      if (current && current.modifiedAt >= write.modifiedAt) {
+        await applyRemote(current);
+        return null;
+      }
+      // Our change is newer (or the remote record vanished): overwrite on top of the current version
+      return adapter.putRecord(write, current?.version ?? null);
+    }
+  };
+
+  // 1. Push new and edited records
+  for (const record of store.records().filter((r) => r.sync.status !== 'synced')) {
+    await store.patch(record.id, { sync: { ...record.sync, status: 'syncing', error: null } });
+    try {
+      const imagePath =
+        record.sync.imagePath ??
+        (await adapter.uploadFile(
+          `${record.id}/image.jpg`,
+          await readDiagnosisImage(record.imageUri),
+          'image/jpeg'
+        ));
+      const gradcamPath =
+        record.sync.gradcamPath ??
+        (record.gradcamUri
+          ? await adapter.uploadFile(
+              `${record.id}/gradcam.png`,
+              await readDiagnosisImage(record.gradcamUri),
+              'image/png'
+            )
+          : null);
+
+      const stored = await writeWithConflictResolution(
+        {
+          id: record.id,
+          modifiedAt: record.modifiedAt,
+          deleted: false,
+          imagePath,
+          gradcamPath,
+          data: payloadOf(record),
+        },
+        record.sync.remoteVersion
+      );
+
+      if (stored) {
+        // The record may have been edited while we were uploading; keep it pending then
+        const latest = store.records().find((r) => r.id === record.id);
+        if (latest) {
+          const state = syncedState(stored);
+          await store.patch(record.id, {
+            sync: latest.modifiedAt === record.modifiedAt ? state : { ...state, status: 'pending' },
+          });
+        }
+        report.pushed++;
+      }
+    } catch (e) {
+      report.failed++;
+      console.log('Sync push failed:', record.id, errorMessage(e));
+      if (store.records().some((r) => r.id === record.id)) {
+        await store.patch(record.id, {
+          sync: { ...record.sync, status: 'error', error: errorMessage(e) },
+        });
+      }
+    }
+  }
+
+  // 2. Push deletions
+  for (const tombstone of store.tombstones()) {
+    try {
+      const stored = await writeWithConflictResolution(
+        {
+          id: tombstone.id,
+          modifiedAt: tombstone.deletedAt,
+          deleted: true,
+          imagePath: null,
+          gradcamPath: null,
+          data: null,
+        },
+        tombstone.remoteVersion
+      );
+      if (stored) {
+        // Images are no longer referenced by any device
+        for (const path of [tombstone.imagePath, tombstone.gradcamPath]) {
+          if (path) await adapter.deleteFile(path).catch(() => undefined);
+        }
+        report.deleted++;
+      }
+      await store.dropTombstone(tombstone.id);
+    } catch (e) {
+      report.failed++;
+      console.log('Sync delete failed:', tombstone.id, errorMessage(e));
+    }
+  }
+
+  // 3. Pull remote changes page by page
+  let cursor = store.cursor();
+  for (;;) {
+    const page = await adapter.pullChanges(cursor);
+    let pageFailed = false;
+
+    for (const remote of page.records) {
+      const local = store.records().find((r) => r.id === remote.id);
+
+      // Already up to date (typically our own push)
+      if (local && local.sync.remoteVersion === remote.version) continue;
+      // Unpushed local edit that is newer: it wins on the next push
+      if (local && local.sync.status !== 'synced' && local.modifiedAt > remote.modifiedAt) continue;
+      // Deleted here after the remote change: the tombstone push takes care of it
+      if (store.tombstones().some((t) => t.id === remote.id)) continue;
+
+      try {
+        await applyRemote(remote);
+        report.pulled++;
+      } catch (e) {
+        report.failed++;
+        pageFailed = true;
+        console.log('Sync pull failed:', remote.id, errorMessage(e));
+      }
+    }
+
+    // Keep the old cursor so failed records are pulled again next time
+    if (pageFailed) break;
+    cursor = page.cursor;
+    await store.setCursor(cursor);
+    if (!page.hasMore) break;
+  }
+
+  return report;
+}
@@ -0,0 +1,75 @@
+import {
+  SyncConflictError,
+  type PullResult,
+  type RemoteDiagnosis,
+  type RemoteDiagnosisWrite,
+  type SyncStorageAdapter,
+} from '@/lib/sync/adapter';
+
+/**
+ * Backend state kept in JS memory. Shared by every adapter created in this session,
+ * so "remote" data survives re-creating the adapter but not an app restart.
+ */
+type MemoryBackend = {
+  files: Map<string, string>;
+  records: Map<string, RemoteDiagnosis & { seq: number }>;
+  seq: number;
+};
+
+const backend: MemoryBackend = { files: new Map(), records: new Map(), seq: 0 };
+
+const PAGE_SIZE = 100;
+
+/**
+ * In-memory sync backend for development and demos
+ */
+export function createMemoryAdapter(): SyncStorageAdapter {
+  return {
+    id: 'memory',
+
+    async uploadFile(path, base64) {
+      backend.files.set(path, base64);
+      return path;
+    },
+
+    async downloadFile(path) {
+      const data = backend.files.get(path);
+      if (data === undefined) throw new Error(`File not found: ${path}`);
+      return data;
+    },
+
+    async deleteFile(path) {
+      backend.files.delete(path);
+    },
+
+    async putRecord(record: RemoteDiagnosisWrite, expectedVersion) {
+      const existing = backend.records.get(record.id);
+      const currentVersion = existing?.version ?? null;
+      if (currentVersion !== expectedVersion) {
+        throw new SyncConflictError(existing ? stripSeq(existing) : null);
+      }
+
+      const stored = { ...record, version: (currentVersion ?? 0) + 1, seq: ++backend.seq };
+      backend.records.set(record.id, stored);
+      return stripSeq(stored);
+    },
+
+    async pullChanges(cursor): Promise<PullResult> {
+      const after = cursor ? Number(cursor) : 0;
+      const changed = [...backend.records.values()]
+        .filter((r) => r.seq > after)
+        .sort((a, b) => a.seq - b.seq);
+      const page = changed.slice(0, PAGE_SIZE);
+
+      return {
+        records: page.map(stripSeq),
+        cursor: page.length > 0 ? String(page[page.length - 1].seq) : cursor,
+        hasMore: changed.length > page.length,
+      };
+    },
+  };
+}
+
+function stripSeq({ seq, ...record }: RemoteDiagnosis & { seq: number }): RemoteDiagnosis {
+  return record;
+}
@@ -0,0 +1,96 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import type { MessageKey, Translator } from '@/lib/i18n';
+import type { SyncStorageAdapter } from '@/lib/sync/adapter';
+import { createMemoryAdapter } from '@/lib/sync/memory-adapter';
+import { createSupabaseAdapter } from '@/lib/sync/supabase-adapter';
+
+/**
+ * Cloud sync configuration stored on the device.
+ */
+
+export type SyncBackend = 'off' | 'memory' | 'supabase';
+
+export type SyncSettings = {
+  backend: SyncBackend;
+  supabaseUrl: string;
+  supabaseAnonKey: string;
+  table: string;
+  bucket: string;
+  /** Shared by all devices of one user; records are partitioned by it */
+  ownerId: string;
+};
+
+const SETTINGS_KEY = 'syncSettings.v1';
+const CURSOR_KEY_PREFIX = 'syncCursor.v1:';
+
+export const DEFAULT_SYNC_SETTINGS: SyncSettings = {
+  backend: 'off',
+  supabaseUrl: '',
+  supabaseAnonKey: '',
+  table: 'diagnoses',
+  bucket: 'diagnosis-images',
+  ownerId: '',
+};
+
+export async function loadSyncSettings(): Promise<SyncSettings> {
+  try {
+    const raw = await AsyncStorage.getItem(SETTINGS_KEY);
+    return raw ? { ...DEFAULT_SYNC_SETTINGS, ...JSON.parse(raw) } : DEFAULT_SYNC_SETTINGS;
+  } catch (e: any) {
+    console.log('Could not load sync settings:', e?.message || e);
+    return DEFAULT_SYNC_SETTINGS;
+  }
+}
+
+export async function saveSyncSettings(settings: SyncSettings): Promise<void> {
+  await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
+
+/**
+ * Message describing what is wrong with the sync settings, or null if they can be used
+ */
+function findSyncSettingsProblem(settings: SyncSettings): MessageKey | null {
+  if (settings.backend !== 'supabase') return null;
+  // The anon key and the user's records go to this URL
+  if (!/^https:\/\/\S+$/.test(settings.supabaseUrl.trim())) return 'settingsError.supabaseUrl';
+  if (!settings.supabaseAnonKey.trim()) return 'settingsError.anonKey';
+  if (!settings.ownerId.trim()) return 'settingsError.syncId';
+  if (!settings.table.trim() || !settings.bucket.trim()) return 'settingsError.tableBucket';
+  return null;
+}
+
+/**
+ * Validation message for the sync settings form, or null if they can be used
+ */
+export function validateSyncSettings(settings: SyncSettings, { t }: Translator): string | null {
+  const problem = findSyncSettingsProblem(settings);
+  return problem && t(problem);
+}
+
+/**
+ * Adapter for the configured backend, or null when sync is off or misconfigured
+ */
+export function createSyncAdapter(settings: SyncSettings): SyncStorageAdapter | null {
+  if (settings.backend === 'memory') return createMemoryAdapter();
+  if (settings.backend === 'supabase' && findSyncSettingsProblem(settings) === null) {
+    return createSupabaseAdapter({
+      url: settings.supabaseUrl.trim(),
+      anonKey: settings.supabaseAnonKey.trim(),
+      table: settings.table.trim(),
+      bucket: settings.bucket.trim(),
+      ownerId: settings.ownerId.trim(),
+    });
+  }
+  return null;
+}
+
+/** Pull cursors are kept per adapter so switching backends starts with a full pull */
+export async function loadSyncCursor(adapterId: string): Promise<string | null> {
+  return AsyncStorage.getItem(CURSOR_KEY_PREFIX + adapterId);
+}
+
+export async function saveSyncCursor(adapterId: string, cursor: string | null): Promise<void> {
+  if (cursor === null) await AsyncStorage.removeItem(CURSOR_KEY_PREFIX + adapterId);
+  else await AsyncStorage.setItem(CURSOR_KEY_PREFIX + adapterId, cursor);
+}
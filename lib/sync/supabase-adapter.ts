@@ -0,0 +1,204 @@
+import { requestJson } from '@/lib/api/client';
+import { ApiHttpError, ApiPayloadError, ApiTransportError } from '@/lib/api/errors';
+import { base64ToBytes, bytesToBase64 } from '@/lib/base64';
+import {
+  SyncConflictError,
+  type DiagnosisPayload,
+  type PullResult,
+  type RemoteDiagnosis,
+  type RemoteDiagnosisWrite,
+  type SyncStorageAdapter,
+} from '@/lib/sync/adapter';
+
+/**
+ * Sync backend on Supabase: Storage for images, a Postgres table (via PostgREST) for records.
+ *
+ * Expected table:
+ *   create table diagnoses (
+ *     id uuid primary key,
+ *     owner_id text not null,
+ *     version integer not null,
+ *     modified_at timestamptz not null,
+ *     deleted boolean not null default false,
+ *     image_path text,
+ *     gradcam_path text,
+ *     data jsonb,
+ *     synced_at timestamptz not null default now()
+ *   );
+ * with a trigger that sets `synced_at = clock_timestamp()` on every insert and update,
+ * so pulls can page through changes in server order.
+ */
+
+export type SupabaseConfig = {
+  /** Project URL, e.g. "https://abcd.supabase.co" */
+  url: string;
+  /** Public anon key (or a user access token once accounts exist) */
+  anonKey: string;
+  table: string;
+  bucket: string;
+  /** Partition key shared by all devices of one user */
+  ownerId: string;
+};
+
+type Row = {
+  id: string;
+  owner_id: string;
+  version: number;
+  modified_at: string;
+  deleted: boolean;
+  image_path: string | null;
+  gradcam_path: string | null;
+  data: DiagnosisPayload | null;
+  synced_at: string;
+};
+
+const PAGE_SIZE = 200;
+
+function toRemote(row: Row): RemoteDiagnosis {
+  return {
+    id: row.id,
+    version: row.version,
+    // Postgres writes timestamptz as "2026-01-02 03:04:05.12+00:00"; the engine compares ISO strings
+    modifiedAt: new Date(row.modified_at).toISOString(),
+    deleted: row.deleted,
+    imagePath: row.image_path,
+    gradcamPath: row.gradcam_path,
+    data: row.data,
+  };
+}
+
+function parseRows(data: unknown): Row[] {
+  if (!Array.isArray(data)) throw new ApiPayloadError(['expected an array of rows']);
+  return data as Row[];
+}
+
+/**
+ * Supabase-backed sync adapter using the REST endpoints directly (no SDK)
+ */
+export function createSupabaseAdapter(config: SupabaseConfig): SyncStorageAdapter {
+  const baseUrl = config.url.replace(/\/+$/, '');
+  const authHeaders = {
+    apikey: config.anonKey,
+    Authorization: `Bearer ${config.anonKey}`,
+  };
+  const api = { baseUrl, apiKey: null };
+  const tablePath = `/rest/v1/${encodeURIComponent(config.table)}`;
+  const objectPath = (path: string) => `/storage/v1/object/${config.bucket}/${path}`;
+
+  const fetchRecord = async (id: string): Promise<RemoteDiagnosis | null> => {
+    const rows = await requestJson(
+      `${tablePath}?id=eq.${id}&owner_id=eq.${encodeURIComponent(config.ownerId)}`,
+      { method: 'GET', headers: authHeaders },
+      parseRows,
+      api
+    );
+    return rows.length > 0 ? toRemote(rows[0]) : null;
+  };
+
+  return {
+    id: `supabase:${baseUrl}/${config.table}/${config.ownerId}`,
+
+    async uploadFile(path, base64, contentType) {
+      const fullPath = `${config.ownerId}/${path}`;
+      await requestJson(
+        objectPath(fullPath),
+        {
+          method: 'POST',
+          headers: { ...authHeaders, 'Content-Type': contentType, 'x-upsert': 'true' },
+          body: base64ToBytes(base64) as BodyInit,
+        },
+        (data) => data,
+        api
+      );
+      return fullPath;
+    },
+
+    async downloadFile(path) {
+      let res: Response;
+      try {
+        res = await fetch(`${baseUrl}/storage/v1/object/authenticated/${config.bucket}/${path}`, {
+          headers: authHeaders,
+        });
+      } catch (e) {
+        throw new ApiTransportError(e);
+      }
+      if (!res.ok) throw new ApiHttpError(res.status, null);
+      return bytesToBase64(new Uint8Array(await res.arrayBuffer()));
+    },
+
+    async deleteFile(path) {
+      await requestJson(
+        `/storage/v1/object/${config.bucket}`,
+        {
+          method: 'DELETE',
+          headers: { ...authHeaders, 'Content-Type': 'application/json' },
+          body: JSON.stringify({ prefixes: [path] }),
+        },
+        (data) => data,
+        api
+      );
+    },
+
+    async putRecord(record: RemoteDiagnosisWrite, expectedVersion) {
+      const row = {
+        id: record.id,
+        owner_id: config.ownerId,
+        version: (expectedVersion ?? 0) + 1,
+        modified_at: record.modifiedAt,
+        deleted: record.deleted,
+        image_path: record.imagePath,
+        gradcam_path: record.gradcamPath,
+        data: record.data,
+      };
+      const headers = {
+        ...authHeaders,
+        'Content-Type': 'application/json',
+        Prefer: 'return=representation',
+      };
+
+      try {
+        const rows =
+          expectedVersion === null
+            ? await requestJson(tablePath, { method: 'POST', headers, body: JSON.stringify(row) }, parseRows, api)
+            : // Conditional update: matches nothing if another device wrote in between
+              await requestJson(
+                `${tablePath}?id=eq.${record.id}&version=eq.${expectedVersion}`,
+                { method: 'PATCH', headers, body: JSON.stringify(row) },
+                parseRows,
+                api
+              );
+
+        if (rows.length === 0) throw new SyncConflictError(await fetchRecord(record.id));
+        return toRemote(rows[0]);
+      } catch (e) {
+        // Duplicate primary key: the record was created elsewhere first
+        if (e instanceof ApiHttpError && e.status === 409) {
+          throw new SyncConflictError(await fetchRecord(record.id));
+        }
+        throw e;
+      }
+    },
+
+    async pullChanges(cursor): Promise<PullResult> {
+      const filters = [
+        `owner_id=eq.${encodeURIComponent(config.ownerId)}`,
+        cursor ? `synced_at=gt.${encodeURIComponent(cursor)}` : null,
+        'order=synced_at.asc',
+        `limit=${PAGE_SIZE}`,
+      ].filter(Boolean);
+
+      const rows = await requestJson(
+        `${tablePath}?${filters.join('&')}`,
+        { method: 'GET', headers: authHeaders },
+        parseRows,
+        api
+      );
+
+      return {
+        records: rows.map(toRemote),
+        cursor: rows.length > 0 ? rows[rows.length - 1].synced_at : cursor,
+        hasMore: rows.length === PAGE_SIZE,
+      };
+    },
+  };
+}
@@ -0,0 +1,30 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+/**
+ * Light/dark appearance chosen in Settings, stored on the device.
+ * "system" follows the device setting.
+ */
+
+export type ThemePreference = 'system' | 'light' | 'dark';
+
+export const THEME_PREFERENCES: { value: ThemePreference; label: string }[] = [
+  { value: 'system', label: 'System' },
+  { value: 'light', label: 'Light' },
+  { value: 'dark', label: 'Dark' },
+];
+
+const PREFERENCE_KEY = 'themePreference.v1';
+
+export async function loadThemePreference(): Promise<ThemePreference> {
+  try {
+    const raw = await AsyncStorage.getItem(PREFERENCE_KEY);
+    return raw === 'light' || raw === 'dark' ? raw : 'system';
+  } catch (e: any) {
+    console.log('Could not load theme preference:', e?.message || e);
+    return 'system';
+  }
+}
+
+export async function saveThemePreference(preference: ThemePreference): Promise<void> {
+  await AsyncStorage.setItem(PREFERENCE_KEY, preference);
+}